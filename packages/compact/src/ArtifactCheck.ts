@@ -0,0 +1,100 @@
+import type { Dirent } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, sep } from 'node:path';
+import type { ArtifactDrift } from './types/report.ts';
+
+/** Artifact subdirectories compared by default, as compactc writes them deterministically */
+export const CHECKED_DIRS: readonly string[] = ['contract', 'compiler'];
+/** Artifact subdirectories holding circuits and key material, compared on request */
+export const KEY_DIRS: readonly string[] = ['zkir', 'keys'];
+
+/**
+ * Compares the files of two artifact directories of the same source.
+ *
+ * Both directories must sit at the same depth: source maps reference the
+ * source through a path relative to the artifact directory, so artifacts
+ * compiled elsewhere differ in `contract/index.cjs.map` only.
+ *
+ * @param generatedDir - Artifact directory with freshly compiled artifacts
+ * @param committedDir - Artifact directory with the committed artifacts
+ * @param dirs - Artifact subdirectories to compare (defaults to {@link CHECKED_DIRS})
+ * @returns Promise resolving to the missing, stale and changed files
+ * @example
+ * ```typescript
+ * await compareArtifacts('.artifacts-check-x/Token', 'artifacts/Token');
+ * // Returns: { missing: [], stale: [], changed: ['contract/index.cjs'] }
+ * ```
+ */
+export async function compareArtifacts(
+  generatedDir: string,
+  committedDir: string,
+  dirs: readonly string[] = CHECKED_DIRS,
+): Promise<Pick<ArtifactDrift, 'missing' | 'stale' | 'changed'>> {
+  const missing: string[] = [];
+  const stale: string[] = [];
+  const changed: string[] = [];
+
+  for (const dir of dirs) {
+    const generated = await listFiles(generatedDir, dir);
+    const committed = new Set(await listFiles(committedDir, dir));
+
+    for (const path of generated) {
+      if (!committed.delete(path)) {
+        missing.push(path);
+      } else if (
+        !(await readFile(join(generatedDir, path))).equals(
+          await readFile(join(committedDir, path)),
+        )
+      ) {
+        changed.push(path);
+      }
+    }
+    stale.push(...committed);
+  }
+
+  return { missing, stale, changed };
+}
+
+/**
+ * Checks whether a comparison found any difference.
+ *
+ * @param drift - Result of {@link compareArtifacts}
+ * @returns Whether files are missing, stale or changed
+ */
+export function hasDrift(
+  drift: Pick<ArtifactDrift, 'missing' | 'stale' | 'changed'>,
+): boolean {
+  return (
+    drift.missing.length > 0 ||
+    drift.stale.length > 0 ||
+    drift.changed.length > 0
+  );
+}
+
+/**
+ * Lists the files under a subdirectory of an artifact directory recursively.
+ *
+ * @param root - Artifact directory
+ * @param dir - Subdirectory to list, relative to `root`
+ * @returns Promise resolving to the file paths relative to `root` with `/`
+ * separators, sorted; empty if the directory does not exist
+ */
+async function listFiles(root: string, dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(join(root, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(root, path)));
+    } else if (entry.isFile()) {
+      files.push(path.split(sep).join('/'));
+    }
+  }
+  return files.sort();
+}
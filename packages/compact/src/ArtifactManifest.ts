@@ -0,0 +1,312 @@
+import { createHash } from 'node:crypto';
+import { type Dirent, existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { type ArtifactLayout, getArtifactDir } from './utils/artifacts.ts';
+
+/** Name of the artifact manifest written into the artifacts directory */
+export const ARTIFACT_MANIFEST_FILE: string = 'manifest.json';
+/** Bumped whenever the manifest layout changes */
+const ARTIFACT_MANIFEST_VERSION = 1;
+/** Artifact subdirectories whose files are hashed */
+const HASHED_DIRS: readonly string[] = ['contract', 'zkir', 'keys'];
+/** Circuit descriptions written by compactc into each artifact directory */
+const CONTRACT_INFO_FILE: string = join('compiler', 'contract-info.json');
+
+/**
+ * A type as described by compactc in `compiler/contract-info.json`, e.g.
+ * `{ "type-name": "Bytes", "length": 32 }`.
+ */
+export type ContractInfoType = {
+  'type-name': string;
+  [property: string]: unknown;
+};
+
+/**
+ * A circuit of a compiled contract.
+ *
+ * @interface ManifestCircuit
+ * @prop {string} name Name of the circuit
+ * @prop {boolean} pure Whether the circuit is pure
+ * @prop {string} signature Compact signature, e.g. `transfer(to: Bytes<32>, amount: Uint<128>): []`
+ * @prop {{ name: string; type: ContractInfoType }[]} arguments Arguments as described by compactc
+ * @prop {ContractInfoType} resultType Result type as described by compactc
+ */
+export interface ManifestCircuit {
+  name: string;
+  pure: boolean;
+  signature: string;
+  arguments: { name: string; type: ContractInfoType }[];
+  resultType: ContractInfoType;
+}
+
+/**
+ * Describes the artifacts compiled from one source.
+ *
+ * @interface ManifestEntry
+ * @prop {string} source Path of the .compact file relative to the source directory
+ * @prop {string} artifactDir Artifact directory relative to the artifacts directory
+ * @prop {string} flags Flags passed to compactc
+ * @prop {string} toolchainVersion Version of the toolchain that compiled the source
+ * @prop {Record<string, string>} files sha256 of every file under `contract/`,
+ * `zkir/` and `keys/`, keyed by path relative to the artifact directory
+ * @prop {ManifestCircuit[]} circuits Circuits of the contract, from `compiler/contract-info.json`
+ */
+export interface ManifestEntry {
+  source: string;
+  artifactDir: string;
+  flags: string;
+  toolchainVersion: string;
+  files: Record<string, string>;
+  circuits: ManifestCircuit[];
+}
+
+/**
+ * Shape of the artifact manifest persisted in the artifacts directory.
+ *
+ * @interface Manifest
+ * @prop {number} version Manifest layout version
+ * @prop {ManifestEntry[]} contracts One entry per compiled source, sorted by source
+ */
+export interface Manifest {
+  version: number;
+  contracts: ManifestEntry[];
+}
+
+/**
+ * Formats a compactc type description as Compact source.
+ *
+ * @param type - Type as described in `compiler/contract-info.json`
+ * @returns The type in Compact syntax, e.g. `Bytes<32>` or `Uint<64>`
+ */
+export function formatType(type: ContractInfoType): string {
+  switch (type['type-name']) {
+    case 'Bytes':
+      return `Bytes<${type.length}>`;
+    case 'Uint': {
+      const maxval = Number(type.maxval);
+      const bits = Math.log2(maxval + 1);
+      return Number.isInteger(bits) ? `Uint<${bits}>` : `Uint<0..${maxval}>`;
+    }
+    case 'Vector':
+      return `Vector<${type.length}, ${formatType(type.type as ContractInfoType)}>`;
+    case 'Tuple':
+      return `[${(type.types as ContractInfoType[]).map(formatType).join(', ')}]`;
+    case 'Opaque':
+      return `Opaque<"${type.tsType}">`;
+    case 'Struct':
+    case 'Enum':
+      return String(type.name);
+    default:
+      return type['type-name'];
+  }
+}
+
+/**
+ * Keeps `artifacts/manifest.json` describing what every artifact directory
+ * contains, so that consumers of the artifacts do not have to inspect them.
+ * Entries of sources compiled in earlier runs are kept as long as their
+ * artifact directory exists, so affected-only and cached runs keep the
+ * manifest complete.
+ *
+ * @class ArtifactManifest
+ * @example
+ * ```typescript
+ * const manifest = new ArtifactManifest('artifacts');
+ * await manifest.load();
+ * await manifest.update('token/Token.compact', '--skip-zk', '0.25.0');
+ * await manifest.save();
+ * ```
+ */
+export class ArtifactManifest {
+  private readonly artifactsDir: string;
+  private readonly layout: ArtifactLayout;
+  private entries = new Map<string, ManifestEntry>();
+
+  /**
+   * Creates a new ArtifactManifest instance.
+   *
+   * @param artifactsDir - Directory holding the compiled artifacts and the manifest
+   * @param layout - Layout of the artifacts directory (defaults to `flat`)
+   */
+  constructor(artifactsDir: string, layout: ArtifactLayout = 'flat') {
+    this.artifactsDir = artifactsDir;
+    this.layout = layout;
+  }
+
+  /** Path of the manifest file */
+  get manifestPath(): string {
+    return join(this.artifactsDir, ARTIFACT_MANIFEST_FILE);
+  }
+
+  /**
+   * Loads the manifest from disk. A missing, unreadable or outdated manifest
+   * is treated as an empty one.
+   */
+  async load(): Promise<void> {
+    try {
+      const manifest: Manifest = JSON.parse(
+        await readFile(this.manifestPath, 'utf8'),
+      );
+      this.entries = new Map(
+        manifest.version === ARTIFACT_MANIFEST_VERSION
+          ? manifest.contracts.map((entry) => [entry.source, entry])
+          : [],
+      );
+    } catch {
+      this.entries = new Map();
+    }
+  }
+
+  /**
+   * Writes the manifest to disk, dropping entries whose artifact directory
+   * no longer exists.
+   */
+  async save(): Promise<void> {
+    const contracts = [...this.entries.values()]
+      .filter((entry) =>
+        existsSync(join(this.artifactsDir, ...entry.artifactDir.split('/'))),
+      )
+      .sort((a, b) => a.source.localeCompare(b.source));
+    const manifest: Manifest = {
+      version: ARTIFACT_MANIFEST_VERSION,
+      contracts,
+    };
+    await mkdir(this.artifactsDir, { recursive: true });
+    await writeFile(
+      this.manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+  }
+
+  /**
+   * Returns the recorded entry of a source.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   * @returns The entry, or `undefined` if the source is not in the manifest
+   */
+  get(file: string): ManifestEntry | undefined {
+    return this.entries.get(toPosix(file));
+  }
+
+  /**
+   * Describes the current artifacts of a compiled source.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   * @param flags - Flags the source was compiled with
+   * @param toolchainVersion - Version of the toolchain the source was compiled with
+   * @returns Promise resolving to the updated entry
+   * @throws {Error} If `compiler/contract-info.json` is not valid JSON
+   */
+  async update(
+    file: string,
+    flags: string,
+    toolchainVersion: string,
+  ): Promise<ManifestEntry> {
+    const outputDir = getArtifactDir(file, this.artifactsDir, this.layout);
+    const entry: ManifestEntry = {
+      source: toPosix(file),
+      artifactDir: toPosix(relative(this.artifactsDir, outputDir)),
+      flags,
+      toolchainVersion,
+      files: await this.hashArtifacts(outputDir),
+      circuits: await this.readCircuits(outputDir),
+    };
+    this.entries.set(entry.source, entry);
+    return entry;
+  }
+
+  /**
+   * Hashes the files under the hashed subdirectories of an artifact directory.
+   *
+   * @param outputDir - Artifact directory of a source
+   * @returns Promise resolving to the sha256 of every file, sorted by path
+   */
+  private async hashArtifacts(
+    outputDir: string,
+  ): Promise<Record<string, string>> {
+    const files: Record<string, string> = {};
+    for (const dir of HASHED_DIRS) {
+      for (const path of await listFiles(join(outputDir, dir))) {
+        const contents = await readFile(path);
+        files[toPosix(relative(outputDir, path))] = createHash('sha256')
+          .update(contents)
+          .digest('hex');
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Reads the circuits of a contract from `compiler/contract-info.json`.
+   *
+   * @param outputDir - Artifact directory of a source
+   * @returns Promise resolving to the circuits, or none if compactc wrote no
+   * contract info
+   * @throws {Error} If the contract info is not valid JSON
+   */
+  private async readCircuits(outputDir: string): Promise<ManifestCircuit[]> {
+    let contents: string;
+    try {
+      contents = await readFile(join(outputDir, CONTRACT_INFO_FILE), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const info: {
+      circuits?: {
+        name: string;
+        pure: boolean;
+        arguments: { name: string; type: ContractInfoType }[];
+        'result-type': ContractInfoType;
+      }[];
+    } = JSON.parse(contents);
+
+    return (info.circuits ?? []).map((circuit) => ({
+      name: circuit.name,
+      pure: circuit.pure,
+      signature: `${circuit.name}(${circuit.arguments
+        .map((argument) => `${argument.name}: ${formatType(argument.type)}`)
+        .join(', ')}): ${formatType(circuit['result-type'])}`,
+      arguments: circuit.arguments,
+      resultType: circuit['result-type'],
+    }));
+  }
+}
+
+/**
+ * Lists the files under a directory recursively.
+ *
+ * @param dir - Directory to list
+ * @returns Promise resolving to the file paths, sorted; empty if the
+ * directory does not exist
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Converts a relative path to `/` separators, as used in the manifest.
+ *
+ * @param path - Relative path
+ * @returns The path with `/` separators
+ */
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
@@ -1,24 +1,60 @@
 #!/usr/bin/env node
 
 import { exec } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { copyFile, cp, mkdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
 import { promisify } from 'node:util';
 import chalk from 'chalk';
-import ora, { type Ora } from 'ora';
 import { CompactCompiler } from './Compiler.js';
-import { isPromisifiedChildProcessError } from './types/errors.js';
+import { type ResolvedConfig, resolveConfig, selectProfile } from './Config.js';
+import { BUILDER_COMMAND } from './commands.js';
+import { logger, type Spinner } from './Logger.js';
+import {
+  BuildStepError,
+  isPromisifiedChildProcessError,
+} from './types/errors.js';
+import { parseArgs } from './utils/args.js';
 
 // Promisified exec for async execution
 const execAsync = promisify(exec);
 
+/**
+ * A build step: a shell command, or a function for steps that need the
+ * compiler's view of the sources.
+ */
+type BuildStep = {
+  msg: string;
+  cmd?: string;
+  run?: () => Promise<{ stdout: string; stderr: string }>;
+};
+
 /**
  * A class to handle the build process for a project.
  * Runs CompactCompiler as a prerequisite, then executes build steps (TypeScript compilation,
  * artifact copying, etc.)
  * with progress feedback and colored output for success and error states.
+ * Output goes through the {@link logger} shared with the compiler, so the
+ * log level and log file apply to the build steps as well.
  *
  * @notice `cmd` scripts discard `stderr` output and fail silently because this is
  * handled in `executeStep`.
  *
+ * @notice Artifacts are copied from the directory the compiler writes them
+ * to: the `artifactsDir` of the project configuration or profile, `artifacts`
+ * by default. The copied .compact
+ * files are the ones the compiler selects, so include/exclude globs and
+ * `.compactignore` apply to both.
+ *
+ * @notice With `--profile <name>` among the flags, the compiler and the copy
+ * steps use the profile's artifacts directory and source selection, so e.g.
+ * the built-in `release` profile ships neither mocks nor their artifacts.
+ * Without a profile, `Mock*.compact` files are left out of `dist/` by name.
+ *
+ * @notice The artifact manifest written by the compiler
+ * (`<artifactsDir>/manifest.json`) is copied along with the artifacts, so
+ * `dist/artifacts/manifest.json` describes the shipped artifacts.
+ *
  * @example
  * ```typescript
  * const builder = new ProjectBuilder('--skip-zk'); // Optional flags for compactc
@@ -56,31 +92,56 @@ const execAsync = promisify(exec);
  * ```
  */
 export class CompactBuilder {
-  private readonly compilerFlags: string;
-  private readonly steps: Array<{ cmd: string; msg: string; shell?: string }> =
-    [
+  /** Command-line arguments of the compilation */
+  private readonly compilerArgs: string[];
+  private readonly config?: ResolvedConfig;
+  /** Optional signal cancelling the build */
+  private readonly signal?: AbortSignal;
+  private readonly steps: BuildStep[];
+  /** Optional build profile selected with `--profile` */
+  private readonly profile?: string;
+  /** Directory the compiler writes the artifacts to, copied to `dist/artifacts` */
+  private readonly artifactsDir: string;
+  /** Compiler of the current build, whose sources are copied */
+  private compiler?: CompactCompiler;
+
+  /**
+   * Constructs a new ProjectBuilder instance.
+   * @param compilerArgs - Optional `compact-compiler` arguments (e.g., `['--skip-zk']`),
+   * which may select a build profile with `--profile <name>`
+   * @param config - Optional resolved project configuration (see `loadConfig`)
+   * @param signal - Optional signal that kills the running compilation or
+   * build step and stops the build when aborted
+   * @throws {UsageError} If the arguments are invalid or `--profile` names an unknown profile
+   */
+  constructor(
+    compilerArgs: string[] = [],
+    config?: ResolvedConfig,
+    signal?: AbortSignal,
+  ) {
+    this.compilerArgs = compilerArgs;
+    this.config = config;
+    this.signal = signal;
+
+    const profiled =
+      selectProfile(parseArgs(BUILDER_COMMAND, compilerArgs), config) ??
+      resolveConfig();
+    this.profile = profiled.profile;
+    this.artifactsDir = profiled.artifactsDir;
+    this.steps = [
       {
         cmd: 'tsc --project tsconfig.build.json',
         msg: 'Compiling TypeScript',
       },
       {
-        cmd: 'mkdir -p dist/artifacts && cp -Rf src/artifacts/* dist/artifacts/ 2>/dev/null || true',
+        run: () => this.copyArtifacts(),
         msg: 'Copying artifacts',
-        shell: '/bin/bash',
       },
       {
-        cmd: 'mkdir -p dist && find src -type f -name "*.compact" -exec cp {} dist/ \\; 2>/dev/null && rm dist/Mock*.compact 2>/dev/null || true',
+        run: () => this.copyCompactFiles(),
         msg: 'Copying and cleaning .compact files',
-        shell: '/bin/bash',
       },
     ];
-
-  /**
-   * Constructs a new ProjectBuilder instance.
-   * @param compilerFlags - Optional space-separated string of `compactc` flags (e.g., "--skip-zk")
-   */
-  constructor(compilerFlags = '') {
-    this.compilerFlags = compilerFlags;
   }
 
   /**
@@ -88,15 +149,23 @@ export class CompactBuilder {
    * Displays progress with spinners and outputs results in color.
    *
    * @returns A promise that resolves when all steps complete successfully
-   * @throws Error if compilation or any build step fails
+   * @throws {CompactToolError} If the environment validation or compilation fails
+   * @throws {BuildStepError} If a build step fails
+   * @throws The abort reason of the `signal` if the build is cancelled
    */
   public async build(): Promise<void> {
     // Run compact compilation as a prerequisite
-    const compiler = new CompactCompiler(this.compilerFlags);
-    await compiler.compile();
+    this.compiler = CompactCompiler.fromArgs(
+      this.compilerArgs,
+      process.env,
+      this.config,
+      this.signal,
+    );
+    await this.compiler.compile();
 
     // Proceed with build steps
     for (const [index, step] of this.steps.entries()) {
+      this.signal?.throwIfAborted();
       await this.executeStep(step, index, this.steps.length);
     }
   }
@@ -109,38 +178,95 @@ export class CompactBuilder {
    * @param index - Current step index (0-based) for progress display
    * @param total - Total number of steps for progress display
    * @returns A promise that resolves when the step completes successfully
-   * @throws Error if the step fails
+   * @throws {BuildStepError} If the step fails, after printing its output
+   * @throws The abort reason of the `signal` if the step is cancelled
    */
   private async executeStep(
-    step: { cmd: string; msg: string; shell?: string },
+    step: BuildStep,
     index: number,
     total: number,
   ): Promise<void> {
     const stepLabel: string = `[${index + 1}/${total}]`;
-    const spinner: Ora = ora(`[BUILD] ${stepLabel} ${step.msg}`).start();
+    const spinner: Spinner = logger
+      .spinner(`[BUILD] ${stepLabel} ${step.msg}`)
+      .start();
 
     try {
-      const { stdout, stderr }: { stdout: string; stderr: string } =
-        await execAsync(step.cmd, {
-          shell: step.shell, // Only pass shell where needed
-        });
+      if (step.cmd) {
+        logger.debug(`[BUILD] Running: ${step.cmd}`);
+      }
+      const { stdout, stderr }: { stdout: string; stderr: string } = step.run
+        ? await step.run()
+        : await execAsync(step.cmd ?? '', { signal: this.signal });
       spinner.succeed(`[BUILD] ${stepLabel} ${step.msg}`);
       this.printOutput(stdout, chalk.cyan);
       this.printOutput(stderr, chalk.yellow); // Show stderr (warnings) in yellow if present
     } catch (error: unknown) {
+      if (this.signal?.aborted) {
+        spinner.fail(`[BUILD] ${stepLabel} Cancelled ${step.msg}`);
+        throw this.signal.reason;
+      }
       spinner.fail(`[BUILD] ${stepLabel} ${step.msg}`);
       if (isPromisifiedChildProcessError(error)) {
         this.printOutput(error.stdout, chalk.cyan);
         this.printOutput(error.stderr, chalk.red);
-        // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
-        console.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
+        logger.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
       } else if (error instanceof Error) {
-        // biome-ignore lint/suspicious/noConsole: Needed to display build failure reason
-        console.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
+        logger.error(chalk.red('[BUILD] ❌ Build failed:', error.message));
       }
+      throw new BuildStepError(step.msg, error);
+    }
+  }
 
-      process.exit(1);
+  /**
+   * Copies the artifacts, including the manifest, to `dist/artifacts`.
+   * Hidden entries such as the compilation cache manifest are left out.
+   *
+   * @returns A promise resolving to the step output, listing nothing on success
+   * @throws Error if the artifacts cannot be copied
+   */
+  private async copyArtifacts(): Promise<{ stdout: string; stderr: string }> {
+    await mkdir('dist/artifacts', { recursive: true });
+    if (existsSync(this.artifactsDir)) {
+      await cp(this.artifactsDir, 'dist/artifacts', {
+        recursive: true,
+        force: true,
+        filter: (source) =>
+          source === this.artifactsDir || !basename(source).startsWith('.'),
+      });
     }
+    return { stdout: '', stderr: '' };
+  }
+
+  /**
+   * Copies the .compact files selected by the compiler to `dist/`, flattened,
+   * leaving out mocks (`Mock*.compact`) unless a profile selects the files.
+   *
+   * @returns A promise resolving to the step output, listing nothing on success
+   * @throws Error if a file cannot be copied
+   */
+  private async copyCompactFiles(): Promise<{
+    stdout: string;
+    stderr: string;
+  }> {
+    const compiler =
+      this.compiler ??
+      CompactCompiler.fromArgs(this.compilerArgs, {}, this.config);
+    const files = await compiler.discoverFiles();
+    // Without a profile the mocks are compiled for the tests but never
+    // shipped, as before profiles existed; a profile's include/exclude globs
+    // (e.g. the release profile's) already decide what it ships
+    const shipped = this.profile
+      ? files
+      : files.filter((file) => !basename(file).startsWith('Mock'));
+
+    await mkdir('dist', { recursive: true });
+    await Promise.all(
+      shipped.map((file) =>
+        copyFile(join(compiler.srcDir, file), join('dist', basename(file))),
+      ),
+    );
+    return { stdout: '', stderr: '' };
   }
 
   /**
@@ -155,6 +281,6 @@ export class CompactBuilder {
       .split('\n')
       .filter((line: string): boolean => line.trim() !== '')
       .map((line: string): string => `    ${line}`);
-    console.log(colorFn(lines.join('\n')));
+    logger.log(colorFn(lines.join('\n')));
   }
 }
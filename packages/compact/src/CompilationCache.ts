@@ -0,0 +1,247 @@
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import type { FileDiscovery } from './Compiler.ts';
+import { type ArtifactLayout, getArtifactDir } from './utils/artifacts.ts';
+
+/** Name of the cache manifest written into the artifacts directory */
+export const CACHE_MANIFEST_FILE: string = '.compact-cache.json';
+/** Bumped whenever the manifest layout changes so stale manifests are ignored */
+const CACHE_MANIFEST_VERSION = 2;
+
+/**
+ * Inputs that produced the artifacts of a single compiled file.
+ * A file is only reused when every field matches the current inputs.
+ *
+ * @interface CacheEntry
+ * @prop {string} sourceHash sha256 of the file itself
+ * @prop {Record<string, string | null>} imports sha256 of each transitive import
+ * keyed by path relative to the source directory (`null` if unreadable)
+ * @prop {string} toolchainVersion Output of `compact compile --version`
+ * @prop {string} flags Flags passed to compactc
+ */
+export interface CacheEntry {
+  sourceHash: string;
+  imports: Record<string, string | null>;
+  toolchainVersion: string;
+  flags: string;
+}
+
+/**
+ * A cache entry recorded after a successful compilation, together with the
+ * artifact files the compilation wrote.
+ *
+ * @interface CachedFile
+ * @extends CacheEntry
+ * @prop {string[]} outputs Files of the artifact directory, relative to it
+ */
+export interface CachedFile extends CacheEntry {
+  outputs: string[];
+}
+
+/**
+ * Shape of the cache manifest persisted in the artifacts directory.
+ *
+ * @interface CacheManifest
+ * @prop {number} version Manifest layout version
+ * @prop {Record<string, CachedFile>} entries Cache entries keyed by source path
+ */
+export interface CacheManifest {
+  version: number;
+  entries: Record<string, CachedFile>;
+}
+
+/**
+ * Content-hash based cache that lets the compiler skip files whose sources,
+ * transitive imports, toolchain and flags are unchanged since the last
+ * successful compilation, as long as every artifact file it wrote is still
+ * there. The manifest lives next to the artifacts it describes so deleting
+ * `artifacts/` also resets the cache.
+ *
+ * @class CompilationCache
+ * @example
+ * ```typescript
+ * const cache = new CompilationCache(new FileDiscovery(), 'src', 'artifacts');
+ * await cache.load();
+ * const entry = await cache.computeEntry(file, '--skip-zk', 'Compactc 0.25.0');
+ * if (!entry || !cache.isUpToDate(file, entry)) {
+ *   await compile(file);
+ *   if (entry) await cache.set(file, entry);
+ * }
+ * await cache.save();
+ * ```
+ */
+export class CompilationCache {
+  private readonly fileDiscovery: FileDiscovery;
+  private readonly srcDir: string;
+  private readonly artifactsDir: string;
+  private readonly layout: ArtifactLayout;
+  private entries: Record<string, CachedFile> = {};
+
+  /**
+   * Creates a new CompilationCache instance.
+   *
+   * @param fileDiscovery - Service used to resolve transitive imports
+   * @param srcDir - Directory that source paths are relative to
+   * @param artifactsDir - Directory holding the compiled artifacts and the manifest
+   * @param layout - Layout of the artifacts directory (defaults to `flat`)
+   */
+  constructor(
+    fileDiscovery: FileDiscovery,
+    srcDir: string,
+    artifactsDir: string,
+    layout: ArtifactLayout = 'flat',
+  ) {
+    this.fileDiscovery = fileDiscovery;
+    this.srcDir = srcDir;
+    this.artifactsDir = artifactsDir;
+    this.layout = layout;
+  }
+
+  /** Path of the manifest file */
+  get manifestPath(): string {
+    return join(this.artifactsDir, CACHE_MANIFEST_FILE);
+  }
+
+  /**
+   * Loads the manifest from disk. A missing, unreadable or outdated manifest
+   * is treated as an empty cache.
+   */
+  async load(): Promise<void> {
+    try {
+      const manifest: CacheManifest = JSON.parse(
+        await readFile(this.manifestPath, 'utf8'),
+      );
+      this.entries =
+        manifest.version === CACHE_MANIFEST_VERSION ? manifest.entries : {};
+    } catch {
+      this.entries = {};
+    }
+  }
+
+  /**
+   * Writes the manifest to disk, creating the artifacts directory if needed.
+   */
+  async save(): Promise<void> {
+    const manifest: CacheManifest = {
+      version: CACHE_MANIFEST_VERSION,
+      entries: this.entries,
+    };
+    await mkdir(this.artifactsDir, { recursive: true });
+    await writeFile(
+      this.manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+  }
+
+  /**
+   * Computes the cache entry describing the current inputs of a file.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   * @param flags - Flags that will be passed to compactc
+   * @param toolchainVersion - Output of `compact compile --version`
+   * @returns Promise resolving to the entry, or `undefined` if the file cannot be read
+   */
+  async computeEntry(
+    file: string,
+    flags: string,
+    toolchainVersion: string,
+  ): Promise<CacheEntry | undefined> {
+    const sourceHash = await this.hashFile(file);
+    if (sourceHash === null) {
+      return undefined;
+    }
+
+    const imports: Record<string, string | null> = {};
+    for (const imported of await this.fileDiscovery.getTransitiveImports(
+      file,
+    )) {
+      imports[imported] = await this.hashFile(imported);
+    }
+
+    return { sourceHash, imports, toolchainVersion, flags };
+  }
+
+  /**
+   * Checks whether a file can be skipped: its recorded entry must match the
+   * current inputs and every artifact file its compilation wrote must still
+   * exist, so deleting e.g. `contract/` or `keys/` triggers a rebuild.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   * @param entry - Entry computed from the current inputs
+   * @returns True if the existing artifacts are up to date
+   */
+  isUpToDate(file: string, entry: CacheEntry): boolean {
+    const cached = this.entries[file];
+    if (!cached) {
+      return false;
+    }
+
+    const { outputs, ...inputs } = cached;
+    const outputDir = getArtifactDir(file, this.artifactsDir, this.layout);
+    return (
+      JSON.stringify(inputs) === JSON.stringify(entry) &&
+      outputs.length > 0 &&
+      outputs.every((output) => existsSync(join(outputDir, output)))
+    );
+  }
+
+  /**
+   * Records the inputs of a successfully compiled file and the artifact
+   * files its compilation wrote.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   * @param entry - Entry computed before the file was compiled
+   */
+  async set(file: string, entry: CacheEntry): Promise<void> {
+    const outputDir = getArtifactDir(file, this.artifactsDir, this.layout);
+    this.entries[file] = { ...entry, outputs: await listFiles(outputDir) };
+  }
+
+  /**
+   * Forgets a file, e.g. after its compilation failed.
+   *
+   * @param file - Relative path of the .compact file from the source directory
+   */
+  delete(file: string): void {
+    delete this.entries[file];
+  }
+
+  /**
+   * Hashes a source file.
+   *
+   * @param file - Relative path of the file from the source directory
+   * @returns Promise resolving to the sha256 hex digest, or `null` if unreadable
+   */
+  private async hashFile(file: string): Promise<string | null> {
+    try {
+      const contents = await readFile(join(this.srcDir, file));
+      return createHash('sha256').update(contents).digest('hex');
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Lists the files of a directory, recursively.
+ *
+ * @param dir - Directory to list
+ * @returns Promise resolving to the paths of the files relative to `dir`,
+ * sorted, or an empty list if the directory cannot be read
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, {
+      recursive: true,
+      withFileTypes: true,
+    });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => relative(dir, join(entry.parentPath, entry.name)))
+      .sort();
+  } catch {
+    return [];
+  }
+}
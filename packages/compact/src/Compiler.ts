@@ -1,35 +1,403 @@
 #!/usr/bin/env node
 
 import { exec as execCallback } from 'node:child_process';
-import { existsSync } from 'node:fs';
-import { readdir } from 'node:fs/promises';
-import { basename, join, relative } from 'node:path';
+import { EventEmitter } from 'node:events';
+import { existsSync, readFileSync } from 'node:fs';
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
+import { basename, dirname, join, normalize, relative, sep } from 'node:path';
 import { promisify } from 'node:util';
 import chalk from 'chalk';
-import ora from 'ora';
 import {
+  CHECKED_DIRS,
+  compareArtifacts,
+  hasDrift,
+  KEY_DIRS,
+} from './ArtifactCheck.ts';
+import { ArtifactManifest } from './ArtifactManifest.ts';
+import { type CacheEntry, CompilationCache } from './CompilationCache.ts';
+import { type ResolvedConfig, selectProfile } from './Config.ts';
+import { COMPILER_COMMAND } from './commands.ts';
+import { DependencyGraph, type GraphFormat } from './DependencyGraph.ts';
+import { formatDiagnostic, parseDiagnostics } from './Diagnostics.ts';
+import { logger, type Spinner } from './Logger.ts';
+import {
+  formatReport,
+  isReporterFormat,
+  type ReporterFormat,
+} from './Reporters.ts';
+import type { Diagnostic } from './types/diagnostics.ts';
+import {
+  AggregateCompilationError,
+  ArtifactCollisionError,
+  ArtifactDriftError,
   CompactCliNotFoundError,
   CompilationError,
+  CompilationTimeoutError,
   DirectoryNotFoundError,
+  EnvironmentError,
   isPromisifiedChildProcessError,
+  SourceNotFoundError,
+  ToolchainVersionMismatchError,
+  UsageError,
 } from './types/errors.ts';
+import type {
+  ArtifactCheckReport,
+  ArtifactDrift,
+  CompilationReport,
+  CompileEvent,
+  FileReport,
+  FileStatus,
+  MatrixCell,
+  MatrixReport,
+  MatrixToolchain,
+  PruneReport,
+} from './types/report.ts';
+import { parseArgs } from './utils/args.ts';
+import {
+  type ArtifactLayout,
+  findArtifactCollisions,
+  findArtifactDirs,
+  getArtifactDir,
+  isArtifactLayout,
+} from './utils/artifacts.ts';
+import { findMatchingGlob } from './utils/glob.ts';
+import {
+  isToolchainVersion,
+  isVersionRange,
+  parseVersion,
+  satisfies,
+  type VersionRequirement,
+} from './utils/semver.ts';
+import {
+  formatCommand,
+  type OutputStream,
+  type SpawnFunction,
+  spawnAsync,
+} from './utils/spawn.ts';
+import { runWithConcurrency } from './utils/workerPool.ts';
 
-/** Source directory containing .compact files */
+/** Default source directory containing .compact files */
 const SRC_DIR: string = 'src';
-/** Output directory for compiled artifacts */
+/** Default output directory for compiled artifacts */
 const ARTIFACTS_DIR: string = 'artifacts';
+/** Directory in the artifacts directory holding one artifact root per matrix toolchain */
+const MATRIX_DIR: string = '.matrix';
+/** Largest delay `AbortSignal.timeout()` accepts, in milliseconds */
+const MAX_TIMEOUT_MS = 2 ** 32 - 1;
+/** File in the source directory listing glob patterns of sources to ignore */
+export const IGNORE_FILE: string = '.compactignore';
+
+/**
+ * Options passed to an {@link ExecFunction}.
+ *
+ * @interface ExecOptions
+ * @prop {AbortSignal} [signal] Kills the command when aborted
+ */
+export interface ExecOptions {
+  signal?: AbortSignal;
+}
 
 /**
  * Function type for executing shell commands.
  * Allows dependency injection for testing and customization.
  *
  * @param command - The shell command to execute
+ * @param options - Optional execution options, such as an abort signal
  * @returns Promise resolving to command output
  */
 export type ExecFunction = (
   command: string,
+  options?: ExecOptions,
 ) => Promise<{ stdout: string; stderr: string }>;
 
+/**
+ * Runs a command, passing the abort signal only when there is one so that
+ * exec functions accepting just a command keep working.
+ *
+ * @param execFn - Function to execute the command with
+ * @param command - The shell command to execute
+ * @param signal - Optional signal killing the command when aborted
+ * @returns Promise resolving to command output
+ */
+function execWithSignal(
+  execFn: ExecFunction,
+  command: string,
+  signal?: AbortSignal,
+): Promise<{ stdout: string; stderr: string }> {
+  return signal ? execFn(command, { signal }) : execFn(command);
+}
+
+/**
+ * Runs a command checking the environment, turning its failure into an
+ * {@link EnvironmentError} unless the check was cancelled.
+ *
+ * @param command - Function running the command
+ * @param signal - Optional signal cancelling the check
+ * @returns Promise resolving to the result of the command
+ * @throws {EnvironmentError} If the command fails
+ * @throws The abort reason of the `signal` if the check is cancelled
+ */
+async function checkEnvironment<T>(
+  command: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  try {
+    return await command();
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new EnvironmentError(message, error);
+  }
+}
+
+/**
+ * Adapts an {@link ExecFunction} to a {@link SpawnFunction} by running the
+ * quoted command line through it, so that a custom exec function also runs
+ * compilations. Output lines are reported once the command has finished.
+ *
+ * @param execFn - Function to execute shell commands with
+ * @returns A spawn function running commands through `execFn`
+ */
+function spawnWithExec(execFn: ExecFunction): SpawnFunction {
+  return async (command, args, options = {}) => {
+    const reportLines = (output: { stdout: string; stderr: string }): void => {
+      for (const stream of ['stdout', 'stderr'] as const) {
+        for (const line of output[stream].split('\n').filter(Boolean)) {
+          options.onLine?.(line, stream);
+        }
+      }
+    };
+
+    try {
+      const output = await execWithSignal(
+        execFn,
+        formatCommand(command, args),
+        options.signal,
+      );
+      reportLines(output);
+      return output;
+    } catch (error) {
+      if (isPromisifiedChildProcessError(error)) {
+        reportLines(error);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Additional options controlling how {@link CompactCompiler} runs.
+ *
+ * @interface CompactCompilerOptions
+ * @prop {number} [jobs] Maximum number of files compiled concurrently (defaults to 1)
+ * @prop {boolean} [force] Recompile every file, ignoring the compilation cache
+ * @prop {string[]} [affected] Only compile these files and the files that depend on them
+ * @prop {string} [changedSince] Only compile files affected by changes since this git ref
+ * @prop {string[]} [matrix] Compile the files with each of these toolchain versions,
+ * into `<artifactsDir>/.matrix/<version>`, and report which versions compile which files
+ * @prop {boolean} [check] Compile into a temporary directory and fail if the
+ * committed artifacts differ, instead of writing them
+ * @prop {boolean} [includeKeys] Also compare `zkir/` and `keys/` in a check
+ * @prop {boolean} [prune] Remove artifact directories without a source after a successful build
+ * @prop {boolean} [dryRun] Only report the artifact directories a prune would remove
+ * @prop {GraphFormat} [graph] Print the dependency graph in this format instead of compiling
+ * @prop {boolean} [list] Print the files that would be compiled and why instead of compiling
+ * @prop {boolean} [keepGoing] Compile every file even after failures and report them together
+ * @prop {ReporterFormat} [reporter] Format of the run report (defaults to `pretty`)
+ * @prop {string} [reportFile] Write the report to this file instead of stdout, keeping the pretty output
+ * @prop {boolean} [watch] Keep recompiling affected files when sources change (see {@link CompactWatcher})
+ * @prop {string} [exec] Shell command to run after each successful build in watch mode
+ * @prop {string} [srcDir] Directory containing the .compact sources (defaults to `src`)
+ * @prop {string} [artifactsDir] Directory compiled artifacts are written to (defaults to `artifacts`)
+ * @prop {string[]} [include] Only compile sources matching one of these globs
+ * @prop {string[]} [exclude] Never compile sources matching one of these globs
+ * @prop {Record<string, string[]>} [overrides] Extra flags for the sources in a directory
+ * @prop {ArtifactLayout} [layout] `flat` (default) writes artifacts to `<artifactsDir>/<Name>`,
+ * `mirror` keeps the source directory structure under `artifactsDir`
+ * @prop {string} [requiredVersion] Version range the toolchain must satisfy (e.g. `>=0.25.0`)
+ * @prop {number} [timeout] Maximum time to compile a single file, in milliseconds
+ * @prop {AbortSignal} [signal] Cancels the run: kills running commands and removes
+ * the artifact directories of files being compiled
+ * @prop {SpawnFunction} [spawnFn] Function running compactc; defaults to running it
+ * through `execFn` when one is given, and to `spawnAsync` otherwise
+ * @prop {string} [configFile] Configuration file the options were loaded from
+ * @prop {string} [profile] Build profile the options were loaded with (see {@link applyProfile})
+ * @prop {string[]} [files] Source files to compile, relative to the working or source
+ * directory; compiled together with the target directories, if any
+ */
+export interface CompactCompilerOptions {
+  jobs?: number;
+  keepGoing?: boolean;
+  force?: boolean;
+  affected?: string[];
+  changedSince?: string;
+  matrix?: string[];
+  check?: boolean;
+  includeKeys?: boolean;
+  prune?: boolean;
+  dryRun?: boolean;
+  graph?: GraphFormat;
+  list?: boolean;
+  reporter?: ReporterFormat;
+  reportFile?: string;
+  watch?: boolean;
+  exec?: string;
+  srcDir?: string;
+  artifactsDir?: string;
+  include?: string[];
+  exclude?: string[];
+  overrides?: Record<string, string[]>;
+  layout?: ArtifactLayout;
+  requiredVersion?: string;
+  timeout?: number;
+  signal?: AbortSignal;
+  spawnFn?: SpawnFunction;
+  configFile?: string;
+  profile?: string;
+  files?: string[];
+}
+
+export type { FileStatus };
+
+/**
+ * Glob patterns selecting the sources {@link FileDiscovery} returns.
+ * Patterns are relative to the source directory and use `/` as separator.
+ *
+ * @interface FileFilter
+ * @prop {string[]} [include] Only return sources matching one of these globs
+ * @prop {string[]} [exclude] Never return sources matching one of these globs
+ */
+export interface FileFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Whether a discovered source is selected for compilation, and why.
+ *
+ * @interface FileSelection
+ * @prop {string} file Relative path of the .compact file from the source directory
+ * @prop {boolean} included Whether the file is compiled
+ * @prop {string} reason Why the file is included or excluded
+ */
+export interface FileSelection {
+  file: string;
+  included: boolean;
+  reason: string;
+}
+
+/**
+ * Result of a single file in a compilation run.
+ *
+ * @interface FileResult
+ * @prop {string} file Relative path of the .compact file from SRC_DIR
+ * @prop {FileStatus} status Final status of the file
+ * @prop {unknown} [error] Error raised when the file failed to compile
+ * @prop {number} [durationMs] Time spent on the file in milliseconds
+ * @prop {object} [output] stdout/stderr of a successful compilation
+ */
+export interface FileResult {
+  file: string;
+  status: FileStatus;
+  error?: unknown;
+  durationMs?: number;
+  output?: { stdout: string; stderr: string };
+}
+
+/**
+ * Outcome of compiling a single file, used to report results in file order
+ * when several files are compiled concurrently.
+ */
+interface CompileOutcome {
+  file: string;
+  durationMs: number;
+  cached?: boolean;
+  result?: { stdout: string; stderr: string };
+  error?: unknown;
+}
+
+/**
+ * Parses a job count from the `--jobs` flag, the `COMPACT_JOBS` env var or
+ * the `jobs` option of the project configuration.
+ * Accepts a positive integer or `auto` (one job per available CPU).
+ *
+ * @param value - Raw value to parse
+ * @param origin - Where the value came from, used in the error message
+ * @returns The parsed job count
+ * @throws {UsageError} If the value is not a positive integer or `auto`
+ */
+function parseJobs(value: string, origin: string): number {
+  if (value === 'auto') {
+    return availableParallelism();
+  }
+
+  const jobs = Number(value);
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new UsageError(
+      `${origin} requires a positive integer or "auto", got "${value}"`,
+    );
+  }
+  return jobs;
+}
+
+/**
+ * Normalizes a user-supplied .compact path to a path relative to the source
+ * directory. Accepts both `src/utils/Utils.compact` and `utils/Utils.compact`.
+ *
+ * @param file - Path as given on the command line or by git
+ * @param srcDir - Source directory the path may be prefixed with
+ * @returns Path relative to the source directory
+ */
+function toSourcePath(file: string, srcDir: string = SRC_DIR): string {
+  const normalized = normalize(file);
+  const prefix = `${normalize(srcDir)}${sep}`;
+  return normalized.startsWith(prefix)
+    ? normalized.slice(prefix.length)
+    : normalized;
+}
+
+/**
+ * Converts the outcome of a concurrently compiled file to its result.
+ *
+ * @param outcome - Result or error produced by the compilation
+ * @returns The result of the file
+ */
+function toFileResult({
+  file,
+  durationMs,
+  cached,
+  result,
+  error,
+}: CompileOutcome): FileResult {
+  if (cached) return { file, status: 'cached', durationMs };
+  if (result) return { file, status: 'passed', durationMs, output: result };
+  return { file, status: 'failed', error, durationMs };
+}
+
+/**
+ * Converts the report of a file to its cell in a compatibility matrix,
+ * keeping the first error diagnostic (or the first diagnostic) of a failure.
+ *
+ * @param report - Report of the file from the run with one toolchain
+ * @returns The cell of the file for that toolchain
+ */
+function toMatrixCell({ status, error, diagnostics }: FileReport): MatrixCell {
+  if (status !== 'failed') return { status };
+  const diagnostic =
+    diagnostics.find(({ severity }) => severity === 'error') ?? diagnostics[0];
+  return { status, error, ...(diagnostic ? { diagnostic } : {}) };
+}
+
 /**
  * Service responsible for validating the Compact CLI environment.
  * Checks CLI availability, retrieves version information, and ensures
@@ -45,14 +413,21 @@ export type ExecFunction = (
  */
 export class EnvironmentValidator {
   private execFn: ExecFunction;
+  /** Optional signal killing running commands when aborted */
+  private readonly signal?: AbortSignal;
 
   /**
    * Creates a new EnvironmentValidator instance.
    *
    * @param execFn - Function to execute shell commands (defaults to promisified child_process.exec)
+   * @param signal - Optional signal killing running commands when aborted
    */
-  constructor(execFn: ExecFunction = promisify(execCallback)) {
+  constructor(
+    execFn: ExecFunction = promisify(execCallback),
+    signal?: AbortSignal,
+  ) {
     this.execFn = execFn;
+    this.signal = signal;
   }
 
   /**
@@ -69,7 +444,7 @@ export class EnvironmentValidator {
    */
   async checkCompactAvailable(): Promise<boolean> {
     try {
-      await this.execFn('compact --version');
+      await execWithSignal(this.execFn, 'compact --version', this.signal);
       return true;
     } catch {
       return false;
@@ -88,7 +463,11 @@ export class EnvironmentValidator {
    * ```
    */
   async getDevToolsVersion(): Promise<string> {
-    const { stdout } = await this.execFn('compact --version');
+    const { stdout } = await execWithSignal(
+      this.execFn,
+      'compact --version',
+      this.signal,
+    );
     return stdout.trim();
   }
 
@@ -106,19 +485,67 @@ export class EnvironmentValidator {
    */
   async getToolchainVersion(version?: string): Promise<string> {
     const versionFlag = version ? `+${version}` : '';
-    const { stdout } = await this.execFn(
+    const { stdout } = await execWithSignal(
+      this.execFn,
       `compact compile ${versionFlag} --version`,
+      this.signal,
+    );
+    return stdout.trim();
+  }
+
+  /**
+   * Retrieves the Compact language version supported by the toolchain, which
+   * `pragma language_version` declarations are checked against.
+   *
+   * @param version - Optional specific toolchain version to query
+   * @returns Promise resolving to the language version output
+   * @throws {Error} If the CLI is not available or command fails
+   * @example
+   * ```typescript
+   * const languageVersion = await validator.getLanguageVersion('0.25.0');
+   * console.log(`Language: ${languageVersion}`);
+   * ```
+   */
+  async getLanguageVersion(version?: string): Promise<string> {
+    const versionFlag = version ? `+${version}` : '';
+    const { stdout } = await execWithSignal(
+      this.execFn,
+      `compact compile ${versionFlag} --language-version`,
+      this.signal,
     );
     return stdout.trim();
   }
 
+  /**
+   * Lists the toolchain versions installed by the Compact CLI.
+   *
+   * @returns Promise resolving to the installed versions, in the order listed
+   * @throws {Error} If the CLI is not available or command fails
+   * @example
+   * ```typescript
+   * const installed = await validator.getInstalledToolchains();
+   * // Returns: ['0.25.0', '0.24.0']
+   * ```
+   */
+  async getInstalledToolchains(): Promise<string[]> {
+    const { stdout } = await execWithSignal(
+      this.execFn,
+      'compact list --installed',
+      this.signal,
+    );
+    return [...new Set(stdout.match(/\d+\.\d+\.\d+/g) ?? [])];
+  }
+
   /**
    * Validates the entire Compact environment and ensures it's ready for compilation.
-   * Checks CLI availability and retrieves version information.
+   * Checks CLI availability, retrieves version information and, when a
+   * required version range is given, checks the toolchain version against it.
    *
    * @param version - Optional specific toolchain version to validate
+   * @param requiredVersion - Optional version range the toolchain must satisfy
    * @throws {CompactCliNotFoundError} If the Compact CLI is not available
-   * @throws {Error} If version commands fail
+   * @throws {ToolchainVersionMismatchError} If the toolchain version is outside `requiredVersion`
+   * @throws {EnvironmentError} If version commands fail or their output has no version
    * @example
    * ```typescript
    * try {
@@ -133,6 +560,7 @@ export class EnvironmentValidator {
    */
   async validate(
     version?: string,
+    requiredVersion?: string,
   ): Promise<{ devToolsVersion: string; toolchainVersion: string }> {
     const isAvailable = await this.checkCompactAvailable();
     if (!isAvailable) {
@@ -141,29 +569,78 @@ export class EnvironmentValidator {
       );
     }
 
-    const devToolsVersion = await this.getDevToolsVersion();
-    const toolchainVersion = await this.getToolchainVersion(version);
+    const devToolsVersion = await checkEnvironment(
+      () => this.getDevToolsVersion(),
+      this.signal,
+    );
+    const toolchainVersion = await checkEnvironment(
+      () => this.getToolchainVersion(version),
+      this.signal,
+    );
+
+    if (requiredVersion) {
+      const parsed = parseVersion(toolchainVersion);
+      if (!parsed) {
+        throw new EnvironmentError(
+          `Could not parse the toolchain version from "${toolchainVersion}"`,
+        );
+      }
+      if (!satisfies(parsed, requiredVersion)) {
+        throw new ToolchainVersionMismatchError(
+          `Toolchain version ${parsed} does not satisfy the required version range ${requiredVersion}`,
+          parsed,
+          [],
+          requiredVersion,
+        );
+      }
+    }
 
     return { devToolsVersion, toolchainVersion };
   }
 }
 
+/** Matches `import "<path>"` and `include "<path>"` statements in Compact sources */
+const IMPORT_PATTERN = /\b(?:import|include)\s+"([^"]+)"/g;
+/** Matches the `pragma language_version <range>;` declaration of Compact sources */
+const PRAGMA_PATTERN = /\bpragma\s+language_version\s+([^;]+);/;
+
 /**
  * Service responsible for discovering .compact files in the source directory.
- * Recursively scans directories and filters for .compact file extensions.
+ * Recursively scans directories and filters for .compact file extensions,
+ * narrowed by include/exclude globs and the patterns in `.compactignore`,
+ * and resolves the files each source imports.
  *
  * @class FileDiscovery
  * @example
  * ```typescript
- * const discovery = new FileDiscovery();
+ * const discovery = new FileDiscovery('src', { exclude: ['**\/test/mocks'] });
  * const files = await discovery.getCompactFiles('src/security');
  * console.log(`Found ${files.length} .compact files`);
  * ```
  */
 export class FileDiscovery {
+  /** Directory the returned and resolved paths are relative to */
+  private readonly srcDir: string;
+  /** Globs selecting the returned sources */
+  private readonly filter: FileFilter;
+  /** Patterns read from `.compactignore`, loaded on first use */
+  private ignorePatterns?: Promise<string[]>;
+
+  /**
+   * Creates a new FileDiscovery instance.
+   *
+   * @param srcDir - Source directory containing the .compact files (defaults to `src`)
+   * @param filter - Optional include/exclude globs relative to `srcDir`
+   */
+  constructor(srcDir: string = SRC_DIR, filter: FileFilter = {}) {
+    this.srcDir = srcDir;
+    this.filter = filter;
+  }
+
   /**
-   * Recursively discovers all .compact files in a directory.
-   * Returns relative paths from the SRC_DIR for consistent processing.
+   * Recursively discovers the .compact files in a directory that pass the
+   * include/exclude globs and `.compactignore`.
+   * Returns relative paths from the source directory for consistent processing.
    *
    * @param dir - Directory path to search (relative or absolute)
    * @returns Promise resolving to array of relative file paths
@@ -174,17 +651,117 @@ export class FileDiscovery {
    * ```
    */
   async getCompactFiles(dir: string): Promise<string[]> {
+    const selections = await this.selectCompactFiles(dir);
+    return selections
+      .filter((selection) => selection.included)
+      .map((selection) => selection.file);
+  }
+
+  /**
+   * Discovers every .compact file in a directory and explains whether it
+   * is selected: excludes and `.compactignore` win over includes, and
+   * every file is included when there are no include globs.
+   *
+   * @param dir - Directory path to search (relative or absolute)
+   * @returns Promise resolving to the selection of every discovered file
+   * @example
+   * ```typescript
+   * await discovery.selectCompactFiles('src');
+   * // Returns: [{ file: 'archive/ShieldedToken.compact', included: false,
+   * //             reason: 'matches exclude pattern "archive"' }, ...]
+   * ```
+   */
+  async selectCompactFiles(dir: string): Promise<FileSelection[]> {
+    const files = await this.findCompactFiles(dir);
+    const ignored = await this.getIgnorePatterns();
+    const { include = [], exclude = [] } = this.filter;
+
+    return files.map((file): FileSelection => {
+      const path = file.split(sep).join('/');
+
+      const excludedBy = findMatchingGlob(path, exclude);
+      if (excludedBy !== undefined) {
+        return {
+          file,
+          included: false,
+          reason: `matches exclude pattern "${excludedBy}"`,
+        };
+      }
+
+      const ignoredBy = findMatchingGlob(path, ignored);
+      if (ignoredBy !== undefined) {
+        return {
+          file,
+          included: false,
+          reason: `matches ${IGNORE_FILE} pattern "${ignoredBy}"`,
+        };
+      }
+
+      if (include.length === 0) {
+        return { file, included: true, reason: 'no include patterns' };
+      }
+
+      const includedBy = findMatchingGlob(path, include);
+      return includedBy !== undefined
+        ? {
+            file,
+            included: true,
+            reason: `matches include pattern "${includedBy}"`,
+          }
+        : { file, included: false, reason: 'matches no include pattern' };
+    });
+  }
+
+  /**
+   * Reads the glob patterns of `.compactignore` in the source directory.
+   * Blank lines and lines starting with `#` are skipped; a missing file
+   * ignores nothing.
+   *
+   * @returns Promise resolving to the ignore patterns
+   * @private
+   */
+  private getIgnorePatterns(): Promise<string[]> {
+    this.ignorePatterns ??= this.readIgnoreFile();
+    return this.ignorePatterns;
+  }
+
+  /**
+   * Reads and parses `.compactignore`.
+   *
+   * @returns Promise resolving to the ignore patterns, or none if the file cannot be read
+   * @private
+   */
+  private async readIgnoreFile(): Promise<string[]> {
+    try {
+      const contents = await readFile(join(this.srcDir, IGNORE_FILE), 'utf8');
+      return contents
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line !== '' && !line.startsWith('#'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Recursively lists every .compact file in a directory.
+   *
+   * @param dir - Directory path to search (relative or absolute)
+   * @returns Promise resolving to relative paths from the source directory
+   * @private
+   */
+  private async findCompactFiles(dir: string): Promise<string[]> {
     try {
       const dirents = await readdir(dir, { withFileTypes: true });
       const filePromises = dirents.map(async (entry) => {
         const fullPath = join(dir, entry.name);
         try {
           if (entry.isDirectory()) {
-            return await this.getCompactFiles(fullPath);
+            return await this.findCompactFiles(fullPath);
           }
 
           if (entry.isFile() && fullPath.endsWith('.compact')) {
-            return [relative(SRC_DIR, fullPath)];
+            return [relative(this.srcDir, fullPath)];
           }
           return [];
         } catch (err) {
@@ -202,11 +779,141 @@ export class FileDiscovery {
       return [];
     }
   }
+
+  /**
+   * Extracts the file imports of a Compact source, resolved relative to the
+   * importing file. Library imports such as `import CompactStandardLibrary;`
+   * are ignored, as are imports inside comments.
+   *
+   * @param source - Contents of the .compact file
+   * @param file - Relative path of the file from SRC_DIR
+   * @returns Relative paths from SRC_DIR of the imported .compact files
+   * @example
+   * ```typescript
+   * discovery.parseImports(
+   *   'import "../../FungibleToken" prefix FungibleToken_;',
+   *   'token/test/mocks/MockFungibleToken.compact',
+   * );
+   * // Returns: ['token/FungibleToken.compact']
+   * ```
+   */
+  parseImports(source: string, file: string): string[] {
+    const code = source
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\/\/.*$/gm, '');
+
+    const imports = new Set<string>();
+    for (const [, importPath] of code.matchAll(IMPORT_PATTERN)) {
+      const withExtension = importPath.endsWith('.compact')
+        ? importPath
+        : `${importPath}.compact`;
+      imports.add(normalize(join(dirname(file), withExtension)));
+    }
+    return [...imports];
+  }
+
+  /**
+   * Reads a .compact file and returns the files it directly imports.
+   *
+   * @param file - Relative path of the file from SRC_DIR
+   * @returns Promise resolving to relative paths of the imported files
+   * @throws {Error} If the file cannot be read
+   */
+  async getImports(file: string): Promise<string[]> {
+    const source = await readFile(join(this.srcDir, file), 'utf8');
+    return this.parseImports(source, file);
+  }
+
+  /**
+   * Extracts the language version range a Compact source declares with
+   * `pragma language_version`, ignoring comments.
+   *
+   * @param source - Contents of the .compact file
+   * @returns The declared range, or undefined if the source has no pragma
+   * @example
+   * ```typescript
+   * discovery.parseLanguageVersion('pragma language_version >= 0.17.0;');
+   * // Returns: '>= 0.17.0'
+   * ```
+   */
+  parseLanguageVersion(source: string): string | undefined {
+    const code = source
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\/\/.*$/gm, '');
+    return PRAGMA_PATTERN.exec(code)?.[1].trim();
+  }
+
+  /**
+   * Reads a .compact file and returns its `pragma language_version` range.
+   *
+   * @param file - Relative path of the file from SRC_DIR
+   * @returns Promise resolving to the declared range, if any
+   * @throws {Error} If the file cannot be read
+   */
+  async getLanguageVersion(file: string): Promise<string | undefined> {
+    const source = await readFile(join(this.srcDir, file), 'utf8');
+    return this.parseLanguageVersion(source);
+  }
+
+  /**
+   * Returns every file a source depends on, directly or through other imports.
+   * Imports that cannot be read are skipped; compactc reports those itself.
+   *
+   * @param file - Relative path of the file from SRC_DIR
+   * @returns Promise resolving to the sorted relative paths of all transitive imports
+   * @example
+   * ```typescript
+   * await discovery.getTransitiveImports('token/test/mocks/MockFungibleToken.compact');
+   * // Returns: ['security/Initializable.compact', 'token/FungibleToken.compact', 'utils/Utils.compact']
+   * ```
+   */
+  async getTransitiveImports(file: string): Promise<string[]> {
+    const visited = new Set<string>([file]);
+    const queue = [file];
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string;
+      let imports: string[];
+      try {
+        imports = await this.getImports(current);
+      } catch {
+        continue;
+      }
+
+      for (const imported of imports) {
+        if (!visited.has(imported)) {
+          visited.add(imported);
+          queue.push(imported);
+        }
+      }
+    }
+
+    visited.delete(file);
+    return [...visited].sort();
+  }
+
+  /**
+   * Builds the import graph of the given files and everything they import.
+   *
+   * @param files - Relative paths of the .compact files from SRC_DIR
+   * @returns Promise resolving to the dependency graph
+   * @example
+   * ```typescript
+   * const files = await discovery.getCompactFiles('src');
+   * const graph = await discovery.getDependencyGraph(files);
+   * graph.getAffected(['utils/Utils.compact']);
+   * ```
+   */
+  async getDependencyGraph(files: string[]): Promise<DependencyGraph> {
+    return DependencyGraph.build(files, this);
+  }
 }
 
 /**
  * Service responsible for compiling individual .compact files.
- * Handles command construction, execution, and error processing.
+ * Handles argument construction, execution, and error processing. compactc
+ * is spawned without a shell, so source paths are passed verbatim, and its
+ * output is streamed line by line.
  *
  * @class CompilerService
  * @example
@@ -221,26 +928,56 @@ export class FileDiscovery {
  * ```
  */
 export class CompilerService {
-  private execFn: ExecFunction;
+  private spawnFn: SpawnFunction;
+  /** Directory containing the .compact sources */
+  private readonly srcDir: string;
+  /** Directory compiled artifacts are written to */
+  private readonly artifactsDir: string;
+  /** Layout of the artifacts directory */
+  private readonly layout: ArtifactLayout;
+  /** Optional signal cancelling running compilations when aborted */
+  private readonly signal?: AbortSignal;
 
   /**
    * Creates a new CompilerService instance.
    *
-   * @param execFn - Function to execute shell commands (defaults to promisified child_process.exec)
+   * @param spawnFn - Function to run compactc with (defaults to `spawnAsync`)
+   * @param srcDir - Directory containing the .compact sources (defaults to `src`)
+   * @param artifactsDir - Directory compiled artifacts are written to (defaults to `artifacts`)
+   * @param layout - Layout of the artifacts directory (defaults to `flat`)
+   * @param signal - Optional signal cancelling running compilations when aborted
    */
-  constructor(execFn: ExecFunction = promisify(execCallback)) {
-    this.execFn = execFn;
+  constructor(
+    spawnFn: SpawnFunction = spawnAsync,
+    srcDir: string = SRC_DIR,
+    artifactsDir: string = ARTIFACTS_DIR,
+    layout: ArtifactLayout = 'flat',
+    signal?: AbortSignal,
+  ) {
+    this.spawnFn = spawnFn;
+    this.srcDir = srcDir;
+    this.artifactsDir = artifactsDir;
+    this.layout = layout;
+    this.signal = signal;
   }
 
   /**
    * Compiles a single .compact file using the Compact CLI.
-   * Constructs the appropriate command with flags and version, then executes it.
+   * Constructs the argument list with flags and version, then spawns compactc.
+   * On failure, compactc's output is parsed into diagnostics attached to the error.
+   *
+   * When the compilation times out or the service's signal is aborted,
+   * compactc is killed and its incomplete artifact directory removed.
    *
    * @param file - Relative path to the .compact file from SRC_DIR
    * @param flags - Space-separated compiler flags (e.g., '--skip-zk --verbose')
    * @param version - Optional specific toolchain version to use
+   * @param timeout - Optional maximum compilation time in milliseconds
+   * @param onLine - Optional listener called with every line compactc writes
    * @returns Promise resolving to compilation output (stdout/stderr)
-   * @throws {CompilationError} If compilation fails for any reason
+   * @throws {CompilationTimeoutError} If compilation takes longer than `timeout`
+   * @throws {CompilationError} If compilation fails for any other reason
+   * @throws The abort reason of the signal if the compilation is cancelled
    * @example
    * ```typescript
    * try {
@@ -253,6 +990,9 @@ export class CompilerService {
    * } catch (error) {
    *   if (error instanceof CompilationError) {
    *     console.error('Compilation failed for', error.file);
+   *     for (const { line, column, message } of error.diagnostics) {
+   *       console.error(`${line}:${column} ${message}`);
+   *     }
    *   }
    * }
    * ```
@@ -261,17 +1001,43 @@ export class CompilerService {
     file: string,
     flags: string,
     version?: string,
+    timeout?: number,
+    onLine?: (line: string, stream: OutputStream) => void,
   ): Promise<{ stdout: string; stderr: string }> {
-    const inputPath = join(SRC_DIR, file);
-    const outputDir = join(ARTIFACTS_DIR, basename(file, '.compact'));
+    const inputPath = join(this.srcDir, file);
+    const outputDir = getArtifactDir(file, this.artifactsDir, this.layout);
 
-    const versionFlag = version ? `+${version}` : '';
-    const flagsStr = flags ? ` ${flags}` : '';
-    const command = `compact compile${versionFlag ? ` ${versionFlag}` : ''}${flagsStr} "${inputPath}" "${outputDir}"`;
+    const args = [
+      'compile',
+      ...(version ? [`+${version}`] : []),
+      ...flags.split(' ').filter(Boolean),
+      inputPath,
+      outputDir,
+    ];
+
+    logger.debug(`[COMPILE] Running: compact ${args.join(' ')}`);
+
+    const timeoutSignal = timeout ? AbortSignal.timeout(timeout) : undefined;
+    const signals = [this.signal, timeoutSignal].filter(
+      (signal): signal is AbortSignal => signal !== undefined,
+    );
 
     try {
-      return await this.execFn(command);
+      return await this.spawnFn('compact', args, {
+        signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+        onLine,
+      });
     } catch (error: unknown) {
+      if (this.signal?.aborted || timeoutSignal?.aborted) {
+        await rm(outputDir, { recursive: true, force: true });
+      }
+      if (this.signal?.aborted) {
+        throw this.signal.reason;
+      }
+      if (timeout && timeoutSignal?.aborted) {
+        throw new CompilationTimeoutError(file, timeout, error);
+      }
+
       let message: string;
 
       if (error instanceof Error) {
@@ -280,15 +1046,33 @@ export class CompilerService {
         message = String(error); // fallback for strings, objects, numbers, etc.
       }
 
+      const diagnostics = isPromisifiedChildProcessError(error)
+        ? parseDiagnostics(`${error.stderr}\n${error.stdout}`)
+        : [];
+
       throw new CompilationError(
         `Failed to compile ${file}: ${message}`,
         file,
         error,
+        diagnostics,
       );
     }
   }
 }
 
+/**
+ * Formats the target directories of a run for display.
+ *
+ * @param targetDir - Target directory, or directories
+ * @returns The directories with a trailing slash, e.g. `access/, token/`
+ */
+function formatTargetDirs(targetDir: string | string[]): string {
+  return [targetDir]
+    .flat()
+    .map((dir) => `${dir}/`)
+    .join(', ');
+}
+
 /**
  * Utility service for handling user interface output and formatting.
  * Provides consistent styling and formatting for compiler messages and output.
@@ -302,23 +1086,86 @@ export class CompilerService {
  */
 export const UIService = {
   /**
-   * Prints formatted output with consistent indentation and coloring.
-   * Filters empty lines and adds consistent indentation for readability.
+   * Suppresses all human-oriented output, e.g. while a machine-readable
+   * report is written to stdout. Shared with {@link logger}.
+   */
+  get silent(): boolean {
+    return logger.silent;
+  },
+  set silent(silent: boolean) {
+    logger.silent = silent;
+  },
+
+  /**
+   * Creates a spinner that honours {@link UIService.silent} and the log
+   * level of {@link logger}.
    *
-   * @param output - Raw output text to format
-   * @param colorFn - Chalk color function for styling
+   * @param text - Optional text to show next to the spinner
+   * @returns A new spinner
    * @example
    * ```typescript
-   * UIService.printOutput(stdout, chalk.cyan);
-   * UIService.printOutput(stderr, chalk.red);
+   * UIService.spinner('[COMPILE] Compiling Token.compact').start();
    * ```
    */
-  printOutput(output: string, colorFn: (text: string) => string): void {
+  spinner(text?: string): Spinner {
+    return logger.spinner(text);
+  },
+
+  /**
+   * Prints formatted output with consistent indentation and coloring.
+   * Filters empty lines and adds consistent indentation for readability.
+   *
+   * @param output - Raw output text to format
+   * @param colorFn - Chalk color function for styling
+   * @example
+   * ```typescript
+   * UIService.printOutput(stdout, chalk.cyan);
+   * UIService.printOutput(stderr, chalk.red);
+   * ```
+   */
+  printOutput(output: string, colorFn: (text: string) => string): void {
+    if (this.silent) return;
     const lines = output
       .split('\n')
       .filter((line) => line.trim() !== '')
       .map((line) => `    ${line}`);
-    console.log(colorFn(lines.join('\n')));
+    logger.log(colorFn(lines.join('\n')));
+  },
+
+  /**
+   * Prints diagnostics with a source excerpt and a caret under the reported
+   * column. The excerpt is omitted when the source file cannot be read.
+   *
+   * @param diagnostics - Diagnostics parsed from compactc's output
+   * @param colorFn - Chalk color function for styling
+   * @example
+   * ```typescript
+   * UIService.printDiagnostics(error.diagnostics, chalk.red);
+   * // Output:
+   * //     error: unbound identifier foo
+   * //      --> src/Token.compact:3:10
+   * //       |
+   * //     3 |   return foo;
+   * //       |          ^
+   * ```
+   */
+  printDiagnostics(
+    diagnostics: Diagnostic[],
+    colorFn: (text: string) => string,
+  ): void {
+    if (this.silent) return;
+    for (const diagnostic of diagnostics) {
+      let source: string | undefined;
+      try {
+        source = readFileSync(diagnostic.file, 'utf8');
+      } catch {
+        // The excerpt is optional
+      }
+      const lines = formatDiagnostic(diagnostic, source)
+        .split('\n')
+        .map((line) => `    ${line}`);
+      logger.log(colorFn(lines.join('\n')));
+    }
   },
 
   /**
@@ -327,28 +1174,49 @@ export const UIService = {
    *
    * @param devToolsVersion - Version string of the Compact developer tools
    * @param toolchainVersion - Version string of the Compact toolchain/compiler
-   * @param targetDir - Optional target directory being compiled
+   * @param targetDir - Optional target directory, or directories, being compiled
    * @param version - Optional specific version being used
+   * @param config - Optional resolved project configuration, shown when loaded from a file
    * @example
    * ```typescript
    * UIService.displayEnvInfo(
    *   'compact 0.1.0',
    *   'Compactc version: 0.25.0',
    *   'security',
-   *   '0.25.0'
+   *   '0.25.0',
+   *   { file: 'compact.config.json', srcDir: 'src', artifactsDir: 'artifacts', flags: '--skip-zk' }
    * );
    * ```
    */
   displayEnvInfo(
     devToolsVersion: string,
     toolchainVersion: string,
-    targetDir?: string,
+    targetDir?: string | string[],
     version?: string,
+    config?: {
+      file: string;
+      srcDir: string;
+      artifactsDir: string;
+      flags: string;
+    },
   ): void {
-    const spinner = ora();
+    const spinner = UIService.spinner();
+
+    if (config) {
+      spinner.info(chalk.blue(`[COMPILE] CONFIG: ${config.file}`));
+      spinner.info(chalk.blue(`[COMPILE] SRC_DIR: ${config.srcDir}`));
+      spinner.info(
+        chalk.blue(`[COMPILE] ARTIFACTS_DIR: ${config.artifactsDir}`),
+      );
+      if (config.flags) {
+        spinner.info(chalk.blue(`[COMPILE] FLAGS: ${config.flags}`));
+      }
+    }
 
-    if (targetDir) {
-      spinner.info(chalk.blue(`[COMPILE] TARGET_DIR: ${targetDir}`));
+    if (targetDir?.length) {
+      spinner.info(
+        chalk.blue(`[COMPILE] TARGET_DIR: ${[targetDir].flat().join(', ')}`),
+      );
     }
 
     spinner.info(
@@ -363,20 +1231,41 @@ export const UIService = {
     }
   },
 
+  /**
+   * Displays the build profile of the run and where it writes artifacts.
+   *
+   * @param profile - Name of the build profile
+   * @param artifactsDir - Artifacts directory of the profile
+   * @example
+   * ```typescript
+   * UIService.showProfile('release', 'artifacts/release');
+   * // Output: "[COMPILE] PROFILE: release (artifacts in artifacts/release)"
+   * ```
+   */
+  showProfile(profile: string, artifactsDir: string): void {
+    UIService.spinner().info(
+      chalk.blue(
+        `[COMPILE] PROFILE: ${profile} (artifacts in ${artifactsDir})`,
+      ),
+    );
+  },
+
   /**
    * Displays compilation start message with file count and optional location.
    *
    * @param fileCount - Number of files to be compiled
-   * @param targetDir - Optional target directory being compiled
+   * @param targetDir - Optional target directory, or directories, being compiled
    * @example
    * ```typescript
    * UIService.showCompilationStart(5, 'security');
    * // Output: "Found 5 .compact file(s) to compile in security/"
    * ```
    */
-  showCompilationStart(fileCount: number, targetDir?: string): void {
-    const searchLocation = targetDir ? ` in ${targetDir}/` : '';
-    const spinner = ora();
+  showCompilationStart(fileCount: number, targetDir?: string | string[]): void {
+    const searchLocation = targetDir?.length
+      ? ` in ${formatTargetDirs(targetDir)}`
+      : '';
+    const spinner = UIService.spinner();
     spinner.info(
       chalk.blue(
         `[COMPILE] Found ${fileCount} .compact file(s) to compile${searchLocation}`,
@@ -387,20 +1276,368 @@ export const UIService = {
   /**
    * Displays a warning message when no .compact files are found.
    *
-   * @param targetDir - Optional target directory that was searched
+   * @param targetDir - Optional target directory, or directories, that were searched
    * @example
    * ```typescript
    * UIService.showNoFiles('security');
    * // Output: "No .compact files found in security/."
    * ```
    */
-  showNoFiles(targetDir?: string): void {
-    const searchLocation = targetDir ? `${targetDir}/` : '';
-    const spinner = ora();
+  showNoFiles(targetDir?: string | string[]): void {
+    const searchLocation = targetDir?.length ? formatTargetDirs(targetDir) : '';
+    const spinner = UIService.spinner();
     spinner.warn(
       chalk.yellow(`[COMPILE] No .compact files found in ${searchLocation}.`),
     );
   },
+
+  /**
+   * Displays a message when no file is affected by the given changes.
+   *
+   * @param changed - Changed files that were checked
+   * @example
+   * ```typescript
+   * UIService.showNoAffectedFiles(['utils/Utils.compact']);
+   * // Output: "No .compact files affected by: utils/Utils.compact"
+   * ```
+   */
+  showNoAffectedFiles(changed: string[]): void {
+    const spinner = UIService.spinner();
+    const changes = changed.length > 0 ? changed.join(', ') : 'no changes';
+    spinner.info(
+      chalk.blue(`[COMPILE] No .compact files affected by: ${changes}`),
+    );
+  },
+
+  /**
+   * Displays an end-of-run summary table with the status of every file
+   * followed by the totals per status.
+   *
+   * @param results - Results of every file in the run, in file order
+   * @example
+   * ```typescript
+   * UIService.showSummary([
+   *   { file: 'access/Ownable.compact', status: 'passed' },
+   *   { file: 'utils/Utils.compact', status: 'failed' },
+   * ]);
+   * // Output:
+   * //     passed   access/Ownable.compact
+   * //     failed   utils/Utils.compact
+   * // "1 passed, 1 failed, 0 skipped"
+   * ```
+   */
+  showSummary(results: FileResult[]): void {
+    if (this.silent) return;
+    const colors: Record<FileStatus, (text: string) => string> = {
+      passed: chalk.green,
+      failed: chalk.red,
+      cached: chalk.blue,
+      skipped: chalk.gray,
+    };
+    const count = (status: FileStatus) =>
+      results.filter((result) => result.status === status).length;
+
+    const spinner = UIService.spinner();
+    spinner.info(chalk.blue('[COMPILE] Summary:'));
+    for (const { file, status } of results) {
+      logger.log(colors[status](`    ${status.padEnd(8)} ${file}`));
+    }
+
+    const failed = count('failed');
+    const skipped = count('cached') + count('skipped');
+    const totals = `[COMPILE] ${count('passed')} passed, ${failed} failed, ${skipped} skipped`;
+    if (failed > 0) {
+      spinner.fail(chalk.red(totals));
+    } else {
+      spinner.succeed(chalk.green(totals));
+    }
+  },
+
+  /**
+   * Announces the toolchain a compatibility matrix compiles with next.
+   *
+   * @param version - Toolchain version
+   * @param index - Index of the toolchain (0-based)
+   * @param total - Number of toolchains in the matrix
+   * @example
+   * ```typescript
+   * UIService.showMatrixToolchain('0.26.0', 1, 2);
+   * // Output: "[2/2] Compiling with toolchain 0.26.0"
+   * ```
+   */
+  showMatrixToolchain(version: string, index: number, total: number): void {
+    const spinner = UIService.spinner();
+    spinner.info(
+      chalk.blue(
+        `[COMPILE] [${index + 1}/${total}] Compiling with toolchain ${version}`,
+      ),
+    );
+  },
+
+  /**
+   * Prints the file-by-version table of a compatibility matrix, the first
+   * diagnostic of every failure and how many files each toolchain compiles.
+   *
+   * @param report - Report of the matrix run
+   * @example
+   * ```typescript
+   * UIService.showMatrix(await compiler.runMatrix(['0.25.0', '0.26.0']));
+   * // Output:
+   * //     File                 0.25.0   0.26.0
+   * //     token/Token.compact  passed   failed
+   * //     token/Token.compact with 0.26.0: error: unbound identifier (src/token/Token.compact:12:5)
+   * // "0.25.0: 1/1 file(s), 0.26.0: 0/1 file(s)"
+   * ```
+   */
+  showMatrix(report: MatrixReport): void {
+    if (this.silent) return;
+    const colors: Record<FileStatus, (text: string) => string> = {
+      passed: chalk.green,
+      failed: chalk.red,
+      cached: chalk.green,
+      skipped: chalk.gray,
+    };
+    const versions = report.toolchains.map(({ version }) => version);
+    const fileWidth = Math.max(
+      4,
+      ...report.files.map(({ file }) => file.length),
+    );
+    const cellWidth = (version: string) => Math.max(7, version.length) + 2;
+
+    const spinner = UIService.spinner();
+    spinner.info(chalk.blue('[COMPILE] Compatibility matrix:'));
+    logger.log(
+      `    ${'File'.padEnd(fileWidth)}  ${versions
+        .map((version) => version.padEnd(cellWidth(version)))
+        .join('')}`.trimEnd(),
+    );
+    for (const { file, results } of report.files) {
+      const cells = versions.map((version) => {
+        const { status } = results[version];
+        return colors[status](status.padEnd(cellWidth(version)));
+      });
+      logger.log(`    ${file.padEnd(fileWidth)}  ${cells.join('')}`.trimEnd());
+    }
+
+    for (const { file, results } of report.files) {
+      for (const version of versions) {
+        const { status, error, diagnostic } = results[version];
+        if (status !== 'failed') continue;
+        const reason = diagnostic
+          ? `${diagnostic.severity}: ${diagnostic.message.split('\n')[0]} (${diagnostic.file}:${diagnostic.line}:${diagnostic.column})`
+          : (error ?? 'failed').split('\n')[0];
+        logger.log(chalk.red(`    ${file} with ${version}: ${reason}`));
+      }
+    }
+
+    const totals = report.toolchains
+      .map(({ version }) => {
+        const compiled = report.files.filter(({ results }) =>
+          ['passed', 'cached'].includes(results[version].status),
+        ).length;
+        return `${version}: ${compiled}/${report.files.length} file(s)`;
+      })
+      .join(', ');
+    if (report.success) {
+      spinner.succeed(chalk.green(`[COMPILE] ${totals}`));
+    } else {
+      spinner.fail(chalk.red(`[COMPILE] ${totals}`));
+    }
+  },
+
+  /**
+   * Prints the outcome of an artifact check: every missing, stale and
+   * changed file of the out-of-date sources, or a confirmation that the
+   * artifacts are up to date.
+   *
+   * @param report - Report of the check
+   * @example
+   * ```typescript
+   * UIService.showCheck(await compiler.runCheck());
+   * // Output:
+   * //     token/Token.compact (artifacts/Token):
+   * //       changed contract/index.cjs
+   * //       missing compiler/contract-info.json
+   * ```
+   */
+  showCheck(report: ArtifactCheckReport): void {
+    if (this.silent) return;
+    const spinner = UIService.spinner();
+    if (report.success) {
+      spinner.succeed(
+        chalk.green(
+          `[COMPILE] Artifacts of ${report.files.length} file(s) in ${report.artifactsDir} are up to date`,
+        ),
+      );
+      return;
+    }
+
+    spinner.warn(
+      chalk.yellow(
+        `[COMPILE] Artifacts in ${report.artifactsDir} differ from the compiled ${report.dirs.join('/, ')}/ output:`,
+      ),
+    );
+    for (const { file, artifactDir, missing, stale, changed } of report.drift) {
+      logger.log(chalk.red(`    ${file} (${artifactDir}):`));
+      for (const path of changed) {
+        logger.log(chalk.red(`      changed ${path}`));
+      }
+      for (const path of missing) {
+        logger.log(chalk.red(`      missing ${path}`));
+      }
+      for (const path of stale) {
+        logger.log(chalk.red(`      stale   ${path}`));
+      }
+    }
+  },
+
+  /**
+   * Prints the outcome of a prune: every artifact directory without a
+   * source, then how many were removed, or would be with a dry run.
+   *
+   * @param report - Report of the prune
+   * @example
+   * ```typescript
+   * UIService.showPrune({ artifactsDir: 'artifacts', dryRun: false, removed: ['OldToken'] });
+   * // Output: "Removed artifacts/OldToken/ (no source)"
+   * //         "Pruned 1 stale artifact directory(ies) from artifacts"
+   * ```
+   */
+  showPrune(report: PruneReport): void {
+    if (this.silent) return;
+    const spinner = UIService.spinner();
+    if (report.removed.length === 0) {
+      spinner.info(
+        chalk.blue(
+          `[COMPILE] No stale artifact directories in ${report.artifactsDir}`,
+        ),
+      );
+      return;
+    }
+
+    const action = report.dryRun ? 'Would remove' : 'Removed';
+    for (const dir of report.removed) {
+      logger.log(
+        chalk.yellow(
+          `    ${action} ${join(report.artifactsDir, dir)}/ (no source)`,
+        ),
+      );
+    }
+    if (report.dryRun) {
+      spinner.info(
+        chalk.blue(
+          `[COMPILE] ${report.removed.length} stale artifact directory(ies) in ${report.artifactsDir} would be pruned (dry run)`,
+        ),
+      );
+    } else {
+      spinner.succeed(
+        chalk.green(
+          `[COMPILE] Pruned ${report.removed.length} stale artifact directory(ies) from ${report.artifactsDir}`,
+        ),
+      );
+    }
+  },
+
+  /**
+   * Displays a message when watch mode starts waiting for changes.
+   *
+   * @param dir - Directory being watched
+   * @example
+   * ```typescript
+   * UIService.showWatching('src');
+   * // Output: "Watching src/ for changes (press Ctrl+C to stop)"
+   * ```
+   */
+  showWatching(dir: string): void {
+    const spinner = UIService.spinner();
+    spinner.info(
+      chalk.blue(
+        `[COMPILE] Watching ${dir}/ for changes (press Ctrl+C to stop)`,
+      ),
+    );
+  },
+
+  /**
+   * Displays the files that changed before a rebuild in watch mode.
+   *
+   * @param files - Changed files, relative to the source directory
+   * @example
+   * ```typescript
+   * UIService.showChangesDetected(['utils/Utils.compact']);
+   * // Output: "Change detected: utils/Utils.compact"
+   * ```
+   */
+  showChangesDetected(files: string[]): void {
+    const spinner = UIService.spinner();
+    spinner.info(chalk.blue(`[COMPILE] Change detected: ${files.join(', ')}`));
+  },
+
+  /**
+   * Prints the files a run would compile, and the excluded files, with the
+   * reason for each.
+   *
+   * @param selections - Selection of every discovered file
+   * @param targetDir - Optional target directory, or directories, that were searched
+   * @example
+   * ```typescript
+   * UIService.showFileList([
+   *   { file: 'token/Token.compact', included: true, reason: 'no include patterns' },
+   * ]);
+   * // Output: "    + token/Token.compact (no include patterns)"
+   * //         "1 of 1 .compact file(s) would be compiled"
+   * ```
+   */
+  showFileList(
+    selections: FileSelection[],
+    targetDir?: string | string[],
+  ): void {
+    for (const { file, included, reason } of selections) {
+      logger.log(
+        included
+          ? chalk.green(`    + ${file} (${reason})`)
+          : chalk.gray(`    - ${file} (${reason})`),
+      );
+    }
+
+    const count = selections.filter((selection) => selection.included).length;
+    const searchLocation = targetDir?.length
+      ? ` in ${formatTargetDirs(targetDir)}`
+      : '';
+    const spinner = UIService.spinner();
+    spinner.info(
+      chalk.blue(
+        `[COMPILE] ${count} of ${selections.length} .compact file(s) would be compiled${searchLocation}`,
+      ),
+    );
+  },
+
+  /**
+   * Prints a rendered dependency graph as-is so it can be piped to other tools.
+   *
+   * @param graph - Graph rendered as JSON or DOT
+   * @example
+   * ```typescript
+   * UIService.printDependencyGraph(graph.format('dot'));
+   * ```
+   */
+  printDependencyGraph(graph: string): void {
+    console.log(graph);
+  },
+
+  /**
+   * Prints a rendered machine-readable report as-is, even when silent.
+   *
+   * @param report - Report rendered by a reporter
+   * @example
+   * ```typescript
+   * UIService.printReport(formatReport(report, 'github'));
+   * ```
+   */
+  printReport(report: string): void {
+    if (report) {
+      console.log(report);
+    }
+  },
 };
 
 /**
@@ -415,6 +1652,9 @@ export const UIService = {
  * - Support for compiler flags and toolchain versions
  * - Environment variable integration
  *
+ * The options are described by {@link CompactCompiler.fromArgs} and
+ * `compact-compiler --help`.
+ *
  * @class CompactCompiler
  * @example
  * ```typescript
@@ -439,21 +1679,97 @@ export class CompactCompiler {
   private readonly fileDiscovery: FileDiscovery;
   /** Compilation execution service */
   private readonly compilerService: CompilerService;
+  /** Function used to run git when selecting changed files */
+  private readonly execFn: ExecFunction;
+  /** Cache of inputs used to skip unchanged files */
+  private readonly cache: CompilationCache;
+  /** Manifest describing the artifacts of every compiled file */
+  private readonly manifest: ArtifactManifest;
 
   /** Compiler flags to pass to the Compact CLI */
   private readonly flags: string;
-  /** Optional target directory to limit compilation scope */
-  private readonly targetDir?: string;
+  /** Optional target directory, or directories, to limit compilation scope */
+  private readonly targetDir?: string | string[];
+  /** Source files to compile, relative to the source directory */
+  private readonly files: string[];
   /** Optional specific toolchain version to use */
   private readonly version?: string;
+  /** Maximum number of files compiled concurrently */
+  private readonly jobs: number;
+  /** Whether to bypass the compilation cache */
+  private readonly force: boolean;
+  /** Whether to keep compiling after a file fails */
+  private readonly keepGoing: boolean;
+  /** Optional changed files limiting compilation to affected files */
+  private readonly affected?: string[];
+  /** Optional git ref limiting compilation to files affected since it */
+  private readonly changedSince?: string;
+  /** Optional toolchain versions to compile the files with instead of one */
+  private readonly matrix?: string[];
+  /** Whether to check the committed artifacts instead of writing them */
+  private readonly check: boolean;
+  /** Whether a check also compares circuits and key material */
+  private readonly includeKeys: boolean;
+  /** Whether to remove artifact directories without a source after a build */
+  private readonly prune: boolean;
+  /** Whether a prune only reports the directories it would remove */
+  private readonly dryRun: boolean;
+  /** Optional format to print the dependency graph in instead of compiling */
+  private readonly graph?: GraphFormat;
+  /** Whether to list the selected files instead of compiling */
+  private readonly list: boolean;
+  /** Format of the run report */
+  private readonly reporter: ReporterFormat;
+  /** Optional file to write the run report to instead of stdout */
+  private readonly reportFile?: string;
+  /** Whether to keep watching sources after the first build */
+  private readonly watch: boolean;
+  /** Optional shell command to run after each successful build in watch mode */
+  private readonly exec?: string;
+  /** Directory containing the .compact sources */
+  private readonly sourceDir: string;
+  /** Directory compiled artifacts are written to */
+  private readonly artifactsDir: string;
+  /** Globs a source must match to be compiled (all sources when empty) */
+  private readonly include: string[];
+  /** Globs excluding sources from compilation */
+  private readonly exclude: string[];
+  /** Extra flags for the sources in a directory */
+  private readonly overrides: Record<string, string[]>;
+  /** Layout of the artifacts directory */
+  private readonly layout: ArtifactLayout;
+  /** Optional version range the toolchain must satisfy */
+  private readonly requiredVersion?: string;
+  /** Optional maximum time to compile a single file, in milliseconds */
+  private readonly timeout?: number;
+  /** Optional signal cancelling the run */
+  private readonly signal?: AbortSignal;
+  /** Optional configuration file the options were loaded from */
+  private readonly configFile?: string;
+  /** Optional build profile the options were loaded with */
+  private readonly profile?: string;
+  /** Options the compiler was created with, reused for rebuilds */
+  private readonly options: CompactCompilerOptions;
+  /** Developer tools version reported during environment validation */
+  private devToolsVersion = '';
+  /** Toolchain version reported during environment validation */
+  private toolchainVersion = '';
+
+  /**
+   * Emits a `progress` event for every step of a run (see {@link CompileEvent}).
+   * Use `on(compiler.events, 'progress')` from `node:events` to consume the
+   * events as an async iterator.
+   */
+  readonly events = new EventEmitter<{ progress: [CompileEvent] }>();
 
   /**
    * Creates a new CompactCompiler instance with specified configuration.
    *
    * @param flags - Space-separated compiler flags (e.g., '--skip-zk --verbose')
-   * @param targetDir - Optional subdirectory within src/ to compile (e.g., 'security', 'token')
+   * @param targetDir - Optional subdirectory within src/ to compile (e.g., 'security', 'token'), or several
    * @param version - Optional toolchain version to use (e.g., '0.25.0')
    * @param execFn - Optional custom exec function for dependency injection
+   * @param options - Optional additional options (e.g., `{ jobs: 4 }`)
    * @example
    * ```typescript
    * // Compile all files with flags
@@ -468,36 +1784,148 @@ export class CompactCompiler {
    * // For testing with custom exec function
    * const mockExec = vi.fn();
    * const compiler = new CompactCompiler('', undefined, undefined, mockExec);
+   *
+   * // Compile up to 4 files at once
+   * const compiler = new CompactCompiler('--skip-zk', undefined, undefined, undefined, { jobs: 4 });
    * ```
    */
   constructor(
     flags = '',
-    targetDir?: string,
+    targetDir?: string | string[],
     version?: string,
     execFn?: ExecFunction,
+    options: CompactCompilerOptions = {},
   ) {
     this.flags = flags.trim();
     this.targetDir = targetDir;
     this.version = version;
-    this.environmentValidator = new EnvironmentValidator(execFn);
-    this.fileDiscovery = new FileDiscovery();
-    this.compilerService = new CompilerService(execFn);
+    this.jobs = Math.max(1, options.jobs ?? 1);
+    this.force = options.force ?? false;
+    this.keepGoing = options.keepGoing ?? false;
+    this.sourceDir = options.srcDir ?? SRC_DIR;
+    this.artifactsDir = options.artifactsDir ?? ARTIFACTS_DIR;
+    this.include = options.include ?? [];
+    this.exclude = options.exclude ?? [];
+    this.overrides = options.overrides ?? {};
+    this.layout = options.layout ?? 'flat';
+    this.requiredVersion = options.requiredVersion;
+    this.timeout = options.timeout;
+    this.signal = options.signal;
+    this.configFile = options.configFile;
+    this.profile = options.profile;
+    this.affected = options.affected?.map((file) =>
+      toSourcePath(file, this.sourceDir),
+    );
+    this.files = (options.files ?? []).map((file) =>
+      toSourcePath(file, this.sourceDir),
+    );
+    this.changedSince = options.changedSince;
+    this.matrix = options.matrix;
+    this.check = options.check ?? false;
+    this.includeKeys = options.includeKeys ?? false;
+    this.prune = options.prune ?? false;
+    this.dryRun = options.dryRun ?? false;
+    this.graph = options.graph;
+    this.list = options.list ?? false;
+    this.reporter = options.reporter ?? 'pretty';
+    this.reportFile = options.reportFile;
+    this.watch = options.watch ?? false;
+    this.exec = options.exec;
+    // Derived compilers get the spawn function, as they always receive an execFn
+    this.options = {
+      ...options,
+      spawnFn: options.spawnFn ?? (execFn ? spawnWithExec(execFn) : spawnAsync),
+    };
+    this.execFn = execFn ?? promisify(execCallback);
+    this.environmentValidator = new EnvironmentValidator(execFn, this.signal);
+    this.fileDiscovery = new FileDiscovery(this.sourceDir, {
+      include: this.include,
+      exclude: this.exclude,
+    });
+    this.compilerService = new CompilerService(
+      this.options.spawnFn,
+      this.sourceDir,
+      this.artifactsDir,
+      this.layout,
+      this.signal,
+    );
+    this.manifest = new ArtifactManifest(this.artifactsDir, this.layout);
+    this.cache = new CompilationCache(
+      this.fileDiscovery,
+      this.sourceDir,
+      this.artifactsDir,
+      this.layout,
+    );
   }
 
   /**
    * Factory method to create a CompactCompiler from command-line arguments.
    * Parses various argument formats including flags, directories, versions, and environment variables.
    *
+   * Arguments are parsed against {@link COMPILER_COMMAND}, so unknown
+   * options are rejected with a suggestion rather than passed to compactc.
    * Supported argument patterns:
-   * - `--dir <directory>` - Target specific directory
+   * - `--dir <directory>` - Target specific directory; repeat to target several
+   * - `--jobs <n|auto>` / `-j <n|auto>` - Compile up to n files concurrently
+   * - `--force` - Recompile every file, ignoring the compilation cache
+   * - `--keep-going` - Compile every file even after failures, then report all of them
+   * - `--affected <file...>` - Only compile the files and everything depending on them
+   * - `--changed-since <git-ref>` - Only compile files affected by changes since the ref
+   * - `--matrix <+version,...>` - Compile with each toolchain and print a compatibility table
+   * - `--check` - Fail if the committed artifacts differ from freshly compiled ones
+   * - `--include-keys` - Also compare `zkir/` and `keys/` with `--check`
+   * - `--prune` - Remove artifact directories without a source after a successful build
+   * - `--dry-run` - Only report the directories `--prune` would remove
+   * - `--profile <name>` - Apply a configured or built-in build profile (see {@link applyProfile})
+   * - `--graph <json|dot>` - Print the import dependency graph instead of compiling
+   * - `--include <glob...>` / `--exclude <glob...>` - Select sources relative to the source directory
+   * - `--list` - Print the files that would be compiled and why, without compiling
+   * - `--layout <flat|mirror>` - Layout of the artifacts directory
+   * - `--reporter <pretty|json|junit|github|sarif>` - Format of the run report
+   * - `--report-file <path>` - Write the report to a file and keep the pretty output
+   * - `--watch` - Recompile changed files and their dependents until interrupted
+   * - `--exec <command>` - Run a shell command after each successful build in watch mode
+   * - `--timeout <seconds>` - Fail a file whose compilation takes longer than this
+   * - `--skip-zk` - Passed to compactc
    * - `+<version>` - Use specific toolchain version
-   * - Other arguments - Treated as compiler flags
+   * - `<file...>` - Compile these .compact files, together with the `--dir` directories
+   * - `-- <flags...>` - Every following argument is passed to compactc
    * - `SKIP_ZK=true` environment variable - Adds --skip-zk flag
+   * - `COMPACT_JOBS=<n|auto>` environment variable - Default for `--jobs`
+   *
+   * Settings are merged with the precedence built-in defaults < `config` <
+   * environment variables < command-line arguments. Flags are additive: the
+   * configured flags come first, followed by `--skip-zk` from `SKIP_ZK` and
+   * the command-line flags, without duplicates. Include and exclude globs
+   * are added to the configured ones. A `+<version>` argument and `--layout`
+   * replace the configured version and layout.
+   * A profile is applied to `config` first, so its settings take part in
+   * the merge as configured ones.
    *
    * @param args - Array of command-line arguments
    * @param env - Environment variables (defaults to process.env)
+   * @param config - Optional resolved project configuration (see {@link loadConfig})
+   * @param signal - Optional signal cancelling the run (e.g. on SIGINT)
    * @returns New CompactCompiler instance configured from arguments
-   * @throws {Error} If --dir flag is provided without a directory name
+   * @throws {UsageError} If an option is unknown or a positional argument is not a .compact file
+   * @throws {UsageError} If --dir flag is provided without a directory name
+   * @throws {UsageError} If --jobs or COMPACT_JOBS is not a positive integer or `auto`
+   * @throws {UsageError} If --affected, --changed-since, --graph, --include or
+   * --exclude is missing its value
+   * @throws {UsageError} If --reporter is not a known reporter or --report-file is
+   * missing its path or used with the pretty reporter
+   * @throws {UsageError} If --exec is missing its command or used without --watch
+   * @throws {UsageError} If --layout is not a known layout
+   * @throws {UsageError} If --timeout is not a positive number of seconds or
+   * exceeds the limit of `AbortSignal.timeout()`
+   * @throws {UsageError} If `+<version>` is not a toolchain version
+   * @throws {UsageError} If --matrix is not a list of toolchain versions, or is used
+   * with --watch or a reporter other than pretty or json
+   * @throws {UsageError} If --check is used with --watch, --matrix or a reporter
+   * other than pretty or json, or --include-keys is used without --check
+   * @throws {UsageError} If --prune is used with --check or --matrix, or --dry-run
+   * is used without --prune
+   * @throws {UsageError} If --profile is missing its name or names an unknown profile
    * @example
    * ```typescript
    * // Parse command line: compact-compiler --dir security --skip-zk +0.25.0
@@ -507,6 +1935,14 @@ export class CompactCompiler {
    *   '+0.25.0'
    * ]);
    *
+   * // Files, several directories and compactc flags
+   * const compiler = CompactCompiler.fromArgs([
+   *   'src/token/FungibleToken.compact',
+   *   '--dir', 'access',
+   *   '--dir', 'security',
+   *   '--', '--vscode'
+   * ]);
+   *
    * // With environment variable
    * const compiler = CompactCompiler.fromArgs(
    *   ['--dir', 'token'],
@@ -515,41 +1951,235 @@ export class CompactCompiler {
    *
    * // Empty args with environment
    * const compiler = CompactCompiler.fromArgs([], { SKIP_ZK: 'true' });
+   *
+   * // With a project configuration
+   * const compiler = CompactCompiler.fromArgs(args, process.env, await loadConfig());
    * ```
    */
   static fromArgs(
     args: string[],
     env: NodeJS.ProcessEnv = process.env,
+    config?: ResolvedConfig,
+    signal?: AbortSignal,
   ): CompactCompiler {
-    let targetDir: string | undefined;
+    const parsed = parseArgs(COMPILER_COMMAND, args);
+    // Profiles only change the configuration, so they apply before anything else
+    const resolved = selectProfile(parsed, config);
+    const value = (name: string) => parsed.values.get(name)?.at(-1);
     const flags: string[] = [];
-    let version: string | undefined;
+    const addFlag = (flag: string) => {
+      if (!flags.includes(flag)) {
+        flags.push(flag);
+      }
+    };
+    let jobs: number | undefined;
+    let matrix: string[] | undefined;
+    let timeout: number | undefined;
+
+    for (const flag of resolved?.flags ?? []) {
+      addFlag(flag);
+    }
 
     if (env.SKIP_ZK === 'true') {
-      flags.push('--skip-zk');
-    }
-
-    for (let i = 0; i < args.length; i++) {
-      if (args[i] === '--dir') {
-        const dirNameExists =
-          i + 1 < args.length && !args[i + 1].startsWith('--');
-        if (dirNameExists) {
-          targetDir = args[i + 1];
-          i++;
-        } else {
-          throw new Error('--dir flag requires a directory name');
-        }
-      } else if (args[i].startsWith('+')) {
-        version = args[i].slice(1);
-      } else {
-        // Only add flag if it's not already present
-        if (!flags.includes(args[i])) {
-          flags.push(args[i]);
-        }
+      addFlag('--skip-zk');
+    }
+
+    // Known compactc flags may be given without `--`
+    for (const flag of parsed.flags) {
+      if (
+        COMPILER_COMMAND.options.some(
+          (option) => option.name === flag && option.compactc,
+        )
+      ) {
+        addFlag(flag);
+      }
+    }
+    for (const flag of parsed.passthrough) {
+      addFlag(flag);
+    }
+
+    if (resolved?.jobs !== undefined) {
+      jobs = parseJobs(String(resolved.jobs), '"jobs" option');
+    }
+    if (env.COMPACT_JOBS) {
+      jobs = parseJobs(env.COMPACT_JOBS, 'COMPACT_JOBS');
+    }
+    const jobsValue = value('--jobs');
+    if (jobsValue !== undefined) {
+      jobs = parseJobs(jobsValue, '--jobs flag');
+    }
+
+    const matrixValue = value('--matrix');
+    if (matrixValue !== undefined) {
+      const versions = matrixValue
+        .split(',')
+        .map((version) => version.trim().replace(/^\+/, ''));
+      if (!versions.every(isToolchainVersion)) {
+        throw new UsageError(
+          '--matrix flag requires comma-separated toolchain versions (e.g. +0.25.0,+0.26.0)',
+        );
+      }
+      matrix = [...new Set(versions)];
+    }
+
+    const timeoutValue = value('--timeout');
+    if (timeoutValue !== undefined) {
+      const seconds = Number(timeoutValue);
+      if (!(seconds > 0)) {
+        throw new UsageError(
+          '--timeout flag requires a positive number of seconds',
+        );
+      }
+      timeout = Math.max(1, Math.round(seconds * 1000));
+      if (timeout > MAX_TIMEOUT_MS) {
+        throw new UsageError(
+          `--timeout flag must be at most ${Math.floor(MAX_TIMEOUT_MS / 1000)} seconds`,
+        );
+      }
+    }
+
+    const files = parsed.positionals;
+    for (const file of files) {
+      if (!file.endsWith('.compact')) {
+        throw new UsageError(
+          `Positional argument requires a .compact file, got "${file}" (use --dir for directories)`,
+        );
       }
     }
 
-    return new CompactCompiler(flags.join(' '), targetDir, version);
+    const dirs = parsed.values.get('--dir') ?? [];
+    const targetDir = dirs.length > 1 ? dirs : dirs[0];
+    if (parsed.version !== undefined && !isToolchainVersion(parsed.version)) {
+      throw new UsageError(
+        `+${parsed.version} is not a toolchain version (e.g. +0.25.0)`,
+      );
+    }
+    const version = parsed.version ?? resolved?.version;
+    const force = parsed.flags.has('--force');
+    const keepGoing = parsed.flags.has('--keep-going');
+    const affected = parsed.values.get('--affected');
+    const changedSince = value('--changed-since');
+    const check = parsed.flags.has('--check');
+    const includeKeys = parsed.flags.has('--include-keys');
+    const prune = parsed.flags.has('--prune');
+    const dryRun = parsed.flags.has('--dry-run');
+    // Choices are checked by the parser, these only narrow the types
+    const graphValue = value('--graph');
+    const graph =
+      graphValue === 'json' || graphValue === 'dot' ? graphValue : undefined;
+    const include = [
+      ...(resolved?.include ?? []),
+      ...(parsed.values.get('--include') ?? []),
+    ];
+    const exclude = [
+      ...(resolved?.exclude ?? []),
+      ...(parsed.values.get('--exclude') ?? []),
+    ];
+    const list = parsed.flags.has('--list');
+    const layoutValue = value('--layout');
+    const layout =
+      layoutValue !== undefined && isArtifactLayout(layoutValue)
+        ? layoutValue
+        : resolved?.layout;
+    const reporterValue = value('--reporter');
+    const reporter =
+      reporterValue !== undefined && isReporterFormat(reporterValue)
+        ? reporterValue
+        : undefined;
+    const reportFile = value('--report-file');
+    const watch = parsed.flags.has('--watch');
+    const exec = value('--exec');
+
+    if (reportFile && (reporter ?? 'pretty') === 'pretty') {
+      throw new UsageError(
+        '--report-file flag requires a machine-readable --reporter',
+      );
+    }
+
+    if (exec !== undefined && !watch) {
+      throw new UsageError('--exec flag requires --watch');
+    }
+
+    if (matrix && watch) {
+      throw new UsageError(
+        '--matrix flag requires a one-off build, not --watch',
+      );
+    }
+
+    if (
+      matrix &&
+      reporter !== undefined &&
+      reporter !== 'pretty' &&
+      reporter !== 'json'
+    ) {
+      throw new UsageError(
+        '--matrix flag requires the pretty or json reporter',
+      );
+    }
+
+    if (includeKeys && !check) {
+      throw new UsageError('--include-keys flag requires --check');
+    }
+
+    if (check && (watch || matrix)) {
+      throw new UsageError(
+        '--check flag requires a one-off build, not --watch or --matrix',
+      );
+    }
+
+    if (
+      check &&
+      reporter !== undefined &&
+      reporter !== 'pretty' &&
+      reporter !== 'json'
+    ) {
+      throw new UsageError('--check flag requires the pretty or json reporter');
+    }
+
+    if (prune && (check || matrix)) {
+      throw new UsageError(
+        '--prune flag requires a one-off or watch build, not --check or --matrix',
+      );
+    }
+
+    if (dryRun && !prune) {
+      throw new UsageError('--dry-run flag requires --prune');
+    }
+
+    return new CompactCompiler(flags.join(' '), targetDir, version, undefined, {
+      jobs,
+      force,
+      keepGoing,
+      affected,
+      changedSince,
+      matrix,
+      check,
+      includeKeys,
+      prune,
+      dryRun,
+      graph,
+      list,
+      reporter,
+      reportFile,
+      watch,
+      exec,
+      include,
+      exclude,
+      layout,
+      timeout,
+      signal,
+      files: files.length > 0 ? files : undefined,
+      ...(resolved
+        ? {
+            srcDir: resolved.srcDir,
+            artifactsDir: resolved.artifactsDir,
+            overrides: resolved.overrides,
+            requiredVersion: resolved.requiredVersion,
+            configFile: resolved.file,
+            profile: resolved.profile,
+          }
+        : {}),
+    });
   }
 
   /**
@@ -562,8 +2192,9 @@ export class CompactCompiler {
    * 2. Retrieves developer tools and compiler versions
    * 3. Displays environment configuration information
    *
+   * @returns Promise resolving to the developer tools and toolchain versions
    * @throws {CompactCliNotFoundError} If Compact CLI is not available in PATH
-   * @throws {Error} If version retrieval or other validation steps fail
+   * @throws {EnvironmentError} If version retrieval or other validation steps fail
    * @example
    * ```typescript
    * try {
@@ -576,29 +2207,77 @@ export class CompactCompiler {
    * }
    * ```
    */
-  async validateEnvironment(): Promise<void> {
+  async validateEnvironment(): Promise<{
+    devToolsVersion: string;
+    toolchainVersion: string;
+  }> {
     const { devToolsVersion, toolchainVersion } =
-      await this.environmentValidator.validate(this.version);
+      await this.environmentValidator.validate(
+        this.version,
+        this.requiredVersion,
+      );
+    this.devToolsVersion = devToolsVersion;
+    this.toolchainVersion = toolchainVersion;
     UIService.displayEnvInfo(
       devToolsVersion,
       toolchainVersion,
       this.targetDir,
       this.version,
+      this.configFile
+        ? {
+            file: relative(process.cwd(), this.configFile) || this.configFile,
+            srcDir: this.sourceDir,
+            artifactsDir: this.artifactsDir,
+            flags: this.flags,
+          }
+        : undefined,
     );
+    if (this.profile) {
+      UIService.showProfile(this.profile, this.artifactsDir);
+    }
+    return { devToolsVersion, toolchainVersion };
   }
 
   /**
    * Main compilation method that orchestrates the entire compilation process.
    *
    * Process flow:
-   * 1. Validates environment and shows configuration
-   * 2. Discovers .compact files in target directory
-   * 3. Compiles each file with progress reporting
-   * 4. Handles errors and provides user feedback
+   * 1. Validates environment and shows configuration, checking the toolchain
+   *    version against `requiredVersion` when set
+   * 2. Discovers .compact files in target directory, narrowed to the files
+   *    affected by `affected`/`changedSince` in dependency order when set, and
+   *    checks their `pragma language_version` against the toolchain
+   * 3. Compiles each file with progress reporting, up to `jobs` at a time,
+   *    skipping files whose cached inputs are unchanged (unless `force` is set)
+   * 4. Handles errors and provides user feedback: stops at the first failure,
+   *    or with `keepGoing` compiles every file and prints a summary table
+   * 5. Persists the compilation cache, including files compiled before a failure
+   * 6. Writes the run report when a machine-readable `reporter` is set; pretty
+   *    output is suppressed while the report goes to stdout
+   *
+   * With `matrix`, the files are instead compiled once per toolchain (see
+   * {@link runMatrix}) and a compatibility table is printed, or written as
+   * JSON with the json reporter; failures are reported in the table rather
+   * than thrown.
+   *
+   * With `check`, the files are instead compiled into a temporary directory
+   * and compared with the committed artifacts (see {@link runCheck}); the
+   * differences are printed, or written as JSON with the json reporter.
+   *
+   * With `prune`, artifact directories without a source are removed after a
+   * successful build (see {@link pruneArtifacts}).
    *
    * @throws {CompactCliNotFoundError} If Compact CLI is not available
-   * @throws {DirectoryNotFoundError} If target directory doesn't exist
-   * @throws {CompilationError} If any file compilation fails
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @throws {ArtifactCollisionError} If sources would overwrite each other's artifacts
+   * @throws {ToolchainVersionMismatchError} If the toolchain is outside `requiredVersion`
+   * or cannot satisfy the `pragma language_version` of some files
+   * @throws {CompilationError} If any file compilation fails (fail-fast mode),
+   * e.g. a {@link CompilationTimeoutError} when it exceeds `timeout`
+   * @throws {AggregateCompilationError} If any file compilation fails (keep-going mode)
+   * @throws {ArtifactDriftError} If `check` finds out-of-date artifacts
+   * @throws The abort reason of `signal` if the run is cancelled
    * @example
    * ```typescript
    * const compiler = new CompactCompiler('--skip-zk', 'security');
@@ -616,85 +2295,1319 @@ export class CompactCompiler {
    * ```
    */
   async compile(): Promise<void> {
-    await this.validateEnvironment();
+    if (this.list) {
+      UIService.showFileList(await this.listFiles(), this.targetDir);
+      return;
+    }
 
-    const searchDir = this.targetDir ? join(SRC_DIR, this.targetDir) : SRC_DIR;
+    if (this.graph) {
+      const files = await this.discoverFiles();
+      const graph = await this.fileDiscovery.getDependencyGraph(files);
+      UIService.printDependencyGraph(graph.format(this.graph));
+      return;
+    }
 
-    // Validate target directory exists
-    if (this.targetDir && !existsSync(searchDir)) {
-      throw new DirectoryNotFoundError(
-        `Target directory ${searchDir} does not exist`,
-        searchDir,
+    const silent = UIService.silent;
+    UIService.silent = silent || this.reportsToStdout;
+    try {
+      if (this.matrix) {
+        const matrix = await this.runMatrix(this.matrix);
+        UIService.showMatrix(matrix);
+        if (this.reporter === 'json') {
+          await this.writeReportOutput(JSON.stringify(matrix, null, 2));
+        }
+        return;
+      }
+
+      if (this.check) {
+        const check = await this.runCheck();
+        UIService.showCheck(check);
+        if (this.reporter === 'json') {
+          await this.writeReportOutput(JSON.stringify(check, null, 2));
+        }
+        if (!check.success) {
+          throw new ArtifactDriftError(check.drift);
+        }
+        return;
+      }
+
+      const { report, results } = await this.execute();
+      await this.writeReport(report);
+      this.finishRun(results);
+      if (this.prune) {
+        await this.pruneArtifacts();
+      }
+    } finally {
+      UIService.silent = silent;
+    }
+  }
+
+  /**
+   * Runs a compilation like {@link compile}, but returns the report of the
+   * run instead of writing it, and reports compilation failures in it
+   * instead of throwing them. The `graph`, `list` and `reporter` options are
+   * ignored. Progress is emitted on {@link events}; the pretty output still
+   * follows {@link UIService.silent}.
+   *
+   * @returns Promise resolving to the report of the run
+   * @throws {CompactCliNotFoundError} If Compact CLI is not available
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @throws {ArtifactCollisionError} If sources would overwrite each other's artifacts
+   * @throws {ToolchainVersionMismatchError} If the toolchain cannot compile the sources
+   * @throws The abort reason of `signal` if the run is cancelled
+   * @example
+   * ```typescript
+   * const compiler = new CompactCompiler('--skip-zk', 'token');
+   * compiler.events.on('progress', (event) => {
+   *   if (event.type === 'file') {
+   *     console.log(`${event.file.status} ${event.file.file}`);
+   *   }
+   * });
+   *
+   * const report = await compiler.run();
+   * if (!report.success) {
+   *   console.log(report.files.filter((file) => file.status === 'failed'));
+   * }
+   * ```
+   */
+  async run(): Promise<CompilationReport> {
+    const { report } = await this.execute();
+    return report;
+  }
+
+  /**
+   * Compiles the files with each toolchain version into its own artifact
+   * root, `<artifactsDir>/.matrix/<version>`, keeping going after failures.
+   * `requiredVersion` is ignored, since the point is to find out which
+   * versions work. A toolchain that cannot run, or whose language version
+   * does not satisfy the `pragma language_version` of some files, is
+   * recorded in the report instead of ending the run.
+   *
+   * @param versions - Toolchain versions to compile with (defaults to `matrix`)
+   * @returns Promise resolving to the file-by-version report of the run
+   * @throws {CompactCliNotFoundError} If Compact CLI is not available
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @throws {ArtifactCollisionError} If sources would overwrite each other's artifacts
+   * @throws The abort reason of `signal` if the run is cancelled
+   * @example
+   * ```typescript
+   * const compiler = new CompactCompiler('--skip-zk', 'token');
+   * const matrix = await compiler.runMatrix(['0.25.0', '0.26.0']);
+   * for (const { file, results } of matrix.files) {
+   *   console.log(file, results['0.26.0'].status);
+   * }
+   * ```
+   */
+  async runMatrix(
+    versions: string[] = this.matrix ?? [],
+  ): Promise<MatrixReport> {
+    const startedAt = new Date();
+    const toolchains: MatrixToolchain[] = [];
+    const rows = new Map<string, Record<string, MatrixCell>>();
+    /** Toolchains that only failed the files whose pragma they do not satisfy */
+    const pragmaMismatches = new Set<string>();
+    const row = (file: string) => {
+      const results = rows.get(file) ?? {};
+      rows.set(file, results);
+      return results;
+    };
+
+    for (const [index, version] of versions.entries()) {
+      this.signal?.throwIfAborted();
+      UIService.showMatrixToolchain(version, index, versions.length);
+      const artifactsDir = join(this.artifactsDir, MATRIX_DIR, version);
+      const compiler = new CompactCompiler(
+        this.flags,
+        this.targetDir,
+        version,
+        this.execFn,
+        {
+          ...this.options,
+          matrix: undefined,
+          keepGoing: true,
+          requiredVersion: undefined,
+          reporter: undefined,
+          reportFile: undefined,
+          artifactsDir,
+        },
+      );
+
+      try {
+        const report = await compiler.run();
+        toolchains.push({
+          version,
+          artifactsDir,
+          toolchainVersion:
+            parseVersion(report.toolchain.toolchainVersion) ??
+            report.toolchain.toolchainVersion,
+        });
+        for (const file of report.files) {
+          row(file.file)[version] = toMatrixCell(file);
+        }
+      } catch (error) {
+        if (
+          !(error instanceof ToolchainVersionMismatchError) &&
+          !(error instanceof EnvironmentError)
+        ) {
+          throw error;
+        }
+        this.signal?.throwIfAborted();
+        toolchains.push({ version, artifactsDir, error: error.message });
+        UIService.spinner().fail(
+          chalk.red(`[COMPILE] Toolchain ${version}: ${error.message}`),
+        );
+        if (error instanceof ToolchainVersionMismatchError) {
+          pragmaMismatches.add(version);
+          for (const { file, range } of error.requirements) {
+            row(file)[version] = {
+              status: 'failed',
+              error: `Requires language_version ${range}, toolchain ${version} provides ${error.version}`,
+            };
+          }
+        }
+      }
+    }
+
+    // When no toolchain got to compile, the table still lists every file
+    if (toolchains.every((toolchain) => toolchain.error)) {
+      for (const file of await this.discoverFiles()) {
+        row(file);
+      }
+    }
+
+    const files = [...rows].map(([file, results]) => {
+      for (const { version, error } of toolchains) {
+        results[version] ??=
+          error && !pragmaMismatches.has(version)
+            ? { status: 'failed', error }
+            : { status: 'skipped' };
+      }
+      return { file, results };
+    });
+
+    return {
+      flags: this.flags,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      success:
+        toolchains.every((toolchain) => !toolchain.error) &&
+        files.every(({ results }) =>
+          Object.values(results).every(
+            ({ status }) => status === 'passed' || status === 'cached',
+          ),
+        ),
+      toolchains,
+      files,
+    };
+  }
+
+  /**
+   * Compiles the files into a temporary artifacts directory next to
+   * `artifactsDir`, so that source map paths match, and compares the output
+   * with the committed artifacts of every file. Only `contract/` and
+   * `compiler/` are compared unless `includeKeys` is set, as proving keys
+   * differ between compilations. The cache is bypassed and the temporary
+   * directory is removed afterwards; the committed artifacts are never
+   * written.
+   *
+   * @returns Promise resolving to the differences of every out-of-date file
+   * @throws {CompactCliNotFoundError} If Compact CLI is not available
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @throws {ArtifactCollisionError} If sources would overwrite each other's artifacts
+   * @throws {ToolchainVersionMismatchError} If the toolchain cannot compile the sources
+   * @throws {CompilationError} If a file fails to compile (fail-fast mode)
+   * @throws {AggregateCompilationError} If any file fails to compile (keep-going mode)
+   * @throws The abort reason of `signal` if the run is cancelled
+   * @example
+   * ```typescript
+   * const compiler = new CompactCompiler('--skip-zk', undefined, undefined, undefined, {
+   *   srcDir: 'sample-contracts',
+   *   artifactsDir: 'test-artifacts',
+   * });
+   * const { success, drift } = await compiler.runCheck();
+   * ```
+   */
+  async runCheck(): Promise<ArtifactCheckReport> {
+    const dirs = [...CHECKED_DIRS, ...(this.includeKeys ? KEY_DIRS : [])];
+    const parentDir = dirname(this.artifactsDir);
+    await mkdir(parentDir, { recursive: true });
+    const checkDir = await mkdtemp(
+      join(parentDir, `.${basename(this.artifactsDir)}-check-`),
+    );
+
+    try {
+      const compiler = new CompactCompiler(
+        this.flags,
+        this.targetDir,
+        this.version,
+        this.execFn,
+        {
+          ...this.options,
+          check: false,
+          includeKeys: false,
+          force: true,
+          reporter: undefined,
+          reportFile: undefined,
+          artifactsDir: checkDir,
+        },
       );
+      const { report, results } = await compiler.execute();
+      compiler.finishRun(results);
+
+      const drift: ArtifactDrift[] = [];
+      for (const file of report.files) {
+        const artifactDir = getArtifactDir(
+          file.file,
+          this.artifactsDir,
+          this.layout,
+        );
+        const diff = await compareArtifacts(
+          file.artifactDir,
+          artifactDir,
+          dirs,
+        );
+        if (hasDrift(diff)) {
+          drift.push({ file: file.file, artifactDir, ...diff });
+        }
+      }
+
+      return {
+        artifactsDir: this.artifactsDir,
+        dirs,
+        files: report.files.map((file) => file.file),
+        success: drift.length === 0,
+        drift,
+      };
+    } finally {
+      await rm(checkDir, { recursive: true, force: true });
     }
+  }
+
+  /**
+   * Removes the artifact directories no source compiles to anymore, such as
+   * those of renamed or deleted sources, and prints what was removed. Every
+   * source of the source directory keeps its artifacts, whatever the target
+   * directories, globs and `.compactignore`; directories left empty in the
+   * mirror layout are removed too, and the manifest drops the entries of
+   * removed directories. With `dryRun`, the directories are only reported.
+   *
+   * @returns Promise resolving to the report of the prune
+   * @example
+   * ```typescript
+   * const compiler = new CompactCompiler('', undefined, undefined, undefined, {
+   *   dryRun: true,
+   * });
+   * const { removed } = await compiler.pruneArtifacts();
+   * // removed: ['OldToken']
+   * ```
+   */
+  async pruneArtifacts(): Promise<PruneReport> {
+    const sources = await this.fileDiscovery.selectCompactFiles(this.sourceDir);
+    const expected = new Set(
+      sources.map(({ file }) =>
+        getArtifactDir(file, this.artifactsDir, this.layout),
+      ),
+    );
+    const stale = (
+      await findArtifactDirs(this.artifactsDir, this.layout)
+    ).filter((outputDir) => !expected.has(outputDir));
+
+    if (!this.dryRun) {
+      for (const outputDir of stale) {
+        await rm(outputDir, { recursive: true, force: true });
+        await this.removeEmptyParents(outputDir);
+      }
+      if (stale.length > 0 && existsSync(this.manifest.manifestPath)) {
+        await this.manifest.load();
+        await this.manifest.save();
+      }
+    }
+
+    const report: PruneReport = {
+      artifactsDir: this.artifactsDir,
+      dryRun: this.dryRun,
+      removed: stale.map((outputDir) =>
+        relative(this.artifactsDir, outputDir).split(sep).join('/'),
+      ),
+    };
+    UIService.showPrune(report);
+    return report;
+  }
+
+  /**
+   * Removes the directories between a removed artifact directory and the
+   * artifacts directory that are left empty.
+   *
+   * @param outputDir - Removed artifact directory
+   * @private
+   */
+  private async removeEmptyParents(outputDir: string): Promise<void> {
+    for (
+      let dir = dirname(outputDir);
+      relative(this.artifactsDir, dir) !== '' &&
+      !relative(this.artifactsDir, dir).startsWith('..');
+      dir = dirname(dir)
+    ) {
+      if ((await readdir(dir)).length > 0) {
+        return;
+      }
+      await rm(dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Validates the environment, then selects and compiles the files,
+   * emitting progress events along the way.
+   *
+   * @returns Promise resolving to the report of the run and the result of
+   * every reported file
+   * @private
+   */
+  private async execute(): Promise<{
+    report: CompilationReport;
+    results: FileResult[];
+  }> {
+    const startedAt = new Date();
+    await this.validateEnvironment();
+
+    const files = await this.selectFiles();
+    await this.checkLanguageVersions(files);
+    this.events.emit('progress', { type: 'start', files });
+    const results = files.length > 0 ? await this.compileFiles(files) : [];
+
+    const report = this.buildReport(files, results, startedAt);
+    if (report.success && results.length > 0) {
+      await this.writeManifest(results);
+    }
+    this.events.emit('progress', { type: 'end', report });
+    return { report, results };
+  }
+
+  /**
+   * Whether the run report replaces the pretty output on stdout, i.e. a
+   * machine-readable reporter is used without a report file.
+   */
+  get reportsToStdout(): boolean {
+    return this.reporter !== 'pretty' && this.reportFile === undefined;
+  }
+
+  /** Whether the compiler should keep watching sources after the first build */
+  get watchMode(): boolean {
+    return this.watch;
+  }
 
-    const compactFiles = await this.fileDiscovery.getCompactFiles(searchDir);
+  /** Shell command to run after each successful build in watch mode */
+  get watchExec(): string | undefined {
+    return this.exec;
+  }
+
+  /** Directory containing the .compact sources */
+  get srcDir(): string {
+    return this.sourceDir;
+  }
+
+  /**
+   * Creates a compiler with the same configuration that only compiles the
+   * given files and the files depending on them. Used by watch mode to
+   * rebuild after a change.
+   *
+   * @param files - Changed files, relative to SRC_DIR
+   * @returns A new compiler limited to the affected files
+   * @example
+   * ```typescript
+   * await compiler.withAffected(['utils/Utils.compact']).compile();
+   * ```
+   */
+  withAffected(files: string[]): CompactCompiler {
+    return new CompactCompiler(
+      this.flags,
+      this.targetDir,
+      this.version,
+      this.execFn,
+      { ...this.options, affected: files, changedSince: undefined },
+    );
+  }
+
+  /**
+   * Discovers the files to compile, narrowed to the affected files when
+   * `affected` or `changedSince` is set, and announces them. Discovered
+   * files must not share an artifact directory.
+   *
+   * @returns Promise resolving to the files to compile, in compilation order;
+   * empty when there is nothing to compile
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @throws {ArtifactCollisionError} If discovered files would overwrite each other's artifacts
+   * @private
+   */
+  private async selectFiles(): Promise<string[]> {
+    let compactFiles = await this.discoverFiles();
 
     if (compactFiles.length === 0) {
       UIService.showNoFiles(this.targetDir);
-      return;
+      return [];
+    }
+
+    const collisions = findArtifactCollisions(
+      compactFiles,
+      this.artifactsDir,
+      this.layout,
+    );
+    if (collisions.length > 0) {
+      throw new ArtifactCollisionError(collisions);
+    }
+
+    if (this.affected || this.changedSince) {
+      const changed = this.affected ?? (await this.getChangedFiles());
+      compactFiles = await this.selectAffectedFiles(compactFiles, changed);
+
+      if (compactFiles.length === 0) {
+        UIService.showNoAffectedFiles(changed);
+        return [];
+      }
     }
 
     UIService.showCompilationStart(compactFiles.length, this.targetDir);
+    return compactFiles;
+  }
+
+  /**
+   * Checks the language version of the toolchain against the
+   * `pragma language_version` of every file. The language version is only
+   * queried when a file declares a pragma; unreadable files and malformed
+   * pragmas are left for compactc to report.
+   *
+   * @param files - Relative paths of the .compact files to compile
+   * @throws {ToolchainVersionMismatchError} If the toolchain cannot compile some files
+   * @throws {EnvironmentError} If the language version command fails or its
+   * output has no version
+   * @private
+   */
+  private async checkLanguageVersions(files: string[]): Promise<void> {
+    const requirements: VersionRequirement[] = [];
+    for (const file of files) {
+      try {
+        const range = await this.fileDiscovery.getLanguageVersion(file);
+        if (range && isVersionRange(range)) {
+          requirements.push({ file, range });
+        }
+      } catch {
+        // Unreadable files are reported by compactc
+      }
+    }
+    if (requirements.length === 0) {
+      return;
+    }
+
+    const output = await checkEnvironment(
+      () => this.environmentValidator.getLanguageVersion(this.version),
+      this.signal,
+    );
+    const languageVersion = parseVersion(output);
+    if (!languageVersion) {
+      throw new EnvironmentError(
+        `Could not parse the language version from "${output}"`,
+      );
+    }
+
+    const mismatches = requirements.filter(
+      ({ range }) => !satisfies(languageVersion, range),
+    );
+    if (mismatches.length > 0) {
+      const mismatchedFiles = mismatches.map(({ file }) => file);
+      throw new ToolchainVersionMismatchError(
+        `Language version ${languageVersion} of the toolchain does not satisfy the language_version pragma of ${mismatchedFiles.join(', ')}`,
+        languageVersion,
+        mismatches,
+      );
+    }
+  }
+
+  /**
+   * Compiles the selected files and persists the compilation cache, including
+   * files compiled before a failure.
+   *
+   * @param files - Relative paths of the .compact files to compile
+   * @returns Promise resolving to the results of the files that were reported
+   * @private
+   */
+  private async compileFiles(files: string[]): Promise<FileResult[]> {
+    await this.cache.load();
+    try {
+      return this.jobs === 1
+        ? await this.compileFilesSequentially(files)
+        : await this.compileFilesConcurrently(files);
+    } finally {
+      await this.cache.save();
+    }
+  }
+
+  /**
+   * Updates `manifest.json` in the artifacts directory with the compiled
+   * files. Cached files keep their recorded entry unless it was written for
+   * other flags or another toolchain.
+   *
+   * @param results - Results of a successful run
+   * @private
+   */
+  private async writeManifest(results: FileResult[]): Promise<void> {
+    const toolchainVersion =
+      parseVersion(this.toolchainVersion) ?? this.toolchainVersion;
 
-    for (const [index, file] of compactFiles.entries()) {
-      await this.compileFile(file, index, compactFiles.length);
+    await this.manifest.load();
+    for (const { file, status } of results) {
+      const flags = this.flagsFor(file);
+      const recorded = this.manifest.get(file);
+      const upToDate =
+        status === 'cached' &&
+        recorded?.flags === flags &&
+        recorded.toolchainVersion === toolchainVersion;
+      if (status !== 'skipped' && !upToDate) {
+        await this.manifest.update(file, flags, toolchainVersion);
+      }
+    }
+    await this.manifest.save();
+  }
+
+  /**
+   * Builds the machine-readable report of a run. Files without a result
+   * were never started and are reported as skipped.
+   *
+   * @param files - Files selected for compilation, in compilation order
+   * @param results - Results of the files that were reported
+   * @param startedAt - Start of the run
+   * @returns The report of the run
+   * @private
+   */
+  private buildReport(
+    files: string[],
+    results: FileResult[],
+    startedAt: Date,
+  ): CompilationReport {
+    const resultsByFile = new Map(
+      results.map((result) => [result.file, result]),
+    );
+    const reports = files.map((file) =>
+      this.toFileReport(resultsByFile.get(file) ?? { file, status: 'skipped' }),
+    );
+    const count = (status: FileStatus) =>
+      reports.filter((report) => report.status === status).length;
+
+    return {
+      toolchain: {
+        devToolsVersion: this.devToolsVersion,
+        toolchainVersion: this.toolchainVersion,
+        ...(this.version ? { version: this.version } : {}),
+      },
+      flags: this.flags,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      success: count('failed') === 0,
+      summary: {
+        passed: count('passed'),
+        failed: count('failed'),
+        cached: count('cached'),
+        skipped: count('skipped'),
+      },
+      files: reports,
+    };
+  }
+
+  /**
+   * Describes the result of a file for the run report, including the
+   * output and diagnostics of compactc for both successful and failed
+   * compilations, so the warnings of passing files are reported too.
+   *
+   * @param result - Result of the file
+   * @returns The report of the file
+   * @private
+   */
+  private toFileReport({
+    file,
+    status,
+    error,
+    durationMs,
+    output,
+  }: FileResult): FileReport {
+    const execError =
+      error instanceof CompilationError &&
+      isPromisifiedChildProcessError(error.cause)
+        ? error.cause
+        : undefined;
+    const { stdout, stderr } = output ??
+      execError ?? { stdout: '', stderr: '' };
+
+    return {
+      file,
+      source: join(this.sourceDir, file),
+      artifactDir: getArtifactDir(file, this.artifactsDir, this.layout),
+      status,
+      durationMs: durationMs ?? 0,
+      stdout,
+      stderr,
+      diagnostics:
+        error instanceof CompilationError
+          ? error.diagnostics
+          : parseDiagnostics(`${stderr}\n${stdout}`),
+      ...(status === 'failed'
+        ? { error: error instanceof Error ? error.message : String(error) }
+        : {}),
+    };
+  }
+
+  /**
+   * Emits the `file` progress event of a file that was passed, failed or cached.
+   *
+   * @param result - Result of the file
+   * @param index - File index (0-based)
+   * @param total - Total number of files being compiled
+   * @private
+   */
+  private emitFileProgress(
+    result: FileResult,
+    index: number,
+    total: number,
+  ): void {
+    this.events.emit('progress', {
+      type: 'file',
+      file: this.toFileReport(result),
+      index,
+      total,
+    });
+  }
+
+  /**
+   * Renders the run report with the configured reporter and writes it to
+   * `reportFile`, or to stdout when no file is set. Does nothing for the
+   * pretty reporter.
+   *
+   * @param report - Report of the run
+   * @private
+   */
+  private async writeReport(report: CompilationReport): Promise<void> {
+    if (this.reporter === 'pretty') {
+      return;
+    }
+
+    await this.writeReportOutput(formatReport(report, this.reporter));
+  }
+
+  /**
+   * Writes a rendered report to `reportFile`, or to stdout when no file is set.
+   *
+   * @param output - Rendered report
+   * @private
+   */
+  private async writeReportOutput(output: string): Promise<void> {
+    if (this.reportFile === undefined) {
+      UIService.printReport(output);
+      return;
+    }
+
+    await mkdir(dirname(this.reportFile), { recursive: true });
+    await writeFile(this.reportFile, `${output}\n`);
+    UIService.spinner().info(
+      chalk.blue(
+        `[COMPILE] Wrote ${this.reporter} report to ${this.reportFile}`,
+      ),
+    );
+  }
+
+  /**
+   * Reports the end of a run and raises its failures.
+   * In keep-going mode a summary table is printed and every failure is
+   * thrown together; otherwise the first failure is rethrown as-is.
+   *
+   * @param results - Results of every file in the run, in file order
+   * @throws {CompilationError} If a file failed in fail-fast mode
+   * @throws {AggregateCompilationError} If any file failed in keep-going mode
+   * @private
+   */
+  private finishRun(results: FileResult[]): void {
+    const failures = results.filter((result) => result.status === 'failed');
+
+    if (!this.keepGoing) {
+      if (failures.length > 0) {
+        throw failures[0].error;
+      }
+      return;
+    }
+
+    UIService.showSummary(results);
+    if (failures.length > 0) {
+      throw new AggregateCompilationError(
+        failures.map(({ file, error }) =>
+          error instanceof CompilationError
+            ? error
+            : new CompilationError(
+                `Failed to compile ${file}: ${String(error)}`,
+                file,
+                error,
+              ),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Compiles files one after another, stopping at the first failure unless
+   * `keepGoing` is set, or when the run is cancelled.
+   *
+   * @param files - Relative paths of the .compact files to compile
+   * @returns Promise resolving to the result of every file, in file order
+   * @private
+   */
+  private async compileFilesSequentially(
+    files: string[],
+  ): Promise<FileResult[]> {
+    const results: FileResult[] = [];
+
+    for (const [index, file] of files.entries()) {
+      this.signal?.throwIfAborted();
+      const result = await this.compileFile(file, index, files.length);
+      this.emitFileProgress(result, index, files.length);
+      results.push(result);
+      if (result.status === 'failed' && !this.keepGoing) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Discovers the .compact files in the target directories and files (or
+   * the whole source directory), filtered by the include/exclude globs and
+   * `.compactignore`. Used by {@link CompactBuilder} to copy the sources.
+   *
+   * @returns Promise resolving to relative paths from the source directory
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   */
+  async discoverFiles(): Promise<string[]> {
+    const selections = await this.selectTargets();
+    return selections
+      .filter((selection) => selection.included)
+      .map((selection) => selection.file);
+  }
+
+  /**
+   * Explains for every source in the target directories and files (or the
+   * whole source directory) whether it is selected by the include/exclude
+   * globs and `.compactignore`. Target files go through the same selection
+   * as the sources of a directory.
+   *
+   * @returns Promise resolving to the selection of every target source,
+   * directories first, without duplicates
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @private
+   */
+  private async selectTargets(): Promise<FileSelection[]> {
+    const dirs = [this.targetDir ?? []].flat();
+    if (dirs.length === 0 && this.files.length === 0) {
+      return this.fileDiscovery.selectCompactFiles(this.sourceDir);
+    }
+
+    const selections = new Map<string, FileSelection>();
+    for (const dir of dirs) {
+      const searchDir = join(this.sourceDir, dir);
+      // Validate target directory exists
+      if (!existsSync(searchDir)) {
+        throw new DirectoryNotFoundError(
+          `Target directory ${searchDir} does not exist`,
+          searchDir,
+        );
+      }
+      for (const selection of await this.fileDiscovery.selectCompactFiles(
+        searchDir,
+      )) {
+        selections.set(selection.file, selection);
+      }
+    }
+
+    if (this.files.length > 0) {
+      for (const file of this.files) {
+        if (!existsSync(join(this.sourceDir, file))) {
+          throw new SourceNotFoundError(
+            `Source file ${join(this.sourceDir, file)} does not exist`,
+            file,
+          );
+        }
+      }
+      for (const selection of await this.fileDiscovery.selectCompactFiles(
+        this.sourceDir,
+      )) {
+        if (this.files.includes(selection.file)) {
+          selections.set(selection.file, selection);
+        }
+      }
+    }
+
+    return [...selections.values()];
+  }
+
+  /**
+   * Explains for every discovered source whether it would be compiled:
+   * the include/exclude and `.compactignore` selection, narrowed to the
+   * affected files when `affected` or `changedSince` is set.
+   *
+   * @returns Promise resolving to the selection of every discovered file
+   * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+   * @throws {SourceNotFoundError} If a target file doesn't exist
+   * @private
+   */
+  private async listFiles(): Promise<FileSelection[]> {
+    const selections = await this.selectTargets();
+    if (!this.affected && !this.changedSince) {
+      return selections;
+    }
+
+    const changed = this.affected ?? (await this.getChangedFiles());
+    const included = selections
+      .filter((selection) => selection.included)
+      .map((selection) => selection.file);
+    const affected = new Set(await this.selectAffectedFiles(included, changed));
+
+    return selections.map((selection): FileSelection => {
+      if (!selection.included) {
+        return selection;
+      }
+      if (!affected.has(selection.file)) {
+        return { ...selection, included: false, reason: 'not affected' };
+      }
+      return {
+        ...selection,
+        reason: changed.includes(selection.file)
+          ? `${selection.reason}, changed`
+          : `${selection.reason}, imports a changed file`,
+      };
+    });
+  }
+
+  /**
+   * Returns the flags to compile a file with: the compiler flags followed by
+   * the flags of every matching override, least specific directory first.
+   *
+   * @param file - Relative path to the .compact file
+   * @returns Space-separated compiler flags
+   * @private
+   */
+  private flagsFor(file: string): string {
+    const path = file.split(sep).join('/');
+    const flags = this.flags ? this.flags.split(' ') : [];
+    const matching = Object.keys(this.overrides)
+      .filter((dir) => findMatchingGlob(path, [dir]) !== undefined)
+      .sort((a, b) => a.length - b.length);
+
+    for (const dir of matching) {
+      for (const flag of this.overrides[dir]) {
+        if (!flags.includes(flag)) {
+          flags.push(flag);
+        }
+      }
+    }
+    return flags.join(' ');
+  }
+
+  /**
+   * Lists the .compact files under the source directory that changed since
+   * `changedSince`, including uncommitted and untracked files. git runs
+   * without a shell, so the ref and the source directory are never
+   * interpreted by one.
+   *
+   * @returns Promise resolving to relative paths from the source directory
+   * @throws {UsageError} If the ref is empty or starts with `-`, which git
+   * would take for an option
+   * @throws {UsageError} If git fails, e.g. because the ref does not exist
+   * @throws {EnvironmentError} If git is not installed
+   * @private
+   */
+  private async getChangedFiles(): Promise<string[]> {
+    const ref = this.changedSince ?? '';
+    if (ref === '' || ref.startsWith('-')) {
+      throw new UsageError(
+        `--changed-since flag requires a git ref, got "${ref}"`,
+      );
+    }
+
+    try {
+      const spawnFn = this.options.spawnFn ?? spawnAsync;
+      const diff = await spawnFn(
+        'git',
+        ['diff', '--name-only', '--relative', ref, '--', this.sourceDir],
+        { signal: this.signal },
+      );
+      const untracked = await spawnFn(
+        'git',
+        ['ls-files', '--others', '--exclude-standard', '--', this.sourceDir],
+        { signal: this.signal },
+      );
+
+      return `${diff.stdout}\n${untracked.stdout}`
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.endsWith('.compact'))
+        .map((file) => toSourcePath(file, this.sourceDir));
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw error;
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new EnvironmentError(
+          "'git' not found in PATH, --changed-since requires it",
+          error,
+        );
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new UsageError(
+        `Failed to list files changed since ${ref}: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Narrows the discovered files to those that are changed or transitively
+   * import a changed file, ordered so that dependencies compile first.
+   *
+   * @param files - Discovered files
+   * @param changed - Changed files, relative to SRC_DIR
+   * @returns Promise resolving to the affected files in dependency order
+   * @private
+   */
+  private async selectAffectedFiles(
+    files: string[],
+    changed: string[],
+  ): Promise<string[]> {
+    const graph = await this.fileDiscovery.getDependencyGraph(files);
+    const discovered = new Set(files);
+    const affected = graph
+      .getAffected(changed)
+      .filter((file) => discovered.has(file));
+    return graph.topologicalSort(affected);
+  }
+
+  /**
+   * Computes the cache entry for a file and checks whether it can be skipped.
+   *
+   * @param file - Relative path to the .compact file
+   * @returns The entry describing the file's current inputs (if readable) and
+   * whether the existing artifacts can be reused
+   * @private
+   */
+  private async checkCache(
+    file: string,
+  ): Promise<{ entry?: CacheEntry; cached: boolean }> {
+    const entry = await this.cache.computeEntry(
+      file,
+      this.flagsFor(file),
+      this.toolchainVersion,
+    );
+    const cached =
+      !this.force && entry !== undefined && this.cache.isUpToDate(file, entry);
+    return { entry, cached };
+  }
+
+  /**
+   * Records the outcome of a compilation in the cache.
+   *
+   * @param file - Relative path to the .compact file
+   * @param entry - Entry computed before compiling, if the file was readable
+   * @param succeeded - Whether the compilation succeeded
+   * @private
+   */
+  private async updateCache(
+    file: string,
+    entry: CacheEntry | undefined,
+    succeeded: boolean,
+  ): Promise<void> {
+    if (succeeded && entry) {
+      await this.cache.set(file, entry);
+    } else {
+      this.cache.delete(file);
+    }
+  }
+
+  /**
+   * Compiles files with up to `jobs` compilations in flight.
+   * Output of each file is buffered and printed in file order once every
+   * preceding file has been reported, so progress still reads `[1/N]`, `[2/N]`, ...
+   * and stdout/stderr of different files never interleave.
+   *
+   * Keeps fail-fast semantics unless `keepGoing` is set: after the first
+   * failure no new files are started, in-flight compilations are allowed to
+   * finish, and files that never started are reported as `skipped`. A
+   * cancelled run stops scheduling files and rejects once the in-flight
+   * compilations are killed.
+   *
+   * @param files - Relative paths of the .compact files to compile
+   * @returns Promise resolving to the result of every file, in file order
+   * @private
+   */
+  private async compileFilesConcurrently(
+    files: string[],
+  ): Promise<FileResult[]> {
+    const total = files.length;
+    const outcomes: Array<CompileOutcome | undefined> = new Array(total);
+    let nextToReport = 0;
+    let failed = false;
+
+    const flush = (): void => {
+      while (nextToReport < total && outcomes[nextToReport]) {
+        this.reportOutcome(
+          outcomes[nextToReport] as CompileOutcome,
+          nextToReport,
+          total,
+        );
+        nextToReport++;
+      }
+    };
+
+    const spinner = UIService.spinner();
+    spinner.info(
+      chalk.blue(`[COMPILE] Compiling ${total} file(s) with ${this.jobs} jobs`),
+    );
+
+    await runWithConcurrency(
+      files,
+      this.jobs,
+      async (file, index) => {
+        const startedAt = Date.now();
+        const { entry, cached } = await this.checkCache(file);
+        if (cached) {
+          outcomes[index] = {
+            file,
+            cached,
+            durationMs: Date.now() - startedAt,
+          };
+          flush();
+          return;
+        }
+
+        this.events.emit('progress', { type: 'compiling', file, index, total });
+        try {
+          const result = await this.compilerService.compileFile(
+            file,
+            this.flagsFor(file),
+            this.version,
+            this.timeout,
+            (line, stream) => this.emitOutput(file, line, stream),
+          );
+          await this.updateCache(file, entry, true);
+          outcomes[index] = {
+            file,
+            result,
+            durationMs: Date.now() - startedAt,
+          };
+        } catch (error) {
+          await this.updateCache(file, entry, false);
+          if (this.signal?.aborted) {
+            throw error;
+          }
+          outcomes[index] = { file, error, durationMs: Date.now() - startedAt };
+          failed = true;
+        }
+        flush();
+      },
+      () => this.signal?.aborted || (failed && !this.keepGoing),
+    );
+
+    // Files after a gap left by fail-fast were never started; report whatever
+    // did complete so its output is not lost.
+    for (let index = nextToReport; index < total; index++) {
+      const outcome = outcomes[index];
+      if (outcome) {
+        this.reportOutcome(outcome, index, total);
+      }
+    }
+
+    if (failed && !this.keepGoing) {
+      spinner.fail(chalk.red('[COMPILE] Stopped after first failure'));
+    }
+
+    return files.map((file, index): FileResult => {
+      const outcome = outcomes[index];
+      return outcome ? toFileResult(outcome) : { file, status: 'skipped' };
+    });
+  }
+
+  /**
+   * Emits a line of compactc output as an `output` progress event and
+   * writes it to the log file.
+   *
+   * @param file - Relative path to the .compact file being compiled
+   * @param line - Line written by compactc, without its line break
+   * @param stream - Stream the line was written to
+   * @private
+   */
+  private emitOutput(file: string, line: string, stream: OutputStream): void {
+    logger.output(file, line, stream);
+    this.events.emit('progress', { type: 'output', file, stream, line });
+  }
+
+  /**
+   * Prints the buffered result of a concurrently compiled file and emits its
+   * progress event.
+   *
+   * @param outcome - Result or error produced by the compilation
+   * @param index - File index (0-based) for progress display
+   * @param total - Total number of files being compiled
+   * @private
+   */
+  private reportOutcome(
+    outcome: CompileOutcome,
+    index: number,
+    total: number,
+  ): void {
+    const step = `[${index + 1}/${total}]`;
+    const spinner = UIService.spinner();
+    this.emitFileProgress(toFileResult(outcome), index, total);
+
+    if (outcome.cached) {
+      spinner.info(chalk.blue(`[COMPILE] ${step} Cached ${outcome.file}`));
+      return;
+    }
+
+    if (outcome.result) {
+      spinner.succeed(
+        chalk.green(`[COMPILE] ${step} Compiled ${outcome.file}`),
+      );
+      if (!logger.quiet) {
+        this.printResultOutput(outcome.result, chalk.yellow);
+      }
+      return;
+    }
+
+    spinner.fail(chalk.red(`[COMPILE] ${step} Failed ${outcome.file}`));
+    this.printFailureOutput(outcome.error);
+  }
+
+  /**
+   * Prints compactc stdout (without the leading version line) and stderr.
+   *
+   * @param output - stdout/stderr captured from the compilation
+   * @param stderrColorFn - Chalk color function used for stderr
+   * @private
+   */
+  private printResultOutput(
+    output: { stdout: string; stderr: string },
+    stderrColorFn: (text: string) => string,
+  ): void {
+    // Filter out compactc version output from compact compile
+    const filteredOutput = output.stdout.split('\n').slice(1).join('\n');
+
+    if (filteredOutput) {
+      UIService.printOutput(filteredOutput, chalk.cyan);
+    }
+    UIService.printOutput(output.stderr, stderrColorFn);
+  }
+
+  /**
+   * Prints the output of a failed compilation. When diagnostics could be
+   * parsed they are rendered with a source excerpt; otherwise compactc's raw
+   * output is printed.
+   *
+   * @param error - Error raised by the compilation
+   * @private
+   */
+  private printFailureOutput(error: unknown): void {
+    if (!(error instanceof CompilationError)) {
+      return;
+    }
+
+    const execError = isPromisifiedChildProcessError(error.cause)
+      ? error.cause
+      : undefined;
+
+    if (error.diagnostics.length > 0) {
+      // Filter out compactc version output from compact compile
+      const filteredOutput = execError?.stdout.split('\n').slice(1).join('\n');
+      if (filteredOutput && parseDiagnostics(filteredOutput).length === 0) {
+        UIService.printOutput(filteredOutput, chalk.cyan);
+      }
+      UIService.printDiagnostics(error.diagnostics, chalk.red);
+      return;
+    }
+
+    if (execError) {
+      this.printResultOutput(execError, chalk.red);
     }
   }
 
   /**
    * Compiles a single file with progress reporting and error handling.
+   * Skips the file when its cached inputs are unchanged.
    * Private method used internally by the main compile() method.
    *
    * @param file - Relative path to the .compact file
    * @param index - Current file index (0-based) for progress tracking
    * @param total - Total number of files being compiled
-   * @throws {CompilationError} If compilation fails
+   * @returns Promise resolving to the file result; failures are returned
+   * rather than thrown so the caller decides whether to continue
+   * @throws The abort reason of the signal if the run is cancelled
    * @private
    */
   private async compileFile(
     file: string,
     index: number,
     total: number,
-  ): Promise<void> {
+  ): Promise<FileResult> {
     const step = `[${index + 1}/${total}]`;
-    const spinner = ora(
-      chalk.blue(`[COMPILE] ${step} Compiling ${file}`),
-    ).start();
+    const startedAt = Date.now();
+    const { entry, cached } = await this.checkCache(file);
+    if (cached) {
+      UIService.spinner().info(chalk.blue(`[COMPILE] ${step} Cached ${file}`));
+      return { file, status: 'cached', durationMs: Date.now() - startedAt };
+    }
+
+    this.events.emit('progress', { type: 'compiling', file, index, total });
+    const label = chalk.blue(`[COMPILE] ${step} Compiling ${file}`);
+    const spinner = UIService.spinner(label).start();
 
     try {
       const result = await this.compilerService.compileFile(
         file,
-        this.flags,
+        this.flagsFor(file),
         this.version,
+        this.timeout,
+        (line, stream) => {
+          this.emitOutput(file, line, stream);
+          if (line.trim()) {
+            spinner.text = `${label} ${chalk.gray(line.trim())}`;
+          }
+        },
       );
+      await this.updateCache(file, entry, true);
 
       spinner.succeed(chalk.green(`[COMPILE] ${step} Compiled ${file}`));
-      // Filter out compactc version output from compact compile
-      const filteredOutput = result.stdout.split('\n').slice(1).join('\n');
-
-      if (filteredOutput) {
-        UIService.printOutput(filteredOutput, chalk.cyan);
+      if (!logger.quiet) {
+        this.printResultOutput(result, chalk.yellow);
       }
-      UIService.printOutput(result.stderr, chalk.yellow);
+      return {
+        file,
+        status: 'passed',
+        durationMs: Date.now() - startedAt,
+        output: result,
+      };
     } catch (error) {
+      await this.updateCache(file, entry, false);
+      if (this.signal?.aborted) {
+        spinner.fail(chalk.red(`[COMPILE] ${step} Cancelled ${file}`));
+        throw error;
+      }
       spinner.fail(chalk.red(`[COMPILE] ${step} Failed ${file}`));
 
-      if (
-        error instanceof CompilationError &&
-        isPromisifiedChildProcessError(error)
-      ) {
-        const execError = error;
-        // Filter out compactc version output from compact compile
-        const filteredOutput = execError.stdout.split('\n').slice(1).join('\n');
-
-        if (filteredOutput) {
-          UIService.printOutput(filteredOutput, chalk.cyan);
-        }
-        UIService.printOutput(execError.stderr, chalk.red);
-      }
+      this.printFailureOutput(error);
 
-      throw error;
+      return {
+        file,
+        status: 'failed',
+        error,
+        durationMs: Date.now() - startedAt,
+      };
     }
   }
 
@@ -704,10 +3617,73 @@ export class CompactCompiler {
   get testFlags(): string {
     return this.flags;
   }
-  get testTargetDir(): string | undefined {
+  get testTargetDir(): string | string[] | undefined {
     return this.targetDir;
   }
+  get testFiles(): string[] {
+    return this.files;
+  }
   get testVersion(): string | undefined {
     return this.version;
   }
+  get testJobs(): number {
+    return this.jobs;
+  }
+  get testForce(): boolean {
+    return this.force;
+  }
+  get testKeepGoing(): boolean {
+    return this.keepGoing;
+  }
+  get testAffected(): string[] | undefined {
+    return this.affected;
+  }
+  get testChangedSince(): string | undefined {
+    return this.changedSince;
+  }
+  get testMatrix(): string[] | undefined {
+    return this.matrix;
+  }
+  get testCheck(): boolean {
+    return this.check;
+  }
+  get testIncludeKeys(): boolean {
+    return this.includeKeys;
+  }
+  get testPrune(): boolean {
+    return this.prune;
+  }
+  get testDryRun(): boolean {
+    return this.dryRun;
+  }
+  get testList(): boolean {
+    return this.list;
+  }
+  get testLayout(): ArtifactLayout {
+    return this.layout;
+  }
+  get testTimeout(): number | undefined {
+    return this.timeout;
+  }
+  get testInclude(): string[] {
+    return this.include;
+  }
+  get testExclude(): string[] {
+    return this.exclude;
+  }
+  get testGraph(): GraphFormat | undefined {
+    return this.graph;
+  }
+  get testReporter(): ReporterFormat {
+    return this.reporter;
+  }
+  get testReportFile(): string | undefined {
+    return this.reportFile;
+  }
+  get testArtifactsDir(): string {
+    return this.artifactsDir;
+  }
+  get testProfile(): string | undefined {
+    return this.profile;
+  }
 }
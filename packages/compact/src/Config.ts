@@ -0,0 +1,525 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, dirname, join, relative, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ConfigError, UsageError } from './types/errors.ts';
+import type { ParsedArgs } from './utils/args.ts';
+import { ARTIFACT_LAYOUTS, type ArtifactLayout } from './utils/artifacts.ts';
+import { isToolchainVersion, isVersionRange } from './utils/semver.ts';
+
+/** Configuration file names, in lookup order within a directory */
+export const CONFIG_FILES: readonly string[] = [
+  'compact.config.json',
+  'compact.config.ts',
+  'compact.config.mjs',
+  'compact.config.js',
+];
+
+/**
+ * Project configuration shared by `compact-compiler` and `compact-builder`.
+ * Paths are relative to the directory containing the configuration file;
+ * globs and override keys are relative to `srcDir`.
+ *
+ * @interface CompactConfig
+ * @prop {string} [srcDir] Directory containing the .compact sources (defaults to `src`)
+ * @prop {string} [artifactsDir] Directory compiled artifacts are written to (defaults to `artifacts`)
+ * @prop {string[]} [flags] Compiler flags passed to every compilation
+ * @prop {string} [version] Toolchain version to compile with (e.g. `0.25.0`)
+ * @prop {string} [requiredVersion] Version range the toolchain must satisfy (e.g. `>=0.25.0 <0.27.0`)
+ * @prop {string[]} [include] Only compile sources matching one of these globs
+ * @prop {string[]} [exclude] Never compile sources matching one of these globs
+ * @prop {Record<string, string[]>} [overrides] Extra flags for the sources in a directory
+ * @prop {ArtifactLayout} [layout] `flat` (default) or `mirror` to keep the source directory structure under `artifactsDir`
+ * @prop {number | 'auto'} [jobs] Files compiled concurrently, or `auto` for one per CPU
+ * (defaults to 1; `COMPACT_JOBS` and `--jobs` take precedence)
+ * @prop {Record<string, CompactProfile>} [profiles] Build profiles selected with
+ * `--profile <name>`, replacing the built-in profiles of the same name (see {@link DEFAULT_PROFILES})
+ * @example
+ * ```json
+ * {
+ *   "srcDir": "src",
+ *   "artifactsDir": "artifacts",
+ *   "flags": ["--skip-zk"],
+ *   "version": "0.25.0",
+ *   "requiredVersion": ">=0.25.0",
+ *   "jobs": "auto",
+ *   "exclude": ["archive"],
+ *   "overrides": { "token/test/mocks": ["--skip-zk"] },
+ *   "profiles": { "release": { "exclude": ["**\/test", "**\/Mock*.compact"] } }
+ * }
+ * ```
+ */
+export interface CompactConfig {
+  srcDir?: string;
+  artifactsDir?: string;
+  flags?: string[];
+  version?: string;
+  requiredVersion?: string;
+  include?: string[];
+  exclude?: string[];
+  overrides?: Record<string, string[]>;
+  layout?: ArtifactLayout;
+  jobs?: number | 'auto';
+  profiles?: Record<string, CompactProfile>;
+}
+
+/**
+ * Named set of settings applied on top of the project configuration, e.g.
+ * to compile test mocks and library modules separately. Like command-line
+ * arguments, flags and globs are added to the configured ones and the
+ * version replaces the configured one.
+ *
+ * @interface CompactProfile
+ * @prop {string} [artifactsDir] Directory the profile's artifacts are written to,
+ * relative to the configuration file (defaults to `<artifactsDir>/<name>`)
+ * @prop {string[]} [flags] Compiler flags added to the configured flags
+ * @prop {string} [version] Toolchain version replacing the configured version
+ * @prop {string[]} [include] Globs added to the configured include globs
+ * @prop {string[]} [exclude] Globs added to the configured exclude globs
+ */
+export interface CompactProfile {
+  artifactsDir?: string;
+  flags?: string[];
+  version?: string;
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Profiles available without configuring them: `test` compiles every
+ * source, mocks included, without proving keys, and `release` compiles the
+ * library modules only, leaving out `test` directories and `Mock*` sources.
+ */
+export const DEFAULT_PROFILES: Readonly<Record<string, CompactProfile>> = {
+  test: { flags: ['--skip-zk'] },
+  release: { exclude: ['**/test', '**/Mock*.compact'] },
+};
+
+/** Options a profile may set */
+const PROFILE_KEYS: readonly string[] = [
+  'artifactsDir',
+  'flags',
+  'version',
+  'include',
+  'exclude',
+];
+
+/**
+ * Configuration with defaults applied and directories resolved relative to
+ * the working directory.
+ *
+ * @interface ResolvedConfig
+ * @prop {string} [file] Path of the configuration file, if one was found
+ * @prop {string} [profile] Name of the profile applied by {@link applyProfile}
+ */
+export interface ResolvedConfig
+  extends Required<
+    Omit<
+      CompactConfig,
+      'version' | 'requiredVersion' | 'layout' | 'jobs' | 'profiles'
+    >
+  > {
+  version?: string;
+  requiredVersion?: string;
+  layout?: ArtifactLayout;
+  jobs?: number | 'auto';
+  profiles?: Record<string, CompactProfile>;
+  file?: string;
+  profile?: string;
+}
+
+/** Settings used when no configuration file exists */
+const DEFAULT_CONFIG: Required<
+  Omit<
+    CompactConfig,
+    'version' | 'requiredVersion' | 'layout' | 'jobs' | 'profiles'
+  >
+> = {
+  srcDir: 'src',
+  artifactsDir: 'artifacts',
+  flags: [],
+  include: [],
+  exclude: [],
+  overrides: {},
+};
+
+/**
+ * Identity helper giving type checking and editor completion in
+ * `compact.config.ts` files.
+ *
+ * @param config - Project configuration
+ * @returns The same configuration
+ * @example
+ * ```typescript
+ * // compact.config.ts
+ * import { defineConfig } from '@openzeppelin-compact/compact';
+ *
+ * export default defineConfig({ flags: ['--skip-zk'] });
+ * ```
+ */
+export function defineConfig(config: CompactConfig): CompactConfig {
+  return config;
+}
+
+/**
+ * Finds the nearest configuration file by walking up from a directory.
+ *
+ * @param cwd - Directory to start from
+ * @returns Absolute path of the configuration file, or undefined if none exists
+ */
+export function findConfigFile(
+  cwd: string = process.cwd(),
+): string | undefined {
+  let dir = resolve(cwd);
+
+  while (true) {
+    for (const name of CONFIG_FILES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Checks that a value is an array of strings.
+ *
+ * @param value - Value to check
+ * @returns Whether the value is a string array
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Validates the shape of a parsed configuration.
+ *
+ * @param raw - Parsed configuration file contents
+ * @param file - Path of the configuration file, used in error messages
+ * @returns The validated configuration
+ * @throws {ConfigError} If the configuration has unknown keys or invalid values
+ */
+export function validateConfig(raw: unknown, file: string): CompactConfig {
+  const name = basename(file);
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`${name} must export an object`, file);
+  }
+
+  const config = raw as Record<string, unknown>;
+  const known = new Set([
+    ...Object.keys(DEFAULT_CONFIG),
+    'version',
+    'requiredVersion',
+    'layout',
+    'jobs',
+    'profiles',
+  ]);
+  for (const key of Object.keys(config)) {
+    if (!known.has(key)) {
+      throw new ConfigError(`${name}: unknown option "${key}"`, file);
+    }
+  }
+
+  for (const key of ['srcDir', 'artifactsDir', 'version', 'requiredVersion']) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      throw new ConfigError(`${name}: "${key}" must be a string`, file);
+    }
+  }
+
+  for (const key of ['flags', 'include', 'exclude']) {
+    if (config[key] !== undefined && !isStringArray(config[key])) {
+      throw new ConfigError(
+        `${name}: "${key}" must be an array of strings`,
+        file,
+      );
+    }
+  }
+
+  if (
+    typeof config.version === 'string' &&
+    !isToolchainVersion(config.version)
+  ) {
+    throw new ConfigError(
+      `${name}: "version" must be a toolchain version, e.g. "0.25.0"`,
+      file,
+    );
+  }
+
+  if (
+    typeof config.requiredVersion === 'string' &&
+    !isVersionRange(config.requiredVersion)
+  ) {
+    throw new ConfigError(
+      `${name}: "requiredVersion" must be a version range, e.g. ">=0.25.0"`,
+      file,
+    );
+  }
+
+  if (
+    config.layout !== undefined &&
+    !(ARTIFACT_LAYOUTS as readonly unknown[]).includes(config.layout)
+  ) {
+    throw new ConfigError(
+      `${name}: "layout" must be one of ${ARTIFACT_LAYOUTS.join(', ')}`,
+      file,
+    );
+  }
+
+  const { jobs } = config;
+  if (
+    jobs !== undefined &&
+    jobs !== 'auto' &&
+    !(typeof jobs === 'number' && Number.isInteger(jobs) && jobs >= 1)
+  ) {
+    throw new ConfigError(
+      `${name}: "jobs" must be a positive integer or "auto"`,
+      file,
+    );
+  }
+
+  const { overrides } = config;
+  if (
+    overrides !== undefined &&
+    (typeof overrides !== 'object' ||
+      overrides === null ||
+      Array.isArray(overrides) ||
+      !Object.values(overrides).every(isStringArray))
+  ) {
+    throw new ConfigError(
+      `${name}: "overrides" must map directories to arrays of flags`,
+      file,
+    );
+  }
+
+  const { profiles } = config;
+  if (
+    profiles !== undefined &&
+    (typeof profiles !== 'object' ||
+      profiles === null ||
+      Array.isArray(profiles))
+  ) {
+    throw new ConfigError(
+      `${name}: "profiles" must map profile names to options`,
+      file,
+    );
+  }
+  for (const [profileName, profile] of Object.entries(profiles ?? {})) {
+    validateProfile(profile, `${name}: profile "${profileName}"`, file);
+  }
+
+  return config as CompactConfig;
+}
+
+/**
+ * Validates the shape of a profile.
+ *
+ * @param raw - Profile options from the parsed configuration
+ * @param context - Prefix of error messages naming the file and profile
+ * @param file - Path of the configuration file
+ * @throws {ConfigError} If the profile has unknown keys or invalid values
+ */
+function validateProfile(raw: unknown, context: string, file: string): void {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`${context} must be an object`, file);
+  }
+
+  const profile = raw as Record<string, unknown>;
+  for (const key of Object.keys(profile)) {
+    if (!PROFILE_KEYS.includes(key)) {
+      throw new ConfigError(`${context}: unknown option "${key}"`, file);
+    }
+  }
+
+  for (const key of ['artifactsDir', 'version']) {
+    if (profile[key] !== undefined && typeof profile[key] !== 'string') {
+      throw new ConfigError(`${context}: "${key}" must be a string`, file);
+    }
+  }
+
+  if (
+    typeof profile.version === 'string' &&
+    !isToolchainVersion(profile.version)
+  ) {
+    throw new ConfigError(
+      `${context}: "version" must be a toolchain version, e.g. "0.25.0"`,
+      file,
+    );
+  }
+
+  for (const key of ['flags', 'include', 'exclude']) {
+    if (profile[key] !== undefined && !isStringArray(profile[key])) {
+      throw new ConfigError(
+        `${context}: "${key}" must be an array of strings`,
+        file,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a configuration file. JSON files are parsed directly; other files
+ * are imported and must default-export the configuration.
+ *
+ * @param file - Absolute path of the configuration file
+ * @returns Promise resolving to the unvalidated configuration
+ * @throws {ConfigError} If the file cannot be read, parsed or imported
+ */
+async function readConfigFile(file: string): Promise<unknown> {
+  const name = basename(file);
+
+  if (file.endsWith('.json')) {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigError(`Failed to read ${name}: ${message}`, file, error);
+    }
+  }
+
+  try {
+    const module = await import(pathToFileURL(file).href);
+    return module.default ?? module;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const hint = file.endsWith('.ts')
+      ? ' (TypeScript configuration files require a Node.js version that can strip types, e.g. 22.18+; use compact.config.json otherwise)'
+      : '';
+    throw new ConfigError(
+      `Failed to load ${name}: ${message}${hint}`,
+      file,
+      error,
+    );
+  }
+}
+
+/**
+ * Applies defaults to a configuration and resolves its directories, which
+ * are relative to the configuration file, against the working directory.
+ *
+ * @param config - Validated configuration
+ * @param file - Path of the configuration file, if any
+ * @param cwd - Working directory the tools run in
+ * @returns The resolved configuration
+ */
+export function resolveConfig(
+  config: CompactConfig = {},
+  file?: string,
+  cwd: string = process.cwd(),
+): ResolvedConfig {
+  const baseDir = file ? dirname(file) : cwd;
+  const toCwd = (dir: string) => relative(cwd, resolve(baseDir, dir)) || '.';
+
+  return {
+    ...DEFAULT_CONFIG,
+    ...config,
+    srcDir: toCwd(config.srcDir ?? DEFAULT_CONFIG.srcDir),
+    artifactsDir: toCwd(config.artifactsDir ?? DEFAULT_CONFIG.artifactsDir),
+    ...(config.profiles
+      ? {
+          profiles: Object.fromEntries(
+            Object.entries(config.profiles).map(([name, profile]) => [
+              name,
+              profile.artifactsDir
+                ? { ...profile, artifactsDir: toCwd(profile.artifactsDir) }
+                : profile,
+            ]),
+          ),
+        }
+      : {}),
+    ...(file ? { file } : {}),
+  };
+}
+
+/**
+ * Applies a configured or built-in profile to a resolved configuration.
+ *
+ * @param config - Resolved project configuration
+ * @param name - Name of the profile
+ * @returns The configuration with the profile's settings, writing artifacts
+ * to the profile's directory (`<artifactsDir>/<name>` unless configured)
+ * @throws {UsageError} If no profile has this name
+ * @example
+ * ```typescript
+ * applyProfile(await loadConfig(), 'release');
+ * // Returns: { ..., artifactsDir: 'artifacts/release', exclude: ['**\/test', '**\/Mock*.compact'], profile: 'release' }
+ * ```
+ */
+export function applyProfile(
+  config: ResolvedConfig,
+  name: string,
+): ResolvedConfig {
+  const profiles = { ...DEFAULT_PROFILES, ...config.profiles };
+  if (!Object.hasOwn(profiles, name)) {
+    throw new UsageError(
+      `--profile flag requires a known profile (${Object.keys(profiles).join(', ')})`,
+    );
+  }
+
+  const profile = profiles[name];
+  return {
+    ...config,
+    artifactsDir: profile.artifactsDir ?? join(config.artifactsDir, name),
+    flags: [...new Set([...config.flags, ...(profile.flags ?? [])])],
+    version: profile.version ?? config.version,
+    include: [...config.include, ...(profile.include ?? [])],
+    exclude: [...config.exclude, ...(profile.exclude ?? [])],
+    profile: name,
+  };
+}
+
+/**
+ * Applies the profile selected with `--profile <name>` in parsed command-line
+ * arguments, shared by `compact-compiler` and `compact-builder`.
+ *
+ * @param args - Parsed command-line arguments (see `parseArgs`)
+ * @param config - Resolved project configuration, defaulting to the built-in
+ * defaults when a profile is selected
+ * @returns The configuration with the selected profile applied, or `config`
+ * unchanged when no profile is selected
+ * @throws {UsageError} If `--profile` names an unknown profile
+ */
+export function selectProfile(
+  args: ParsedArgs,
+  config?: ResolvedConfig,
+): ResolvedConfig | undefined {
+  const name = args.values.get('--profile')?.at(-1);
+  if (name === undefined) {
+    return config;
+  }
+  return applyProfile(config ?? resolveConfig(), name);
+}
+
+/**
+ * Finds, reads, validates and resolves the project configuration.
+ * Falls back to the defaults (`src` and `artifacts` in the working
+ * directory) when no configuration file exists.
+ *
+ * @param cwd - Directory to start the lookup from
+ * @returns Promise resolving to the resolved configuration
+ * @throws {ConfigError} If a configuration file exists but is invalid
+ * @example
+ * ```typescript
+ * const config = await loadConfig();
+ * const compiler = CompactCompiler.fromArgs(process.argv.slice(2), process.env, config);
+ * ```
+ */
+export async function loadConfig(
+  cwd: string = process.cwd(),
+): Promise<ResolvedConfig> {
+  const file = findConfigFile(cwd);
+  if (!file) {
+    return resolveConfig({}, undefined, cwd);
+  }
+
+  const config = validateConfig(await readConfigFile(file), file);
+  return resolveConfig(config, file, cwd);
+}
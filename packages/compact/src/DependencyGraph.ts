@@ -0,0 +1,207 @@
+import type { FileDiscovery } from './Compiler.ts';
+
+/** Output formats supported by {@link DependencyGraph.format} */
+export type GraphFormat = 'json' | 'dot';
+
+/**
+ * Import graph of Compact sources. Nodes are paths relative to the source
+ * directory; an edge `a -> b` means `a` imports (or includes) `b`.
+ *
+ * @class DependencyGraph
+ * @example
+ * ```typescript
+ * const graph = await DependencyGraph.build(files, new FileDiscovery());
+ * const affected = graph.getAffected(['utils/Utils.compact']);
+ * const ordered = graph.topologicalSort(affected);
+ * ```
+ */
+export class DependencyGraph {
+  /** Direct imports of each file */
+  private readonly imports: Map<string, string[]>;
+  /** Files that directly import each file */
+  private readonly dependents: Map<string, string[]>;
+
+  /**
+   * Creates a graph from a list of direct imports.
+   *
+   * @param imports - Direct imports keyed by file; imported files missing as
+   * keys are added as nodes without imports
+   */
+  constructor(imports: Map<string, string[]>) {
+    this.imports = new Map();
+    this.dependents = new Map();
+
+    for (const [file, fileImports] of imports) {
+      this.addNode(file);
+      for (const imported of fileImports) {
+        this.addNode(imported);
+        this.imports.get(file)?.push(imported);
+        this.dependents.get(imported)?.push(file);
+      }
+    }
+  }
+
+  /**
+   * Builds the graph of the given files, following imports recursively so
+   * that dependencies outside the scanned directory are part of the graph.
+   * Files that cannot be read are kept as nodes without imports.
+   *
+   * @param files - Relative paths of the .compact files to start from
+   * @param discovery - Service used to parse imports
+   * @returns Promise resolving to the dependency graph
+   */
+  static async build(
+    files: string[],
+    discovery: FileDiscovery,
+  ): Promise<DependencyGraph> {
+    const imports = new Map<string, string[]>();
+    const queue = [...files];
+
+    while (queue.length > 0) {
+      const file = queue.shift() as string;
+      if (imports.has(file)) continue;
+
+      let fileImports: string[] = [];
+      try {
+        fileImports = await discovery.getImports(file);
+      } catch {
+        // Unreadable imports are reported by compactc itself
+      }
+      imports.set(file, fileImports);
+      queue.push(...fileImports);
+    }
+
+    return new DependencyGraph(imports);
+  }
+
+  /** All files in the graph, in insertion order */
+  get files(): string[] {
+    return [...this.imports.keys()];
+  }
+
+  /**
+   * Returns the files a file imports directly.
+   *
+   * @param file - Relative path of the file
+   * @returns Direct imports, or an empty array for unknown files
+   */
+  getImports(file: string): string[] {
+    return [...(this.imports.get(file) ?? [])];
+  }
+
+  /**
+   * Returns the files that import a file directly.
+   *
+   * @param file - Relative path of the file
+   * @returns Direct dependents, or an empty array for unknown files
+   */
+  getDependents(file: string): string[] {
+    return [...(this.dependents.get(file) ?? [])];
+  }
+
+  /**
+   * Returns the changed files together with every file that depends on any
+   * of them, directly or transitively.
+   *
+   * @param changed - Relative paths of the changed files
+   * @returns Affected files in graph order
+   */
+  getAffected(changed: string[]): string[] {
+    const affected = new Set<string>();
+    const queue = changed.filter((file) => this.imports.has(file));
+
+    while (queue.length > 0) {
+      const file = queue.shift() as string;
+      if (affected.has(file)) continue;
+      affected.add(file);
+      queue.push(...this.getDependents(file));
+    }
+
+    return this.files.filter((file) => affected.has(file));
+  }
+
+  /**
+   * Orders files so that every file comes after the files it imports.
+   * Ties keep the order of `files`; import cycles are broken at the point
+   * where they are detected.
+   *
+   * @param files - Files to order (defaults to every file in the graph)
+   * @returns The same files in dependency order
+   */
+  topologicalSort(files: string[] = this.files): string[] {
+    const wanted = new Set(files);
+    const visited = new Set<string>();
+    const ordered: string[] = [];
+
+    const visit = (file: string): void => {
+      if (visited.has(file)) return;
+      visited.add(file);
+      for (const imported of this.getImports(file)) {
+        visit(imported);
+      }
+      if (wanted.has(file)) {
+        ordered.push(file);
+      }
+    };
+
+    for (const file of files) {
+      visit(file);
+    }
+    return ordered;
+  }
+
+  /**
+   * Serializes the graph as a map of each file to its direct imports.
+   *
+   * @returns Plain object suitable for `JSON.stringify`
+   */
+  toJSON(): Record<string, string[]> {
+    return Object.fromEntries(
+      this.files.map((file) => [file, this.getImports(file)]),
+    );
+  }
+
+  /**
+   * Renders the graph in Graphviz DOT format.
+   *
+   * @returns DOT source with one node per file and one edge per import
+   */
+  toDot(): string {
+    const lines = ['digraph compact {'];
+    for (const file of this.files) {
+      const imports = this.getImports(file);
+      if (imports.length === 0) {
+        lines.push(`  "${file}";`);
+      }
+      for (const imported of imports) {
+        lines.push(`  "${file}" -> "${imported}";`);
+      }
+    }
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders the graph in the requested format.
+   *
+   * @param format - `json` or `dot`
+   * @returns The rendered graph
+   */
+  format(format: GraphFormat): string {
+    return format === 'dot'
+      ? this.toDot()
+      : JSON.stringify(this.toJSON(), null, 2);
+  }
+
+  /**
+   * Registers a node if it does not exist yet.
+   *
+   * @param file - Relative path of the file
+   */
+  private addNode(file: string): void {
+    if (!this.imports.has(file)) {
+      this.imports.set(file, []);
+      this.dependents.set(file, []);
+    }
+  }
+}
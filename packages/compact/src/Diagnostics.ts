@@ -0,0 +1,145 @@
+import type { Diagnostic, DiagnosticSeverity } from './types/diagnostics.ts';
+
+/**
+ * Matches compactc's native location header, e.g.
+ * `Exception: src/token/Token.compact line 12 char 5:` followed by the
+ * message on the same line or on indented continuation lines.
+ */
+const COMPACTC_PATTERN =
+  /^(?:(Exception|Error|Warning|Note|Info):\s+)?(.+?\.compact) line (\d+) char (\d+):\s*(.*)$/;
+
+/**
+ * Matches the conventional `file:line:column: severity[code]: message` form.
+ */
+const CONVENTIONAL_PATTERN =
+  /^(.+?\.compact):(\d+):(\d+):\s*(error|warning|info|note)(?:\[([\w-]+)\])?:\s*(.*)$/i;
+
+/**
+ * Maps a severity label printed by compactc to a diagnostic severity.
+ *
+ * @param label - Label such as `Exception`, `warning` or `Note`
+ * @returns The normalized severity (unlabelled messages are errors)
+ */
+function toSeverity(label: string | undefined): DiagnosticSeverity {
+  switch (label?.toLowerCase()) {
+    case 'warning':
+      return 'warning';
+    case 'note':
+    case 'info':
+      return 'info';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Parses raw compactc output into typed diagnostics.
+ * Lines that are not part of a diagnostic are ignored and duplicates (e.g. the
+ * same message on stdout and stderr) are reported once.
+ *
+ * @param output - Raw stdout and/or stderr of a compactc run
+ * @returns Diagnostics in the order they appear in the output
+ * @example
+ * ```typescript
+ * parseDiagnostics(
+ *   'Exception: src/Token.compact line 3 char 10:\n  unbound identifier foo',
+ * );
+ * // Returns: [{ file: 'src/Token.compact', line: 3, column: 10,
+ * //             severity: 'error', message: 'unbound identifier foo' }]
+ * ```
+ */
+export function parseDiagnostics(output: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  const lines = output.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    let diagnostic: Diagnostic | undefined;
+
+    const native = COMPACTC_PATTERN.exec(line);
+    if (native) {
+      const [, label, file, lineNo, column, inline] = native;
+      const messageLines = inline ? [inline.trim()] : [];
+      while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+        messageLines.push(lines[++i].trim());
+      }
+      diagnostic = {
+        file,
+        line: Number(lineNo),
+        column: Number(column),
+        severity: toSeverity(label),
+        message: messageLines.join('\n'),
+      };
+    }
+
+    const conventional = native ? null : CONVENTIONAL_PATTERN.exec(line);
+    if (conventional) {
+      const [, file, lineNo, column, label, code, message] = conventional;
+      diagnostic = {
+        file,
+        line: Number(lineNo),
+        column: Number(column),
+        severity: toSeverity(label),
+        message: message.trim(),
+        ...(code ? { code } : {}),
+      };
+    }
+
+    if (diagnostic) {
+      const key = JSON.stringify(diagnostic);
+      if (!seen.has(key)) {
+        seen.add(key);
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Renders a diagnostic with its location and, when the source is available,
+ * an excerpt of the offending line with a caret under the reported column.
+ *
+ * @param diagnostic - Diagnostic to render
+ * @param source - Contents of the file the diagnostic points at, if readable
+ * @returns Multi-line text ready to be printed
+ * @example
+ * ```typescript
+ * formatDiagnostic(diagnostic, source);
+ * // error: unbound identifier foo
+ * //  --> src/Token.compact:3:10
+ * //   |
+ * // 3 |   return foo;
+ * //   |          ^
+ * ```
+ */
+export function formatDiagnostic(
+  diagnostic: Diagnostic,
+  source?: string,
+): string {
+  const { file, line, column, severity, message, code } = diagnostic;
+  const [firstLine, ...rest] = message.split('\n');
+  const header = `${severity}${code ? `[${code}]` : ''}: ${firstLine}`;
+  const lineNo = String(line);
+  const gutter = ' '.repeat(lineNo.length);
+
+  const output = [
+    header,
+    ...rest.map((text) => `  ${text}`),
+    `${gutter}--> ${file}:${line}:${column}`,
+  ];
+
+  const sourceLine = source?.split('\n')[line - 1];
+  if (sourceLine !== undefined) {
+    const caretOffset = Math.max(0, column - 1);
+    output.push(
+      `${gutter} |`,
+      `${lineNo} | ${sourceLine.replace(/\t/g, ' ')}`,
+      `${gutter} | ${' '.repeat(caretOffset)}^`,
+    );
+  }
+
+  return output.join('\n');
+}
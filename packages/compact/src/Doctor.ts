@@ -0,0 +1,705 @@
+import { type Dirent, existsSync } from 'node:fs';
+import { access, constants, readdir, readFile, stat } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { delimiter, dirname, join } from 'node:path';
+import chalk from 'chalk';
+import logSymbols from 'log-symbols';
+import {
+  EnvironmentValidator,
+  type ExecFunction,
+  FileDiscovery,
+} from './Compiler.ts';
+import type { ResolvedConfig } from './Config.ts';
+import { UsageError } from './types/errors.ts';
+import {
+  isToolchainVersion,
+  isVersionRange,
+  parseVersion,
+  satisfies,
+  type VersionRequirement,
+} from './utils/semver.ts';
+
+/** Runtime package generated contract code is loaded with */
+const COMPACT_RUNTIME_PACKAGE: string = '@midnight-ntwrk/compact-runtime';
+/** Matches the runtime version generated contract code checks when loaded */
+const EXPECTED_RUNTIME_PATTERN =
+  /\bexpectedRuntimeVersionString\s*=\s*'([^']+)'/;
+/** Artifact subdirectories that never contain other artifact directories */
+const ARTIFACT_SUBDIRS: readonly string[] = [
+  'compiler',
+  'contract',
+  'keys',
+  'zkir',
+];
+/** Command installing the Compact developer tools */
+const INSTALL_COMMAND: string = `curl --proto '=https' --tlsv1.2 -LsSf https://github.com/midnightntwrk/compact/releases/latest/download/compact-installer.sh | sh`;
+/** package.json of this package, declaring the supported Node.js versions */
+const PACKAGE_JSON_URL: URL = new URL('../package.json', import.meta.url);
+
+/**
+ * Outcome of a doctor check: `pass` needs no action, `warn` may cause
+ * problems and `fail` prevents compiling or using the artifacts.
+ */
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Result of a single doctor check.
+ *
+ * @interface DoctorCheck
+ * @prop {string} name Name of the checked part of the environment
+ * @prop {DoctorStatus} status Outcome of the check
+ * @prop {string} message What was found
+ * @prop {string} [hint] How to fix a warning or failure
+ */
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  hint?: string;
+}
+
+/**
+ * Machine-readable result of `compact-compiler doctor`.
+ *
+ * @interface DoctorReport
+ * @prop {boolean} success Whether no check failed
+ * @prop {DoctorCheck[]} checks Results of every check, in the order they ran
+ */
+export interface DoctorReport {
+  success: boolean;
+  checks: DoctorCheck[];
+}
+
+/**
+ * Configuration options for the Doctor.
+ *
+ * @interface DoctorOptions
+ * @prop {string} [srcDir] Source directory whose pragmas are checked (defaults to `src`)
+ * @prop {string} [artifactsDir] Artifacts directory (defaults to `artifacts`)
+ * @prop {string[]} [include] Globs selecting the checked sources
+ * @prop {string[]} [exclude] Globs skipping sources
+ * @prop {string} [version] Toolchain version to check, as passed with `+<version>`
+ * @prop {string} [requiredVersion] Version range the toolchain must satisfy
+ * @prop {boolean} [json] Print the report as JSON instead of a checklist
+ * @prop {NodeJS.ProcessEnv} [env] Environment providing `PATH` and `COMPACT_HOME`
+ * @prop {string} [cwd] Directory the runtime package is resolved from
+ * @prop {string} [nodeVersion] Node.js version to check (defaults to the running one)
+ * @prop {ExecFunction} [execFn] Function to execute shell commands
+ * @prop {AbortSignal} [signal] Kills running commands when aborted
+ */
+export interface DoctorOptions {
+  srcDir?: string;
+  artifactsDir?: string;
+  include?: string[];
+  exclude?: string[];
+  version?: string;
+  requiredVersion?: string;
+  json?: boolean;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  nodeVersion?: string;
+  execFn?: ExecFunction;
+  signal?: AbortSignal;
+}
+
+/**
+ * Diagnoses the environment the compiler runs in, so that a failing setup
+ * can be fixed from a single checklist: the Node.js version, the `compact`
+ * CLI in PATH, COMPACT_HOME, the toolchain and its language version against
+ * the `pragma language_version` of the sources, write access to the
+ * artifacts directory and the installed Compact runtime against the
+ * generated artifacts. Checks depending on the CLI are skipped with a
+ * warning when it is missing.
+ *
+ * @class Doctor
+ * @example
+ * ```typescript
+ * const doctor = Doctor.fromArgs(['--json'], process.env, await loadConfig());
+ * const report = await doctor.run();
+ * console.log(formatDoctorReport(report));
+ * ```
+ */
+export class Doctor {
+  /** Whether the report is printed as JSON */
+  readonly json: boolean;
+  private readonly validator: EnvironmentValidator;
+  private readonly fileDiscovery: FileDiscovery;
+  private readonly srcDir: string;
+  private readonly artifactsDir: string;
+  private readonly version?: string;
+  private readonly requiredVersion?: string;
+  private readonly env: NodeJS.ProcessEnv;
+  private readonly cwd: string;
+  private readonly nodeVersion: string;
+
+  /**
+   * Creates a new Doctor instance.
+   *
+   * @param options - Directories, toolchain and environment to check
+   */
+  constructor(options: DoctorOptions = {}) {
+    this.srcDir = options.srcDir ?? 'src';
+    this.artifactsDir = options.artifactsDir ?? 'artifacts';
+    this.version = options.version;
+    this.requiredVersion = options.requiredVersion;
+    this.json = options.json ?? false;
+    this.env = options.env ?? process.env;
+    this.cwd = options.cwd ?? process.cwd();
+    this.nodeVersion = options.nodeVersion ?? process.versions.node;
+    this.validator = new EnvironmentValidator(options.execFn, options.signal);
+    this.fileDiscovery = new FileDiscovery(this.srcDir, {
+      include: options.include,
+      exclude: options.exclude,
+    });
+  }
+
+  /**
+   * Creates a Doctor from the arguments following `doctor`.
+   *
+   * @param args - Arguments: `--json` and an optional `+<version>`
+   * @param env - Environment providing `PATH` and `COMPACT_HOME`
+   * @param config - Optional project configuration providing the directories,
+   * sources and toolchain version
+   * @param signal - Optional signal killing running commands when aborted
+   * @returns A new Doctor instance
+   * @throws {UsageError} If an argument is not supported by doctor or
+   * `+<version>` is not a toolchain version
+   * @example
+   * ```typescript
+   * // compact-compiler doctor --json +0.25.0
+   * const doctor = Doctor.fromArgs(['--json', '+0.25.0']);
+   * ```
+   */
+  static fromArgs(
+    args: string[],
+    env: NodeJS.ProcessEnv = process.env,
+    config?: ResolvedConfig,
+    signal?: AbortSignal,
+  ): Doctor {
+    let version = config?.version;
+    let json = false;
+
+    for (const arg of args) {
+      if (arg === '--json') {
+        json = true;
+      } else if (arg.startsWith('+')) {
+        version = arg.slice(1);
+        if (!isToolchainVersion(version)) {
+          throw new UsageError(
+            `${arg} is not a toolchain version (e.g. +0.25.0)`,
+          );
+        }
+      } else {
+        throw new UsageError(`doctor does not accept ${arg}`);
+      }
+    }
+
+    return new Doctor({
+      srcDir: config?.srcDir,
+      artifactsDir: config?.artifactsDir,
+      include: config?.include,
+      exclude: config?.exclude,
+      version,
+      requiredVersion: config?.requiredVersion,
+      json,
+      env,
+      signal,
+    });
+  }
+
+  /**
+   * Runs every check.
+   *
+   * @returns Promise resolving to the report; it is successful when no check failed
+   */
+  async run(): Promise<DoctorReport> {
+    const checks: DoctorCheck[] = [await this.checkNode()];
+
+    const cli = await this.checkCompactCli();
+    checks.push(cli, this.checkCompactHome());
+    if (cli.status === 'fail') {
+      checks.push(
+        skipped('Toolchain', 'compact CLI'),
+        skipped('Language version', 'compact CLI'),
+      );
+    } else {
+      const installed = await this.validator
+        .getInstalledToolchains()
+        .catch(() => undefined);
+      checks.push(
+        await this.checkToolchain(installed),
+        await this.checkLanguageVersion(installed ?? []),
+      );
+    }
+
+    checks.push(await this.checkArtifactsDir(), await this.checkRuntime());
+
+    return {
+      success: checks.every((check) => check.status !== 'fail'),
+      checks,
+    };
+  }
+
+  /**
+   * Checks the running Node.js version against the `engines` range of
+   * this package.
+   *
+   * @returns Promise resolving to the check
+   */
+  private async checkNode(): Promise<DoctorCheck> {
+    const name = 'Node.js';
+    const { engines } = JSON.parse(await readFile(PACKAGE_JSON_URL, 'utf8'));
+    const range: string | undefined = engines?.node;
+
+    if (!range || satisfies(this.nodeVersion, range)) {
+      return { name, status: 'pass', message: this.nodeVersion };
+    }
+    return {
+      name,
+      status: 'fail',
+      message: `${this.nodeVersion} does not satisfy the required range ${range}`,
+      hint: `Install a Node.js version matching ${range}`,
+    };
+  }
+
+  /**
+   * Checks that the `compact` CLI is in PATH and runs. Other `compact`
+   * executables shadowed by the first one in PATH are reported as a warning.
+   *
+   * @returns Promise resolving to the check
+   */
+  private async checkCompactCli(): Promise<DoctorCheck> {
+    const name = 'compact CLI';
+    const found = this.findInPath('compact');
+
+    if (!(await this.validator.checkCompactAvailable())) {
+      return {
+        name,
+        status: 'fail',
+        message:
+          found.length > 0
+            ? `${found[0]} is in PATH but 'compact --version' failed`
+            : "'compact' not found in PATH",
+        hint: `Install with: ${INSTALL_COMMAND}`,
+      };
+    }
+
+    const devToolsVersion = await this.validator.getDevToolsVersion();
+    const location = found.length > 0 ? ` (${found[0]})` : '';
+    if (found.length > 1) {
+      return {
+        name,
+        status: 'warn',
+        message: `${devToolsVersion}${location} shadows ${found.slice(1).join(', ')}`,
+        hint: 'Remove the other installations or reorder PATH',
+      };
+    }
+    return { name, status: 'pass', message: `${devToolsVersion}${location}` };
+  }
+
+  /**
+   * Checks that COMPACT_HOME, when set, points to a compactc installation.
+   *
+   * @returns The check
+   */
+  private checkCompactHome(): DoctorCheck {
+    const name = 'COMPACT_HOME';
+    const home = this.env.COMPACT_HOME;
+
+    if (!home) {
+      return {
+        name,
+        status: 'pass',
+        message: 'Not set, toolchains are managed by the compact CLI',
+      };
+    }
+    if (!existsSync(join(home, 'compactc'))) {
+      return {
+        name,
+        status: 'warn',
+        message: existsSync(home)
+          ? `${home} does not contain compactc`
+          : `${home} does not exist`,
+        hint: 'Unset COMPACT_HOME or point it to a compactc installation',
+      };
+    }
+    return { name, status: 'pass', message: home };
+  }
+
+  /**
+   * Checks that the selected toolchain runs and satisfies the configured
+   * version range.
+   *
+   * @param installed - Installed toolchain versions, if they could be listed
+   * @returns Promise resolving to the check
+   */
+  private async checkToolchain(installed?: string[]): Promise<DoctorCheck> {
+    const name = 'Toolchain';
+    const installedText = installed?.length
+      ? `, installed: ${installed.join(', ')}`
+      : '';
+
+    let output: string;
+    try {
+      output = await this.validator.getToolchainVersion(this.version);
+    } catch (error) {
+      return {
+        name,
+        status: 'fail',
+        message: `${this.version ?? 'Default toolchain'} could not be run: ${firstLine(error)}${installedText}`,
+        hint: `Install it with: compact update${this.version ? ` ${this.version}` : ''}`,
+      };
+    }
+
+    const version = parseVersion(output);
+    if (!version) {
+      return {
+        name,
+        status: 'fail',
+        message: `Could not parse the toolchain version from "${output}"`,
+      };
+    }
+
+    if (this.requiredVersion && !satisfies(version, this.requiredVersion)) {
+      const requiredVersion = this.requiredVersion;
+      const matching = (installed ?? []).filter((candidate) =>
+        satisfies(candidate, requiredVersion),
+      );
+      return {
+        name,
+        status: 'fail',
+        message: `${version} does not satisfy the required version range ${requiredVersion}${installedText}`,
+        hint:
+          matching.length > 0
+            ? `Select an installed toolchain with: compact-compiler +${matching[0]}`
+            : 'Install a matching toolchain with: compact update <version>',
+      };
+    }
+
+    return { name, status: 'pass', message: `${version}${installedText}` };
+  }
+
+  /**
+   * Checks the language version of the selected toolchain against the
+   * `pragma language_version` of the sources. On a mismatch, the installed
+   * toolchains satisfying every pragma are suggested.
+   *
+   * @param installed - Installed toolchain versions
+   * @returns Promise resolving to the check
+   */
+  private async checkLanguageVersion(
+    installed: string[],
+  ): Promise<DoctorCheck> {
+    const name = 'Language version';
+    if (!existsSync(this.srcDir)) {
+      return {
+        name,
+        status: 'warn',
+        message: `Source directory ${this.srcDir} not found`,
+      };
+    }
+
+    const requirements: VersionRequirement[] = [];
+    for (const file of await this.fileDiscovery.getCompactFiles(this.srcDir)) {
+      try {
+        const range = await this.fileDiscovery.getLanguageVersion(file);
+        if (range && isVersionRange(range)) {
+          requirements.push({ file, range });
+        }
+      } catch {
+        // Unreadable files are reported by compactc
+      }
+    }
+    if (requirements.length === 0) {
+      return {
+        name,
+        status: 'pass',
+        message: `No sources in ${this.srcDir} declare a language_version pragma`,
+      };
+    }
+
+    const languageVersion = await this.queryLanguageVersion(this.version);
+    if (!languageVersion) {
+      return {
+        name,
+        status: 'fail',
+        message: 'Could not determine the language version of the toolchain',
+      };
+    }
+
+    const satisfiesAll = (version: string) =>
+      requirements.every(({ range }) => satisfies(version, range));
+    if (satisfiesAll(languageVersion)) {
+      return {
+        name,
+        status: 'pass',
+        message: `${languageVersion} satisfies the pragmas of ${requirements.length} source(s)`,
+      };
+    }
+
+    const matching: string[] = [];
+    for (const candidate of installed) {
+      const candidateLanguage = await this.queryLanguageVersion(candidate);
+      if (candidateLanguage && satisfiesAll(candidateLanguage)) {
+        matching.push(candidate);
+      }
+    }
+    const mismatchedFiles = requirements
+      .filter(({ range }) => !satisfies(languageVersion, range))
+      .map(({ file, range }) => `${file} (${range})`);
+    return {
+      name,
+      status: 'fail',
+      message: `${languageVersion} does not satisfy the language_version pragma of ${mismatchedFiles.join(', ')}`,
+      hint:
+        matching.length > 0
+          ? `Installed toolchain(s) ${matching.join(', ')} satisfy every pragma: compact-compiler +${matching[0]}`
+          : 'Install a matching toolchain with: compact update <version>',
+    };
+  }
+
+  /**
+   * Checks that the artifacts directory, or the directory it will be created
+   * in, is writable.
+   *
+   * @returns Promise resolving to the check
+   */
+  private async checkArtifactsDir(): Promise<DoctorCheck> {
+    const name = 'Artifacts directory';
+    let dir = this.artifactsDir;
+    while (!existsSync(dir) && dirname(dir) !== dir) {
+      dir = dirname(dir);
+    }
+
+    if (!(await stat(dir)).isDirectory()) {
+      return {
+        name,
+        status: 'fail',
+        message: `${dir} is not a directory`,
+        hint: `Remove ${dir} or set "artifactsDir" to another directory`,
+      };
+    }
+    try {
+      await access(dir, constants.W_OK);
+    } catch {
+      return {
+        name,
+        status: 'fail',
+        message: `${dir} is not writable`,
+        hint: `Fix the permissions of ${dir} or set "artifactsDir" to a writable directory`,
+      };
+    }
+    return {
+      name,
+      status: 'pass',
+      message:
+        dir === this.artifactsDir
+          ? `${dir} is writable`
+          : `${this.artifactsDir} will be created in ${dir}, which is writable`,
+    };
+  }
+
+  /**
+   * Checks the Compact runtime installed for the working directory against
+   * the runtime version the generated contract code expects. The generated
+   * code refuses to load with a runtime of another major version (minor
+   * version for 0.x) or an older one.
+   *
+   * @returns Promise resolving to the check
+   */
+  private async checkRuntime(): Promise<DoctorCheck> {
+    const name = 'Compact runtime';
+    const expected: { artifact: string; version: string }[] = [];
+    for (const artifact of await findContractEntries(this.artifactsDir)) {
+      const match = EXPECTED_RUNTIME_PATTERN.exec(
+        await readFile(artifact, 'utf8'),
+      );
+      const version = match && parseVersion(match[1]);
+      if (version) {
+        expected.push({ artifact: dirname(dirname(artifact)), version });
+      }
+    }
+
+    let installed: string | undefined;
+    try {
+      const packageJson = createRequire(join(this.cwd, 'package.json')).resolve(
+        `${COMPACT_RUNTIME_PACKAGE}/package.json`,
+      );
+      installed = JSON.parse(await readFile(packageJson, 'utf8')).version;
+    } catch {
+      // Reported as not installed below
+    }
+
+    if (!installed) {
+      return {
+        name,
+        status: expected.length > 0 ? 'fail' : 'warn',
+        message: `${COMPACT_RUNTIME_PACKAGE} is not installed`,
+        hint: `Install it with: yarn add ${COMPACT_RUNTIME_PACKAGE}${
+          expected.length > 0 ? `@"${runtimeRange(expected[0].version)}"` : ''
+        }`,
+      };
+    }
+    if (expected.length === 0) {
+      return {
+        name,
+        status: 'pass',
+        message: `${installed}, no generated artifacts in ${this.artifactsDir} to check`,
+      };
+    }
+
+    const runtimeVersion = installed;
+    const incompatible = expected.filter(
+      ({ version }) => !satisfies(runtimeVersion, runtimeRange(version)),
+    );
+    if (incompatible.length === 0) {
+      return {
+        name,
+        status: 'pass',
+        message: `${installed} is compatible with ${expected.length} compiled contract(s)`,
+      };
+    }
+
+    const versions = [...new Set(incompatible.map(({ version }) => version))];
+    return {
+      name,
+      status: 'fail',
+      message: `${installed} is incompatible with ${incompatible
+        .map(({ artifact, version }) => `${artifact} (expects ${version})`)
+        .join(', ')}`,
+      hint: `Install ${COMPACT_RUNTIME_PACKAGE}@"${runtimeRange(versions[0])}" or recompile the contracts with a toolchain targeting ${installed}`,
+    };
+  }
+
+  /**
+   * Queries the language version of a toolchain.
+   *
+   * @param version - Toolchain version, or the default toolchain if undefined
+   * @returns Promise resolving to the language version, or undefined if the
+   * toolchain does not report one
+   */
+  private async queryLanguageVersion(
+    version?: string,
+  ): Promise<string | undefined> {
+    try {
+      return parseVersion(await this.validator.getLanguageVersion(version));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Finds every executable of a name in the directories of PATH.
+   *
+   * @param command - Name of the executable
+   * @returns Paths of the executables, in PATH order
+   */
+  private findInPath(command: string): string[] {
+    const dirs = (this.env.PATH ?? '').split(delimiter).filter(Boolean);
+    const found = dirs
+      .map((dir) => join(dir, command))
+      .filter((path) => existsSync(path));
+    return [...new Set(found)];
+  }
+}
+
+/**
+ * Formats a doctor report as a checklist with one line per check, followed
+ * by the hint of every warning or failure and a summary.
+ *
+ * @param report - Report to format
+ * @returns The checklist
+ */
+export function formatDoctorReport(report: DoctorReport): string {
+  const symbols: Record<DoctorStatus, string> = {
+    pass: logSymbols.success,
+    warn: logSymbols.warning,
+    fail: logSymbols.error,
+  };
+  const width = Math.max(...report.checks.map(({ name }) => name.length));
+
+  const lines = report.checks.flatMap(({ name, status, message, hint }) => [
+    `${symbols[status]} ${chalk.bold(name.padEnd(width))}  ${message}`,
+    ...(hint ? [`  ${' '.repeat(width)}  ${chalk.gray(hint)}`] : []),
+  ]);
+
+  const count = (status: DoctorStatus) =>
+    report.checks.filter((check) => check.status === status).length;
+  lines.push(
+    '',
+    `${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`,
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Returns the range of runtime versions that generated code expecting a
+ * version accepts: the same major version (minor version for 0.x), at
+ * least the expected version.
+ *
+ * @param expected - Runtime version the generated code expects
+ * @returns The range of compatible runtime versions
+ */
+function runtimeRange(expected: string): string {
+  return expected.startsWith('0.') ? `~${expected}` : `^${expected}`;
+}
+
+/**
+ * Builds a warning for a check that could not run.
+ *
+ * @param name - Name of the check
+ * @param requirement - What the check needs
+ * @returns The check
+ */
+function skipped(name: string, requirement: string): DoctorCheck {
+  return {
+    name,
+    status: 'warn',
+    message: `Skipped, the ${requirement} is not available`,
+  };
+}
+
+/**
+ * Extracts the first line of an error message.
+ *
+ * @param error - Thrown value
+ * @returns The first line of its message
+ */
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split('\n')[0];
+}
+
+/**
+ * Finds the generated contract code of every artifact directory under a
+ * directory, in flat or mirror layout. Hidden directories, such as the
+ * artifact roots of compatibility matrices, are skipped.
+ *
+ * @param dir - Directory to search
+ * @returns Promise resolving to the paths of the `contract/index.cjs` files,
+ * sorted; empty if the directory does not exist
+ */
+async function findContractEntries(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const found: string[] = [];
+  const contract = join(dir, 'contract', 'index.cjs');
+  if (existsSync(contract)) {
+    found.push(contract);
+  }
+  for (const entry of entries) {
+    if (
+      entry.isDirectory() &&
+      !entry.name.startsWith('.') &&
+      !ARTIFACT_SUBDIRS.includes(entry.name)
+    ) {
+      found.push(...(await findContractEntries(join(dir, entry.name))));
+    }
+  }
+  return found.sort();
+}
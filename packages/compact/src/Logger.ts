@@ -0,0 +1,356 @@
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import { UsageError } from './types/errors.ts';
+import type { OutputStream } from './utils/spawn.ts';
+
+/**
+ * Amount of output printed to the terminal:
+ *
+ * - `quiet`: failures, warnings and results only; no progress or compactc
+ *   output of successful files.
+ * - `normal`: progress of every file and compactc output.
+ * - `verbose`: also the compactc command of every file and build step.
+ */
+export type LogLevel = 'quiet' | 'normal' | 'verbose';
+
+/**
+ * Options of {@link Logger.configure}.
+ *
+ * @interface LoggerOptions
+ * @prop {LogLevel} [level] Amount of output printed to the terminal (defaults to `normal`)
+ * @prop {string} [logFile] File receiving every message and the full compactc
+ * output regardless of the level, truncated when configured
+ * @prop {boolean} [interactive] Whether spinners are animated; defaults to
+ * whether stdout is an interactive terminal
+ */
+export interface LoggerOptions {
+  level?: LogLevel;
+  logFile?: string;
+  interactive?: boolean;
+}
+
+/** Symbols ora prints in front of persisted spinner lines */
+const SPINNER_SYMBOLS = {
+  succeed: '✔',
+  fail: '✖',
+  warn: '⚠',
+  info: 'ℹ',
+} as const;
+
+/** Spinner methods persisting a line */
+type SpinnerLine = keyof typeof SPINNER_SYMBOLS;
+
+/** Spinner lines hidden at the `quiet` level */
+const QUIET_METHODS: ReadonlySet<SpinnerLine> = new Set(['succeed', 'info']);
+
+/**
+ * Spinner returned by {@link Logger.spinner}: the methods of ora the tools
+ * use, applying the log level and writing persisted lines to the log file.
+ *
+ * @interface Spinner
+ * @prop {string} text Text shown next to the running spinner
+ */
+export interface Spinner {
+  text: string;
+  start(text?: string): Spinner;
+  succeed(text?: string): Spinner;
+  fail(text?: string): Spinner;
+  warn(text?: string): Spinner;
+  info(text?: string): Spinner;
+}
+
+/** Spinner printing nothing, standing in for the lines hidden at the `quiet` level */
+const NULL_SPINNER: Spinner = {
+  text: '',
+  start: () => NULL_SPINNER,
+  succeed: () => NULL_SPINNER,
+  fail: () => NULL_SPINNER,
+  warn: () => NULL_SPINNER,
+  info: () => NULL_SPINNER,
+};
+
+/**
+ * Output shared by the compiler, the builder and their CLIs. Spinners are
+ * animated on interactive terminals and degrade to one plain line per
+ * message when stdout is piped, redirected or running in CI; colors follow
+ * `NO_COLOR` and `FORCE_COLOR`.
+ *
+ * Use the shared {@link logger} instance rather than creating one.
+ *
+ * @class Logger
+ * @example
+ * ```typescript
+ * logger.configure({ level: 'quiet', logFile: 'compact.log' });
+ * logger.spinner('[COMPILE] Compiling Token.compact').start();
+ * logger.output('Token.compact', 'Compiling 2 circuits:', 'stdout');
+ * ```
+ */
+export class Logger {
+  /**
+   * Suppresses all human-oriented output, e.g. while a machine-readable
+   * report is written to stdout. The log file still receives everything.
+   */
+  silent = false;
+  private level: LogLevel = 'normal';
+  private interactive = isInteractive(process.env, process.stdout);
+  private logFile?: string;
+
+  /**
+   * Extracts the logging flags (`--quiet`, `--verbose` and
+   * `--log-file <path>`) from command-line arguments. Arguments after `--`
+   * are compactc's and kept as they are, so `-- --verbose` makes compactc
+   * verbose rather than the tools.
+   *
+   * @param args - Command-line arguments
+   * @returns The logger options and the remaining arguments
+   * @throws {UsageError} If `--log-file` has no path or `--quiet` is combined
+   * with `--verbose`
+   * @example
+   * ```typescript
+   * Logger.parseArgs(['--verbose', '--log-file', 'compact.log', '--', '--verbose']);
+   * // Returns: { options: { level: 'verbose', logFile: 'compact.log' }, args: ['--', '--verbose'] }
+   * ```
+   */
+  static parseArgs(args: string[]): {
+    options: LoggerOptions;
+    args: string[];
+  } {
+    const options: LoggerOptions = {};
+    const rest: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '--') {
+        rest.push(...args.slice(i));
+        break;
+      }
+      if (args[i] === '--quiet' || args[i] === '--verbose') {
+        const level = args[i] === '--quiet' ? 'quiet' : 'verbose';
+        if (options.level && options.level !== level) {
+          throw new UsageError(
+            '--quiet flag requires that --verbose is not set',
+          );
+        }
+        options.level = level;
+      } else if (
+        args[i] === '--log-file' ||
+        args[i].startsWith('--log-file=')
+      ) {
+        const path = args[i].startsWith('--log-file=')
+          ? args[i].slice('--log-file='.length)
+          : args[++i];
+        if (!path || path.startsWith('--')) {
+          throw new UsageError('--log-file flag requires a file path');
+        }
+        options.logFile = path;
+      } else {
+        rest.push(args[i]);
+      }
+    }
+
+    return { options, args: rest };
+  }
+
+  /**
+   * Applies the logging options and the color preference of the
+   * environment. A configured log file is created, or truncated when it
+   * exists.
+   *
+   * @param options - Logging options
+   * @param env - Environment providing `NO_COLOR`, `FORCE_COLOR`, `CI` and `TERM`
+   * @param stdout - Stream whose terminal decides whether spinners are animated
+   */
+  configure(
+    options: LoggerOptions,
+    env: NodeJS.ProcessEnv = process.env,
+    stdout: { isTTY?: boolean } = process.stdout,
+  ): void {
+    this.level = options.level ?? 'normal';
+    this.interactive = options.interactive ?? isInteractive(env, stdout);
+
+    // chalk honours FORCE_COLOR only; see https://no-color.org
+    if (env.NO_COLOR && env.FORCE_COLOR === undefined) {
+      chalk.level = 0;
+    }
+
+    this.logFile = options.logFile;
+    if (this.logFile) {
+      mkdirSync(dirname(this.logFile), { recursive: true });
+      writeFileSync(this.logFile, '');
+    }
+  }
+
+  /** Whether only failures, warnings and results are printed */
+  get quiet(): boolean {
+    return this.level === 'quiet';
+  }
+
+  /** Whether commands are printed as well */
+  get verbose(): boolean {
+    return this.level === 'verbose';
+  }
+
+  /**
+   * Creates a spinner that honours {@link Logger.silent} and the log level,
+   * and writes its persisted lines to the log file. On non-interactive
+   * output the spinner is not animated and prints plain lines.
+   *
+   * @param text - Optional text to show next to the spinner
+   * @returns A new spinner
+   * @example
+   * ```typescript
+   * logger.spinner().succeed('[BUILD] [1/3] Compiling TypeScript');
+   * ```
+   */
+  spinner(text?: string): Spinner {
+    return new LoggedSpinner(
+      this,
+      ora({ text, isSilent: this.silent, isEnabled: this.interactive }),
+    );
+  }
+
+  /**
+   * Prints a message to stdout and writes it to the log file.
+   *
+   * @param text - Message to print
+   */
+  log(text: string): void {
+    console.log(text);
+    this.write(text);
+  }
+
+  /**
+   * Prints a message to stderr and writes it to the log file.
+   *
+   * @param text - Message to print
+   */
+  error(text: string): void {
+    // biome-ignore lint/suspicious/noConsole: Needed to display failure reasons
+    console.error(text);
+    this.write(text);
+  }
+
+  /**
+   * Prints a message at the `verbose` level only; the log file receives it
+   * at every level.
+   *
+   * @param text - Message to print
+   */
+  debug(text: string): void {
+    if (this.verbose && !this.silent) {
+      console.log(chalk.gray(text));
+    }
+    this.write(text);
+  }
+
+  /**
+   * Writes a line of compactc output to the log file, which captures the
+   * full output of every file whatever is printed to the terminal.
+   *
+   * @param file - Relative path to the .compact file being compiled
+   * @param line - Line written by compactc, without its line break
+   * @param stream - Stream the line was written to
+   */
+  output(file: string, line: string, stream: OutputStream): void {
+    this.write(`    [${file}] ${stream}: ${line}`);
+  }
+
+  /**
+   * Appends text without colors to the log file, if any, without printing
+   * it.
+   *
+   * @param text - Text to append, one or more lines
+   */
+  write(text: string): void {
+    if (this.logFile) {
+      appendFileSync(this.logFile, `${stripVTControlCharacters(text)}\n`);
+    }
+  }
+}
+
+/**
+ * Spinner applying the log level of a logger to an ora spinner: at the
+ * `quiet` level it is never started and only prints failures and warnings.
+ * Every persisted line is written to the log file.
+ *
+ * @class LoggedSpinner
+ * @implements {Spinner}
+ */
+class LoggedSpinner implements Spinner {
+  private readonly logger: Logger;
+  private readonly ora: Ora;
+
+  /**
+   * @param logger - Logger deciding the level and receiving the lines
+   * @param ora - Spinner printing to the terminal
+   */
+  constructor(logger: Logger, ora: Ora) {
+    this.logger = logger;
+    this.ora = ora;
+  }
+
+  get text(): string {
+    return this.ora.text;
+  }
+
+  set text(text: string) {
+    this.ora.text = text;
+  }
+
+  start(text?: string): Spinner {
+    (this.logger.quiet ? NULL_SPINNER : this.ora).start(text);
+    return this;
+  }
+
+  succeed(text?: string): Spinner {
+    return this.persist('succeed', text);
+  }
+
+  fail(text?: string): Spinner {
+    return this.persist('fail', text);
+  }
+
+  warn(text?: string): Spinner {
+    return this.persist('warn', text);
+  }
+
+  info(text?: string): Spinner {
+    return this.persist('info', text);
+  }
+
+  /**
+   * Persists a line, unless the log level hides it, and writes it to the
+   * log file.
+   *
+   * @param method - Ora method persisting the line
+   * @param text - Text of the line, defaulting to the spinner text
+   * @returns This spinner
+   */
+  private persist(method: SpinnerLine, text?: string): Spinner {
+    this.logger.write(`${SPINNER_SYMBOLS[method]} ${text ?? this.ora.text}`);
+    const shown =
+      this.logger.quiet && QUIET_METHODS.has(method) ? NULL_SPINNER : this.ora;
+    shown[method](text);
+    return this;
+  }
+}
+
+/**
+ * Checks whether output goes to an interactive terminal, as ora does for
+ * stderr: a TTY that is neither dumb nor running in CI.
+ *
+ * @param env - Environment providing `CI` and `TERM`
+ * @param stdout - Stream to check
+ * @returns Whether spinners can be animated
+ */
+function isInteractive(
+  env: NodeJS.ProcessEnv,
+  stdout: { isTTY?: boolean },
+): boolean {
+  return stdout.isTTY === true && env.TERM !== 'dumb' && !('CI' in env);
+}
+
+/** Logger shared by the compiler, the builder and their CLIs */
+export const logger = new Logger();
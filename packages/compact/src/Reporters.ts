@@ -0,0 +1,286 @@
+import { formatDiagnostic } from './Diagnostics.ts';
+import type { Diagnostic, DiagnosticSeverity } from './types/diagnostics.ts';
+import type { CompilationReport, FileReport } from './types/report.ts';
+
+/**
+ * Output formats supported by {@link formatReport}. `pretty` is the
+ * human-oriented terminal output and produces no report of its own.
+ */
+export type ReporterFormat = 'pretty' | 'json' | 'junit' | 'github' | 'sarif';
+
+/** Every supported reporter, in the order shown in usage help */
+export const REPORTER_FORMATS: readonly ReporterFormat[] = [
+  'pretty',
+  'json',
+  'junit',
+  'github',
+  'sarif',
+];
+
+/**
+ * Checks whether a string names a supported reporter.
+ *
+ * @param value - Raw value, e.g. from the command line
+ * @returns Whether the value is a {@link ReporterFormat}
+ */
+export function isReporterFormat(value: string): value is ReporterFormat {
+  return (REPORTER_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Escapes text for use in XML attributes and element content.
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Converts milliseconds to the seconds used by JUnit `time` attributes.
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Duration in seconds with millisecond precision
+ */
+function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Returns the diagnostics of a file, falling back to a single error located
+ * at the top of the file when it failed without parseable diagnostics.
+ *
+ * @param file - File entry of the report
+ * @returns Diagnostics to report for the file
+ */
+function diagnosticsOf(file: FileReport): Diagnostic[] {
+  if (file.diagnostics.length > 0 || file.status !== 'failed') {
+    return file.diagnostics;
+  }
+  return [
+    {
+      file: file.source,
+      line: 1,
+      column: 1,
+      severity: 'error',
+      message: file.error ?? 'Compilation failed',
+    },
+  ];
+}
+
+/**
+ * Renders a report as JUnit XML, with one test case per file.
+ * Failed files carry their diagnostics, passing files their warnings as
+ * `system-err`; cached and skipped files are marked as skipped.
+ *
+ * @param report - Report of the compilation run
+ * @returns JUnit XML document
+ */
+function toJUnit(report: CompilationReport): string {
+  const { summary } = report;
+  const tests = report.files.length;
+  const skipped = summary.cached + summary.skipped;
+  const counts = `tests="${tests}" failures="${summary.failed}" errors="0" skipped="${skipped}" time="${toSeconds(report.durationMs)}"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="compact-compiler" ${counts}>`,
+    `  <testsuite name="compact-compiler" ${counts} timestamp="${report.startedAt}">`,
+    '    <properties>',
+    `      <property name="devToolsVersion" value="${escapeXml(report.toolchain.devToolsVersion)}"/>`,
+    `      <property name="toolchainVersion" value="${escapeXml(report.toolchain.toolchainVersion)}"/>`,
+    `      <property name="flags" value="${escapeXml(report.flags)}"/>`,
+    '    </properties>',
+  ];
+
+  for (const file of report.files) {
+    const testcase = `<testcase classname="compact" name="${escapeXml(file.file)}" file="${escapeXml(file.source)}" time="${toSeconds(file.durationMs)}"`;
+
+    if (file.status === 'failed') {
+      const diagnostics = diagnosticsOf(file);
+      const details = diagnostics
+        .map((diagnostic) => formatDiagnostic(diagnostic))
+        .join('\n\n');
+      lines.push(
+        `    ${testcase}>`,
+        `      <failure message="${escapeXml(diagnostics[0].message)}" type="CompilationError">${escapeXml(details)}</failure>`,
+        '    </testcase>',
+      );
+    } else if (file.status === 'cached' || file.status === 'skipped') {
+      lines.push(
+        `    ${testcase}>`,
+        `      <skipped message="${file.status}"/>`,
+        '    </testcase>',
+      );
+    } else if (file.diagnostics.length > 0) {
+      const details = file.diagnostics
+        .map((diagnostic) => formatDiagnostic(diagnostic))
+        .join('\n\n');
+      lines.push(
+        `    ${testcase}>`,
+        `      <system-err>${escapeXml(details)}</system-err>`,
+        '    </testcase>',
+      );
+    } else {
+      lines.push(`    ${testcase}/>`);
+    }
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Escapes the message of a GitHub Actions workflow command.
+ *
+ * @param text - Raw message
+ * @returns Escaped message
+ */
+function escapeCommandData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * Escapes a property value of a GitHub Actions workflow command.
+ *
+ * @param text - Raw property value
+ * @returns Escaped property value
+ */
+function escapeCommandProperty(text: string): string {
+  return escapeCommandData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/** Workflow command used for each diagnostic severity */
+const GITHUB_COMMANDS: Record<DiagnosticSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+/**
+ * Renders a report as GitHub Actions workflow commands, which show up as
+ * annotations on the pull request diff.
+ *
+ * @param report - Report of the compilation run
+ * @returns One `::error`, `::warning` or `::notice` command per diagnostic
+ */
+function toGitHub(report: CompilationReport): string {
+  const commands: string[] = [];
+
+  for (const file of report.files) {
+    for (const diagnostic of diagnosticsOf(file)) {
+      const title = diagnostic.code
+        ? `compactc ${diagnostic.code}`
+        : 'compactc';
+      const properties = [
+        `file=${escapeCommandProperty(diagnostic.file)}`,
+        `line=${diagnostic.line}`,
+        `col=${diagnostic.column}`,
+        `title=${escapeCommandProperty(title)}`,
+      ].join(',');
+      commands.push(
+        `::${GITHUB_COMMANDS[diagnostic.severity]} ${properties}::${escapeCommandData(diagnostic.message)}`,
+      );
+    }
+  }
+
+  return commands.join('\n');
+}
+
+/** SARIF result level used for each diagnostic severity */
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * Renders a report as a SARIF 2.1.0 log for code scanning tools.
+ *
+ * @param report - Report of the compilation run
+ * @returns SARIF JSON document
+ */
+function toSarif(report: CompilationReport): string {
+  const results = report.files.flatMap((file) =>
+    diagnosticsOf(file).map((diagnostic) => ({
+      ruleId: diagnostic.code ?? 'compactc',
+      level: SARIF_LEVELS[diagnostic.severity],
+      message: { text: diagnostic.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: diagnostic.file },
+            region: {
+              startLine: diagnostic.line,
+              startColumn: diagnostic.column,
+            },
+          },
+        },
+      ],
+    })),
+  );
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'compactc',
+            version: report.toolchain.toolchainVersion,
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: report.success,
+            startTimeUtc: report.startedAt,
+            properties: { flags: report.flags },
+          },
+        ],
+        artifacts: report.files.map((file) => ({
+          location: { uri: file.source },
+        })),
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+/**
+ * Renders a compilation report in a machine-readable format.
+ *
+ * @param report - Report of the compilation run
+ * @param format - Reporter to render with; `pretty` renders nothing
+ * @returns The rendered report
+ * @example
+ * ```typescript
+ * await writeFile('junit.xml', formatReport(report, 'junit'));
+ * console.log(formatReport(report, 'github'));
+ * ```
+ */
+export function formatReport(
+  report: CompilationReport,
+  format: ReporterFormat,
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'junit':
+      return toJUnit(report);
+    case 'github':
+      return toGitHub(report);
+    case 'sarif':
+      return toSarif(report);
+    default:
+      return '';
+  }
+}
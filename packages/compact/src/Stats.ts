@@ -0,0 +1,541 @@
+import type { Dirent } from 'node:fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+import chalk from 'chalk';
+import logSymbols from 'log-symbols';
+import type { ResolvedConfig } from './Config.ts';
+import { UsageError } from './types/errors.ts';
+
+/** Default path of the committed baseline, relative to the working directory */
+const DEFAULT_BASELINE: string = 'circuit-stats.json';
+/** Default growth of a metric, in percent, tolerated before it is a regression */
+const DEFAULT_THRESHOLD = 10;
+/** Bumped whenever the baseline layout changes */
+const BASELINE_VERSION = 1;
+/** Artifact subdirectories that never contain other artifact directories */
+const ARTIFACT_SUBDIRS: readonly string[] = [
+  'compiler',
+  'contract',
+  'keys',
+  'zkir',
+];
+/** ZKIR instructions that add constraints without computing a value */
+const CONSTRAINT_OPS: readonly string[] = [
+  'assert',
+  'constrain_bits',
+  'constrain_eq',
+  'constrain_to_boolean',
+];
+/** Metrics compared against the baseline */
+const COMPARED_METRICS = [
+  'instructions',
+  'constraints',
+  'proverKeyBytes',
+  'verifierKeyBytes',
+] as const;
+
+/** A metric of {@link CircuitStats} compared against the baseline */
+export type StatsMetric = (typeof COMPARED_METRICS)[number];
+
+/**
+ * Size of a compiled circuit.
+ *
+ * @interface CircuitStats
+ * @prop {string} contract Artifact directory relative to the artifacts directory, e.g. `token/Token`
+ * @prop {string} circuit Name of the circuit
+ * @prop {number} instructions Number of ZKIR instructions, roughly the gates of the circuit
+ * @prop {number} constraints Number of ZKIR instructions that only constrain values (`assert`, `constrain_*`)
+ * @prop {number} inputs Number of private inputs of the circuit
+ * @prop {number} publicInputs Number of public inputs declared by the circuit
+ * @prop {number} [proverKeyBytes] Size of `keys/<circuit>.prover`, if keys were generated
+ * @prop {number} [verifierKeyBytes] Size of `keys/<circuit>.verifier`, if keys were generated
+ */
+export interface CircuitStats {
+  contract: string;
+  circuit: string;
+  instructions: number;
+  constraints: number;
+  inputs: number;
+  publicInputs: number;
+  proverKeyBytes?: number;
+  verifierKeyBytes?: number;
+}
+
+/**
+ * A metric of a circuit that grew past the threshold.
+ *
+ * @interface StatsRegression
+ * @prop {string} contract Artifact directory of the contract
+ * @prop {string} circuit Name of the circuit
+ * @prop {StatsMetric} metric Metric that grew
+ * @prop {number} baseline Value recorded in the baseline
+ * @prop {number} current Current value
+ * @prop {number} growth Growth in percent
+ */
+export interface StatsRegression {
+  contract: string;
+  circuit: string;
+  metric: StatsMetric;
+  baseline: number;
+  current: number;
+  growth: number;
+}
+
+/**
+ * Shape of the baseline file committed next to the sources.
+ *
+ * @interface StatsBaseline
+ * @prop {number} version Baseline layout version
+ * @prop {CircuitStats[]} circuits Size of every circuit, sorted by contract and circuit
+ */
+export interface StatsBaseline {
+  version: number;
+  circuits: CircuitStats[];
+}
+
+/**
+ * Machine-readable result of `compact-compiler stats`.
+ *
+ * @interface StatsReport
+ * @prop {string} artifactsDir Artifacts directory the circuits were read from
+ * @prop {string} baseline Path of the baseline file
+ * @prop {boolean} baselineFound Whether the baseline existed and was compared against
+ * @prop {boolean} baselineUpdated Whether the baseline was rewritten with the current sizes
+ * @prop {number} threshold Growth of a metric, in percent, tolerated before it is a regression
+ * @prop {boolean} success Whether no circuit grew past the threshold
+ * @prop {CircuitStats[]} circuits Size of every circuit, sorted by contract and circuit
+ * @prop {StatsRegression[]} regressions Metrics that grew past the threshold
+ * @prop {string[]} added Circuits (`<contract>/<circuit>`) missing from the baseline
+ * @prop {string[]} removed Circuits of the baseline that no longer exist
+ */
+export interface StatsReport {
+  artifactsDir: string;
+  baseline: string;
+  baselineFound: boolean;
+  baselineUpdated: boolean;
+  threshold: number;
+  success: boolean;
+  circuits: CircuitStats[];
+  regressions: StatsRegression[];
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Configuration options for {@link Stats}.
+ *
+ * @interface StatsOptions
+ * @prop {string} [artifactsDir] Artifacts directory (defaults to `artifacts`)
+ * @prop {string} [baseline] Baseline file (defaults to `circuit-stats.json`)
+ * @prop {number} [threshold] Tolerated growth in percent (defaults to 10)
+ * @prop {boolean} [updateBaseline] Write the current sizes to the baseline instead of comparing
+ * @prop {boolean} [json] Print the report as JSON instead of a table
+ */
+export interface StatsOptions {
+  artifactsDir?: string;
+  baseline?: string;
+  threshold?: number;
+  updateBaseline?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Reports the size of every compiled circuit, from its ZKIR and its prover
+ * and verifier keys, and compares it with a committed baseline so that
+ * circuits growing past a threshold fail CI.
+ *
+ * @class Stats
+ * @example
+ * ```typescript
+ * const stats = Stats.fromArgs(['--threshold', '5'], await loadConfig());
+ * const report = await stats.run();
+ * console.log(formatStatsReport(report));
+ * ```
+ */
+export class Stats {
+  /** Whether the report is printed as JSON */
+  readonly json: boolean;
+  private readonly artifactsDir: string;
+  private readonly baseline: string;
+  private readonly threshold: number;
+  private readonly updateBaseline: boolean;
+
+  /**
+   * Creates a new Stats instance.
+   *
+   * @param options - Artifacts directory, baseline and threshold
+   */
+  constructor(options: StatsOptions = {}) {
+    this.artifactsDir = options.artifactsDir ?? 'artifacts';
+    this.baseline = options.baseline ?? DEFAULT_BASELINE;
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    this.updateBaseline = options.updateBaseline ?? false;
+    this.json = options.json ?? false;
+  }
+
+  /**
+   * Creates a Stats instance from the arguments following `stats`.
+   *
+   * @param args - Arguments: `--baseline <file>`, `--threshold <percent>`,
+   * `--update-baseline` and `--json`
+   * @param config - Optional project configuration providing the artifacts directory
+   * @returns A new Stats instance
+   * @throws {UsageError} If --baseline is missing its path, --threshold is not a
+   * non-negative number, or an argument is not supported by stats
+   * @example
+   * ```typescript
+   * // compact-compiler stats --baseline stats.json --threshold 5
+   * const stats = Stats.fromArgs(['--baseline', 'stats.json', '--threshold', '5']);
+   * ```
+   */
+  static fromArgs(args: string[], config?: ResolvedConfig): Stats {
+    let baseline: string | undefined;
+    let threshold: number | undefined;
+    let updateBaseline = false;
+    let json = false;
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '--json') {
+        json = true;
+      } else if (args[i] === '--update-baseline') {
+        updateBaseline = true;
+      } else if (args[i] === '--baseline') {
+        const pathExists = i + 1 < args.length && !args[i + 1].startsWith('-');
+        if (!pathExists) {
+          throw new UsageError('--baseline flag requires a file path');
+        }
+        baseline = args[++i];
+      } else if (args[i] === '--threshold') {
+        threshold = Number(args[i + 1]);
+        if (i + 1 >= args.length || !(threshold >= 0)) {
+          throw new UsageError(
+            '--threshold flag requires a non-negative percentage',
+          );
+        }
+        i++;
+      } else {
+        throw new UsageError(`stats does not accept ${args[i]}`);
+      }
+    }
+
+    return new Stats({
+      artifactsDir: config?.artifactsDir,
+      baseline,
+      threshold,
+      updateBaseline,
+      json,
+    });
+  }
+
+  /**
+   * Measures every circuit in the artifacts directory and compares it with
+   * the baseline, or rewrites the baseline with `updateBaseline`. A missing
+   * baseline is not an error: every circuit is reported as added.
+   *
+   * @returns Promise resolving to the report; it is successful when no
+   * metric grew past the threshold
+   * @throws {SyntaxError} If a ZKIR file or the baseline is not valid JSON
+   */
+  async run(): Promise<StatsReport> {
+    const circuits = await this.collect();
+    const report: StatsReport = {
+      artifactsDir: this.artifactsDir,
+      baseline: this.baseline,
+      baselineFound: false,
+      baselineUpdated: false,
+      threshold: this.threshold,
+      success: true,
+      circuits,
+      regressions: [],
+      added: [],
+      removed: [],
+    };
+
+    if (this.updateBaseline) {
+      const baseline: StatsBaseline = { version: BASELINE_VERSION, circuits };
+      await mkdir(dirname(this.baseline), { recursive: true });
+      await writeFile(this.baseline, `${JSON.stringify(baseline, null, 2)}\n`);
+      return { ...report, baselineUpdated: true };
+    }
+
+    const baseline = await this.readBaseline();
+    const previous = new Map(
+      (baseline?.circuits ?? []).map((stats) => [circuitId(stats), stats]),
+    );
+    for (const stats of circuits) {
+      const before = previous.get(circuitId(stats));
+      previous.delete(circuitId(stats));
+      if (!before) {
+        report.added.push(circuitId(stats));
+        continue;
+      }
+      for (const metric of COMPARED_METRICS) {
+        const regression = this.compare(stats, before, metric);
+        if (regression) {
+          report.regressions.push(regression);
+        }
+      }
+    }
+    report.removed.push(...previous.keys());
+
+    return {
+      ...report,
+      baselineFound: baseline !== undefined,
+      success: report.regressions.length === 0,
+    };
+  }
+
+  /**
+   * Measures the circuits of every artifact directory.
+   *
+   * @returns Promise resolving to the size of every circuit, sorted by
+   * contract and circuit
+   */
+  private async collect(): Promise<CircuitStats[]> {
+    const circuits: CircuitStats[] = [];
+    for (const outputDir of await findArtifactDirs(this.artifactsDir)) {
+      const contract = relative(this.artifactsDir, outputDir)
+        .split(sep)
+        .join('/');
+      const zkirFiles = (await readdir(join(outputDir, 'zkir')))
+        .filter((name) => name.endsWith('.zkir'))
+        .sort();
+
+      for (const name of zkirFiles) {
+        const circuit = name.slice(0, -'.zkir'.length);
+        const zkir: {
+          num_inputs?: number;
+          instructions?: { op: string }[];
+        } = JSON.parse(await readFile(join(outputDir, 'zkir', name), 'utf8'));
+        const instructions = zkir.instructions ?? [];
+        const count = (ops: readonly string[]) =>
+          instructions.filter(({ op }) => ops.includes(op)).length;
+
+        circuits.push({
+          contract,
+          circuit,
+          instructions: instructions.length,
+          constraints: count(CONSTRAINT_OPS),
+          inputs: zkir.num_inputs ?? 0,
+          publicInputs: count(['declare_pub_input']),
+          proverKeyBytes: await fileSize(
+            join(outputDir, 'keys', `${circuit}.prover`),
+          ),
+          verifierKeyBytes: await fileSize(
+            join(outputDir, 'keys', `${circuit}.verifier`),
+          ),
+        });
+      }
+    }
+    return circuits;
+  }
+
+  /**
+   * Reads the baseline file.
+   *
+   * @returns Promise resolving to the baseline, or undefined if it does not
+   * exist or has an outdated layout
+   * @throws {UsageError} If the baseline is not valid JSON
+   */
+  private async readBaseline(): Promise<StatsBaseline | undefined> {
+    let contents: string;
+    try {
+      contents = await readFile(this.baseline, 'utf8');
+    } catch {
+      return undefined;
+    }
+
+    let baseline: StatsBaseline;
+    try {
+      baseline = JSON.parse(contents);
+    } catch (error) {
+      throw new UsageError(
+        `Baseline ${this.baseline} is not valid JSON: ${(error as Error).message}`,
+      );
+    }
+    return baseline.version === BASELINE_VERSION ? baseline : undefined;
+  }
+
+  /**
+   * Compares a metric of a circuit with its baseline value. Metrics missing
+   * on either side, such as keys of a `--skip-zk` build, are not compared.
+   *
+   * @param current - Current size of the circuit
+   * @param baseline - Size of the circuit in the baseline
+   * @param metric - Metric to compare
+   * @returns The regression, or undefined if the metric did not grow past the threshold
+   */
+  private compare(
+    current: CircuitStats,
+    baseline: CircuitStats,
+    metric: StatsMetric,
+  ): StatsRegression | undefined {
+    const before = baseline[metric];
+    const after = current[metric];
+    if (before === undefined || after === undefined || before === 0) {
+      return undefined;
+    }
+
+    const growth = ((after - before) / before) * 100;
+    if (growth <= this.threshold) {
+      return undefined;
+    }
+    return {
+      contract: current.contract,
+      circuit: current.circuit,
+      metric,
+      baseline: before,
+      current: after,
+      growth: Math.round(growth * 10) / 10,
+    };
+  }
+}
+
+/**
+ * Formats a stats report as a table of circuits followed by the
+ * regressions and the circuits added to or removed from the baseline.
+ *
+ * @param report - Report of `compact-compiler stats`
+ * @returns The formatted report
+ * @example
+ * ```typescript
+ * console.log(formatStatsReport(await Stats.fromArgs([]).run()));
+ * // Circuit          Instructions  Constraints  Public inputs  Prover key  Verifier key
+ * // Simple/getVal               12            1              6   239.5 KiB       1.2 KiB
+ * //
+ * // 1 circuit(s), no regressions against circuit-stats.json (threshold 10%)
+ * ```
+ */
+export function formatStatsReport(report: StatsReport): string {
+  if (report.circuits.length === 0) {
+    return `No circuits found in ${report.artifactsDir}`;
+  }
+
+  const columns: [string, (stats: CircuitStats) => string][] = [
+    ['Instructions', ({ instructions }) => String(instructions)],
+    ['Constraints', ({ constraints }) => String(constraints)],
+    ['Public inputs', ({ publicInputs }) => String(publicInputs)],
+    ['Prover key', ({ proverKeyBytes }) => formatBytes(proverKeyBytes)],
+    ['Verifier key', ({ verifierKeyBytes }) => formatBytes(verifierKeyBytes)],
+  ];
+  const width = Math.max(
+    'Circuit'.length,
+    ...report.circuits.map((stats) => circuitId(stats).length),
+  );
+  const lines = [
+    chalk.bold(
+      ['Circuit'.padEnd(width), ...columns.map(([title]) => title)].join('  '),
+    ),
+    ...report.circuits.map((stats) =>
+      [
+        circuitId(stats).padEnd(width),
+        ...columns.map(([title, value]) => value(stats).padStart(title.length)),
+      ].join('  '),
+    ),
+    '',
+  ];
+
+  for (const regression of report.regressions) {
+    lines.push(
+      `${logSymbols.error} ${regression.contract}/${regression.circuit}: ${regression.metric} grew ${regression.growth}% (${regression.baseline} → ${regression.current})`,
+    );
+  }
+  if (report.baselineFound) {
+    for (const circuit of report.added) {
+      lines.push(`${logSymbols.info} ${circuit}: not in the baseline`);
+    }
+    for (const circuit of report.removed) {
+      lines.push(`${logSymbols.info} ${circuit}: removed since the baseline`);
+    }
+  }
+  if (lines.at(-1) !== '') {
+    lines.push('');
+  }
+
+  const total = `${report.circuits.length} circuit(s)`;
+  if (report.baselineUpdated) {
+    lines.push(`${total} written to ${report.baseline}`);
+  } else if (!report.baselineFound) {
+    lines.push(
+      `${total}, ${chalk.gray(`no baseline at ${report.baseline} (create one with --update-baseline)`)}`,
+    );
+  } else {
+    const regressions =
+      report.regressions.length === 0
+        ? 'no regressions'
+        : `${report.regressions.length} regression(s)`;
+    lines.push(
+      `${total}, ${regressions} against ${report.baseline} (threshold ${report.threshold}%)`,
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Identifies a circuit across runs.
+ *
+ * @param stats - Size of the circuit
+ * @returns `<contract>/<circuit>`
+ */
+function circuitId({ contract, circuit }: CircuitStats): string {
+  return `${contract}/${circuit}`;
+}
+
+/**
+ * Formats a file size for the table.
+ *
+ * @param bytes - Size in bytes, if the file exists
+ * @returns The size in B or KiB, or `-` if the file does not exist
+ */
+function formatBytes(bytes?: number): string {
+  if (bytes === undefined) {
+    return '-';
+  }
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KiB`;
+}
+
+/**
+ * Returns the size of a file.
+ *
+ * @param path - Path of the file
+ * @returns Promise resolving to the size in bytes, or undefined if the file
+ * does not exist
+ */
+async function fileSize(path: string): Promise<number | undefined> {
+  try {
+    return (await stat(path)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds every artifact directory with circuits under a directory, in flat
+ * or mirror layout. Hidden directories, such as the artifact roots of
+ * compatibility matrices, are skipped.
+ *
+ * @param dir - Directory to search
+ * @returns Promise resolving to the artifact directories containing a
+ * `zkir/` directory, sorted; empty if the directory does not exist
+ */
+async function findArtifactDirs(dir: string): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const found: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) {
+      continue;
+    }
+    if (entry.name === 'zkir') {
+      found.push(dir);
+    } else if (!ARTIFACT_SUBDIRS.includes(entry.name)) {
+      found.push(...(await findArtifactDirs(join(dir, entry.name))));
+    }
+  }
+  return found.sort();
+}
@@ -0,0 +1,265 @@
+import { exec as execCallback } from 'node:child_process';
+import { watch } from 'node:fs';
+import { normalize } from 'node:path';
+import { promisify } from 'node:util';
+import chalk from 'chalk';
+import {
+  type CompactCompiler,
+  type ExecFunction,
+  UIService,
+} from './Compiler.ts';
+import { isPromisifiedChildProcessError } from './types/errors.ts';
+
+/** Time to wait for a burst of changes to settle before rebuilding */
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Function type for watching a directory recursively.
+ * Allows dependency injection for testing.
+ *
+ * @param dir - Directory to watch
+ * @param onChange - Called with the path of each changed file, relative to `dir`
+ * @returns Handle used to stop watching
+ */
+export type WatchFunction = (
+  dir: string,
+  onChange: (file: string) => void,
+) => { close(): void };
+
+/**
+ * Options controlling how {@link CompactWatcher} reacts to changes.
+ *
+ * @interface CompactWatcherOptions
+ * @prop {string} [exec] Shell command to run after each successful build
+ * @prop {number} [debounceMs] Time to wait for changes to settle (defaults to 200ms)
+ * @prop {ExecFunction} [execFn] Function used to run `exec`
+ * @prop {WatchFunction} [watchFn] Function used to watch the source directory
+ * @prop {AbortSignal} [signal] Closes the watcher and kills `exec` when aborted
+ */
+export interface CompactWatcherOptions {
+  exec?: string;
+  debounceMs?: number;
+  execFn?: ExecFunction;
+  watchFn?: WatchFunction;
+  signal?: AbortSignal;
+}
+
+/**
+ * Watches a directory recursively with `fs.watch`.
+ *
+ * @param dir - Directory to watch
+ * @param onChange - Called with the path of each changed file, relative to `dir`
+ * @returns The underlying file system watcher
+ */
+const watchRecursive: WatchFunction = (dir, onChange) =>
+  watch(dir, { recursive: true }, (_event, filename) => {
+    if (filename) {
+      onChange(filename.toString());
+    }
+  });
+
+/**
+ * Keeps a compiler running in watch mode: builds once, then recompiles the
+ * changed .compact files and every file importing them whenever sources
+ * change. Bursts of changes are debounced into a single rebuild, and changes
+ * made during a build trigger another build once it finishes.
+ *
+ * Compilation failures are reported and the watcher keeps running.
+ *
+ * @class CompactWatcher
+ * @example
+ * ```typescript
+ * const compiler = CompactCompiler.fromArgs(['--dir', 'token', '--skip-zk']);
+ * const watcher = new CompactWatcher(compiler, { exec: 'yarn vitest related' });
+ * await watcher.start(); // Resolves once watcher.close() is called
+ * ```
+ */
+export class CompactWatcher {
+  /** Compiler used for the initial build and as template for rebuilds */
+  private readonly compiler: CompactCompiler;
+  /** Optional shell command to run after each successful build */
+  private readonly exec?: string;
+  /** Time to wait for changes to settle before rebuilding */
+  private readonly debounceMs: number;
+  /** Function used to run `exec` */
+  private readonly execFn: ExecFunction;
+  /** Function used to watch the source directory */
+  private readonly watchFn: WatchFunction;
+  /** Optional signal closing the watcher */
+  private readonly signal?: AbortSignal;
+
+  /** Changed files waiting for the next rebuild */
+  private readonly pending = new Set<string>();
+  /** Debounce timer of the next rebuild */
+  private timer?: NodeJS.Timeout;
+  /** Whether a build is running */
+  private building = false;
+  /** Handle of the active file system watcher */
+  private watcher?: { close(): void };
+  /** Resolves the promise returned by start() */
+  private stopped?: () => void;
+
+  /**
+   * Creates a watcher for a compiler.
+   *
+   * @param compiler - Compiler configured with the flags, directory and options to use
+   * @param options - Optional watch options (e.g., `{ exec: 'yarn test' }`)
+   */
+  constructor(compiler: CompactCompiler, options: CompactWatcherOptions = {}) {
+    this.compiler = compiler;
+    this.exec = options.exec;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.execFn = options.execFn ?? promisify(execCallback);
+    this.watchFn = options.watchFn ?? watchRecursive;
+    this.signal = options.signal;
+  }
+
+  /**
+   * Runs the initial build and starts watching the compiler's source directory.
+   * Aborting the `signal` option closes the watcher.
+   *
+   * @returns Promise resolving once the watcher is closed
+   */
+  async start(): Promise<void> {
+    await this.build(this.compiler);
+    if (this.signal?.aborted) {
+      return;
+    }
+    this.signal?.addEventListener('abort', () => this.close(), { once: true });
+
+    this.watcher = this.watchFn(this.compiler.srcDir, (file) =>
+      this.onChange(file),
+    );
+    UIService.showWatching(this.compiler.srcDir);
+
+    return new Promise((resolve) => {
+      this.stopped = resolve;
+    });
+  }
+
+  /**
+   * Stops watching. A build in progress is allowed to finish.
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    this.pending.clear();
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.stopped?.();
+  }
+
+  /**
+   * Records a changed file and (re)starts the debounce timer.
+   * Changes to files other than .compact sources are ignored.
+   *
+   * @param file - Changed file, relative to the source directory
+   */
+  private onChange(file: string): void {
+    if (!file.endsWith('.compact')) {
+      return;
+    }
+
+    this.pending.add(normalize(file));
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      void this.rebuild();
+    }, this.debounceMs);
+  }
+
+  /**
+   * Rebuilds the files affected by pending changes until none are left.
+   * Does nothing while a build is running; its changes are picked up when
+   * that build finishes.
+   */
+  private async rebuild(): Promise<void> {
+    if (this.building) {
+      return;
+    }
+
+    this.building = true;
+    try {
+      while (this.pending.size > 0) {
+        const changed = [...this.pending].sort();
+        this.pending.clear();
+        UIService.showChangesDetected(changed);
+        await this.build(this.compiler.withAffected(changed));
+      }
+    } finally {
+      this.building = false;
+    }
+  }
+
+  /**
+   * Runs a build, reporting failures instead of throwing them, and runs
+   * `exec` when the build succeeds.
+   *
+   * @param compiler - Compiler to run
+   */
+  private async build(compiler: CompactCompiler): Promise<void> {
+    try {
+      await compiler.compile();
+    } catch (error) {
+      if (this.signal?.aborted) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      UIService.spinner().fail(
+        chalk.red(`[COMPILE] Build failed: ${message}. Waiting for changes...`),
+      );
+      return;
+    }
+
+    if (this.exec) {
+      await this.runExec(this.exec);
+    }
+  }
+
+  /**
+   * Runs the post-build command and prints its output.
+   * Failures of the command are reported but do not stop the watcher.
+   *
+   * @param command - Shell command to run
+   */
+  private async runExec(command: string): Promise<void> {
+    const spinner = UIService.spinner(
+      chalk.blue(`[COMPILE] Running ${command}`),
+    ).start();
+
+    try {
+      const { stdout, stderr } = this.signal
+        ? await this.execFn(command, { signal: this.signal })
+        : await this.execFn(command);
+      spinner.succeed(chalk.green(`[COMPILE] Ran ${command}`));
+      this.printCommandOutput(stdout, stderr, chalk.yellow);
+    } catch (error) {
+      if (this.signal?.aborted) {
+        spinner.fail(chalk.red(`[COMPILE] Cancelled ${command}`));
+        return;
+      }
+      spinner.fail(chalk.red(`[COMPILE] Command failed: ${command}`));
+      if (isPromisifiedChildProcessError(error)) {
+        this.printCommandOutput(error.stdout, error.stderr, chalk.red);
+      }
+    }
+  }
+
+  /**
+   * Prints the non-empty output of the post-build command.
+   *
+   * @param stdout - stdout of the command
+   * @param stderr - stderr of the command
+   * @param stderrColorFn - Chalk color function used for stderr
+   */
+  private printCommandOutput(
+    stdout: string,
+    stderr: string,
+    stderrColorFn: (text: string) => string,
+  ): void {
+    if (stdout.trim()) {
+      UIService.printOutput(stdout, chalk.cyan);
+    }
+    if (stderr.trim()) {
+      UIService.printOutput(stderr, stderrColorFn);
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { readFileSync } from 'node:fs';
+import { REPORTER_FORMATS } from './Reporters.ts';
+import { EXIT_CODES } from './types/errors.ts';
+import type { CommandSpec, OptionSpec } from './utils/args.ts';
+import { ARTIFACT_LAYOUTS } from './utils/artifacts.ts';
+
+/** package.json of this package, declaring the version printed by `--version` */
+const PACKAGE_JSON_URL: URL = new URL('../package.json', import.meta.url);
+
+/**
+ * Reads the version of this package, only when `--version` asks for it.
+ *
+ * @returns The version declared in package.json
+ */
+function packageVersion(): string {
+  return JSON.parse(readFileSync(PACKAGE_JSON_URL, 'utf8')).version;
+}
+
+/** Options selecting and compiling the sources, shared by both CLIs */
+const COMPILE_OPTIONS: OptionSpec[] = [
+  {
+    name: '--dir',
+    value: '<directory>',
+    requires: 'a directory name',
+    description:
+      'Compile a directory of the source directory (repeatable, e.g. token)',
+  },
+  {
+    name: '--skip-zk',
+    compactc: true,
+    description: 'Skip zero-knowledge proof generation',
+  },
+  {
+    name: '--jobs',
+    alias: '-j',
+    value: '<n|auto>',
+    requires: 'a positive integer or "auto"',
+    description: 'Compile up to n files in parallel (or one per CPU)',
+  },
+  {
+    name: '--force',
+    description: 'Recompile all files, ignoring the compilation cache',
+  },
+  {
+    name: '--keep-going',
+    description: 'Compile all files after failures and print a summary',
+  },
+  {
+    name: '--affected',
+    value: '<file...>',
+    variadic: true,
+    requires: 'at least one file',
+    description: 'Compile only these files and the files importing them',
+  },
+  {
+    name: '--changed-since',
+    value: '<git-ref>',
+    requires: 'a git ref',
+    description: 'Compile only files affected by changes since the ref',
+  },
+  {
+    name: '--profile',
+    value: '<name>',
+    requires: 'a profile name',
+    description: 'Apply a build profile (test, release or one from the config)',
+  },
+  {
+    name: '--include',
+    value: '<glob...>',
+    variadic: true,
+    requires: 'at least one glob pattern',
+    description: 'Compile only sources matching the globs',
+  },
+  {
+    name: '--exclude',
+    value: '<glob...>',
+    variadic: true,
+    requires: 'at least one glob pattern',
+    description: 'Skip sources matching the globs (see also .compactignore)',
+  },
+  {
+    name: '--layout',
+    value: '<flat|mirror>',
+    choices: ARTIFACT_LAYOUTS,
+    requires: `a layout (${ARTIFACT_LAYOUTS.join(' or ')})`,
+    description: 'Write artifacts flat (default) or mirroring the source tree',
+  },
+  {
+    name: '--timeout',
+    value: '<seconds>',
+    requires: 'a positive number of seconds',
+    description: 'Fail a file whose compilation takes longer',
+  },
+];
+
+/** Options of the shared logger (see `Logger.parseArgs`) and the CLIs themselves */
+const COMMON_OPTIONS: OptionSpec[] = [
+  {
+    name: '--quiet',
+    description: 'Print only failures, warnings and results',
+  },
+  {
+    name: '--verbose',
+    description:
+      'Also print compactc commands (use -- --verbose for a verbose compactc)',
+  },
+  {
+    name: '--log-file',
+    value: '<path>',
+    requires: 'a file path',
+    description: 'Write all output, including full compactc output, to a file',
+  },
+  { name: '--help', alias: '-h', description: 'Print this help and exit' },
+  { name: '--version', description: 'Print the version and exit' },
+];
+
+/** Positional arguments of both CLIs */
+const COMPILE_ARGS: [string, string][] = [
+  [
+    'file...',
+    'Compile these .compact files, relative to the working or source directory',
+  ],
+  ['+<version>', 'Use a specific toolchain version (e.g. +0.25.0)'],
+  ['-- <flags...>', 'Pass the remaining flags to compactc (e.g. -- --vscode)'],
+];
+
+/** Exit codes of failures both CLIs report the same way (see `EXIT_CODES`) */
+const COMPILE_EXIT_CODES: [string, string][] = [
+  [
+    `${EXIT_CODES.compilation}`,
+    'Compilation failed or artifacts are out of date',
+  ],
+  [`${EXIT_CODES.usage}`, 'Invalid arguments or configuration'],
+  [
+    `${EXIT_CODES.environment}`,
+    'Compact CLI or toolchain missing or unsuitable',
+  ],
+];
+
+/** Command-line interface of `compact-compiler` */
+export const COMPILER_COMMAND: CommandSpec = {
+  name: 'compact-compiler',
+  version: packageVersion,
+  usage: [
+    '[options] [file...] [+<version>] [-- <compactc flags...>]',
+    'doctor [--json] [+<version>]  Diagnose the environment',
+    'prune [--dry-run] [--profile <name>] [--layout <flat|mirror>]  Remove artifact directories without a source',
+    'stats [--baseline <file>] [--threshold <percent>] [--update-baseline] [--json]  Compare circuit sizes with a baseline',
+  ],
+  description:
+    'Compiles the .compact files of the source directory, or of the given directories and files, with compactc.',
+  args: COMPILE_ARGS,
+  options: [
+    ...COMPILE_OPTIONS,
+    {
+      name: '--matrix',
+      value: '<+version,...>',
+      requires: 'comma-separated toolchain versions (e.g. +0.25.0,+0.26.0)',
+      description:
+        'Compile with each toolchain and print a compatibility table',
+    },
+    {
+      name: '--check',
+      description:
+        'Fail if committed artifacts differ from freshly compiled ones',
+    },
+    {
+      name: '--include-keys',
+      description: 'Also compare zkir/ and keys/ with --check',
+    },
+    {
+      name: '--prune',
+      description:
+        'Remove artifact directories without a source after building',
+    },
+    {
+      name: '--dry-run',
+      description: 'Only print what --prune would remove',
+    },
+    {
+      name: '--graph',
+      value: '<json|dot>',
+      choices: ['json', 'dot'],
+      requires: 'a format (json or dot)',
+      description: 'Print the import dependency graph and exit',
+    },
+    {
+      name: '--list',
+      description: 'Print the files that would be compiled and why, then exit',
+    },
+    {
+      name: '--reporter',
+      value: '<name>',
+      choices: REPORTER_FORMATS,
+      requires: `a reporter (${REPORTER_FORMATS.join(', ')})`,
+      description: `Report format: ${REPORTER_FORMATS.join(', ')}`,
+    },
+    {
+      name: '--report-file',
+      value: '<path>',
+      requires: 'a file path',
+      description: 'Write the report to a file and keep the pretty output',
+    },
+    {
+      name: '--watch',
+      description: 'Recompile changed files and their dependents on save',
+    },
+    {
+      name: '--exec',
+      value: '<command>',
+      requires: 'a command',
+      description: 'Run a command after each successful build in watch mode',
+    },
+    ...COMMON_OPTIONS,
+  ],
+  examples: [
+    ['compact-compiler', 'Compile all files'],
+    ['compact-compiler --dir security', 'Compile security directory'],
+    ['compact-compiler --dir access --dir token', 'Compile two directories'],
+    ['compact-compiler src/token/FungibleToken.compact', 'Compile one file'],
+    ['compact-compiler --skip-zk +0.25.0', 'Use specific version'],
+    ['compact-compiler -- --vscode', 'Pass a flag to compactc'],
+    ['SKIP_ZK=true compact-compiler --dir token', 'Use environment variable'],
+    ['compact-compiler --jobs 8', 'Compile 8 files at a time'],
+    [
+      'compact-compiler --changed-since main',
+      'Compile what changed since main',
+    ],
+    [
+      'compact-compiler --reporter junit --report-file junit.xml',
+      'JUnit report for CI',
+    ],
+    ['compact-compiler --dir token --skip-zk --watch', 'Recompile on save'],
+    ['compact-compiler prune --dry-run', 'List stale artifact directories'],
+    ['turbo compact:security -- --skip-zk', 'Turbo task with flags'],
+  ],
+  exitCodes: [
+    ...COMPILE_EXIT_CODES,
+    [`${EXIT_CODES.internal}`, 'Unexpected error'],
+    [`${EXIT_CODES.regression}`, 'A circuit grew past the stats threshold'],
+    ['130/143', 'Cancelled by SIGINT/SIGTERM'],
+  ],
+};
+
+/** Command-line interface of `compact-builder` */
+export const BUILDER_COMMAND: CommandSpec = {
+  name: 'compact-builder',
+  version: packageVersion,
+  usage: ['[options] [file...] [+<version>] [-- <compactc flags...>]'],
+  description:
+    'Compiles the .compact files like compact-compiler, then compiles the TypeScript sources and copies the artifacts and .compact files to dist/.',
+  args: COMPILE_ARGS,
+  options: [...COMPILE_OPTIONS, ...COMMON_OPTIONS],
+  examples: [
+    ['compact-builder', 'Build everything'],
+    ['compact-builder --skip-zk', 'Build without proving keys'],
+    ['compact-builder --profile release', 'Build the release profile'],
+  ],
+  exitCodes: [
+    ...COMPILE_EXIT_CODES,
+    [`${EXIT_CODES.build}`, 'A build step failed'],
+    [`${EXIT_CODES.internal}`, 'Unexpected error'],
+    ['130/143', 'Cancelled by SIGINT/SIGTERM'],
+  ],
+};
+
+/** Command-line interface of `compact-compiler prune` */
+export const PRUNE_COMMAND: CommandSpec = {
+  name: 'compact-compiler prune',
+  version: packageVersion,
+  usage: ['[options]'],
+  description:
+    'Removes the artifact directories of the artifacts directory that no source of the source directory compiles to, such as those of renamed or deleted sources.',
+  options: [
+    {
+      name: '--dry-run',
+      description: 'Print the directories that would be removed, keep them',
+    },
+    ...COMPILE_OPTIONS.filter(
+      ({ name }) => name === '--profile' || name === '--layout',
+    ),
+    ...COMMON_OPTIONS,
+  ],
+  examples: [
+    ['compact-compiler prune', 'Remove stale artifact directories'],
+    ['compact-compiler prune --dry-run', 'Only list them'],
+    ['compact-compiler prune --profile release', 'Prune artifacts/release'],
+  ],
+};
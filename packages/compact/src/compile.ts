@@ -0,0 +1,148 @@
+import { availableParallelism } from 'node:os';
+import {
+  CompactCompiler,
+  type CompactCompilerOptions,
+  type ExecFunction,
+  UIService,
+} from './Compiler.ts';
+import { applyProfile, loadConfig, type ResolvedConfig } from './Config.ts';
+import { UsageError } from './types/errors.ts';
+import type { CompilationReport, CompileEvent } from './types/report.ts';
+import { isToolchainVersion } from './utils/semver.ts';
+
+/**
+ * Result of {@link compile}: the status, duration, compactc output,
+ * diagnostics and artifact directory of every file, plus the toolchain and
+ * totals of the run.
+ */
+export type CompileResult = CompilationReport;
+
+/**
+ * Options of {@link compile}. Unset options fall back to the project
+ * configuration, then to the compiler defaults.
+ *
+ * @interface CompileOptions
+ * @prop {string[]} [flags] Compiler flags, added to the configured flags
+ * @prop {string | string[]} [targetDir] Subdirectory, or subdirectories, of the source directory to compile
+ * @prop {string} [version] Toolchain version to use, replacing the configured version
+ * @prop {ResolvedConfig} [config] Project configuration (defaults to {@link loadConfig} from the working directory)
+ * @prop {string} [profile] Build profile applied to the configuration (see {@link applyProfile})
+ * @prop {ExecFunction} [execFn] Function used to run the Compact CLI and git; also runs
+ * compactc unless `spawnFn` is given
+ * @prop {(event: CompileEvent) => void} [onProgress] Called with every progress event of the run
+ */
+export interface CompileOptions
+  extends Omit<
+    CompactCompilerOptions,
+    | 'graph'
+    | 'list'
+    | 'prune'
+    | 'dryRun'
+    | 'reporter'
+    | 'reportFile'
+    | 'watch'
+    | 'exec'
+    | 'configFile'
+  > {
+  flags?: string[];
+  targetDir?: string | string[];
+  version?: string;
+  config?: ResolvedConfig;
+  execFn?: ExecFunction;
+  onProgress?: (event: CompileEvent) => void;
+}
+
+/**
+ * Compiles .compact files without printing anything and returns a typed
+ * result. Compilation failures are part of the result (`success` is `false`
+ * and the failing files have status `failed`) rather than thrown; the
+ * errors that prevent a run from starting are thrown.
+ *
+ * Settings are merged like the CLI does: flags and include/exclude globs
+ * are added to the configured ones, every other option replaces its
+ * configured value. A `profile` is applied to the configuration first.
+ *
+ * @param options - Options of the run
+ * @returns Promise resolving to the result of the run
+ * @throws {ConfigError} If the project configuration cannot be loaded
+ * @throws {Error} If `profile` names an unknown profile
+ * @throws {UsageError} If `version` is not a toolchain version
+ * @throws {CompactCliNotFoundError} If Compact CLI is not available
+ * @throws {DirectoryNotFoundError} If a target directory doesn't exist
+ * @throws {SourceNotFoundError} If a target file in `files` doesn't exist
+ * @throws {ArtifactCollisionError} If sources would overwrite each other's artifacts
+ * @throws {ToolchainVersionMismatchError} If the toolchain cannot compile the sources
+ * @throws The abort reason of `signal` if the run is cancelled
+ * @example
+ * ```typescript
+ * import { compile } from '@openzeppelin-compact/compact';
+ *
+ * const result = await compile({
+ *   flags: ['--skip-zk'],
+ *   targetDir: 'token',
+ *   jobs: 4,
+ *   timeout: 5 * 60 * 1000,
+ *   signal: AbortSignal.timeout(30 * 60 * 1000),
+ *   onProgress: (event) => {
+ *     if (event.type === 'file') {
+ *       console.log(`${event.file.status} ${event.file.file}`);
+ *     }
+ *   },
+ * });
+ *
+ * for (const file of result.files.filter((file) => file.status === 'failed')) {
+ *   console.log(file.source, file.diagnostics);
+ * }
+ * ```
+ */
+export async function compile(
+  options: CompileOptions = {},
+): Promise<CompileResult> {
+  const {
+    flags = [],
+    targetDir,
+    version,
+    config,
+    profile,
+    execFn,
+    onProgress,
+    ...compilerOptions
+  } = options;
+  if (version !== undefined && !isToolchainVersion(version)) {
+    throw new UsageError(
+      `"${version}" is not a toolchain version (e.g. 0.25.0)`,
+    );
+  }
+  const loaded = config ?? (await loadConfig());
+  const resolved = profile ? applyProfile(loaded, profile) : loaded;
+
+  const compiler = new CompactCompiler(
+    [...new Set([...resolved.flags, ...flags])].join(' '),
+    targetDir,
+    version ?? resolved.version,
+    execFn,
+    {
+      srcDir: resolved.srcDir,
+      artifactsDir: resolved.artifactsDir,
+      overrides: resolved.overrides,
+      layout: resolved.layout,
+      jobs: resolved.jobs === 'auto' ? availableParallelism() : resolved.jobs,
+      configFile: resolved.file,
+      profile: resolved.profile,
+      ...compilerOptions,
+      include: [...resolved.include, ...(compilerOptions.include ?? [])],
+      exclude: [...resolved.exclude, ...(compilerOptions.exclude ?? [])],
+    },
+  );
+  if (onProgress) {
+    compiler.events.on('progress', onProgress);
+  }
+
+  const silent = UIService.silent;
+  UIService.silent = true;
+  try {
+    return await compiler.run();
+  } finally {
+    UIService.silent = silent;
+  }
+}
@@ -0,0 +1,94 @@
+// biome-ignore lint/performance/noBarrelFile: entrypoint module
+export {
+  ARTIFACT_MANIFEST_FILE,
+  type ContractInfoType,
+  type Manifest,
+  type ManifestCircuit,
+  type ManifestEntry,
+} from './ArtifactManifest.ts';
+export {
+  CompactCompiler,
+  type CompactCompilerOptions,
+  type ExecFunction,
+  type ExecOptions,
+  type FileSelection,
+  type FileStatus,
+} from './Compiler.ts';
+export {
+  applyProfile,
+  type CompactConfig,
+  type CompactProfile,
+  DEFAULT_PROFILES,
+  defineConfig,
+  loadConfig,
+  type ResolvedConfig,
+} from './Config.ts';
+export {
+  type CompileOptions,
+  type CompileResult,
+  compile,
+} from './compile.ts';
+export {
+  Doctor,
+  type DoctorCheck,
+  type DoctorOptions,
+  type DoctorReport,
+  type DoctorStatus,
+  formatDoctorReport,
+} from './Doctor.ts';
+export {
+  Logger,
+  type LoggerOptions,
+  type LogLevel,
+  logger,
+  type Spinner,
+} from './Logger.ts';
+export { formatReport, type ReporterFormat } from './Reporters.ts';
+export {
+  type CircuitStats,
+  formatStatsReport,
+  Stats,
+  type StatsBaseline,
+  type StatsMetric,
+  type StatsOptions,
+  type StatsRegression,
+  type StatsReport,
+} from './Stats.ts';
+export type { Diagnostic, DiagnosticSeverity } from './types/diagnostics.ts';
+export {
+  AggregateCompilationError,
+  ArtifactCollisionError,
+  ArtifactDriftError,
+  BuildStepError,
+  CompactCliNotFoundError,
+  CompactToolError,
+  CompilationError,
+  CompilationTimeoutError,
+  ConfigError,
+  DirectoryNotFoundError,
+  EnvironmentError,
+  type ErrorCategory,
+  EXIT_CODES,
+  exitCodeOf,
+  SourceNotFoundError,
+  ToolchainVersionMismatchError,
+  UsageError,
+} from './types/errors.ts';
+export type {
+  ArtifactCheckReport,
+  ArtifactDrift,
+  CompilationReport,
+  CompileEvent,
+  FileReport,
+  MatrixCell,
+  MatrixReport,
+  MatrixToolchain,
+  PruneReport,
+} from './types/report.ts';
+export type { ArtifactLayout } from './utils/artifacts.ts';
+export {
+  type OutputStream,
+  type SpawnFunction,
+  type SpawnOptions,
+  spawnAsync,
+} from './utils/spawn.ts';
@@ -1,8 +1,18 @@
 #!/usr/bin/env node
 
 import chalk from 'chalk';
-import ora from 'ora';
 import { CompactBuilder } from './Builder.js';
+import { loadConfig } from './Config.js';
+import { BUILDER_COMMAND } from './commands.js';
+import { Logger, logger } from './Logger.js';
+import {
+  BuildStepError,
+  CompactToolError,
+  exitCodeOf,
+  UsageError,
+} from './types/errors.js';
+import { formatHelp, printHelpOrVersion } from './utils/args.js';
+import { listenForTermination } from './utils/signals.js';
 
 /**
  * Executes the Compact builder CLI.
@@ -24,19 +34,53 @@ import { CompactBuilder } from './Builder.js';
  * ✔ [BUILD] [2/3] Copying artifacts
  * ✔ [BUILD] [3/3] Copying and cleaning .compact files
  * ```
+ *
+ * `--quiet`, `--verbose` and `--log-file <path>` apply to the compilation
+ * and the build steps alike. The arguments are validated against
+ * {@link BUILDER_COMMAND}, which also generates `--help`.
+ *
+ * On SIGINT or SIGTERM the running compilation or build step is killed and
+ * the builder exits with 130 or 143. Other failures exit with the code of
+ * their category (see `EXIT_CODES`): 1 when compilation fails, 2 for invalid
+ * arguments or configuration, 3 when the Compact CLI or toolchain is missing
+ * or unsuitable, 4 when a build step fails and 5 for unexpected errors.
  */
 async function runBuilder(): Promise<void> {
-  const spinner = ora(chalk.blue('[BUILD] Compact Builder started')).info();
+  const spinner = logger.spinner();
+  const termination = listenForTermination();
 
   try {
-    const compilerFlags = process.argv.slice(2).join(' ');
-    const builder = new CompactBuilder(compilerFlags);
+    const { options, args } = Logger.parseArgs(process.argv.slice(2));
+    logger.configure(options);
+    if (printHelpOrVersion(BUILDER_COMMAND, args)) {
+      return;
+    }
+    spinner.info(chalk.blue('[BUILD] Compact Builder started'));
+
+    const config = await loadConfig();
+    const builder = new CompactBuilder(args, config, termination.signal);
     await builder.build();
   } catch (err) {
-    spinner.fail(
-      chalk.red('[BUILD] Unexpected error:', (err as Error).message),
-    );
-    process.exit(1);
+    if (termination.exitCode) {
+      spinner.fail(
+        chalk.red(`[BUILD] Build cancelled (${termination.received})`),
+      );
+      process.exit(termination.exitCode);
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    if (err instanceof UsageError) {
+      spinner.fail(chalk.red(`[BUILD] Error: ${message}`));
+      console.log(chalk.yellow(`\n${formatHelp(BUILDER_COMMAND)}`));
+    } else if (err instanceof BuildStepError) {
+      // The output of the failed step is already displayed by `executeStep`
+    } else if (err instanceof CompactToolError) {
+      spinner.fail(chalk.red(`[BUILD] Error: ${message}`));
+    } else {
+      spinner.fail(chalk.red('[BUILD] Unexpected error:', message));
+    }
+    process.exit(exitCodeOf(err));
+  } finally {
+    termination.dispose();
   }
 }
 
@@ -1,12 +1,33 @@
 #!/usr/bin/env node
 
 import chalk from 'chalk';
-import ora, { type Ora } from 'ora';
 import { CompactCompiler } from './Compiler.js';
+import { loadConfig, type ResolvedConfig } from './Config.js';
+import { COMPILER_COMMAND, PRUNE_COMMAND } from './commands.js';
+import { Doctor, formatDoctorReport } from './Doctor.js';
+import { Logger, logger, type Spinner } from './Logger.js';
+import { formatStatsReport, Stats } from './Stats.js';
 import {
-  type CompilationError,
+  AggregateCompilationError,
+  ArtifactCollisionError,
+  ArtifactDriftError,
+  CompactCliNotFoundError,
+  CompactToolError,
+  CompilationError,
+  CompilationTimeoutError,
+  ConfigError,
+  DirectoryNotFoundError,
+  EnvironmentError,
+  EXIT_CODES,
+  exitCodeOf,
   isPromisifiedChildProcessError,
+  SourceNotFoundError,
+  ToolchainVersionMismatchError,
+  UsageError,
 } from './types/errors.js';
+import { formatHelp, parseArgs, printHelpOrVersion } from './utils/args.js';
+import { listenForTermination } from './utils/signals.js';
+import { CompactWatcher } from './Watcher.js';
 
 /**
  * Executes the Compact compiler CLI with improved error handling and user feedback.
@@ -21,15 +42,28 @@ import {
  *
  * Benefits: Better testability, consistent UI, separation of concerns.
  *
- * Note: This compiler uses fail-fast error handling.
+ * Note: By default this compiler uses fail-fast error handling.
  * Compilation stops on the first error encountered.
  * This provides immediate feedback but doesn't attempt to compile remaining files after a failure.
+ * Pass `--keep-going` to compile every file, print a summary table and exit
+ * non-zero with an `AggregateCompilationError` listing each failing file.
+ *
+ * Every option, with examples, is described by `compact-compiler --help`,
+ * generated from `COMPILER_COMMAND`. The `doctor`, `stats` and `prune`
+ * subcommands diagnose the environment, report circuit sizes and remove
+ * stale artifact directories.
+ *
+ * Exit codes follow the category of the error (see `EXIT_CODES`): 1 when
+ * compilation fails or artifacts are out of date, 2 for invalid usage, 3
+ * for environment problems (including failed `doctor` checks), 5 for
+ * unexpected errors, 6 when a circuit grew past the `stats` threshold and
+ * 130/143 when cancelled by SIGINT/SIGTERM.
  *
  * @example Individual module compilation
  * ```bash
  * npx compact-compiler --dir security --skip-zk
  * turbo compact:access -- --skip-zk
- * turbo compact:security -- --skip-zk --other-flag
+ * turbo compact:security -- --skip-zk --keep-going
  * ```
  *
  * @example Full compilation with environment variables
@@ -44,36 +78,200 @@ import {
  * ```
  */
 async function runCompiler(): Promise<void> {
-  const spinner = ora(chalk.blue('[COMPILE] Compact compiler started')).info();
+  const spinner = logger.spinner();
+  const termination = listenForTermination();
+  let compiler: CompactCompiler | undefined;
 
   try {
-    const args = process.argv.slice(2);
-    const compiler = CompactCompiler.fromArgs(args);
-    await compiler.compile();
+    const { options, args } = Logger.parseArgs(process.argv.slice(2));
+    logger.configure(options);
+    if (answerHelpOrVersion(args)) {
+      return;
+    }
+    spinner.info(chalk.blue('[COMPILE] Compact compiler started'));
+
+    const config = await loadConfig();
+    if (args[0] === 'doctor') {
+      await runDoctor(args.slice(1), config, termination.signal);
+      return;
+    }
+    if (args[0] === 'stats') {
+      await runStats(args.slice(1), config);
+      return;
+    }
+    if (args[0] === 'prune') {
+      await runPrune(args.slice(1), config, termination.signal);
+      return;
+    }
+    compiler = CompactCompiler.fromArgs(
+      args,
+      process.env,
+      config,
+      termination.signal,
+    );
+    if (compiler.watchMode) {
+      await new CompactWatcher(compiler, {
+        exec: compiler.watchExec,
+        signal: termination.signal,
+      }).start();
+      // The watcher closes on a termination signal
+      if (termination.exitCode) {
+        process.exit(termination.exitCode);
+      }
+    } else {
+      await compiler.compile();
+    }
   } catch (error) {
-    handleError(error, spinner);
-    process.exit(1);
+    if (termination.exitCode) {
+      spinner.fail(
+        chalk.red(
+          `[COMPILE] Compilation cancelled (${termination.received}), incomplete artifacts were removed`,
+        ),
+      );
+      process.exit(termination.exitCode);
+    }
+    // Compilation failures are already part of a report written to stdout
+    if (!(compiler?.reportsToStdout && isCompilationFailure(error))) {
+      handleError(error, spinner);
+    }
+    process.exit(exitCodeOf(error));
+  } finally {
+    termination.dispose();
+  }
+}
+
+/**
+ * Answers `--help` and `--version` of `compact-compiler` and its `prune`
+ * subcommand. `doctor` and `stats` validate their own arguments.
+ *
+ * @param args - Command-line arguments
+ * @returns Whether the help or version was printed, leaving nothing else to do
+ * @throws {Error} If the arguments are invalid (see {@link printHelpOrVersion})
+ */
+function answerHelpOrVersion(args: string[]): boolean {
+  if (args[0] === 'doctor' || args[0] === 'stats') {
+    return false;
+  }
+  if (args[0] === 'prune') {
+    return printHelpOrVersion(PRUNE_COMMAND, args.slice(1));
   }
+  return printHelpOrVersion(COMPILER_COMMAND, args);
+}
+
+/**
+ * Runs the `doctor` subcommand: prints the checklist, or the report as JSON
+ * with `--json`, and exits non-zero when a check failed.
+ *
+ * @param args - Arguments following `doctor`
+ * @param config - Project configuration providing the directories to check
+ * @param signal - Signal killing running commands when aborted
+ */
+async function runDoctor(
+  args: string[],
+  config: ResolvedConfig,
+  signal: AbortSignal,
+): Promise<void> {
+  const doctor = Doctor.fromArgs(args, process.env, config, signal);
+  const report = await doctor.run();
+  console.log(
+    doctor.json ? JSON.stringify(report, null, 2) : formatDoctorReport(report),
+  );
+  // The failed checks are already part of the report
+  if (!report.success) {
+    process.exit(EXIT_CODES.environment);
+  }
+}
+
+/**
+ * Runs the `prune` subcommand: removes the artifact directories without a
+ * source, or only lists them with `--dry-run`, without compiling.
+ *
+ * @param args - Arguments following `prune`
+ * @param config - Project configuration providing the directories to prune
+ * @param signal - Signal cancelling the prune when aborted
+ * @throws {UsageError} If an argument is not an option of `PRUNE_COMMAND`
+ */
+async function runPrune(
+  args: string[],
+  config: ResolvedConfig,
+  signal: AbortSignal,
+): Promise<void> {
+  const parsed = parseArgs(PRUNE_COMMAND, args);
+  const [extra] = [
+    ...parsed.positionals,
+    ...(parsed.version ? [`+${parsed.version}`] : []),
+    ...parsed.passthrough,
+  ];
+  if (extra !== undefined) {
+    throw new UsageError(`prune does not accept ${extra}`);
+  }
+  const compiler = CompactCompiler.fromArgs(
+    ['--prune', ...args],
+    process.env,
+    config,
+    signal,
+  );
+  await compiler.pruneArtifacts();
+}
+
+/**
+ * Runs the `stats` subcommand: prints the circuit table, or the report as
+ * JSON with `--json`, and exits non-zero when a circuit grew past the
+ * threshold of the baseline.
+ *
+ * @param args - Arguments following `stats`
+ * @param config - Project configuration providing the artifacts directory
+ */
+async function runStats(args: string[], config: ResolvedConfig): Promise<void> {
+  const stats = Stats.fromArgs(args, config);
+  const report = await stats.run();
+  console.log(
+    stats.json ? JSON.stringify(report, null, 2) : formatStatsReport(report),
+  );
+  // The regressions are already part of the report
+  if (!report.success) {
+    process.exit(EXIT_CODES.regression);
+  }
+}
+
+/**
+ * Checks whether an error reports files that failed to compile or whose
+ * artifacts are out of date, as opposed to a problem with the environment
+ * or the arguments.
+ *
+ * @param error - The error that occurred during compilation
+ * @returns Whether the error is a compilation failure
+ */
+function isCompilationFailure(error: unknown): boolean {
+  return error instanceof CompactToolError && error.category === 'compilation';
 }
 
 /**
  * Centralized error handling with specific error types and user-friendly messages.
+ * Errors are told apart with `instanceof`, subclasses before their base class.
  *
  * Handles different error types with appropriate user feedback:
  *
  * - `CompactCliNotFoundError`: Shows installation instructions.
  * - `DirectoryNotFoundError`: Shows available directories.
+ * - `SourceNotFoundError`: Shows the missing source file.
+ * - `ConfigError`: Shows the offending configuration file.
+ * - `ArtifactCollisionError`: Lists the conflicting sources and how to resolve them.
+ * - `ToolchainVersionMismatchError`: Lists the offending files and how to get a matching toolchain.
+ * - `AggregateCompilationError`: Lists every file that failed in a keep-going run.
+ * - `ArtifactDriftError`: Lists the sources with out-of-date artifacts and how to update them.
+ * - `CompilationTimeoutError`: Shows the file that timed out and how to raise the limit.
  * - `CompilationError`: Shows file-specific error details with context.
- * - Environment validation errors: Shows troubleshooting tips.
- * - Argument parsing errors: Shows usage help.
+ * - `EnvironmentError`: Shows troubleshooting tips.
+ * - `UsageError`: Shows usage help.
  * - Generic errors: Shows general troubleshooting guidance.
  *
  * @param error - The error that occurred during compilation
- * @param spinner - Ora spinner instance for consistent UI messaging
+ * @param spinner - Spinner for consistent UI messaging
  */
-function handleError(error: unknown, spinner: Ora): void {
+function handleError(error: unknown, spinner: Spinner): void {
   // CompactCliNotFoundError
-  if (error instanceof Error && error.name === 'CompactCliNotFoundError') {
+  if (error instanceof CompactCliNotFoundError) {
     spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
     spinner.info(
       chalk.blue(
@@ -84,25 +282,140 @@ function handleError(error: unknown, spinner: Ora): void {
   }
 
   // DirectoryNotFoundError
-  if (error instanceof Error && error.name === 'DirectoryNotFoundError') {
+  if (error instanceof DirectoryNotFoundError) {
     spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
     showAvailableDirectories();
     return;
   }
 
+  // SourceNotFoundError
+  if (error instanceof SourceNotFoundError) {
+    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
+    console.log(
+      chalk.yellow(
+        '\nPass .compact files relative to the working directory or the source directory.',
+      ),
+    );
+    return;
+  }
+
+  // ConfigError
+  if (error instanceof ConfigError) {
+    spinner.fail(
+      chalk.red(`[COMPILE] Invalid configuration: ${error.message}`),
+    );
+    console.log(chalk.gray(`    Config file: ${error.configPath}`));
+    return;
+  }
+
+  // ArtifactCollisionError
+  if (error instanceof ArtifactCollisionError) {
+    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
+    for (const { outputDir, files } of error.collisions) {
+      console.log(chalk.red(`    ${outputDir}:`));
+      for (const file of files) {
+        console.log(chalk.red(`      • ${file}`));
+      }
+    }
+    console.log(
+      chalk.yellow(
+        '\nRename one of the sources, exclude it, or pass --layout mirror to keep the source directory structure under the artifacts directory.',
+      ),
+    );
+    return;
+  }
+
+  // ToolchainVersionMismatchError
+  if (error instanceof ToolchainVersionMismatchError) {
+    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
+    for (const { file, range } of error.requirements) {
+      console.log(
+        chalk.red(`    • ${file} requires language_version ${range}`),
+      );
+    }
+    console.log(chalk.yellow('\nTo fix this:'));
+    console.log(
+      chalk.yellow(
+        '  • Install a matching toolchain with: compact update <version>',
+      ),
+    );
+    console.log(
+      chalk.yellow(
+        '  • Or select an installed toolchain for this run: compact-compiler +<version>',
+      ),
+    );
+    if (error.requiredVersion) {
+      console.log(
+        chalk.yellow(
+          `  • Or widen "requiredVersion" (${error.requiredVersion}) in the project configuration`,
+        ),
+      );
+    }
+    return;
+  }
+
+  // AggregateCompilationError
+  if (error instanceof AggregateCompilationError) {
+    // Per-file details and the summary table are already displayed by
+    // `compile`; therefore, this just lists the failing files
+    spinner.fail(
+      chalk.red(
+        `[COMPILE] Compilation failed for ${error.errors.length} file(s):`,
+      ),
+    );
+    for (const file of error.files) {
+      console.log(chalk.red(`    • ${file}`));
+    }
+    return;
+  }
+
+  // ArtifactDriftError
+  if (error instanceof ArtifactDriftError) {
+    // The differences are already displayed by `compile`; therefore, this
+    // just lists the sources whose artifacts are out of date
+    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}:`));
+    for (const file of error.files) {
+      console.log(chalk.red(`    • ${file}`));
+    }
+    console.log(
+      chalk.yellow(
+        '\nRecompile without --check to update the committed artifacts.',
+      ),
+    );
+    return;
+  }
+
+  // CompilationTimeoutError
+  if (error instanceof CompilationTimeoutError) {
+    spinner.fail(
+      chalk.red(
+        `[COMPILE] Compilation timed out after ${error.timeoutMs / 1000}s for file: ${error.file}`,
+      ),
+    );
+    console.log(
+      chalk.yellow(
+        '\nRaise the limit with --timeout <seconds> if the file needs longer to compile.',
+      ),
+    );
+    return;
+  }
+
   // CompilationError
-  if (error instanceof Error && error.name === 'CompilationError') {
+  if (error instanceof CompilationError) {
     // The compilation error details (file name, stdout/stderr) are already displayed
     // by `compileFile`; therefore, this just handles the final err state
-    const compilationError = error as CompilationError;
     spinner.fail(
       chalk.red(
-        `[COMPILE] Compilation failed for file: ${compilationError.file || 'unknown'}`,
+        `[COMPILE] Compilation failed for file: ${error.file || 'unknown'}`,
       ),
     );
 
-    if (isPromisifiedChildProcessError(compilationError.cause)) {
-      const execError = compilationError.cause;
+    // Diagnostics are already rendered with source excerpts by `compileFile`
+    if (
+      error.diagnostics.length === 0 &&
+      isPromisifiedChildProcessError(error.cause)
+    ) {
+      const execError = error.cause;
       if (
         execError.stderr &&
         !execError.stderr.includes('stdout') &&
@@ -116,8 +429,8 @@ function handleError(error: unknown, spinner: Ora): void {
     return;
   }
 
-  // Env validation errors (non-CLI errors)
-  if (isPromisifiedChildProcessError(error)) {
+  // EnvironmentError
+  if (error instanceof EnvironmentError) {
     spinner.fail(
       chalk.red(`[COMPILE] Environment validation failed: ${error.message}`),
     );
@@ -130,17 +443,15 @@ function handleError(error: unknown, spinner: Ora): void {
     return;
   }
 
-  // Arg parsing
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  if (errorMessage.includes('--dir flag requires a directory name')) {
-    spinner.fail(
-      chalk.red('[COMPILE] Error: --dir flag requires a directory name'),
-    );
+  // UsageError
+  if (error instanceof UsageError) {
+    spinner.fail(chalk.red(`[COMPILE] Error: ${error.message}`));
     showUsageHelp();
     return;
   }
 
   // Unexpected errors
+  const errorMessage = error instanceof Error ? error.message : String(error);
   spinner.fail(chalk.red(`[COMPILE] Unexpected error: ${errorMessage}`));
   console.log(chalk.gray('\nIf this error persists, please check:'));
   console.log(chalk.gray('  • Compact CLI is installed and in PATH'));
@@ -164,64 +475,10 @@ function showAvailableDirectories(): void {
 }
 
 /**
- * Shows usage help with examples for different scenarios.
+ * Shows the usage help generated from {@link COMPILER_COMMAND}.
  */
 function showUsageHelp(): void {
-  console.log(chalk.yellow('\nUsage: compact-compiler [options]'));
-  console.log(chalk.yellow('\nOptions:'));
-  console.log(
-    chalk.yellow(
-      '  --dir <directory> Compile specific directory (access, archive, security, token, utils)',
-    ),
-  );
-  console.log(
-    chalk.yellow('  --skip-zk         Skip zero-knowledge proof generation'),
-  );
-  console.log(
-    chalk.yellow(
-      '  +<version>        Use specific toolchain version (e.g., +0.25.0)',
-    ),
-  );
-  console.log(chalk.yellow('\nExamples:'));
-  console.log(
-    chalk.yellow(
-      '  compact-compiler                           # Compile all files',
-    ),
-  );
-  console.log(
-    chalk.yellow(
-      '  compact-compiler --dir security             # Compile security directory',
-    ),
-  );
-  console.log(
-    chalk.yellow(
-      '  compact-compiler --dir access --skip-zk     # Compile access with flags',
-    ),
-  );
-  console.log(
-    chalk.yellow(
-      '  SKIP_ZK=true compact-compiler --dir token   # Use environment variable',
-    ),
-  );
-  console.log(
-    chalk.yellow(
-      '  compact-compiler --skip-zk +0.25.0          # Use specific version',
-    ),
-  );
-  console.log(chalk.yellow('\nTurbo integration:'));
-  console.log(
-    chalk.yellow('  turbo compact                               # Full build'),
-  );
-  console.log(
-    chalk.yellow(
-      '  turbo compact:security -- --skip-zk         # Directory with flags',
-    ),
-  );
-  console.log(
-    chalk.yellow(
-      '  SKIP_ZK=true turbo compact                  # Environment variables',
-    ),
-  );
+  console.log(chalk.yellow(`\n${formatHelp(COMPILER_COMMAND)}`));
 }
 
 runCompiler();
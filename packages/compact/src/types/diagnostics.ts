@@ -0,0 +1,26 @@
+/**
+ * Severity of a compiler diagnostic.
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single message reported by compactc, parsed from its raw output.
+ *
+ * @interface Diagnostic
+ * @typedef {Diagnostic}
+ *
+ * @prop {string} file path of the source file as reported by compactc
+ * @prop {number} line 1-based line number
+ * @prop {number} column 1-based column number
+ * @prop {DiagnosticSeverity} severity severity of the message
+ * @prop {string} message human-readable description (may span several lines)
+ * @prop {string} [code] diagnostic code, when compactc reports one
+ */
+export interface Diagnostic {
+  file: string;
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  code?: string;
+}
@@ -1,3 +1,8 @@
+import type { ArtifactCollision } from '../utils/artifacts.ts';
+import type { VersionRequirement } from '../utils/semver.ts';
+import type { Diagnostic } from './diagnostics.ts';
+import type { ArtifactDrift } from './report.ts';
+
 /**
  * A custom error that describes the shape of an error returned from a promisfied
  * child_process.exec
@@ -27,15 +32,131 @@ export function isPromisifiedChildProcessError(
   return error instanceof Error && 'stdout' in error && 'stderr' in error;
 }
 
+/**
+ * Category of a failure, which decides the exit code of the CLIs (see
+ * {@link EXIT_CODES}).
+ *
+ * - `usage`: invalid arguments, configuration or source selection
+ * - `environment`: the Compact CLI or toolchain is missing or unsuitable
+ * - `compilation`: sources failed to compile or artifacts are out of date
+ * - `build`: a build step of `compact-builder` failed
+ * - `internal`: any other, unexpected error
+ * - `regression`: a circuit grew past the `compact-compiler stats` threshold
+ */
+export type ErrorCategory =
+  | 'usage'
+  | 'environment'
+  | 'compilation'
+  | 'build'
+  | 'internal'
+  | 'regression';
+
+/**
+ * Exit codes of `compact-compiler` and `compact-builder` by error category.
+ * Termination signals exit with `128 + signal number` instead (e.g. 130 for
+ * SIGINT).
+ */
+export const EXIT_CODES: Readonly<Record<ErrorCategory, number>> = {
+  compilation: 1,
+  usage: 2,
+  environment: 3,
+  build: 4,
+  internal: 5,
+  regression: 6,
+};
+
+/**
+ * Common base of the errors thrown by the compiler, the builder and the
+ * CLIs. Each error has a stable `code` that scripts can match on, unlike
+ * its message, and a `category` deciding the exit code of the CLIs.
+ *
+ * @class CompactToolError
+ * @extends Error
+ */
+export abstract class CompactToolError extends Error {
+  /** Stable identifier of the error, e.g. `COMPILATION_FAILED` */
+  public abstract readonly code: string;
+  /** Category of the failure */
+  public abstract readonly category: ErrorCategory;
+
+  /** Exit code of the CLIs for this error */
+  get exitCode(): number {
+    return EXIT_CODES[this.category];
+  }
+}
+
+/**
+ * Returns the exit code of the CLIs for an error: the code of its category
+ * for a {@link CompactToolError}, the `internal` code for anything else.
+ *
+ * @param error - An error caught in a try catch block
+ * @returns The exit code to exit the process with
+ */
+export function exitCodeOf(error: unknown): number {
+  return error instanceof CompactToolError
+    ? error.exitCode
+    : EXIT_CODES.internal;
+}
+
+/**
+ * Custom error thrown when command-line arguments are invalid: an unknown
+ * option, a missing or invalid value, or options that cannot be combined.
+ * The CLIs answer it with their usage help.
+ *
+ * @class UsageError
+ * @extends CompactToolError
+ */
+export class UsageError extends CompactToolError {
+  public readonly code: string = 'INVALID_USAGE';
+  public readonly category: ErrorCategory = 'usage';
+
+  /**
+   * Creates a new UsageError instance.
+   *
+   * @param message - Error message describing the invalid arguments
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Custom error thrown when a `compact` command checking the environment
+ * fails, e.g. because the requested toolchain version is not installed, or
+ * its output has no version.
+ *
+ * @class EnvironmentError
+ * @extends CompactToolError
+ */
+export class EnvironmentError extends CompactToolError {
+  public readonly code: string = 'ENVIRONMENT_CHECK_FAILED';
+  public readonly category: ErrorCategory = 'environment';
+
+  /**
+   * Creates a new EnvironmentError instance.
+   *
+   * @param message - Error message describing the failed check
+   * @param cause - Optional underlying error (usually the failed child process)
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'EnvironmentError';
+  }
+}
+
 /**
  * Custom error thrown when the Compact CLI is not found in the system PATH.
  * This error indicates that the Compact developer tools are not installed
  * or not properly configured in the environment.
  *
  * @class CompactCliNotFoundError
- * @extends Error
+ * @extends CompactToolError
  */
-export class CompactCliNotFoundError extends Error {
+export class CompactCliNotFoundError extends CompactToolError {
+  public readonly code: string = 'COMPACT_CLI_NOT_FOUND';
+  public readonly category: ErrorCategory = 'environment';
+
   /**
    * Creates a new CompactCliNotFoundError instance.
    *
@@ -47,40 +168,144 @@ export class CompactCliNotFoundError extends Error {
   }
 }
 
+/**
+ * Custom error thrown when a build step of `compact-builder` fails, after
+ * its output has been printed.
+ *
+ * @class BuildStepError
+ * @extends CompactToolError
+ */
+export class BuildStepError extends CompactToolError {
+  public readonly code: string = 'BUILD_STEP_FAILED';
+  public readonly category: ErrorCategory = 'build';
+  public readonly step: string;
+
+  /**
+   * Creates a new BuildStepError instance.
+   *
+   * @param step - Description of the step that failed, e.g. `Compiling TypeScript`
+   * @param cause - Optional underlying error (usually the failed child process)
+   */
+  constructor(step: string, cause?: unknown) {
+    const reason = cause instanceof Error ? `: ${cause.message}` : '';
+    super(`Build step "${step}" failed${reason}`, { cause });
+    this.step = step;
+    this.name = 'BuildStepError';
+  }
+}
+
 /**
  * Custom error thrown when compilation of a .compact file fails.
  * Contains additional context about which file failed to compile,
- * making it easier to identify and debug compilation issues.
+ * making it easier to identify and debug compilation issues, and the
+ * diagnostics parsed from compactc's output.
  *
  * @class CompilationError
- * @extends Error
+ * @extends CompactToolError
  */
-export class CompilationError extends Error {
+export class CompilationError extends CompactToolError {
+  public readonly code: string = 'COMPILATION_FAILED';
+  public readonly category: ErrorCategory = 'compilation';
   public readonly file?: string;
+  public readonly diagnostics: Diagnostic[];
 
   /**
    * Creates a new CompilationError instance.
    *
    * @param message - Error message describing the compilation failure
    * @param file - Optional relative path to the file that failed to compile
+   * @param cause - Optional underlying error (usually the failed child process)
+   * @param diagnostics - Optional diagnostics parsed from compactc's output
    */
-  constructor(message: string, file?: string, cause?: unknown) {
+  constructor(
+    message: string,
+    file?: string,
+    cause?: unknown,
+    diagnostics: Diagnostic[] = [],
+  ) {
     super(message, { cause });
 
     this.file = file;
+    this.diagnostics = diagnostics;
     this.name = 'CompilationError';
   }
 }
 
+/**
+ * Custom error thrown when compiling a .compact file takes longer than the
+ * per-file timeout. compactc is killed and its incomplete artifact directory
+ * removed before the error is raised.
+ *
+ * @class CompilationTimeoutError
+ * @extends CompilationError
+ */
+export class CompilationTimeoutError extends CompilationError {
+  public override readonly code: string = 'COMPILATION_TIMEOUT';
+  public readonly timeoutMs: number;
+
+  /**
+   * Creates a new CompilationTimeoutError instance.
+   *
+   * @param file - Relative path to the file that timed out
+   * @param timeoutMs - Per-file timeout that was exceeded, in milliseconds
+   * @param cause - Optional underlying error (usually the killed child process)
+   */
+  constructor(file: string, timeoutMs: number, cause?: unknown) {
+    super(
+      `Failed to compile ${file}: timed out after ${timeoutMs / 1000}s`,
+      file,
+      cause,
+    );
+    this.timeoutMs = timeoutMs;
+    this.name = 'CompilationTimeoutError';
+  }
+}
+
+/**
+ * Custom error thrown at the end of a keep-going run when one or more files
+ * failed to compile. Collects every individual `CompilationError` so the
+ * caller can list each failing file instead of only the first one.
+ *
+ * @class AggregateCompilationError
+ * @extends CompactToolError
+ */
+export class AggregateCompilationError extends CompactToolError {
+  public readonly code: string = 'COMPILATIONS_FAILED';
+  public readonly category: ErrorCategory = 'compilation';
+  public readonly errors: CompilationError[];
+
+  /**
+   * Creates a new AggregateCompilationError instance.
+   *
+   * @param errors - Compilation errors of every file that failed
+   */
+  constructor(errors: CompilationError[]) {
+    const files = errors.map((error) => error.file ?? 'unknown');
+    super(
+      `Compilation failed for ${errors.length} file(s): ${files.join(', ')}`,
+    );
+
+    this.errors = errors;
+    this.name = 'AggregateCompilationError';
+  }
+
+  /** Relative paths of the files that failed to compile */
+  get files(): string[] {
+    return this.errors.map((error) => error.file ?? 'unknown');
+  }
+}
+
 /**
  * Custom error thrown when a specified target directory does not exist.
  * Provides specific information about which directory was not found,
  * helping users correct path-related issues.
  *
  * @class DirectoryNotFoundError
- * @extends Error
+ * @extends CompactToolError
  */
-export class DirectoryNotFoundError extends Error {
+export class DirectoryNotFoundError extends CompactToolError {
+  public readonly code: string = 'DIRECTORY_NOT_FOUND';
+  public readonly category: ErrorCategory = 'usage';
   public readonly directory: string;
 
   /**
@@ -95,3 +320,152 @@ export class DirectoryNotFoundError extends Error {
     this.name = 'DirectoryNotFoundError';
   }
 }
+
+/**
+ * Custom error thrown when a source file given on the command line does
+ * not exist.
+ *
+ * @class SourceNotFoundError
+ * @extends CompactToolError
+ */
+export class SourceNotFoundError extends CompactToolError {
+  public readonly code: string = 'SOURCE_NOT_FOUND';
+  public readonly category: ErrorCategory = 'usage';
+  public readonly file: string;
+
+  /**
+   * Creates a new SourceNotFoundError instance.
+   *
+   * @param message - Error message describing the missing file
+   * @param file - Relative path of the file from the source directory
+   */
+  constructor(message: string, file: string) {
+    super(message);
+    this.file = file;
+    this.name = 'SourceNotFoundError';
+  }
+}
+
+/**
+ * Custom error thrown before compiling when several sources would write
+ * their artifacts to the same directory and overwrite each other.
+ *
+ * @class ArtifactCollisionError
+ * @extends CompactToolError
+ */
+export class ArtifactCollisionError extends CompactToolError {
+  public readonly code: string = 'ARTIFACT_COLLISION';
+  public readonly category: ErrorCategory = 'usage';
+  public readonly collisions: ArtifactCollision[];
+
+  /**
+   * Creates a new ArtifactCollisionError instance.
+   *
+   * @param collisions - Artifact directories written by more than one source
+   */
+  constructor(collisions: ArtifactCollision[]) {
+    const dirs = collisions.map((collision) => collision.outputDir);
+    super(
+      `Sources would overwrite each other's artifacts in ${dirs.join(', ')}`,
+    );
+    this.collisions = collisions;
+    this.name = 'ArtifactCollisionError';
+  }
+}
+
+/**
+ * Custom error thrown by a `--check` run when committed artifacts differ
+ * from freshly compiled ones.
+ *
+ * @class ArtifactDriftError
+ * @extends CompactToolError
+ */
+export class ArtifactDriftError extends CompactToolError {
+  public readonly code: string = 'ARTIFACT_DRIFT';
+  public readonly category: ErrorCategory = 'compilation';
+  public readonly drift: ArtifactDrift[];
+
+  /**
+   * Creates a new ArtifactDriftError instance.
+   *
+   * @param drift - Differences of every source whose artifacts are out of date
+   */
+  constructor(drift: ArtifactDrift[]) {
+    super(`Artifacts of ${drift.length} source(s) are out of date`);
+    this.drift = drift;
+    this.name = 'ArtifactDriftError';
+  }
+
+  /** Relative paths of the sources whose artifacts are out of date */
+  get files(): string[] {
+    return this.drift.map((drift) => drift.file);
+  }
+}
+
+/**
+ * Custom error thrown before compiling when the toolchain version is outside
+ * the configured version range, or its language version does not satisfy the
+ * `pragma language_version` of some sources.
+ *
+ * @class ToolchainVersionMismatchError
+ * @extends CompactToolError
+ */
+export class ToolchainVersionMismatchError extends CompactToolError {
+  public readonly code: string = 'TOOLCHAIN_VERSION_MISMATCH';
+  public readonly category: ErrorCategory = 'environment';
+  public readonly version: string;
+  public readonly requiredVersion?: string;
+  public readonly requirements: VersionRequirement[];
+
+  /**
+   * Creates a new ToolchainVersionMismatchError instance.
+   *
+   * @param message - Error message describing the mismatch
+   * @param version - Version that was checked (toolchain or language version)
+   * @param requirements - Sources whose pragma the language version does not satisfy
+   * @param requiredVersion - Optional configured toolchain version range that was not satisfied
+   */
+  constructor(
+    message: string,
+    version: string,
+    requirements: VersionRequirement[] = [],
+    requiredVersion?: string,
+  ) {
+    super(message);
+    this.version = version;
+    this.requirements = requirements;
+    this.requiredVersion = requiredVersion;
+    this.name = 'ToolchainVersionMismatchError';
+  }
+
+  /** Relative paths of the sources the toolchain cannot compile */
+  get files(): string[] {
+    return this.requirements.map((requirement) => requirement.file);
+  }
+}
+
+/**
+ * Custom error thrown when a project configuration file cannot be loaded
+ * or contains invalid settings.
+ *
+ * @class ConfigError
+ * @extends CompactToolError
+ */
+export class ConfigError extends CompactToolError {
+  public readonly code: string = 'INVALID_CONFIG';
+  public readonly category: ErrorCategory = 'usage';
+  public readonly configPath: string;
+
+  /**
+   * Creates a new ConfigError instance.
+   *
+   * @param message - Error message describing the configuration issue
+   * @param configPath - Path of the offending configuration file
+   * @param cause - Optional underlying error (e.g. a JSON syntax error)
+   */
+  constructor(message: string, configPath: string, cause?: unknown) {
+    super(message, { cause });
+    this.configPath = configPath;
+    this.name = 'ConfigError';
+  }
+}
@@ -0,0 +1,204 @@
+import type { Diagnostic } from './diagnostics.ts';
+
+/**
+ * Final status of a file in a compilation run:
+ * `passed` compiled successfully, `failed` did not compile,
+ * `cached` was reused from the compilation cache and
+ * `skipped` was never started because an earlier file failed.
+ */
+export type FileStatus = 'passed' | 'failed' | 'cached' | 'skipped';
+
+/**
+ * Outcome of a single file in a compilation report.
+ *
+ * @interface FileReport
+ * @typedef {FileReport}
+ *
+ * @prop {string} file path of the .compact file relative to the source directory
+ * @prop {string} source path of the .compact file relative to the working directory
+ * @prop {string} artifactDir directory the artifacts of the file are written to
+ * @prop {FileStatus} status final status of the file
+ * @prop {number} durationMs time spent on the file in milliseconds
+ * @prop {string} stdout output of compactc, empty when it did not run
+ * @prop {string} stderr error output of compactc, empty when it did not run
+ * @prop {Diagnostic[]} diagnostics diagnostics reported by compactc, e.g. the warnings of a passing file
+ * @prop {string} [error] error message when the file failed
+ */
+export interface FileReport {
+  file: string;
+  source: string;
+  artifactDir: string;
+  status: FileStatus;
+  durationMs: number;
+  stdout: string;
+  stderr: string;
+  diagnostics: Diagnostic[];
+  error?: string;
+}
+
+/**
+ * Machine-readable description of a compilation run.
+ *
+ * @interface CompilationReport
+ * @typedef {CompilationReport}
+ *
+ * @prop {object} toolchain versions of the developer tools and compiler used
+ * @prop {string} flags compiler flags passed to compactc
+ * @prop {string} startedAt ISO 8601 timestamp of the start of the run
+ * @prop {number} durationMs total duration of the run in milliseconds
+ * @prop {boolean} success whether every file compiled or was cached
+ * @prop {Record<FileStatus, number>} summary number of files per status
+ * @prop {FileReport[]} files outcome of every file, in compilation order
+ */
+export interface CompilationReport {
+  toolchain: {
+    devToolsVersion: string;
+    toolchainVersion: string;
+    version?: string;
+  };
+  flags: string;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  summary: Record<FileStatus, number>;
+  files: FileReport[];
+}
+
+/**
+ * Progress of a compilation run, emitted as `progress` events by
+ * {@link CompactCompiler.events}:
+ * `start` once the files to compile are selected, `compiling` when
+ * compactc is started for a file, `output` for every line compactc writes
+ * while compiling it, `file` when a file is passed, failed or cached, and
+ * `end` with the report of the run. Files skipped after a failure only
+ * appear in the final report.
+ */
+export type CompileEvent =
+  | { type: 'start'; files: string[] }
+  | { type: 'compiling'; file: string; index: number; total: number }
+  | {
+      type: 'output';
+      file: string;
+      stream: 'stdout' | 'stderr';
+      line: string;
+    }
+  | { type: 'file'; file: FileReport; index: number; total: number }
+  | { type: 'end'; report: CompilationReport };
+
+/**
+ * Outcome of a file with one toolchain of a compatibility matrix.
+ *
+ * @interface MatrixCell
+ * @typedef {MatrixCell}
+ *
+ * @prop {FileStatus} status final status of the file with the toolchain
+ * @prop {string} [error] why the file failed
+ * @prop {Diagnostic} [diagnostic] first diagnostic compactc reported for the failure
+ */
+export interface MatrixCell {
+  status: FileStatus;
+  error?: string;
+  diagnostic?: Diagnostic;
+}
+
+/**
+ * A toolchain of a compatibility matrix.
+ *
+ * @interface MatrixToolchain
+ * @typedef {MatrixToolchain}
+ *
+ * @prop {string} version toolchain version as requested, e.g. `0.26.0`
+ * @prop {string} artifactsDir artifact root the files were compiled into
+ * @prop {string} [toolchainVersion] compiler version reported by the toolchain
+ * @prop {string} [error] why the toolchain could not compile the files at all,
+ * e.g. when it is not installed
+ */
+export interface MatrixToolchain {
+  version: string;
+  artifactsDir: string;
+  toolchainVersion?: string;
+  error?: string;
+}
+
+/**
+ * Machine-readable description of a compatibility matrix run, compiling the
+ * same files with several toolchains.
+ *
+ * @interface MatrixReport
+ * @typedef {MatrixReport}
+ *
+ * @prop {string} flags compiler flags passed to compactc
+ * @prop {string} startedAt ISO 8601 timestamp of the start of the run
+ * @prop {number} durationMs total duration of the run in milliseconds
+ * @prop {boolean} success whether every file compiled with every toolchain
+ * @prop {MatrixToolchain[]} toolchains toolchains in the requested order
+ * @prop {object[]} files outcome of every file, keyed by toolchain version
+ */
+export interface MatrixReport {
+  flags: string;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  toolchains: MatrixToolchain[];
+  files: { file: string; results: Record<string, MatrixCell> }[];
+}
+
+/**
+ * Differences between the committed artifacts of a source and freshly
+ * compiled ones. Paths are relative to the artifact directory and use `/`
+ * as separator.
+ *
+ * @interface ArtifactDrift
+ * @typedef {ArtifactDrift}
+ *
+ * @prop {string} file path of the .compact file relative to the source directory
+ * @prop {string} artifactDir directory holding the committed artifacts of the file
+ * @prop {string[]} missing files compactc generates that are not committed
+ * @prop {string[]} stale committed files compactc no longer generates
+ * @prop {string[]} changed committed files whose contents differ from the generated ones
+ */
+export interface ArtifactDrift {
+  file: string;
+  artifactDir: string;
+  missing: string[];
+  stale: string[];
+  changed: string[];
+}
+
+/**
+ * Machine-readable description of a check of the committed artifacts
+ * against freshly compiled ones.
+ *
+ * @interface ArtifactCheckReport
+ * @typedef {ArtifactCheckReport}
+ *
+ * @prop {string} artifactsDir artifacts directory that was checked
+ * @prop {string[]} dirs artifact subdirectories that were compared, e.g. `contract`
+ * @prop {string[]} files paths of the checked .compact files relative to the source directory
+ * @prop {boolean} success whether the artifacts of every file are up to date
+ * @prop {ArtifactDrift[]} drift differences of every file whose artifacts are out of date
+ */
+export interface ArtifactCheckReport {
+  artifactsDir: string;
+  dirs: string[];
+  files: string[];
+  success: boolean;
+  drift: ArtifactDrift[];
+}
+
+/**
+ * Machine-readable description of a prune of the artifacts directory.
+ *
+ * @interface PruneReport
+ * @typedef {PruneReport}
+ *
+ * @prop {string} artifactsDir artifacts directory that was pruned
+ * @prop {boolean} dryRun whether the stale directories were only reported, not removed
+ * @prop {string[]} removed artifact directories without a source, relative to the
+ * artifacts directory, e.g. `OldToken`
+ */
+export interface PruneReport {
+  artifactsDir: string;
+  dryRun: boolean;
+  removed: string[];
+}
@@ -0,0 +1,297 @@
+import { UsageError } from '../types/errors.ts';
+
+/**
+ * A command-line option.
+ *
+ * @interface OptionSpec
+ * @prop {string} name Long name, e.g. `--jobs`
+ * @prop {string} [alias] Short name, e.g. `-j`
+ * @prop {string} [value] Placeholder of the value, e.g. `<n|auto>`; options without one are boolean
+ * @prop {string} [requires] What the value must be, completing the error
+ * message `<name> flag requires ...` (defaults to `a value`)
+ * @prop {readonly string[]} [choices] Values the option accepts
+ * @prop {boolean} [variadic] Whether the option takes every following value up to the next option
+ * @prop {boolean} [compactc] Whether the option is a compactc flag passed through to compactc
+ * @prop {string} description One-line description shown in the help
+ */
+export interface OptionSpec {
+  name: string;
+  alias?: string;
+  value?: string;
+  requires?: string;
+  choices?: readonly string[];
+  variadic?: boolean;
+  compactc?: boolean;
+  description: string;
+}
+
+/**
+ * A command-line interface, from which arguments are parsed and the help
+ * is generated.
+ *
+ * @interface CommandSpec
+ * @prop {string} name Name of the executable, e.g. `compact-compiler`
+ * @prop {() => string} version Returns the version printed by `--version`
+ * @prop {string[]} usage Invocations shown after `Usage:`, without the name
+ * @prop {string} description What the command does
+ * @prop {OptionSpec[]} options Accepted options
+ * @prop {[string, string][]} [args] Positional arguments and their description
+ * @prop {[string, string][]} [examples] Example invocations and their description
+ * @prop {[string, string][]} [exitCodes] Exit codes and when they are used
+ */
+export interface CommandSpec {
+  name: string;
+  version: () => string;
+  usage: string[];
+  description: string;
+  options: OptionSpec[];
+  args?: [string, string][];
+  examples?: [string, string][];
+  exitCodes?: [string, string][];
+}
+
+/**
+ * Command-line arguments parsed against a {@link CommandSpec}. Options are
+ * keyed by their long name, whichever name was given.
+ *
+ * @interface ParsedArgs
+ * @prop {Set<string>} flags Boolean options that were given, in order
+ * @prop {Map<string, string[]>} values Every value of the options taking
+ * values, in order; the last one wins for single-valued options
+ * @prop {string[]} positionals Arguments that are not options
+ * @prop {string} [version] Toolchain version given as `+<version>`
+ * @prop {string[]} passthrough Arguments following `--`, for compactc
+ */
+export interface ParsedArgs {
+  flags: Set<string>;
+  values: Map<string, string[]>;
+  positionals: string[];
+  version?: string;
+  passthrough: string[];
+}
+
+/**
+ * Parses command-line arguments against the options of a command.
+ *
+ * - `--name` sets a boolean option; `--name <value>` or `--name=<value>` an
+ *   option taking a value, which must not start with `-` unless given with `=`.
+ * - Variadic options take every following argument up to the next one
+ *   starting with `-` or `+`.
+ * - `+<version>` selects a toolchain version.
+ * - Every argument after `--` is passed through to compactc.
+ * - Other arguments are positional.
+ *
+ * @param command - Command whose options are accepted
+ * @param args - Command-line arguments
+ * @returns The parsed arguments
+ * @throws {UsageError} If an option is unknown (suggesting the closest known
+ * one), misses its value or has a value outside its choices
+ * @example
+ * ```typescript
+ * parseArgs(COMPILER_COMMAND, ['--dir', 'token', '+0.25.0', '--', '--vscode']);
+ * // Returns: { flags: Set {}, values: Map { '--dir' => ['token'] },
+ * //            positionals: [], version: '0.25.0', passthrough: ['--vscode'] }
+ * ```
+ */
+export function parseArgs(command: CommandSpec, args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = {
+    flags: new Set(),
+    values: new Map(),
+    positionals: [],
+    passthrough: [],
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      parsed.passthrough = args.slice(i + 1);
+      break;
+    }
+    if (arg.startsWith('+') && arg.length > 1) {
+      parsed.version = arg.slice(1);
+      continue;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = equals === -1 ? arg : arg.slice(0, equals);
+    const option = command.options.find(
+      (spec) => spec.name === name || spec.alias === name,
+    );
+    if (!option) {
+      throw new UsageError(unknownOptionMessage(command, name));
+    }
+    if (option.value === undefined) {
+      if (equals !== -1) {
+        throw new UsageError(`${option.name} flag does not take a value`);
+      }
+      parsed.flags.add(option.name);
+      continue;
+    }
+
+    // Variadic options stop at a `+<version>`, single values may start with `+`
+    const isValue = (next?: string) =>
+      next !== undefined &&
+      !next.startsWith('-') &&
+      !(option.variadic && next.startsWith('+'));
+    const values = equals === -1 ? [] : [arg.slice(equals + 1)];
+    while (isValue(args[i + 1]) && (option.variadic || values.length === 0)) {
+      values.push(args[++i]);
+    }
+    if (
+      values.length === 0 ||
+      values.includes('') ||
+      values.some((value) => option.choices && !option.choices.includes(value))
+    ) {
+      throw new UsageError(
+        `${option.name} flag requires ${option.requires ?? 'a value'}`,
+      );
+    }
+    parsed.values.set(option.name, [
+      ...(parsed.values.get(option.name) ?? []),
+      ...values,
+    ]);
+  }
+
+  return parsed;
+}
+
+/**
+ * Generates the help of a command: usage, description, positional
+ * arguments, options and examples.
+ *
+ * @param command - Command to describe
+ * @returns The help text, without a trailing line break
+ * @example
+ * ```typescript
+ * console.log(formatHelp(COMPILER_COMMAND));
+ * // Usage: compact-compiler [options] [file...] [+<version>] [-- <compactc flags...>]
+ * // ...
+ * ```
+ */
+export function formatHelp(command: CommandSpec): string {
+  const [first, ...others] = command.usage;
+  const lines = [
+    `Usage: ${command.name} ${first}`,
+    ...others.map((usage) => `       ${command.name} ${usage}`),
+    '',
+    command.description,
+  ];
+
+  if (command.args?.length) {
+    lines.push('', 'Arguments:', ...formatColumns(command.args, '  '));
+  }
+
+  lines.push(
+    '',
+    'Options:',
+    ...formatColumns(
+      command.options.map(({ name, alias, value, description }) => [
+        [alias ? `${alias}, ${name}` : `    ${name}`, value]
+          .filter(Boolean)
+          .join(' '),
+        description,
+      ]),
+      '  ',
+    ),
+  );
+
+  if (command.examples?.length) {
+    lines.push('', 'Examples:', ...formatColumns(command.examples, '  # '));
+  }
+
+  if (command.exitCodes?.length) {
+    lines.push('', 'Exit codes:', ...formatColumns(command.exitCodes, '  '));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Aligns the second column of rows.
+ *
+ * @param rows - Rows of a label and its description
+ * @param separator - Text between the padded label and the description
+ * @returns One indented line per row
+ */
+function formatColumns(rows: [string, string][], separator: string): string[] {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows.map(
+    ([label, description]) =>
+      `  ${label.padEnd(width)}${separator}${description}`,
+  );
+}
+
+/**
+ * Builds the error message of an unknown option: the closest known option
+ * if there is one, or how to pass the option to compactc.
+ *
+ * @param command - Command the option was given to
+ * @param arg - Unknown option
+ * @returns The error message
+ */
+function unknownOptionMessage(command: CommandSpec, arg: string): string {
+  const names = command.options.flatMap(({ name, alias }) =>
+    alias ? [name, alias] : [name],
+  );
+  const [suggestion] = names
+    .map((name) => ({ name, distance: editDistance(arg, name) }))
+    .filter(({ distance }) => distance <= Math.max(2, arg.length / 4))
+    .sort((a, b) => a.distance - b.distance);
+
+  return suggestion
+    ? `Unknown option ${arg}. Did you mean ${suggestion.name}?`
+    : `Unknown option ${arg}. Pass compactc flags after "--", e.g. ${command.name} -- ${arg}`;
+}
+
+/**
+ * Computes the Levenshtein distance between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns The number of single-character edits turning `a` into `b`
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Answers `--help` and `--version` by printing the help or the version of
+ * the command to stdout. The arguments are validated on the way.
+ *
+ * @param command - Command the arguments were given to
+ * @param args - Command-line arguments
+ * @returns Whether the help or version was printed, leaving nothing else to do
+ * @throws {UsageError} If the arguments are invalid (see {@link parseArgs})
+ */
+export function printHelpOrVersion(
+  command: CommandSpec,
+  args: string[],
+): boolean {
+  const { flags } = parseArgs(command, args);
+  if (flags.has('--help')) {
+    console.log(formatHelp(command));
+    return true;
+  }
+  if (flags.has('--version')) {
+    console.log(`${command.name} ${command.version()}`);
+    return true;
+  }
+  return false;
+}
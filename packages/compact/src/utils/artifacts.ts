@@ -0,0 +1,162 @@
+import type { Dirent } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+
+/**
+ * How compiled artifacts are laid out under the artifacts directory:
+ * `flat` writes every source to `<artifactsDir>/<Name>`, `mirror` keeps the
+ * source directory structure (`<artifactsDir>/<dir>/<Name>`).
+ */
+export type ArtifactLayout = 'flat' | 'mirror';
+
+/** Supported artifact layouts */
+export const ARTIFACT_LAYOUTS: readonly ArtifactLayout[] = ['flat', 'mirror'];
+
+/** Subdirectories compactc writes to every artifact directory */
+const ARTIFACT_MARKERS: readonly string[] = ['contract', 'compiler'];
+/** File marking an artifacts directory of its own, such as a profile's (see `ARTIFACT_MANIFEST_FILE`) */
+const ARTIFACTS_ROOT_MARKER = 'manifest.json';
+
+/**
+ * Checks whether a value is a supported artifact layout.
+ *
+ * @param value - Value to check, e.g. the argument of `--layout`
+ * @returns Whether the value is a supported layout
+ */
+export function isArtifactLayout(value: string): value is ArtifactLayout {
+  return (ARTIFACT_LAYOUTS as readonly string[]).includes(value);
+}
+
+/**
+ * Sources that would write to the same artifact directory.
+ *
+ * @interface ArtifactCollision
+ * @prop {string} outputDir Artifact directory written by every file
+ * @prop {string[]} files Relative paths of the conflicting sources
+ */
+export interface ArtifactCollision {
+  outputDir: string;
+  files: string[];
+}
+
+/**
+ * Returns the directory compactc writes the artifacts of a source to.
+ *
+ * @param file - Relative path of the .compact file from the source directory
+ * @param artifactsDir - Artifacts directory
+ * @param layout - Artifact layout (defaults to `flat`)
+ * @returns Path of the artifact directory
+ * @example
+ * ```typescript
+ * getArtifactDir('token/test/mocks/MockToken.compact', 'artifacts');
+ * // Returns: 'artifacts/MockToken'
+ * getArtifactDir('token/test/mocks/MockToken.compact', 'artifacts', 'mirror');
+ * // Returns: 'artifacts/token/test/mocks/MockToken'
+ * ```
+ */
+export function getArtifactDir(
+  file: string,
+  artifactsDir: string,
+  layout: ArtifactLayout = 'flat',
+): string {
+  const name = basename(file, '.compact');
+  return layout === 'mirror'
+    ? join(artifactsDir, dirname(file), name)
+    : join(artifactsDir, name);
+}
+
+/**
+ * Finds sources that would overwrite each other's artifacts.
+ *
+ * @param files - Relative paths of the .compact files from the source directory
+ * @param artifactsDir - Artifacts directory
+ * @param layout - Artifact layout (defaults to `flat`)
+ * @returns One entry per artifact directory written by more than one source
+ * @example
+ * ```typescript
+ * findArtifactCollisions(['access/Foo.compact', 'token/Foo.compact'], 'artifacts');
+ * // Returns: [{ outputDir: 'artifacts/Foo', files: ['access/Foo.compact', 'token/Foo.compact'] }]
+ * ```
+ */
+export function findArtifactCollisions(
+  files: string[],
+  artifactsDir: string,
+  layout: ArtifactLayout = 'flat',
+): ArtifactCollision[] {
+  const filesByDir = new Map<string, string[]>();
+  for (const file of files) {
+    const outputDir = getArtifactDir(file, artifactsDir, layout);
+    filesByDir.set(outputDir, [...(filesByDir.get(outputDir) ?? []), file]);
+  }
+
+  return [...filesByDir]
+    .filter(([, sources]) => sources.length > 1)
+    .map(([outputDir, sources]) => ({ outputDir, files: sources.sort() }));
+}
+
+/**
+ * Finds the artifact directories under an artifacts directory: directories
+ * holding a `contract/` or `compiler/` subdirectory. With the flat layout
+ * only direct children are searched; with the mirror layout the whole tree
+ * is, except artifacts directories of their own (holding a `manifest.json`,
+ * such as those of profiles). Hidden entries, such as the artifact roots of
+ * compatibility matrices and checks, are always skipped.
+ *
+ * @param artifactsDir - Artifacts directory to search
+ * @param layout - Artifact layout (defaults to `flat`)
+ * @returns Promise resolving to the paths of the artifact directories,
+ * sorted; empty if the artifacts directory does not exist
+ * @example
+ * ```typescript
+ * await findArtifactDirs('artifacts');
+ * // Returns: ['artifacts/MockToken', 'artifacts/Token']
+ * ```
+ */
+export async function findArtifactDirs(
+  artifactsDir: string,
+  layout: ArtifactLayout = 'flat',
+): Promise<string[]> {
+  const found: string[] = [];
+  for (const dir of await listSubdirs(artifactsDir)) {
+    const entries = await listEntries(dir);
+    if (
+      entries.some(
+        (entry) => entry.isDirectory() && ARTIFACT_MARKERS.includes(entry.name),
+      )
+    ) {
+      found.push(dir);
+    } else if (
+      layout === 'mirror' &&
+      !entries.some((entry) => entry.name === ARTIFACTS_ROOT_MARKER)
+    ) {
+      found.push(...(await findArtifactDirs(dir, layout)));
+    }
+  }
+  return found.sort();
+}
+
+/**
+ * Lists the visible subdirectories of a directory.
+ *
+ * @param dir - Directory to list
+ * @returns Promise resolving to the paths of the subdirectories
+ */
+async function listSubdirs(dir: string): Promise<string[]> {
+  return (await listEntries(dir))
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map((entry) => join(dir, entry.name));
+}
+
+/**
+ * Lists the entries of a directory.
+ *
+ * @param dir - Directory to list
+ * @returns Promise resolving to the entries; empty if the directory does not exist
+ */
+async function listEntries(dir: string): Promise<Dirent[]> {
+  try {
+    return await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Converts a glob pattern to the source of an equivalent regular expression.
+ * Supports `*` (any characters within a path segment), `**` (any number of
+ * path segments), `?` (a single character) and `{a,b}` alternatives.
+ *
+ * @param pattern - Glob pattern using `/` as separator
+ * @returns Regular expression source without anchors
+ */
+function toRegExpSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i);
+      const alternatives = pattern.slice(i + 1, end).split(',');
+      source += `(?:${alternatives.map(toRegExpSource).join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compiles a glob pattern into a regular expression matching whole paths.
+ *
+ * @param pattern - Glob pattern using `/` as separator
+ * @returns Anchored regular expression
+ * @example
+ * ```typescript
+ * globToRegExp('**\/test/mocks/*.compact').test('token/test/mocks/MockToken.compact');
+ * // Returns: true
+ * ```
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${toRegExpSource(pattern.replace(/\/+$/, ''))}$`);
+}
+
+/**
+ * Finds the first glob pattern matching a relative path.
+ * A pattern also matches every file below a directory it matches, so
+ * `archive` and `archive/**` are equivalent.
+ *
+ * @param path - Relative path using `/` as separator
+ * @param patterns - Glob patterns to test
+ * @returns The first pattern matching the path or one of its parent directories
+ * @example
+ * ```typescript
+ * findMatchingGlob('archive/ShieldedToken.compact', ['token', 'archive']); // 'archive'
+ * findMatchingGlob('token/FungibleToken.compact', ['**\/Mock*.compact']); // undefined
+ * ```
+ */
+export function findMatchingGlob(
+  path: string,
+  patterns: string[],
+): string | undefined {
+  const segments = path.split('/');
+  const candidates = segments.map((_, index) =>
+    segments.slice(0, index + 1).join('/'),
+  );
+
+  return patterns.find((pattern) => {
+    const regExp = globToRegExp(pattern);
+    return candidates.some((candidate) => regExp.test(candidate));
+  });
+}
+
+/**
+ * Checks whether a relative path matches any of the given glob patterns.
+ * A pattern also matches every file below a directory it matches, so
+ * `archive` and `archive/**` are equivalent.
+ *
+ * @param path - Relative path using `/` as separator
+ * @param patterns - Glob patterns to test
+ * @returns Whether the path or one of its parent directories matches
+ * @example
+ * ```typescript
+ * matchesGlob('archive/ShieldedToken.compact', ['archive']); // true
+ * matchesGlob('token/FungibleToken.compact', ['**\/Mock*.compact']); // false
+ * ```
+ */
+export function matchesGlob(path: string, patterns: string[]): boolean {
+  return findMatchingGlob(path, patterns) !== undefined;
+}
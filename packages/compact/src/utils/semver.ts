@@ -0,0 +1,208 @@
+/** Matches the first `major.minor.patch` version in a string */
+const VERSION_PATTERN = /(\d+)\.(\d+)\.(\d+)/;
+
+/** Matches a toolchain version as given with `+<version>`, e.g. `0.25.0` */
+const TOOLCHAIN_VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+/** Matches one comparator of a range, e.g. `>= 0.17.0`, `^0.25` or `0.25.0` */
+const COMPARATOR_PATTERN =
+  /^(>=|<=|>|<|=|\^|~)?\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/;
+
+/** A version as `[major, minor, patch]` */
+type Version = [number, number, number];
+
+/** A single comparison a version must pass */
+type Comparator = { operator: '>=' | '<=' | '>' | '<' | '='; version: Version };
+
+/**
+ * A source whose `pragma language_version` the toolchain does not satisfy.
+ *
+ * @interface VersionRequirement
+ * @prop {string} file Relative path of the .compact file from the source directory
+ * @prop {string} range Version range declared by the pragma, e.g. `>= 0.17.0`
+ */
+export interface VersionRequirement {
+  file: string;
+  range: string;
+}
+
+/**
+ * Extracts a semantic version from version output.
+ *
+ * @param output - Output of a version command, e.g. `Compactc version: 0.25.0`
+ * @returns The `major.minor.patch` version, or undefined if there is none
+ * @example
+ * ```typescript
+ * parseVersion('Compactc version: 0.25.0'); // Returns: '0.25.0'
+ * parseVersion('compact 0.2.0\n'); // Returns: '0.2.0'
+ * ```
+ */
+export function parseVersion(output: string): string | undefined {
+  return VERSION_PATTERN.exec(output)?.[0];
+}
+
+/**
+ * Checks whether a string is a toolchain version the Compact CLI accepts
+ * as `+<version>`. Versions reach the `compact` command line, so anything
+ * else is rejected.
+ *
+ * @param version - Version to check, without the leading `+`
+ * @returns Whether the version is a plain `major.minor.patch` version
+ * @example
+ * ```typescript
+ * isToolchainVersion('0.25.0'); // Returns: true
+ * isToolchainVersion('0.25'); // Returns: false
+ * ```
+ */
+export function isToolchainVersion(version: string): boolean {
+  return TOOLCHAIN_VERSION_PATTERN.test(version);
+}
+
+/**
+ * Compares two versions.
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns A negative number if `a` is lower, positive if higher, 0 if equal
+ */
+function compare(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Expands one comparator of a range. `^` allows changes that do not modify
+ * the left-most non-zero part and `~` allows patch changes, as in npm;
+ * missing minor or patch parts default to 0.
+ *
+ * @param operator - Operator of the comparator, if any
+ * @param version - Version of the comparator
+ * @returns The comparisons the comparator stands for
+ */
+function expandComparator(
+  operator: string | undefined,
+  version: Version,
+): Comparator[] {
+  const [major, minor, patch] = version;
+  switch (operator) {
+    case '^': {
+      const upper: Version =
+        major > 0
+          ? [major + 1, 0, 0]
+          : minor > 0
+            ? [0, minor + 1, 0]
+            : [0, 0, patch + 1];
+      return [
+        { operator: '>=', version },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~':
+      return [
+        { operator: '>=', version },
+        { operator: '<', version: [major, minor + 1, 0] },
+      ];
+    case '>=':
+    case '<=':
+    case '>':
+    case '<':
+      return [{ operator, version }];
+    default:
+      return [{ operator: '=', version }];
+  }
+}
+
+/**
+ * Parses a version range into alternatives of comparators that must all pass.
+ * Comparators are separated by whitespace or `&&`, alternatives by `||`.
+ *
+ * @param range - Version range, e.g. `>=0.25.0 <0.27.0` or `>= 0.16.0 && <= 0.17.0`
+ * @returns The alternatives of the range
+ * @throws {Error} If the range is malformed
+ */
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map((alternative) => {
+    const comparators: Comparator[] = [];
+    let rest = alternative.replaceAll('&&', ' ').trim();
+
+    while (rest) {
+      const match = COMPARATOR_PATTERN.exec(rest);
+      if (!match) {
+        throw new Error(`Invalid version range "${range}"`);
+      }
+      const [text, operator, major, minor = '0', patch = '0'] = match;
+      comparators.push(
+        ...expandComparator(operator, [
+          Number(major),
+          Number(minor),
+          Number(patch),
+        ]),
+      );
+      rest = rest.slice(text.length).trim();
+    }
+
+    if (comparators.length === 0) {
+      throw new Error(`Invalid version range "${range}"`);
+    }
+    return comparators;
+  });
+}
+
+/**
+ * Checks whether a string is a valid version range.
+ *
+ * @param range - Range to check
+ * @returns Whether {@link satisfies} accepts the range
+ */
+export function isVersionRange(range: string): boolean {
+  try {
+    parseRange(range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a version satisfies a range. Ranges use the npm comparators
+ * (`>=`, `<=`, `>`, `<`, `=`, `^`, `~`) and the `&&` conjunction of Compact's
+ * `pragma language_version`.
+ *
+ * @param version - Version to check, e.g. `0.25.0`
+ * @param range - Version range, e.g. `>=0.25.0 <0.27.0`
+ * @returns Whether the version is within the range
+ * @throws {Error} If the version or the range is malformed
+ * @example
+ * ```typescript
+ * satisfies('0.25.0', '>= 0.17.0'); // Returns: true
+ * satisfies('0.24.0', '^0.25.0'); // Returns: false
+ * ```
+ */
+export function satisfies(version: string, range: string): boolean {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) {
+    throw new Error(`Invalid version "${version}"`);
+  }
+  const parsed: Version = [
+    Number(match[1]),
+    Number(match[2]),
+    Number(match[3]),
+  ];
+
+  return parseRange(range).some((comparators) =>
+    comparators.every(({ operator, version: bound }) => {
+      const order = compare(parsed, bound);
+      switch (operator) {
+        case '>=':
+          return order >= 0;
+        case '<=':
+          return order <= 0;
+        case '>':
+          return order > 0;
+        case '<':
+          return order < 0;
+        default:
+          return order === 0;
+      }
+    }),
+  );
+}
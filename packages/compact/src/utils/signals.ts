@@ -0,0 +1,73 @@
+import { constants } from 'node:os';
+
+/**
+ * Cancellation triggered by a termination signal.
+ *
+ * @interface Termination
+ * @prop {AbortSignal} signal Aborted once a termination signal is received
+ * @prop {NodeJS.Signals} [received] The signal that was received, if any
+ * @prop {number} [exitCode] Conventional exit code for the received signal
+ * (`128 + signal number`, e.g. 130 for SIGINT), if any
+ * @prop {() => void} dispose Stops listening for termination signals
+ */
+export interface Termination {
+  readonly signal: AbortSignal;
+  readonly received?: NodeJS.Signals;
+  readonly exitCode?: number;
+  dispose(): void;
+}
+
+/**
+ * Listens for termination signals and turns the first one into an abort of
+ * the returned `signal`, so running compilations can kill their child
+ * processes and clean up before the process exits. Listening replaces the
+ * default handler, which would exit immediately; a second signal therefore
+ * only aborts again, it is up to the caller to exit with `exitCode`.
+ *
+ * @param signals - Signals to listen for
+ * @returns The termination, to be disposed once the work is done
+ * @example
+ * ```typescript
+ * const termination = listenForTermination();
+ * try {
+ *   await compiler.compile(); // compiler created with termination.signal
+ * } catch (error) {
+ *   if (termination.exitCode) process.exit(termination.exitCode);
+ *   throw error;
+ * } finally {
+ *   termination.dispose();
+ * }
+ * ```
+ */
+export function listenForTermination(
+  signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'],
+): Termination {
+  const controller = new AbortController();
+  let received: NodeJS.Signals | undefined;
+
+  const listeners = signals.map((name) => {
+    const listener = (): void => {
+      received ??= name;
+      const reason = new Error(`Received ${name}`);
+      reason.name = 'AbortError';
+      controller.abort(reason);
+    };
+    process.on(name, listener);
+    return [name, listener] as const;
+  });
+
+  return {
+    signal: controller.signal,
+    get received() {
+      return received;
+    },
+    get exitCode() {
+      return received && 128 + constants.signals[received];
+    },
+    dispose() {
+      for (const [name, listener] of listeners) {
+        process.off(name, listener);
+      }
+    },
+  };
+}
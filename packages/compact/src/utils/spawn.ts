@@ -0,0 +1,139 @@
+import { spawn } from 'node:child_process';
+
+/** Output stream of a child process */
+export type OutputStream = 'stdout' | 'stderr';
+
+/** Matches arguments that need no quoting in a POSIX shell */
+const SAFE_ARG_PATTERN = /^[\w@%+=:,./-]+$/;
+
+/**
+ * Options passed to a {@link SpawnFunction}.
+ *
+ * @interface SpawnOptions
+ * @prop {AbortSignal} [signal] Kills the process when aborted
+ * @prop {(line: string, stream: OutputStream) => void} [onLine] Called with
+ * every line the process writes, as soon as it is written
+ */
+export interface SpawnOptions {
+  signal?: AbortSignal;
+  onLine?: (line: string, stream: OutputStream) => void;
+}
+
+/**
+ * Function type for running a program with an explicit argument list,
+ * without a shell. Allows dependency injection for testing and customization.
+ *
+ * @param command - The program to run
+ * @param args - Arguments passed to the program as-is
+ * @param options - Optional abort signal and line listener
+ * @returns Promise resolving to the complete output once the process exits
+ * successfully; rejecting with an error carrying `stdout`, `stderr` and
+ * `code` otherwise, like `child_process.exec`
+ */
+export type SpawnFunction = (
+  command: string,
+  args: string[],
+  options?: SpawnOptions,
+) => Promise<{ stdout: string; stderr: string }>;
+
+/**
+ * Quotes an argument for a POSIX shell. Arguments made only of safe
+ * characters are left as they are.
+ *
+ * @param arg - Argument to quote
+ * @returns The argument as a single shell word
+ * @example
+ * ```typescript
+ * quoteArg('src/Token.compact'); // Returns: src/Token.compact
+ * quoteArg("it's $HOME"); // Returns: 'it'\''s $HOME'
+ * ```
+ */
+export function quoteArg(arg: string): string {
+  return SAFE_ARG_PATTERN.test(arg) ? arg : `'${arg.replaceAll("'", `'\\''`)}'`;
+}
+
+/**
+ * Formats a command and its arguments as a shell command line, for display
+ * and for running the command through a shell.
+ *
+ * @param command - The program to run
+ * @param args - Arguments passed to the program
+ * @returns The quoted command line
+ */
+export function formatCommand(command: string, args: string[]): string {
+  return [command, ...args].map(quoteArg).join(' ');
+}
+
+/**
+ * Runs a program without a shell, streaming its output line by line.
+ * Unlike `child_process.exec`, arguments are never interpreted by a shell
+ * and the output is not limited by `maxBuffer`.
+ *
+ * @param command - The program to run
+ * @param args - Arguments passed to the program as-is
+ * @param options - Optional abort signal and line listener
+ * @returns Promise resolving to the complete output once the process exits
+ * with code 0
+ * @throws {Error} With `stdout`, `stderr` and `code` if the process cannot be
+ * started, exits with a non-zero code, is killed or is aborted
+ * @example
+ * ```typescript
+ * await spawnAsync('compact', ['compile', 'src/Token.compact', 'artifacts/Token'], {
+ *   onLine: (line, stream) => console.log(`[${stream}] ${line}`),
+ * });
+ * ```
+ */
+export const spawnAsync: SpawnFunction = (command, args, options = {}) =>
+  new Promise((resolve, reject) => {
+    const output: Record<OutputStream, string> = { stdout: '', stderr: '' };
+    const partial: Record<OutputStream, string> = { stdout: '', stderr: '' };
+
+    const flushLine = (line: string, stream: OutputStream): void => {
+      options.onLine?.(line.endsWith('\r') ? line.slice(0, -1) : line, stream);
+    };
+    const onData = (stream: OutputStream) => (chunk: string) => {
+      output[stream] += chunk;
+      const lines = (partial[stream] + chunk).split('\n');
+      partial[stream] = lines.pop() ?? '';
+      for (const line of lines) {
+        flushLine(line, stream);
+      }
+    };
+    const fail = (error: Error, code?: number | string | null): void => {
+      reject(
+        Object.assign(error, {
+          code: code ?? (error as NodeJS.ErrnoException).code,
+          cmd: formatCommand(command, args),
+          stdout: output.stdout,
+          stderr: output.stderr,
+        }),
+      );
+    };
+
+    const child = spawn(command, args, {
+      signal: options.signal,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    child.stdout.setEncoding('utf8').on('data', onData('stdout'));
+    child.stderr.setEncoding('utf8').on('data', onData('stderr'));
+
+    child.on('error', (error) => fail(error));
+    child.on('close', (code, signal) => {
+      for (const stream of ['stdout', 'stderr'] as const) {
+        if (partial[stream]) {
+          flushLine(partial[stream], stream);
+        }
+      }
+      if (code === 0) {
+        resolve(output);
+      } else if (!options.signal?.aborted) {
+        const reason = signal ? `killed by ${signal}` : `exit code ${code}`;
+        fail(
+          new Error(
+            `Command failed (${reason}): ${formatCommand(command, args)}\n${output.stderr}`,
+          ),
+          code ?? signal,
+        );
+      }
+    });
+  });
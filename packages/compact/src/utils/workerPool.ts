@@ -0,0 +1,50 @@
+/**
+ * Runs an async worker over every item with at most `concurrency` workers in
+ * flight at any time. Items are picked up in order, so with a concurrency of 1
+ * this behaves exactly like a sequential `for ... await` loop.
+ *
+ * Once `shouldStop` returns true no new items are scheduled; workers that are
+ * already running are allowed to settle before the returned promise resolves.
+ * Workers are expected to handle their own errors; a rejected worker rejects
+ * the whole pool after the other in-flight workers finish.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of workers running at once (minimum 1)
+ * @param worker - Async function invoked with each item and its index
+ * @param shouldStop - Optional predicate checked before scheduling each item
+ * @returns A promise that resolves when no more items will be scheduled and
+ * all in-flight workers have settled
+ * @example
+ * ```typescript
+ * await runWithConcurrency(files, 4, async (file, index) => {
+ *   await compile(file);
+ * });
+ * ```
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false,
+): Promise<void> {
+  let next = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  const results = await Promise.allSettled(
+    Array.from({ length: workerCount }, runWorker),
+  );
+
+  const rejected = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected',
+  );
+  if (rejected) {
+    throw rejected.reason;
+  }
+}
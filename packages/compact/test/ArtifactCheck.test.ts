@@ -0,0 +1,82 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { compareArtifacts, hasDrift } from '../src/ArtifactCheck.js';
+
+describe('compareArtifacts', () => {
+  let root: string;
+  let generatedDir: string;
+  let committedDir: string;
+
+  const writeArtifact = async (dir: string, path: string, contents: string) => {
+    await mkdir(join(dir, path, '..'), { recursive: true });
+    await writeFile(join(dir, path), contents);
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-check-'));
+    generatedDir = join(root, '.artifacts-check', 'Token');
+    committedDir = join(root, 'artifacts', 'Token');
+
+    for (const dir of [generatedDir, committedDir]) {
+      await writeArtifact(dir, 'contract/index.cjs', 'module.exports = {};');
+      await writeArtifact(dir, 'compiler/contract-info.json', '{}');
+    }
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should find no differences between identical artifacts', async () => {
+    const drift = await compareArtifacts(generatedDir, committedDir);
+
+    expect(drift).toEqual({ missing: [], stale: [], changed: [] });
+    expect(hasDrift(drift)).toBe(false);
+  });
+
+  it('should report missing, stale and changed files', async () => {
+    await writeArtifact(generatedDir, 'contract/index.cjs', 'changed');
+    await writeArtifact(generatedDir, 'contract/index.d.cts', 'export {};');
+    await writeArtifact(committedDir, 'compiler/old.json', '{}');
+
+    const drift = await compareArtifacts(generatedDir, committedDir);
+
+    expect(drift).toEqual({
+      missing: ['contract/index.d.cts'],
+      stale: ['compiler/old.json'],
+      changed: ['contract/index.cjs'],
+    });
+    expect(hasDrift(drift)).toBe(true);
+  });
+
+  it('should report every file as missing when nothing is committed', async () => {
+    await rm(committedDir, { recursive: true });
+
+    expect(await compareArtifacts(generatedDir, committedDir)).toEqual({
+      missing: ['contract/index.cjs', 'compiler/contract-info.json'],
+      stale: [],
+      changed: [],
+    });
+  });
+
+  it('should only compare the requested subdirectories', async () => {
+    await writeArtifact(generatedDir, 'keys/transfer.prover', 'generated');
+    await writeArtifact(committedDir, 'keys/transfer.prover', 'committed');
+    await writeArtifact(generatedDir, 'zkir/transfer.zkir', 'zkir');
+
+    expect(await compareArtifacts(generatedDir, committedDir)).toEqual({
+      missing: [],
+      stale: [],
+      changed: [],
+    });
+    expect(
+      await compareArtifacts(generatedDir, committedDir, ['zkir', 'keys']),
+    ).toEqual({
+      missing: ['zkir/transfer.zkir'],
+      stale: [],
+      changed: ['keys/transfer.prover'],
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ARTIFACT_MANIFEST_FILE,
+  ArtifactManifest,
+  formatType,
+  type Manifest,
+} from '../src/ArtifactManifest.js';
+
+/** contract-info.json as written by compactc for a small contract */
+const CONTRACT_INFO = `{
+  "circuits": [
+    {
+      "name": "transfer",
+      "pure": false,
+      "arguments": [
+        { "name": "to", "type": { "type-name": "Bytes", "length": 32 } },
+        { "name": "amount", "type": { "type-name": "Uint", "maxval": 340282366920938463463374607431768211455 } }
+      ],
+      "result-type": { "type-name": "Tuple", "types": [] }
+    },
+    {
+      "name": "balance",
+      "pure": true,
+      "arguments": [],
+      "result-type": { "type-name": "Field" }
+    }
+  ],
+  "witnesses": [],
+  "contracts": []
+}`;
+
+const sha256 = (contents: string) =>
+  createHash('sha256').update(contents).digest('hex');
+
+describe('formatType', () => {
+  it.each([
+    [{ 'type-name': 'Field' }, 'Field'],
+    [{ 'type-name': 'Boolean' }, 'Boolean'],
+    [{ 'type-name': 'Bytes', length: 32 }, 'Bytes<32>'],
+    [{ 'type-name': 'Uint', maxval: 255 }, 'Uint<8>'],
+    [{ 'type-name': 'Uint', maxval: 2 ** 64 - 1 }, 'Uint<64>'],
+    [{ 'type-name': 'Uint', maxval: 1000 }, 'Uint<0..1000>'],
+    [{ 'type-name': 'Tuple', types: [] }, '[]'],
+    [
+      {
+        'type-name': 'Tuple',
+        types: [{ 'type-name': 'Field' }, { 'type-name': 'Boolean' }],
+      },
+      '[Field, Boolean]',
+    ],
+    [
+      { 'type-name': 'Vector', length: 3, type: { 'type-name': 'Field' } },
+      'Vector<3, Field>',
+    ],
+    [{ 'type-name': 'Opaque', tsType: 'string' }, 'Opaque<"string">'],
+    [
+      { 'type-name': 'Struct', name: 'ZswapCoinPublicKey', elements: [] },
+      'ZswapCoinPublicKey',
+    ],
+  ])('should format %j as %s', (type, expected) => {
+    expect(formatType(type)).toBe(expected);
+  });
+});
+
+describe('ArtifactManifest', () => {
+  let root: string;
+  let artifactsDir: string;
+  let manifest: ArtifactManifest;
+
+  const writeArtifact = async (path: string, contents: string) => {
+    await mkdir(join(artifactsDir, path, '..'), { recursive: true });
+    await writeFile(join(artifactsDir, path), contents);
+  };
+
+  const readManifest = async (): Promise<Manifest> =>
+    JSON.parse(
+      await readFile(join(artifactsDir, ARTIFACT_MANIFEST_FILE), 'utf8'),
+    );
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-manifest-'));
+    artifactsDir = join(root, 'artifacts');
+    manifest = new ArtifactManifest(artifactsDir);
+
+    await writeArtifact('Token/contract/index.cjs', 'module.exports = {};');
+    await writeArtifact('Token/zkir/transfer.zkir', 'zkir');
+    await writeArtifact('Token/keys/transfer.prover', 'prover');
+    await writeArtifact('Token/keys/transfer.verifier', 'verifier');
+    await writeArtifact('Token/compiler/contract-info.json', CONTRACT_INFO);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('update', () => {
+    it('should describe the artifacts of a source', async () => {
+      const entry = await manifest.update(
+        join('token', 'Token.compact'),
+        '--skip-zk',
+        '0.25.0',
+      );
+
+      expect(entry).toEqual({
+        source: 'token/Token.compact',
+        artifactDir: 'Token',
+        flags: '--skip-zk',
+        toolchainVersion: '0.25.0',
+        files: {
+          'contract/index.cjs': sha256('module.exports = {};'),
+          'zkir/transfer.zkir': sha256('zkir'),
+          'keys/transfer.prover': sha256('prover'),
+          'keys/transfer.verifier': sha256('verifier'),
+        },
+        circuits: [
+          expect.objectContaining({
+            name: 'transfer',
+            pure: false,
+            signature: 'transfer(to: Bytes<32>, amount: Uint<128>): []',
+          }),
+          {
+            name: 'balance',
+            pure: true,
+            signature: 'balance(): Field',
+            arguments: [],
+            resultType: { 'type-name': 'Field' },
+          },
+        ],
+      });
+      expect(manifest.get(join('token', 'Token.compact'))).toBe(entry);
+    });
+
+    it('should use the artifact directory of the mirror layout', async () => {
+      await writeArtifact('token/Token/contract/index.cjs', '');
+      manifest = new ArtifactManifest(artifactsDir, 'mirror');
+
+      const entry = await manifest.update('token/Token.compact', '', '0.25.0');
+
+      expect(entry.artifactDir).toBe('token/Token');
+      expect(entry.files).toEqual({ 'contract/index.cjs': sha256('') });
+      expect(entry.circuits).toEqual([]);
+    });
+
+    it('should throw on malformed contract info', async () => {
+      await writeArtifact('Token/compiler/contract-info.json', '{');
+
+      await expect(
+        manifest.update('Token.compact', '', '0.25.0'),
+      ).rejects.toThrow(SyntaxError);
+    });
+  });
+
+  describe('save and load', () => {
+    it('should persist entries sorted by source', async () => {
+      await writeArtifact('Access/contract/index.cjs', '');
+      await manifest.update('token/Token.compact', '', '0.25.0');
+      await manifest.update('access/Access.compact', '', '0.25.0');
+
+      await manifest.save();
+
+      const saved = await readManifest();
+      expect(saved.version).toBe(1);
+      expect(saved.contracts.map((entry) => entry.source)).toEqual([
+        'access/Access.compact',
+        'token/Token.compact',
+      ]);
+
+      const reloaded = new ArtifactManifest(artifactsDir);
+      await reloaded.load();
+      expect(reloaded.get('token/Token.compact')).toEqual(saved.contracts[1]);
+    });
+
+    it('should drop entries whose artifact directory was removed', async () => {
+      await writeArtifact('Access/contract/index.cjs', '');
+      await manifest.update('token/Token.compact', '', '0.25.0');
+      await manifest.update('access/Access.compact', '', '0.25.0');
+      await rm(join(artifactsDir, 'Access'), { recursive: true });
+
+      await manifest.save();
+
+      expect(
+        (await readManifest()).contracts.map((entry) => entry.source),
+      ).toEqual(['token/Token.compact']);
+    });
+
+    it('should start empty when the manifest is missing or outdated', async () => {
+      await manifest.load();
+      expect(manifest.get('token/Token.compact')).toBeUndefined();
+
+      await writeArtifact(
+        ARTIFACT_MANIFEST_FILE,
+        JSON.stringify({
+          version: 0,
+          contracts: [{ source: 'token/Token.compact' }],
+        }),
+      );
+      await manifest.load();
+      expect(manifest.get('token/Token.compact')).toBeUndefined();
+    });
+  });
+});
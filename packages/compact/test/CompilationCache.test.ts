@@ -0,0 +1,221 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CACHE_MANIFEST_FILE,
+  CompilationCache,
+} from '../src/CompilationCache.js';
+import type { FileDiscovery } from '../src/Compiler.js';
+
+describe('CompilationCache', () => {
+  let root: string;
+  let srcDir: string;
+  let artifactsDir: string;
+  let imports: Record<string, string[]>;
+  let cache: CompilationCache;
+
+  const writeSource = async (file: string, contents: string) => {
+    await mkdir(join(srcDir, file, '..'), { recursive: true });
+    await writeFile(join(srcDir, file), contents);
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-cache-'));
+    srcDir = join(root, 'src');
+    artifactsDir = join(root, 'artifacts');
+    imports = {};
+
+    const discovery = {
+      getTransitiveImports: vi.fn(async (file: string) => imports[file] ?? []),
+    } as unknown as FileDiscovery;
+    cache = new CompilationCache(discovery, srcDir, artifactsDir);
+
+    await writeSource('token/Token.compact', 'circuit foo(): [] {}');
+    await writeSource('utils/Utils.compact', 'circuit bar(): [] {}');
+    imports['token/Token.compact'] = ['utils/Utils.compact'];
+    await mkdir(join(artifactsDir, 'Token/contract'), { recursive: true });
+    await writeFile(join(artifactsDir, 'Token/contract/index.cjs'), '');
+    await mkdir(join(artifactsDir, 'Token/keys'), { recursive: true });
+    await writeFile(join(artifactsDir, 'Token/keys/foo.prover'), '');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('computeEntry', () => {
+    it('should hash the source and its transitive imports', async () => {
+      const entry = await cache.computeEntry(
+        'token/Token.compact',
+        '--skip-zk',
+        'Compactc 0.25.0',
+      );
+
+      expect(entry).toEqual({
+        sourceHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        imports: {
+          'utils/Utils.compact': expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+        toolchainVersion: 'Compactc 0.25.0',
+        flags: '--skip-zk',
+      });
+    });
+
+    it('should record unreadable imports as null', async () => {
+      imports['token/Token.compact'] = ['missing/Missing.compact'];
+
+      const entry = await cache.computeEntry('token/Token.compact', '', 'v');
+
+      expect(entry?.imports).toEqual({ 'missing/Missing.compact': null });
+    });
+
+    it('should return undefined when the source cannot be read', async () => {
+      await expect(
+        cache.computeEntry('Missing.compact', '', 'v'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('isUpToDate', () => {
+    const file = 'token/Token.compact';
+
+    it('should be false for files that were never recorded', async () => {
+      const entry = await cache.computeEntry(file, '', 'v');
+
+      expect(cache.isUpToDate(file, entry!)).toBe(false);
+    });
+
+    it('should be true when inputs are unchanged', async () => {
+      await cache.set(file, (await cache.computeEntry(file, '', 'v'))!);
+
+      const entry = await cache.computeEntry(file, '', 'v');
+
+      expect(cache.isUpToDate(file, entry!)).toBe(true);
+    });
+
+    it.each([
+      {
+        name: 'the source changes',
+        change: () => writeSource(file, 'circuit changed(): [] {}'),
+        flags: '',
+        version: 'v',
+      },
+      {
+        name: 'an import changes',
+        change: () => writeSource('utils/Utils.compact', 'changed'),
+        flags: '',
+        version: 'v',
+      },
+      {
+        name: 'the flags change',
+        change: async () => {},
+        flags: '--skip-zk',
+        version: 'v',
+      },
+      {
+        name: 'the toolchain changes',
+        change: async () => {},
+        flags: '',
+        version: 'v2',
+      },
+    ])('should be false when $name', async ({ change, flags, version }) => {
+      await cache.set(file, (await cache.computeEntry(file, '', 'v'))!);
+
+      await change();
+      const entry = await cache.computeEntry(file, flags, version);
+
+      expect(cache.isUpToDate(file, entry!)).toBe(false);
+    });
+
+    it('should be false when the artifact directory is missing', async () => {
+      await cache.set(file, (await cache.computeEntry(file, '', 'v'))!);
+      await rm(join(artifactsDir, 'Token'), { recursive: true });
+
+      const entry = await cache.computeEntry(file, '', 'v');
+
+      expect(cache.isUpToDate(file, entry!)).toBe(false);
+    });
+
+    it.each(['contract', 'keys'])(
+      'should be false when %s/ is deleted after a cached build',
+      async (dir) => {
+        await cache.set(file, (await cache.computeEntry(file, '', 'v'))!);
+        await rm(join(artifactsDir, 'Token', dir), { recursive: true });
+
+        const entry = await cache.computeEntry(file, '', 'v');
+
+        expect(cache.isUpToDate(file, entry!)).toBe(false);
+      },
+    );
+
+    it('should be false after the file is deleted from the cache', async () => {
+      const entry = (await cache.computeEntry(file, '', 'v'))!;
+      await cache.set(file, entry);
+
+      cache.delete(file);
+
+      expect(cache.isUpToDate(file, entry)).toBe(false);
+    });
+  });
+
+  describe('load and save', () => {
+    const file = 'token/Token.compact';
+
+    it('should persist entries in the artifacts directory', async () => {
+      const entry = (await cache.computeEntry(file, '', 'v'))!;
+      await cache.set(file, entry);
+
+      await cache.save();
+
+      const manifest = JSON.parse(
+        await readFile(join(artifactsDir, CACHE_MANIFEST_FILE), 'utf8'),
+      );
+      expect(manifest).toEqual({
+        version: 2,
+        entries: {
+          [file]: {
+            ...entry,
+            outputs: ['contract/index.cjs', 'keys/foo.prover'],
+          },
+        },
+      });
+    });
+
+    it('should restore saved entries', async () => {
+      await cache.set(file, (await cache.computeEntry(file, '', 'v'))!);
+      await cache.save();
+      cache.delete(file);
+
+      await cache.load();
+
+      const entry = await cache.computeEntry(file, '', 'v');
+      expect(cache.isUpToDate(file, entry!)).toBe(true);
+    });
+
+    it('should start empty when the manifest is missing', async () => {
+      await cache.load();
+
+      const entry = await cache.computeEntry(file, '', 'v');
+      expect(cache.isUpToDate(file, entry!)).toBe(false);
+    });
+
+    it('should ignore manifests with another layout version', async () => {
+      const entry = (await cache.computeEntry(file, '', 'v'))!;
+      await writeFile(
+        join(artifactsDir, CACHE_MANIFEST_FILE),
+        JSON.stringify({ version: 0, entries: { [file]: entry } }),
+      );
+
+      await cache.load();
+
+      expect(cache.isUpToDate(file, entry)).toBe(false);
+    });
+
+    it('should ignore corrupt manifests', async () => {
+      await writeFile(join(artifactsDir, CACHE_MANIFEST_FILE), '{not json');
+
+      await expect(cache.load()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -1,6 +1,14 @@
-import { existsSync } from 'node:fs';
-import { readdir } from 'node:fs/promises';
+import { existsSync, readFileSync } from 'node:fs';
 import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import {
+  afterEach,
   beforeEach,
   describe,
   expect,
@@ -8,6 +16,8 @@ import {
   type MockedFunction,
   vi,
 } from 'vitest';
+import { compareArtifacts } from '../src/ArtifactCheck.js';
+import { CompilationCache } from '../src/CompilationCache.js';
 import {
   CompactCompiler,
   CompilerService,
@@ -16,15 +26,49 @@ import {
   FileDiscovery,
   UIService,
 } from '../src/Compiler.js';
+import { resolveConfig } from '../src/Config.js';
 import {
+  AggregateCompilationError,
+  ArtifactCollisionError,
+  ArtifactDriftError,
   CompactCliNotFoundError,
   CompilationError,
+  CompilationTimeoutError,
   DirectoryNotFoundError,
+  EnvironmentError,
+  SourceNotFoundError,
+  ToolchainVersionMismatchError,
+  UsageError,
 } from '../src/types/errors.js';
+import type { CompileEvent } from '../src/types/report.js';
+import type { SpawnFunction } from '../src/utils/spawn.js';
 
 // Mock Node.js modules
 vi.mock('node:fs');
 vi.mock('node:fs/promises');
+
+// Mock the artifact manifest, which is tested against real artifacts
+const mockManifest = {
+  load: vi.fn(),
+  save: vi.fn(),
+  get: vi.fn(),
+  update: vi.fn(),
+};
+vi.mock('../src/ArtifactManifest.js', () => ({
+  ArtifactManifest: vi.fn(
+    class {
+      load = mockManifest.load;
+      save = mockManifest.save;
+      get = mockManifest.get;
+      update = mockManifest.update;
+    },
+  ),
+}));
+// Mock the artifact comparison, which is tested against real artifacts
+vi.mock('../src/ArtifactCheck.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/ArtifactCheck.js')>()),
+  compareArtifacts: vi.fn(),
+}));
 vi.mock('chalk', () => ({
   default: {
     blue: (text: string) => text,
@@ -50,7 +94,22 @@ vi.mock('ora', () => ({
 }));
 
 const mockExistsSync = vi.mocked(existsSync);
+const mockReadFileSync = vi.mocked(readFileSync);
 const mockReaddir = vi.mocked(readdir);
+const mockReadFile = vi.mocked(readFile);
+const mockRm = vi.mocked(rm);
+const mockMkdtemp = vi.mocked(mkdtemp);
+const mockCompareArtifacts = vi.mocked(compareArtifacts);
+
+/** Exec mock that only settles once its signal aborts, like a killed process */
+const execUntilAborted: ExecFunction = (_command, options) =>
+  new Promise((_resolve, reject) => {
+    const abort = () => reject(new Error('The operation was aborted'));
+    if (options?.signal?.aborted) {
+      abort();
+    }
+    options?.signal?.addEventListener('abort', abort);
+  });
 
 describe('EnvironmentValidator', () => {
   let mockExec: MockedFunction<ExecFunction>;
@@ -129,6 +188,33 @@ describe('EnvironmentValidator', () => {
     });
   });
 
+  describe('getLanguageVersion', () => {
+    it('should query the language version of the toolchain', async () => {
+      mockExec.mockResolvedValue({ stdout: '0.17.0\n', stderr: '' });
+
+      const version = await validator.getLanguageVersion('0.25.0');
+
+      expect(version).toBe('0.17.0');
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact compile +0.25.0 --language-version',
+      );
+    });
+  });
+
+  describe('getInstalledToolchains', () => {
+    it('should list each installed toolchain version once', async () => {
+      mockExec.mockResolvedValue({
+        stdout: 'compact: installed versions\n\n→ 0.25.0\n  0.24.0\n  0.25.0\n',
+        stderr: '',
+      });
+
+      const installed = await validator.getInstalledToolchains();
+
+      expect(installed).toEqual(['0.25.0', '0.24.0']);
+      expect(mockExec).toHaveBeenCalledWith('compact list --installed');
+    });
+  });
+
   describe('validate', () => {
     it('should validate successfully when CLI is available', async () => {
       mockExec.mockResolvedValue({ stdout: 'compact 0.1.0', stderr: '' });
@@ -136,6 +222,68 @@ describe('EnvironmentValidator', () => {
       await expect(validator.validate()).resolves.not.toThrow();
     });
 
+    it('should accept a toolchain within the required version range', async () => {
+      mockExec.mockResolvedValue({
+        stdout: 'Compactc version: 0.25.0',
+        stderr: '',
+      });
+
+      await expect(
+        validator.validate(undefined, '>=0.25.0 <0.27.0'),
+      ).resolves.toEqual({
+        devToolsVersion: 'Compactc version: 0.25.0',
+        toolchainVersion: 'Compactc version: 0.25.0',
+      });
+    });
+
+    it('should throw ToolchainVersionMismatchError outside the required version range', async () => {
+      mockExec.mockResolvedValue({
+        stdout: 'Compactc version: 0.24.0',
+        stderr: '',
+      });
+
+      const error = await validator
+        .validate('0.24.0', '>=0.25.0')
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ToolchainVersionMismatchError);
+      expect(error.message).toBe(
+        'Toolchain version 0.24.0 does not satisfy the required version range >=0.25.0',
+      );
+      expect(error.version).toBe('0.24.0');
+      expect(error.requiredVersion).toBe('>=0.25.0');
+      expect(error.files).toEqual([]);
+    });
+
+    it('should throw when the toolchain version cannot be parsed', async () => {
+      mockExec.mockResolvedValue({ stdout: 'unknown', stderr: '' });
+
+      await expect(validator.validate(undefined, '>=0.25.0')).rejects.toThrow(
+        EnvironmentError,
+      );
+      await expect(validator.validate(undefined, '>=0.25.0')).rejects.toThrow(
+        'Could not parse the toolchain version from "unknown"',
+      );
+    });
+
+    it('should throw EnvironmentError when a version command fails', async () => {
+      const cause = new Error(
+        'error: toolchain version 0.30.0 is not installed',
+      );
+      mockExec
+        .mockResolvedValueOnce({ stdout: 'compact 0.2.0', stderr: '' })
+        .mockResolvedValueOnce({ stdout: 'compact 0.2.0', stderr: '' })
+        .mockRejectedValueOnce(cause);
+
+      const error = await validator.validate('0.30.0').catch((err) => err);
+
+      expect(error).toBeInstanceOf(EnvironmentError);
+      expect(error.message).toBe(cause.message);
+      expect(error.cause).toBe(cause);
+      expect(error.code).toBe('ENVIRONMENT_CHECK_FAILED');
+      expect(error.exitCode).toBe(3);
+    });
+
     it('should throw CompactCliNotFoundError when CLI is not available', async () => {
       mockExec.mockRejectedValue(new Error('Command not found'));
 
@@ -238,21 +386,209 @@ describe('FileDiscovery', () => {
       expect(files).toEqual(['Ownable.compact']);
     });
   });
+
+  describe('selectCompactFiles', () => {
+    beforeEach(() => {
+      const dirents = (names: string[], dirs: string[] = []) => [
+        ...names.map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })),
+        ...dirs.map((name) => ({
+          name,
+          isFile: () => false,
+          isDirectory: () => true,
+        })),
+      ];
+      const tree: Record<string, unknown[]> = {
+        src: dirents(['Token.compact'], ['archive', 'test']),
+        'src/archive': dirents(['Old.compact']),
+        'src/test': dirents(['MockToken.compact']),
+      };
+      mockReaddir.mockImplementation((async (dir: string) => tree[dir]) as any);
+      mockReadFile.mockRejectedValue(new Error('ENOENT'));
+    });
+
+    it('should include every file without patterns', async () => {
+      const selections = await discovery.selectCompactFiles('src');
+
+      expect(selections).toEqual([
+        {
+          file: 'Token.compact',
+          included: true,
+          reason: 'no include patterns',
+        },
+        {
+          file: 'archive/Old.compact',
+          included: true,
+          reason: 'no include patterns',
+        },
+        {
+          file: 'test/MockToken.compact',
+          included: true,
+          reason: 'no include patterns',
+        },
+      ]);
+    });
+
+    it('should explain include and exclude matches', async () => {
+      discovery = new FileDiscovery('src', {
+        include: ['*.compact', 'archive'],
+        exclude: ['archive/Old.compact'],
+      });
+
+      const selections = await discovery.selectCompactFiles('src');
+
+      expect(selections).toEqual([
+        {
+          file: 'Token.compact',
+          included: true,
+          reason: 'matches include pattern "*.compact"',
+        },
+        {
+          file: 'archive/Old.compact',
+          included: false,
+          reason: 'matches exclude pattern "archive/Old.compact"',
+        },
+        {
+          file: 'test/MockToken.compact',
+          included: false,
+          reason: 'matches no include pattern',
+        },
+      ]);
+      expect(await discovery.getCompactFiles('src')).toEqual(['Token.compact']);
+    });
+
+    it('should skip files matching .compactignore', async () => {
+      mockReadFile.mockResolvedValue(
+        '# experimental sources\narchive\n\n**/Mock*.compact\n' as any,
+      );
+
+      const files = await discovery.getCompactFiles('src');
+
+      expect(mockReadFile).toHaveBeenCalledWith('src/.compactignore', 'utf8');
+      expect(files).toEqual(['Token.compact']);
+      expect((await discovery.selectCompactFiles('src'))[2]).toEqual({
+        file: 'test/MockToken.compact',
+        included: false,
+        reason: 'matches .compactignore pattern "**/Mock*.compact"',
+      });
+    });
+  });
+
+  describe('parseImports', () => {
+    it('should resolve file imports relative to the importing file', () => {
+      const source = [
+        'pragma language_version >= 0.17.0;',
+        'import CompactStandardLibrary;',
+        'import "../../FungibleToken" prefix FungibleToken_;',
+        'import "../../../utils/Utils.compact" prefix Utils_;',
+      ].join('\n');
+
+      const imports = discovery.parseImports(
+        source,
+        'token/test/mocks/MockFungibleToken.compact',
+      );
+
+      expect(imports).toEqual([
+        'token/FungibleToken.compact',
+        'utils/Utils.compact',
+      ]);
+    });
+
+    it('should treat include statements as dependencies', () => {
+      const imports = discovery.parseImports(
+        'include "./shared/Types";',
+        'token/Token.compact',
+      );
+
+      expect(imports).toEqual(['token/shared/Types.compact']);
+    });
+
+    it('should ignore imports inside comments', () => {
+      const source = [
+        '/**',
+        ' * import "./node_modules/@openzeppelin-compact/src/AccessControl" prefix AccessControl_;',
+        ' */',
+        '// import "./Commented";',
+        'import "../utils/Utils" prefix Utils_;',
+      ].join('\n');
+
+      const imports = discovery.parseImports(
+        source,
+        'access/AccessControl.compact',
+      );
+
+      expect(imports).toEqual(['utils/Utils.compact']);
+    });
+
+    it('should deduplicate repeated imports', () => {
+      const source = 'import "./A" prefix A_;\nimport "./A" prefix B_;';
+
+      expect(discovery.parseImports(source, 'Main.compact')).toEqual([
+        'A.compact',
+      ]);
+    });
+  });
+
+  describe('parseLanguageVersion', () => {
+    it('should return the range of the language_version pragma', () => {
+      expect(
+        discovery.parseLanguageVersion(
+          'pragma language_version >= 0.16.0 && <= 0.17.0;\nimport CompactStandardLibrary;',
+        ),
+      ).toBe('>= 0.16.0 && <= 0.17.0');
+    });
+
+    it('should ignore pragmas inside comments', () => {
+      expect(
+        discovery.parseLanguageVersion(
+          '// pragma language_version >= 0.17.0;\nimport CompactStandardLibrary;',
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getTransitiveImports', () => {
+    it('should follow imports recursively and skip unreadable files', async () => {
+      const sources: Record<string, string> = {
+        'src/token/test/mocks/MockToken.compact': 'import "../../Token";',
+        'src/token/Token.compact':
+          'import "../utils/Utils";\nimport "../security/Missing";',
+        'src/utils/Utils.compact': 'import "../token/Token";',
+      };
+      mockReadFile.mockImplementation((async (path: string) => {
+        if (!(path in sources)) throw new Error('ENOENT');
+        return sources[path];
+      }) as any);
+
+      const imports = await discovery.getTransitiveImports(
+        'token/test/mocks/MockToken.compact',
+      );
+
+      expect(imports).toEqual([
+        'security/Missing.compact',
+        'token/Token.compact',
+        'utils/Utils.compact',
+      ]);
+    });
+  });
 });
 
 describe('CompilerService', () => {
-  let mockExec: MockedFunction<ExecFunction>;
+  let mockSpawn: MockedFunction<SpawnFunction>;
   let service: CompilerService;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockExec = vi.fn();
-    service = new CompilerService(mockExec);
+    mockSpawn = vi.fn();
+    service = new CompilerService(mockSpawn);
   });
 
   describe('compileFile', () => {
     it('should compile file successfully with basic flags', async () => {
-      mockExec.mockResolvedValue({
+      mockSpawn.mockResolvedValue({
         stdout: 'Compilation successful',
         stderr: '',
       });
@@ -260,13 +596,15 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '--skip-zk');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith(
-        'compact compile --skip-zk "src/MyToken.compact" "artifacts/MyToken"',
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'compact',
+        ['compile', '--skip-zk', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: undefined, onLine: undefined },
       );
     });
 
     it('should compile file with version flag', async () => {
-      mockExec.mockResolvedValue({
+      mockSpawn.mockResolvedValue({
         stdout: 'Compilation successful',
         stderr: '',
       });
@@ -278,13 +616,38 @@ describe('CompilerService', () => {
       );
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith(
-        'compact compile +0.25.0 --skip-zk "src/MyToken.compact" "artifacts/MyToken"',
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          '+0.25.0',
+          '--skip-zk',
+          'src/MyToken.compact',
+          'artifacts/MyToken',
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('should mirror the source directory with the mirror layout', async () => {
+      mockSpawn.mockResolvedValue({ stdout: '', stderr: '' });
+      service = new CompilerService(mockSpawn, 'src', 'artifacts', 'mirror');
+
+      await service.compileFile('token/test/mocks/MockToken.compact', '');
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'compact',
+        [
+          'compile',
+          'src/token/test/mocks/MockToken.compact',
+          'artifacts/token/test/mocks/MockToken',
+        ],
+        expect.anything(),
       );
     });
 
     it('should handle empty flags', async () => {
-      mockExec.mockResolvedValue({
+      mockSpawn.mockResolvedValue({
         stdout: 'Compilation successful',
         stderr: '',
       });
@@ -292,13 +655,49 @@ describe('CompilerService', () => {
       const result = await service.compileFile('MyToken.compact', '');
 
       expect(result).toEqual({ stdout: 'Compilation successful', stderr: '' });
-      expect(mockExec).toHaveBeenCalledWith(
-        'compact compile "src/MyToken.compact" "artifacts/MyToken"',
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'compact',
+        ['compile', 'src/MyToken.compact', 'artifacts/MyToken'],
+        expect.anything(),
+      );
+    });
+
+    it('should pass paths with shell metacharacters verbatim', async () => {
+      mockSpawn.mockResolvedValue({ stdout: '', stderr: '' });
+
+      await service.compileFile(`it's "$HOME".compact`, '');
+
+      expect(mockSpawn.mock.calls[0][1]).toEqual([
+        'compile',
+        `src/it's "$HOME".compact`,
+        `artifacts/it's "$HOME"`,
+      ]);
+    });
+
+    it('should stream output lines to the listener', async () => {
+      mockSpawn.mockImplementation(async (_command, _args, options) => {
+        options?.onLine?.('Compactc version: 0.25.0', 'stdout');
+        options?.onLine?.('warning: unused', 'stderr');
+        return { stdout: '', stderr: '' };
+      });
+      const onLine = vi.fn();
+
+      await service.compileFile(
+        'MyToken.compact',
+        '',
+        undefined,
+        undefined,
+        onLine,
       );
+
+      expect(onLine.mock.calls).toEqual([
+        ['Compactc version: 0.25.0', 'stdout'],
+        ['warning: unused', 'stderr'],
+      ]);
     });
 
     it('should throw CompilationError when compilation fails', async () => {
-      mockExec.mockRejectedValue(new Error('Syntax error on line 10'));
+      mockSpawn.mockRejectedValue(new Error('Syntax error on line 10'));
 
       await expect(
         service.compileFile('MyToken.compact', '--skip-zk'),
@@ -306,7 +705,7 @@ describe('CompilerService', () => {
     });
 
     it('should include file path in CompilationError', async () => {
-      mockExec.mockRejectedValue(new Error('Syntax error'));
+      mockSpawn.mockRejectedValue(new Error('Syntax error'));
 
       try {
         await service.compileFile('MyToken.compact', '--skip-zk');
@@ -316,9 +715,43 @@ describe('CompilerService', () => {
       }
     });
 
+    it('should attach diagnostics parsed from compactc output', async () => {
+      const execError = Object.assign(new Error('Command failed'), {
+        stdout: 'Compactc version: 0.25.0',
+        stderr:
+          'Exception: src/MyToken.compact line 12 char 5:\n  unbound identifier foo',
+      });
+      mockSpawn.mockRejectedValue(execError);
+
+      const error = await service
+        .compileFile('MyToken.compact', '--skip-zk')
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(CompilationError);
+      expect(error.diagnostics).toEqual([
+        {
+          file: 'src/MyToken.compact',
+          line: 12,
+          column: 5,
+          severity: 'error',
+          message: 'unbound identifier foo',
+        },
+      ]);
+    });
+
+    it('should attach no diagnostics for non-process errors', async () => {
+      mockSpawn.mockRejectedValue(new Error('spawn failed'));
+
+      const error = await service
+        .compileFile('MyToken.compact', '--skip-zk')
+        .catch((err) => err);
+
+      expect(error.diagnostics).toEqual([]);
+    });
+
     it('should include cause in CompilationError', async () => {
       const mockError = new Error('Syntax error');
-      mockExec.mockRejectedValue(mockError);
+      mockSpawn.mockRejectedValue(mockError);
 
       try {
         await service.compileFile('MyToken.compact', '--skip-zk');
@@ -327,6 +760,58 @@ describe('CompilerService', () => {
         expect((error as CompilationError).cause).toEqual(mockError);
       }
     });
+
+    it('should throw CompilationTimeoutError and remove the output when the timeout elapses', async () => {
+      mockSpawn.mockImplementation((_command, _args, options) =>
+        execUntilAborted('', options),
+      );
+
+      const error = await service
+        .compileFile('MyToken.compact', '--skip-zk', undefined, 10)
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(CompilationTimeoutError);
+      expect(error.file).toBe('MyToken.compact');
+      expect(error.timeoutMs).toBe(10);
+      expect(error.message).toBe(
+        'Failed to compile MyToken.compact: timed out after 0.01s',
+      );
+      expect(mockRm).toHaveBeenCalledWith('artifacts/MyToken', {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should rethrow the abort reason and remove the output when cancelled', async () => {
+      const controller = new AbortController();
+      mockSpawn.mockImplementation((_command, _args, options) =>
+        execUntilAborted('', options),
+      );
+      service = new CompilerService(
+        mockSpawn,
+        'src',
+        'artifacts',
+        'flat',
+        controller.signal,
+      );
+
+      const compilation = service
+        .compileFile('MyToken.compact', '', undefined, 60_000)
+        .catch((err) => err);
+      const reason = new Error('Received SIGINT');
+      controller.abort(reason);
+
+      expect(await compilation).toBe(reason);
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'compact',
+        ['compile', 'src/MyToken.compact', 'artifacts/MyToken'],
+        { signal: expect.any(AbortSignal), onLine: undefined },
+      );
+      expect(mockRm).toHaveBeenCalledWith('artifacts/MyToken', {
+        recursive: true,
+        force: true,
+      });
+    });
   });
 });
 
@@ -358,6 +843,63 @@ describe('UIService', () => {
       expect(mockColorFn).toHaveBeenCalledWith('');
       expect(console.log).toHaveBeenCalledWith('colored()');
     });
+
+    it('should print nothing when silent', () => {
+      UIService.silent = true;
+      try {
+        UIService.printOutput('line 1', (text) => text);
+      } finally {
+        UIService.silent = false;
+      }
+
+      expect(console.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('printDiagnostics', () => {
+    const diagnostic = {
+      file: 'src/MyToken.compact',
+      line: 2,
+      column: 3,
+      severity: 'error' as const,
+      message: 'unbound identifier foo',
+    };
+
+    it('should print diagnostics with a source excerpt', () => {
+      mockReadFileSync.mockReturnValue('line one\n  foo;\n' as any);
+      const mockColorFn = vi.fn((text: string) => text);
+
+      UIService.printDiagnostics([diagnostic], mockColorFn);
+
+      expect(mockReadFileSync).toHaveBeenCalledWith(
+        'src/MyToken.compact',
+        'utf8',
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        [
+          '    error: unbound identifier foo',
+          '     --> src/MyToken.compact:2:3',
+          '      |',
+          '    2 |   foo;',
+          '      |   ^',
+        ].join('\n'),
+      );
+    });
+
+    it('should print only the location when the source is unreadable', () => {
+      mockReadFileSync.mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+
+      UIService.printDiagnostics([diagnostic], (text) => text);
+
+      expect(console.log).toHaveBeenCalledWith(
+        [
+          '    error: unbound identifier foo',
+          '     --> src/MyToken.compact:2:3',
+        ].join('\n'),
+      );
+    });
   });
 
   describe('displayEnvInfo', () => {
@@ -398,6 +940,37 @@ describe('UIService', () => {
       expect(mockSpinner.info).not.toHaveBeenCalledWith(
         expect.stringContaining('Using toolchain version'),
       );
+      expect(mockSpinner.info).not.toHaveBeenCalledWith(
+        expect.stringContaining('CONFIG'),
+      );
+    });
+
+    it('should display the resolved configuration', () => {
+      UIService.displayEnvInfo(
+        'compact 0.1.0',
+        'Compactc 0.25.0',
+        undefined,
+        undefined,
+        {
+          file: 'compact.config.json',
+          srcDir: 'contracts/src',
+          artifactsDir: 'contracts/artifacts',
+          flags: '--skip-zk',
+        },
+      );
+
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] CONFIG: compact.config.json',
+      );
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] SRC_DIR: contracts/src',
+      );
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] ARTIFACTS_DIR: contracts/artifacts',
+      );
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] FLAGS: --skip-zk',
+      );
     });
   });
 
@@ -419,6 +992,34 @@ describe('UIService', () => {
     });
   });
 
+  describe('showSummary', () => {
+    it('should list every file and the totals', () => {
+      UIService.showSummary([
+        { file: 'A.compact', status: 'passed' },
+        { file: 'B.compact', status: 'failed' },
+        { file: 'C.compact', status: 'cached' },
+        { file: 'D.compact', status: 'skipped' },
+      ]);
+
+      expect(mockSpinner.info).toHaveBeenCalledWith('[COMPILE] Summary:');
+      expect(console.log).toHaveBeenCalledWith('    passed   A.compact');
+      expect(console.log).toHaveBeenCalledWith('    failed   B.compact');
+      expect(console.log).toHaveBeenCalledWith('    cached   C.compact');
+      expect(console.log).toHaveBeenCalledWith('    skipped  D.compact');
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] 1 passed, 1 failed, 2 skipped',
+      );
+    });
+
+    it('should report success when nothing failed', () => {
+      UIService.showSummary([{ file: 'A.compact', status: 'passed' }]);
+
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        '[COMPILE] 1 passed, 0 failed, 0 skipped',
+      );
+    });
+  });
+
   describe('showNoFiles', () => {
     it('should show no files message with target directory', () => {
       UIService.showNoFiles('security');
@@ -506,6 +1107,7 @@ describe('CompactCompiler', () => {
         '--dir',
         'security',
         '--skip-zk',
+        '--',
         '--verbose',
       ]);
 
@@ -520,13 +1122,23 @@ describe('CompactCompiler', () => {
       expect(compiler.testFlags).toBe('');
     });
 
+    it.each(['+latest', '+0.25', '+0.25.0;rm'])(
+      'should throw error for invalid version %s',
+      (version) => {
+        expect(() => CompactCompiler.fromArgs([version])).toThrow(
+          `${version} is not a toolchain version (e.g. +0.25.0)`,
+        );
+      },
+    );
+
     it('should parse complex arguments', () => {
       compiler = CompactCompiler.fromArgs([
         '--dir',
         'security',
         '--skip-zk',
-        '--verbose',
         '+0.25.0',
+        '--',
+        '--verbose',
       ]);
 
       expect(compiler.testTargetDir).toBe('security');
@@ -535,32 +1147,569 @@ describe('CompactCompiler', () => {
     });
 
     it('should combine environment variables with CLI flags', () => {
-      compiler = CompactCompiler.fromArgs(['--dir', 'access', '--verbose'], {
-        SKIP_ZK: 'true',
-      });
+      compiler = CompactCompiler.fromArgs(
+        ['--dir', 'access', '--', '--verbose'],
+        { SKIP_ZK: 'true' },
+      );
 
       expect(compiler.testTargetDir).toBe('access');
       expect(compiler.testFlags).toBe('--skip-zk --verbose');
     });
 
+    it('should leave --verbose to the logger', () => {
+      compiler = CompactCompiler.fromArgs(['--skip-zk', '--verbose']);
+
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
     it('should deduplicate flags when both env var and CLI flag are present', () => {
-      compiler = CompactCompiler.fromArgs(['--skip-zk', '--verbose'], {
+      compiler = CompactCompiler.fromArgs(['--skip-zk', '--', '--verbose'], {
         SKIP_ZK: 'true',
       });
 
       expect(compiler.testFlags).toBe('--skip-zk --verbose');
     });
 
-    it('should throw error for --dir without argument', () => {
-      expect(() => CompactCompiler.fromArgs(['--dir'])).toThrow(
-        '--dir flag requires a directory name',
-      );
-    });
+    it('should parse repeated --dir flags', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--dir',
+        'access',
+        '--skip-zk',
+        '--dir',
+        'token',
+      ]);
 
-    it('should throw error for --dir followed by another flag', () => {
-      expect(() => CompactCompiler.fromArgs(['--dir', '--skip-zk'])).toThrow(
-        '--dir flag requires a directory name',
-      );
+      expect(compiler.testTargetDir).toEqual(['access', 'token']);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should parse positional .compact files', () => {
+      compiler = CompactCompiler.fromArgs([
+        'src/token/FungibleToken.compact',
+        '--skip-zk',
+        'access/Ownable.compact',
+      ]);
+
+      expect(compiler.testTargetDir).toBeUndefined();
+      expect(compiler.testFiles).toEqual([
+        'token/FungibleToken.compact',
+        'access/Ownable.compact',
+      ]);
+    });
+
+    it('should throw error for a positional argument that is not a .compact file', () => {
+      expect(() => CompactCompiler.fromArgs(['token'])).toThrow(
+        'Positional argument requires a .compact file, got "token" (use --dir for directories)',
+      );
+    });
+
+    it('should pass the arguments after -- to compactc', () => {
+      compiler = CompactCompiler.fromArgs(
+        ['--dir', 'token', '--', '--vscode', '--skip-zk', '--dir'],
+        { SKIP_ZK: 'true' },
+      );
+
+      expect(compiler.testTargetDir).toBe('token');
+      expect(compiler.testFlags).toBe('--skip-zk --vscode --dir');
+    });
+
+    it('should reject unknown options with a suggestion', () => {
+      expect(() => CompactCompiler.fromArgs(['--skipzk'])).toThrow(
+        'Unknown option --skipzk. Did you mean --skip-zk?',
+      );
+    });
+
+    it('should reject unknown options that look like compactc flags', () => {
+      expect(() => CompactCompiler.fromArgs(['--vscode'])).toThrow(
+        'Unknown option --vscode. Pass compactc flags after "--", e.g. compact-compiler -- --vscode',
+      );
+    });
+
+    it.each([
+      [['--dir']],
+      [['--jobs', '0']],
+      [['--exec', 'echo']],
+      [['token']],
+    ])('should throw UsageError for %j', (args) => {
+      expect(() => CompactCompiler.fromArgs(args)).toThrow(UsageError);
+    });
+
+    it('should parse --prune and --dry-run', () => {
+      compiler = CompactCompiler.fromArgs(['--prune', '--dry-run']);
+
+      expect(compiler.testPrune).toBe(true);
+      expect(compiler.testDryRun).toBe(true);
+    });
+
+    it('should throw error for --dry-run without --prune', () => {
+      expect(() => CompactCompiler.fromArgs(['--dry-run'])).toThrow(
+        '--dry-run flag requires --prune',
+      );
+    });
+
+    it('should throw error for --prune with --check', () => {
+      expect(() => CompactCompiler.fromArgs(['--prune', '--check'])).toThrow(
+        '--prune flag requires a one-off or watch build, not --check or --matrix',
+      );
+    });
+
+    it('should throw error for --dir without argument', () => {
+      expect(() => CompactCompiler.fromArgs(['--dir'])).toThrow(
+        '--dir flag requires a directory name',
+      );
+    });
+
+    it('should throw error for --dir followed by another flag', () => {
+      expect(() => CompactCompiler.fromArgs(['--dir', '--skip-zk'])).toThrow(
+        '--dir flag requires a directory name',
+      );
+    });
+
+    it('should default to a single job', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testJobs).toBe(1);
+    });
+
+    it.each([['--jobs'], ['-j']])('should parse %s flag', (flag) => {
+      compiler = CompactCompiler.fromArgs([flag, '4', '--skip-zk']);
+
+      expect(compiler.testJobs).toBe(4);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should resolve --jobs auto to a positive job count', () => {
+      compiler = CompactCompiler.fromArgs(['--jobs', 'auto']);
+
+      expect(compiler.testJobs).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should read COMPACT_JOBS environment variable', () => {
+      compiler = CompactCompiler.fromArgs([], { COMPACT_JOBS: '3' });
+
+      expect(compiler.testJobs).toBe(3);
+    });
+
+    it('should let COMPACT_JOBS override the configured jobs', () => {
+      const config = { ...resolveConfig(), jobs: 4 };
+
+      expect(CompactCompiler.fromArgs([], {}, config).testJobs).toBe(4);
+      expect(
+        CompactCompiler.fromArgs([], { COMPACT_JOBS: '2' }, config).testJobs,
+      ).toBe(2);
+    });
+
+    it('should let --jobs override COMPACT_JOBS', () => {
+      compiler = CompactCompiler.fromArgs(['--jobs', '2'], {
+        COMPACT_JOBS: '8',
+      });
+
+      expect(compiler.testJobs).toBe(2);
+    });
+
+    it('should throw error for --jobs without argument', () => {
+      expect(() => CompactCompiler.fromArgs(['--jobs'])).toThrow(
+        '--jobs flag requires a positive integer or "auto"',
+      );
+    });
+
+    it.each([['0'], ['-2'], ['1.5'], ['many']])(
+      'should throw error for invalid --jobs value %s',
+      (value) => {
+        expect(() => CompactCompiler.fromArgs(['--jobs', value])).toThrow(
+          '--jobs flag requires a positive integer or "auto"',
+        );
+      },
+    );
+
+    it('should parse --timeout flag as seconds', () => {
+      compiler = CompactCompiler.fromArgs(['--timeout', '90', '--skip-zk']);
+
+      expect(compiler.testTimeout).toBe(90_000);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should round a fractional --timeout to whole milliseconds', () => {
+      compiler = CompactCompiler.fromArgs(['--timeout', '2.5004']);
+
+      expect(compiler.testTimeout).toBe(2500);
+    });
+
+    it('should throw error for a --timeout above the AbortSignal limit', () => {
+      expect(() => CompactCompiler.fromArgs(['--timeout', '5000000'])).toThrow(
+        '--timeout flag must be at most 4294967 seconds',
+      );
+    });
+
+    it.each([[[]], [['0']], [['-5']], [['soon']]])(
+      'should throw error for invalid --timeout arguments %j',
+      (rest) => {
+        expect(() => CompactCompiler.fromArgs(['--timeout', ...rest])).toThrow(
+          '--timeout flag requires a positive number of seconds',
+        );
+      },
+    );
+
+    it('should parse --matrix toolchain versions with or without +', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--matrix',
+        '+0.25.0,0.26.0,+0.25.0',
+        '--skip-zk',
+        '+0.24.0',
+      ]);
+
+      expect(compiler.testMatrix).toEqual(['0.25.0', '0.26.0']);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it.each([[[]], [['--skip-zk']], [['+0.25.0,']], [['latest']]])(
+      'should throw error for invalid --matrix arguments %j',
+      (rest) => {
+        expect(() => CompactCompiler.fromArgs(['--matrix', ...rest])).toThrow(
+          '--matrix flag requires comma-separated toolchain versions (e.g. +0.25.0,+0.26.0)',
+        );
+      },
+    );
+
+    it('should reject --matrix with --watch or a reporter other than json', () => {
+      expect(() =>
+        CompactCompiler.fromArgs(['--matrix', '+0.25.0', '--watch']),
+      ).toThrow('--matrix flag requires a one-off build, not --watch');
+      expect(() =>
+        CompactCompiler.fromArgs([
+          '--matrix',
+          '+0.25.0',
+          '--reporter',
+          'junit',
+        ]),
+      ).toThrow('--matrix flag requires the pretty or json reporter');
+    });
+
+    it('should parse --check and --include-keys without passing them to compactc', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--check',
+        '--include-keys',
+        '--skip-zk',
+      ]);
+
+      expect(compiler.testCheck).toBe(true);
+      expect(compiler.testIncludeKeys).toBe(true);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should not check by default', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testCheck).toBe(false);
+      expect(compiler.testIncludeKeys).toBe(false);
+    });
+
+    it('should reject --include-keys without --check', () => {
+      expect(() => CompactCompiler.fromArgs(['--include-keys'])).toThrow(
+        '--include-keys flag requires --check',
+      );
+    });
+
+    it('should reject --check with --watch, --matrix or a reporter other than json', () => {
+      expect(() => CompactCompiler.fromArgs(['--check', '--watch'])).toThrow(
+        '--check flag requires a one-off build, not --watch or --matrix',
+      );
+      expect(() =>
+        CompactCompiler.fromArgs(['--check', '--matrix', '+0.25.0']),
+      ).toThrow(
+        '--check flag requires a one-off build, not --watch or --matrix',
+      );
+      expect(() =>
+        CompactCompiler.fromArgs(['--check', '--reporter', 'sarif']),
+      ).toThrow('--check flag requires the pretty or json reporter');
+    });
+
+    it('should parse --force flag without passing it to compactc', () => {
+      compiler = CompactCompiler.fromArgs(['--force', '--skip-zk']);
+
+      expect(compiler.testForce).toBe(true);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should not force recompilation by default', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testForce).toBe(false);
+    });
+
+    it('should parse --keep-going flag without passing it to compactc', () => {
+      compiler = CompactCompiler.fromArgs(['--keep-going', '--skip-zk']);
+
+      expect(compiler.testKeepGoing).toBe(true);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should be fail-fast by default', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testKeepGoing).toBe(false);
+    });
+
+    it('should parse --affected files until the next flag', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--affected',
+        'src/utils/Utils.compact',
+        'security/Pausable.compact',
+        '--skip-zk',
+      ]);
+
+      expect(compiler.testAffected).toEqual([
+        'utils/Utils.compact',
+        'security/Pausable.compact',
+      ]);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should throw error for --affected without files', () => {
+      expect(() => CompactCompiler.fromArgs(['--affected', '+0.25.0'])).toThrow(
+        '--affected flag requires at least one file',
+      );
+    });
+
+    it('should parse --changed-since flag', () => {
+      compiler = CompactCompiler.fromArgs(['--changed-since', 'origin/main']);
+
+      expect(compiler.testChangedSince).toBe('origin/main');
+    });
+
+    it('should throw error for --changed-since without ref', () => {
+      expect(() => CompactCompiler.fromArgs(['--changed-since'])).toThrow(
+        '--changed-since flag requires a git ref',
+      );
+    });
+
+    it.each([['json'], ['dot']])('should parse --graph %s', (format) => {
+      compiler = CompactCompiler.fromArgs(['--graph', format]);
+
+      expect(compiler.testGraph).toBe(format);
+    });
+
+    it('should throw error for unsupported --graph format', () => {
+      expect(() => CompactCompiler.fromArgs(['--graph', 'svg'])).toThrow(
+        '--graph flag requires a format (json or dot)',
+      );
+    });
+
+    it('should parse --reporter and --report-file', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--reporter',
+        'junit',
+        '--report-file',
+        'reports/junit.xml',
+        '--skip-zk',
+      ]);
+
+      expect(compiler.testReporter).toBe('junit');
+      expect(compiler.testReportFile).toBe('reports/junit.xml');
+      expect(compiler.testFlags).toBe('--skip-zk');
+      expect(compiler.reportsToStdout).toBe(false);
+    });
+
+    it('should default to the pretty reporter', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testReporter).toBe('pretty');
+      expect(compiler.reportsToStdout).toBe(false);
+    });
+
+    it('should report to stdout without --report-file', () => {
+      compiler = CompactCompiler.fromArgs(['--reporter', 'json']);
+
+      expect(compiler.reportsToStdout).toBe(true);
+    });
+
+    it('should throw error for unknown --reporter', () => {
+      expect(() => CompactCompiler.fromArgs(['--reporter', 'xml'])).toThrow(
+        '--reporter flag requires a reporter (pretty, json, junit, github, sarif)',
+      );
+    });
+
+    it('should throw error for --report-file without a path', () => {
+      expect(() =>
+        CompactCompiler.fromArgs(['--reporter', 'json', '--report-file']),
+      ).toThrow('--report-file flag requires a file path');
+    });
+
+    it('should throw error for --report-file with the pretty reporter', () => {
+      expect(() =>
+        CompactCompiler.fromArgs(['--report-file', 'report.txt']),
+      ).toThrow('--report-file flag requires a machine-readable --reporter');
+    });
+
+    it('should parse --include, --exclude and --list', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--include',
+        'token/**',
+        'access',
+        '--exclude',
+        '**/test/mocks',
+        '--list',
+        '--skip-zk',
+      ]);
+
+      expect(compiler.testInclude).toEqual(['token/**', 'access']);
+      expect(compiler.testExclude).toEqual(['**/test/mocks']);
+      expect(compiler.testList).toBe(true);
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should add --include and --exclude to the configured globs', () => {
+      compiler = CompactCompiler.fromArgs(
+        ['--exclude', 'archive'],
+        {},
+        {
+          srcDir: 'src',
+          artifactsDir: 'artifacts',
+          flags: [],
+          include: ['token'],
+          exclude: ['**/test/mocks'],
+          overrides: {},
+        },
+      );
+
+      expect(compiler.testInclude).toEqual(['token']);
+      expect(compiler.testExclude).toEqual(['**/test/mocks', 'archive']);
+    });
+
+    it('should parse --layout', () => {
+      compiler = CompactCompiler.fromArgs(['--layout', 'mirror']);
+
+      expect(compiler.testLayout).toBe('mirror');
+    });
+
+    it('should throw error for unknown --layout', () => {
+      expect(() => CompactCompiler.fromArgs(['--layout', 'nested'])).toThrow(
+        '--layout flag requires a layout (flat or mirror)',
+      );
+    });
+
+    it('should throw error for --include without a pattern', () => {
+      expect(() => CompactCompiler.fromArgs(['--include', '--list'])).toThrow(
+        '--include flag requires at least one glob pattern',
+      );
+    });
+
+    it('should parse --watch and --exec', () => {
+      compiler = CompactCompiler.fromArgs([
+        '--dir',
+        'token',
+        '--watch',
+        '--exec',
+        'yarn vitest related --run',
+        '--skip-zk',
+      ]);
+
+      expect(compiler.watchMode).toBe(true);
+      expect(compiler.watchExec).toBe('yarn vitest related --run');
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should not watch by default', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.watchMode).toBe(false);
+      expect(compiler.watchExec).toBeUndefined();
+    });
+
+    it('should throw error for --exec without a command', () => {
+      expect(() => CompactCompiler.fromArgs(['--watch', '--exec'])).toThrow(
+        '--exec flag requires a command',
+      );
+    });
+
+    it('should throw error for --exec without --watch', () => {
+      expect(() => CompactCompiler.fromArgs(['--exec', 'yarn test'])).toThrow(
+        '--exec flag requires --watch',
+      );
+    });
+
+    it('should apply a built-in --profile without a configuration', () => {
+      compiler = CompactCompiler.fromArgs(['--profile', 'test']);
+
+      expect(compiler.testFlags).toBe('--skip-zk');
+      expect(compiler.testArtifactsDir).toBe('artifacts/test');
+    });
+
+    it('should throw error for invalid COMPACT_JOBS value', () => {
+      expect(() =>
+        CompactCompiler.fromArgs([], { COMPACT_JOBS: 'lots' }),
+      ).toThrow('COMPACT_JOBS requires a positive integer or "auto"');
+    });
+
+    describe('with a project configuration', () => {
+      const config = {
+        srcDir: 'contracts',
+        artifactsDir: 'build/artifacts',
+        flags: ['--skip-zk', '--trace-passes'],
+        version: '0.24.0',
+        include: [],
+        exclude: ['archive'],
+        overrides: {},
+        file: '/project/compact.config.json',
+      };
+
+      it('should use the configured flags and version', () => {
+        compiler = CompactCompiler.fromArgs([], {}, config);
+
+        expect(compiler.testFlags).toBe('--skip-zk --trace-passes');
+        expect(compiler.testVersion).toBe('0.24.0');
+        expect(compiler.srcDir).toBe('contracts');
+      });
+
+      it('should append env and CLI flags to the configured flags', () => {
+        compiler = CompactCompiler.fromArgs(
+          ['--skip-zk', '--', '--verbose'],
+          { SKIP_ZK: 'true' },
+          config,
+        );
+
+        expect(compiler.testFlags).toBe('--skip-zk --trace-passes --verbose');
+      });
+
+      it('should apply a --profile to the configuration', () => {
+        compiler = CompactCompiler.fromArgs(
+          ['--profile', 'release', '--exclude', 'utils'],
+          {},
+          config,
+        );
+
+        expect(compiler.testProfile).toBe('release');
+        expect(compiler.testArtifactsDir).toBe('build/artifacts/release');
+        expect(compiler.testExclude).toEqual([
+          'archive',
+          '**/test',
+          '**/Mock*.compact',
+          'utils',
+        ]);
+        expect(compiler.testFlags).toBe('--skip-zk --trace-passes');
+      });
+
+      it('should throw error for an unknown --profile', () => {
+        expect(() =>
+          CompactCompiler.fromArgs(['--profile', 'staging'], {}, config),
+        ).toThrow('--profile flag requires a known profile (test, release)');
+      });
+
+      it('should let a CLI version override the configured version', () => {
+        compiler = CompactCompiler.fromArgs(['+0.25.0'], {}, config);
+
+        expect(compiler.testVersion).toBe('0.25.0');
+      });
+
+      it('should relativize --affected files to the configured srcDir', () => {
+        compiler = CompactCompiler.fromArgs(
+          ['--affected', 'contracts/utils/Utils.compact'],
+          {},
+          config,
+        );
+
+        expect(compiler.testAffected).toEqual(['utils/Utils.compact']);
+      });
     });
   });
 
@@ -601,6 +1750,7 @@ describe('CompactCompiler', () => {
         'Compactc version: 0.25.0',
         'security',
         '0.25.0',
+        undefined, // no config file
       );
 
       displaySpy.mockRestore();
@@ -675,6 +1825,7 @@ describe('CompactCompiler', () => {
         'Compactc version: 0.25.0',
         undefined, // no targetDir
         '0.25.0',
+        undefined, // no config file
       );
 
       displaySpy.mockRestore();
@@ -703,6 +1854,7 @@ describe('CompactCompiler', () => {
         'Compactc version: 0.25.0',
         undefined,
         undefined,
+        undefined,
       );
 
       displaySpy.mockRestore();
@@ -789,32 +1941,1608 @@ describe('CompactCompiler', () => {
     });
   });
 
-  describe('Real-world scenarios', () => {
+  describe('compile with cache', () => {
     beforeEach(() => {
-      const mockDirents = [
+      mockReaddir.mockResolvedValue([
         {
-          name: 'AccessControl.compact',
+          name: 'MyToken.compact',
           isFile: () => true,
           isDirectory: () => false,
         },
-      ];
-      mockReaddir.mockResolvedValue(mockDirents as any);
+      ] as any);
+      mockReadFile.mockResolvedValue('circuit foo(): [] {}' as any);
     });
 
-    it('should handle turbo compact command', () => {
-      compiler = CompactCompiler.fromArgs([]);
-
-      expect(compiler.testFlags).toBe('');
-      expect(compiler.testTargetDir).toBeUndefined();
+    afterEach(() => {
+      vi.restoreAllMocks();
     });
 
-    it('should handle SKIP_ZK=true turbo compact command', () => {
-      compiler = CompactCompiler.fromArgs([], { SKIP_ZK: 'true' });
+    const compileCommands = () =>
+      mockExec.mock.calls
+        .map(([command]) => command)
+        .filter((command) => command.includes('src/MyToken.compact'));
 
-      expect(compiler.testFlags).toBe('--skip-zk');
-    });
+    it('should skip files whose cached inputs are unchanged', async () => {
+      vi.spyOn(CompilationCache.prototype, 'isUpToDate').mockReturnValue(true);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
 
-    it('should handle turbo compact:access command', () => {
+      await compiler.compile();
+
+      expect(compileCommands()).toHaveLength(0);
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] [1/1] Cached MyToken.compact',
+      );
+    });
+
+    it('should recompile cached files with force', async () => {
+      vi.spyOn(CompilationCache.prototype, 'isUpToDate').mockReturnValue(true);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        force: true,
+      });
+
+      await compiler.compile();
+
+      expect(compileCommands()).toHaveLength(1);
+    });
+
+    it('should record successful compilations and save the cache', async () => {
+      const setSpy = vi.spyOn(CompilationCache.prototype, 'set');
+      const saveSpy = vi.spyOn(CompilationCache.prototype, 'save');
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+      );
+
+      await compiler.compile();
+
+      expect(setSpy).toHaveBeenCalledWith(
+        'MyToken.compact',
+        expect.objectContaining({ flags: '--skip-zk' }),
+      );
+      expect(saveSpy).toHaveBeenCalled();
+    });
+
+    it('should forget failed files and still save the cache', async () => {
+      const deleteSpy = vi.spyOn(CompilationCache.prototype, 'delete');
+      const saveSpy = vi.spyOn(CompilationCache.prototype, 'save');
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.includes('src/MyToken.compact')) {
+          throw new Error('Syntax error');
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await expect(compiler.compile()).rejects.toThrow(CompilationError);
+
+      expect(deleteSpy).toHaveBeenCalledWith('MyToken.compact');
+      expect(saveSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('compile with artifact manifest', () => {
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue([
+        {
+          name: 'MyToken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExec.mockResolvedValue({
+        stdout: 'Compactc version: 0.25.0',
+        stderr: '',
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should record compiled files with their flags and toolchain version', async () => {
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+      );
+
+      await compiler.compile();
+
+      expect(mockManifest.load).toHaveBeenCalled();
+      expect(mockManifest.update).toHaveBeenCalledWith(
+        'MyToken.compact',
+        '--skip-zk',
+        '0.25.0',
+      );
+      expect(mockManifest.save).toHaveBeenCalled();
+    });
+
+    it('should keep the recorded entry of cached files', async () => {
+      vi.spyOn(CompilationCache.prototype, 'isUpToDate').mockReturnValue(true);
+      mockManifest.get.mockReturnValue({
+        flags: '',
+        toolchainVersion: '0.25.0',
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await compiler.compile();
+
+      expect(mockManifest.update).not.toHaveBeenCalled();
+      expect(mockManifest.save).toHaveBeenCalled();
+    });
+
+    it('should describe cached files missing from the manifest', async () => {
+      vi.spyOn(CompilationCache.prototype, 'isUpToDate').mockReturnValue(true);
+      mockManifest.get.mockReturnValue(undefined);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await compiler.compile();
+
+      expect(mockManifest.update).toHaveBeenCalledWith(
+        'MyToken.compact',
+        '',
+        '0.25.0',
+      );
+    });
+
+    it('should not write the manifest when a file fails', async () => {
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.includes('src/MyToken.compact')) {
+          throw new Error('Syntax error');
+        }
+        return { stdout: 'Compactc version: 0.25.0', stderr: '' };
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await expect(compiler.compile()).rejects.toThrow(CompilationError);
+
+      expect(mockManifest.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compile affected files', () => {
+    const sources: Record<string, string> = {
+      'src/utils/Utils.compact': '',
+      'src/security/Pausable.compact': '',
+      'src/token/FungibleToken.compact': 'import "../utils/Utils";',
+      'src/token/test/mocks/MockFungibleToken.compact':
+        'import "../../FungibleToken";',
+    };
+
+    beforeEach(() => {
+      const dirents = (names: string[], dirs: string[] = []) => [
+        ...names.map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })),
+        ...dirs.map((name) => ({
+          name,
+          isFile: () => false,
+          isDirectory: () => true,
+        })),
+      ];
+      const tree: Record<string, unknown[]> = {
+        src: dirents([], ['token', 'security', 'utils']),
+        'src/token': dirents(['FungibleToken.compact'], ['test']),
+        'src/token/test': dirents([], ['mocks']),
+        'src/token/test/mocks': dirents(['MockFungibleToken.compact']),
+        'src/security': dirents(['Pausable.compact']),
+        'src/utils': dirents(['Utils.compact']),
+      };
+      mockReaddir.mockImplementation((async (dir: string) => tree[dir]) as any);
+      mockReadFile.mockImplementation((async (path: string) => {
+        if (!(path in sources)) throw new Error('ENOENT');
+        return sources[path];
+      }) as any);
+    });
+
+    const compiledFiles = (exec: MockedFunction<ExecFunction>) =>
+      exec.mock.calls
+        .map(([command]) => command.match(/ src\/(\S+)/)?.[1])
+        .filter(Boolean);
+
+    it('should compile changed files and their dependents in dependency order', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        affected: ['src/utils/Utils.compact'],
+      });
+
+      await compiler.compile();
+
+      expect(compiledFiles(mockExec)).toEqual([
+        'utils/Utils.compact',
+        'token/FungibleToken.compact',
+        'token/test/mocks/MockFungibleToken.compact',
+      ]);
+    });
+
+    it('should limit affected files to the target directory', async () => {
+      mockExistsSync.mockReturnValue(true);
+      compiler = new CompactCompiler('', 'token', undefined, mockExec, {
+        affected: ['utils/Utils.compact'],
+      });
+
+      await compiler.compile();
+
+      expect(compiledFiles(mockExec)).toEqual([
+        'token/FungibleToken.compact',
+        'token/test/mocks/MockFungibleToken.compact',
+      ]);
+    });
+
+    it('should report when nothing is affected', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        affected: ['docs/README.compact'],
+      });
+
+      await compiler.compile();
+
+      expect(compiledFiles(mockExec)).toEqual([]);
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] No .compact files affected by: docs/README.compact',
+      );
+    });
+
+    it('should select files changed since a git ref', async () => {
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.startsWith('git diff')) {
+          return {
+            stdout: 'src/token/FungibleToken.compact\nREADME.md\n',
+            stderr: '',
+          };
+        }
+        if (command.startsWith('git ls-files')) {
+          return { stdout: 'src/security/Pausable.compact\n', stderr: '' };
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        changedSince: 'main',
+      });
+
+      await compiler.compile();
+
+      expect(mockExec).toHaveBeenCalledWith(
+        'git diff --name-only --relative main -- src',
+      );
+      expect(compiledFiles(mockExec)).toEqual([
+        'token/FungibleToken.compact',
+        'token/test/mocks/MockFungibleToken.compact',
+        'security/Pausable.compact',
+      ]);
+    });
+
+    it('should pass a hostile ref to git as a single argument', async () => {
+      const mockSpawn = vi.fn(async () => ({ stdout: '', stderr: '' }));
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        changedSince: 'HEAD$(touch PWNED)',
+        spawnFn: mockSpawn,
+      });
+
+      await compiler.compile();
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        'git',
+        [
+          'diff',
+          '--name-only',
+          '--relative',
+          'HEAD$(touch PWNED)',
+          '--',
+          'src',
+        ],
+        expect.anything(),
+      );
+      expect(mockExec).not.toHaveBeenCalledWith(
+        expect.stringContaining('touch PWNED'),
+      );
+    });
+
+    it('should reject refs that git would take for options', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        changedSince: '--output=PWNED',
+      });
+
+      await expect(compiler.compile()).rejects.toThrow(UsageError);
+      expect(mockExec).not.toHaveBeenCalledWith(expect.stringContaining('git'));
+    });
+
+    it('should wrap git failures', async () => {
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.startsWith('git')) throw new Error('unknown revision');
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        changedSince: 'nope',
+      });
+
+      const error = await compiler.compile().catch((err) => err);
+
+      expect(error).toBeInstanceOf(UsageError);
+      expect(error.message).toBe(
+        'Failed to list files changed since nope: unknown revision',
+      );
+    });
+
+    it('should report a missing git as an environment error', async () => {
+      const mockSpawn = vi.fn(async () => {
+        throw Object.assign(new Error('spawn git ENOENT'), { code: 'ENOENT' });
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        changedSince: 'main',
+        spawnFn: mockSpawn,
+      });
+
+      await expect(compiler.compile()).rejects.toThrow(EnvironmentError);
+    });
+
+    it('should print the dependency graph without compiling', async () => {
+      const printSpy = vi
+        .spyOn(UIService, 'printDependencyGraph')
+        .mockImplementation(() => {});
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        graph: 'json',
+      });
+
+      await compiler.compile();
+
+      expect(mockExec).not.toHaveBeenCalled();
+      expect(JSON.parse(printSpy.mock.calls[0][0])).toEqual({
+        'token/FungibleToken.compact': ['utils/Utils.compact'],
+        'utils/Utils.compact': [],
+        'token/test/mocks/MockFungibleToken.compact': [
+          'token/FungibleToken.compact',
+        ],
+        'security/Pausable.compact': [],
+      });
+      printSpy.mockRestore();
+    });
+  });
+
+  describe('compile targets', () => {
+    beforeEach(() => {
+      const dirents = (names: string[], dirs: string[] = []) => [
+        ...names.map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })),
+        ...dirs.map((name) => ({
+          name,
+          isFile: () => false,
+          isDirectory: () => true,
+        })),
+      ];
+      const tree: Record<string, unknown[]> = {
+        src: dirents([], ['access', 'token', 'utils']),
+        'src/access': dirents(['Ownable.compact']),
+        'src/token': dirents(['FungibleToken.compact', 'NonFungible.compact']),
+        'src/utils': dirents(['Utils.compact']),
+      };
+      mockReaddir.mockImplementation((async (dir: string) => tree[dir]) as any);
+      mockExistsSync.mockImplementation((path) => {
+        const [, dir, name] = /^(.*)\/([^/]+)$/.exec(String(path)) ?? [];
+        return (
+          String(path) in tree ||
+          (tree[dir] as { name: string }[] | undefined)?.some(
+            (entry) => entry.name === name,
+          ) === true
+        );
+      });
+    });
+
+    const compiledFiles = (exec: MockedFunction<ExecFunction>) =>
+      exec.mock.calls
+        .map(([command]) => command.match(/ src\/(\S+)/)?.[1])
+        .filter(Boolean);
+
+    it('should compile every target directory', async () => {
+      compiler = new CompactCompiler(
+        '',
+        ['access', 'utils'],
+        undefined,
+        mockExec,
+      );
+
+      await compiler.compile();
+
+      expect(compiledFiles(mockExec)).toEqual([
+        'access/Ownable.compact',
+        'utils/Utils.compact',
+      ]);
+    });
+
+    it('should compile target files alongside target directories', async () => {
+      compiler = new CompactCompiler('', 'access', undefined, mockExec, {
+        files: ['src/token/FungibleToken.compact', 'access/Ownable.compact'],
+      });
+
+      await compiler.compile();
+
+      expect(compiledFiles(mockExec)).toEqual([
+        'access/Ownable.compact',
+        'token/FungibleToken.compact',
+      ]);
+    });
+
+    it('should throw SourceNotFoundError for a missing target file', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        files: ['token/Missing.compact'],
+      });
+
+      await expect(compiler.compile()).rejects.toThrow(SourceNotFoundError);
+      expect(compiledFiles(mockExec)).toEqual([]);
+    });
+
+    it('should throw DirectoryNotFoundError for a missing target directory', async () => {
+      compiler = new CompactCompiler(
+        '',
+        ['access', 'missing'],
+        undefined,
+        mockExec,
+      );
+
+      await expect(compiler.compile()).rejects.toThrow(DirectoryNotFoundError);
+    });
+  });
+
+  describe('compile with keep-going', () => {
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue(
+        ['A.compact', 'Broken.compact', 'C.compact', 'Bad.compact'].map(
+          (name) => ({ name, isFile: () => true, isDirectory: () => false }),
+        ) as any,
+      );
+      mockExec.mockImplementation(async (command: string) => {
+        if (/src\/B(roken|ad)\.compact/.test(command)) {
+          throw new Error('Syntax error');
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      vi.spyOn(UIService, 'showSummary').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const compiledCount = () =>
+      mockExec.mock.calls.filter(([command]) => command.includes('src/'))
+        .length;
+
+    it('should stop at the first failure by default', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await expect(compiler.compile()).rejects.toThrow(
+        'Failed to compile Broken.compact: Syntax error',
+      );
+      expect(compiledCount()).toBe(2);
+      expect(UIService.showSummary).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      { name: 'sequentially', jobs: 1 },
+      { name: 'concurrently', jobs: 2 },
+    ])(
+      'should compile every file $name and aggregate failures',
+      async ({ jobs }) => {
+        compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+          keepGoing: true,
+          jobs,
+        });
+
+        const error = await compiler.compile().catch((err) => err);
+
+        expect(compiledCount()).toBe(4);
+        expect(error).toBeInstanceOf(AggregateCompilationError);
+        expect(error.files).toEqual(['Broken.compact', 'Bad.compact']);
+        expect(
+          error.errors.every((e: unknown) => e instanceof CompilationError),
+        ).toBe(true);
+        expect(error.message).toBe(
+          'Compilation failed for 2 file(s): Broken.compact, Bad.compact',
+        );
+        expect(UIService.showSummary).toHaveBeenCalledWith([
+          expect.objectContaining({ file: 'A.compact', status: 'passed' }),
+          expect.objectContaining({
+            file: 'Broken.compact',
+            status: 'failed',
+            error: expect.any(CompilationError),
+          }),
+          expect.objectContaining({ file: 'C.compact', status: 'passed' }),
+          expect.objectContaining({
+            file: 'Bad.compact',
+            status: 'failed',
+            error: expect.any(CompilationError),
+          }),
+        ]);
+      },
+    );
+
+    it('should show the summary and resolve when every file passes', async () => {
+      mockExec.mockResolvedValue({ stdout: 'compact 0.1.0', stderr: '' });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        keepGoing: true,
+      });
+
+      await expect(compiler.compile()).resolves.toBeUndefined();
+      expect(UIService.showSummary).toHaveBeenCalled();
+    });
+  });
+
+  describe('compile with cancellation', () => {
+    const controller = { current: new AbortController() };
+
+    beforeEach(() => {
+      controller.current = new AbortController();
+      mockReaddir.mockResolvedValue(
+        ['A.compact', 'B.compact', 'C.compact', 'D.compact'].map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })) as any,
+      );
+      mockExec.mockImplementation(async (command, options) => {
+        if (command.includes('src/B.compact')) {
+          controller.current.abort(new Error('Received SIGINT'));
+          return execUntilAborted(command, options);
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+    });
+
+    const compiledFiles = () =>
+      mockExec.mock.calls
+        .map(([command]) => /src\/(\w+)\.compact/.exec(command)?.[1])
+        .filter(Boolean);
+
+    it.each([
+      { name: 'sequentially', jobs: 1 },
+      { name: 'concurrently', jobs: 2 },
+    ])(
+      'should stop scheduling files and reject with the abort reason $name',
+      async ({ jobs }) => {
+        compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+          keepGoing: true,
+          jobs,
+          signal: controller.current.signal,
+        });
+
+        const error = await compiler.compile().catch((err) => err);
+
+        expect(error).toBe(controller.current.signal.reason);
+        expect(compiledFiles()).not.toContain('D');
+        expect(mockRm).toHaveBeenCalledWith('artifacts/B', {
+          recursive: true,
+          force: true,
+        });
+      },
+    );
+  });
+
+  describe('compile with language version pragmas', () => {
+    const sources: Record<string, string> = {
+      'src/A.compact': 'pragma language_version >= 0.16.0;',
+      'src/B.compact': 'pragma language_version >= 0.17.0;',
+      'src/C.compact': 'import CompactStandardLibrary;',
+    };
+
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue(
+        Object.keys(sources).map((path) => ({
+          name: path.slice('src/'.length),
+          isFile: () => true,
+          isDirectory: () => false,
+        })) as any,
+      );
+      mockReadFile.mockImplementation((async (path: string) => {
+        if (!(path in sources)) throw new Error(`ENOENT: ${path}`);
+        return sources[path];
+      }) as any);
+    });
+
+    const compiledFiles = () =>
+      mockExec.mock.calls.filter(([command]) => command.includes('src/'));
+
+    it('should reject files the toolchain language version cannot compile', async () => {
+      mockExec.mockImplementation(async (command: string) => ({
+        stdout: command.endsWith('--language-version')
+          ? '0.16.0'
+          : 'compact 0.1.0',
+        stderr: '',
+      }));
+      compiler = new CompactCompiler('', undefined, '0.24.0', mockExec);
+
+      const error = await compiler.compile().catch((err) => err);
+
+      expect(error).toBeInstanceOf(ToolchainVersionMismatchError);
+      expect(error.message).toBe(
+        'Language version 0.16.0 of the toolchain does not satisfy the language_version pragma of B.compact',
+      );
+      expect(error.requirements).toEqual([
+        { file: 'B.compact', range: '>= 0.17.0' },
+      ]);
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact compile +0.24.0 --language-version',
+      );
+      expect(compiledFiles()).toEqual([]);
+    });
+
+    it('should compile when every pragma is satisfied', async () => {
+      mockExec.mockImplementation(async (command: string) => ({
+        stdout: command.endsWith('--language-version')
+          ? '0.17.0'
+          : 'compact 0.1.0',
+        stderr: '',
+      }));
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await compiler.compile();
+
+      expect(compiledFiles()).toHaveLength(3);
+    });
+
+    it('should not query the language version without pragmas', async () => {
+      mockReadFile.mockRejectedValue(new Error('EACCES'));
+      mockExec.mockResolvedValue({ stdout: 'compact 0.1.0', stderr: '' });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await compiler.compile();
+
+      expect(mockExec).not.toHaveBeenCalledWith(
+        expect.stringContaining('--language-version'),
+      );
+    });
+  });
+
+  describe('run', () => {
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue([
+        { name: 'A.compact', isFile: () => true, isDirectory: () => false },
+        {
+          name: 'Broken.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ] as any);
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.includes('src/Broken.compact')) {
+          throw Object.assign(new Error('Syntax error'), {
+            stdout: 'Compactc 0.25.0',
+            stderr: 'Exception: src/Broken.compact line 1 char 2: bad',
+          });
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+    });
+
+    it('should return the report instead of throwing failures', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        reporter: 'json',
+      });
+      const printReport = vi.spyOn(UIService, 'printReport');
+
+      const report = await compiler.run();
+
+      expect(report.success).toBe(false);
+      expect(report.files).toEqual([
+        expect.objectContaining({
+          file: 'A.compact',
+          status: 'passed',
+          artifactDir: 'artifacts/A',
+        }),
+        expect.objectContaining({
+          file: 'Broken.compact',
+          status: 'failed',
+          stderr: 'Exception: src/Broken.compact line 1 char 2: bad',
+          diagnostics: [expect.objectContaining({ line: 1, column: 2 })],
+        }),
+      ]);
+      expect(printReport).not.toHaveBeenCalled();
+    });
+
+    it('should emit the start and end of the run', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+      const types: string[] = [];
+      compiler.events.on('progress', (event) => types.push(event.type));
+
+      const report = await compiler.run();
+
+      expect(types).toEqual([
+        'start',
+        'compiling',
+        'output',
+        'file',
+        'compiling',
+        'output',
+        'output',
+        'file',
+        'end',
+      ]);
+      expect(report.summary).toMatchObject({ passed: 1, failed: 1 });
+    });
+
+    it('should emit the output lines of every file', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+      const output: CompileEvent[] = [];
+      compiler.events.on('progress', (event) => {
+        if (event.type === 'output') output.push(event);
+      });
+
+      await compiler.run();
+
+      expect(output).toEqual([
+        {
+          type: 'output',
+          file: 'A.compact',
+          stream: 'stdout',
+          line: 'compact 0.1.0',
+        },
+        {
+          type: 'output',
+          file: 'Broken.compact',
+          stream: 'stdout',
+          line: 'Compactc 0.25.0',
+        },
+        {
+          type: 'output',
+          file: 'Broken.compact',
+          stream: 'stderr',
+          line: 'Exception: src/Broken.compact line 1 char 2: bad',
+        },
+      ]);
+    });
+  });
+
+  describe('compile with a toolchain matrix', () => {
+    const sources: Record<string, string> = {
+      'src/A.compact': 'import CompactStandardLibrary;',
+      'src/Token.compact': 'pragma language_version >= 0.17.0;',
+    };
+    /** Language version of each installed toolchain */
+    const languageVersions: Record<string, string> = {
+      '0.24.0': '0.16.0',
+      '0.25.0': '0.17.0',
+      '0.26.0': '0.18.0',
+    };
+
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue(
+        Object.keys(sources).map((path) => ({
+          name: path.slice('src/'.length),
+          isFile: () => true,
+          isDirectory: () => false,
+        })) as any,
+      );
+      mockReadFile.mockImplementation((async (path: string) => {
+        if (!(path in sources)) throw new Error(`ENOENT: ${path}`);
+        return sources[path];
+      }) as any);
+      mockExec.mockImplementation(async (command: string) => {
+        const version = /\+(\S+)/.exec(command)?.[1] ?? '';
+        if (
+          command.startsWith('compact compile') &&
+          !languageVersions[version]
+        ) {
+          throw Object.assign(new Error(`Command failed: ${command}`), {
+            stdout: '',
+            stderr: `error: toolchain ${version} is not installed`,
+          });
+        }
+        if (command.endsWith('--language-version')) {
+          return { stdout: languageVersions[version], stderr: '' };
+        }
+        if (command.endsWith(' --version')) {
+          return { stdout: `Compactc version: ${version}`, stderr: '' };
+        }
+        if (version === '0.26.0' && command.includes('src/A.compact')) {
+          throw Object.assign(new Error('Command failed'), {
+            stdout: '',
+            stderr:
+              'Exception: src/A.compact line 3 char 5:\n  unbound identifier foo',
+          });
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+    });
+
+    it('should compile the files with each toolchain into its own artifact root', async () => {
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+      );
+
+      const report = await compiler.runMatrix(['0.25.0', '0.26.0']);
+
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact compile +0.25.0 --skip-zk src/A.compact artifacts/.matrix/0.25.0/A',
+      );
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact compile +0.26.0 --skip-zk src/Token.compact artifacts/.matrix/0.26.0/Token',
+      );
+      expect(report.success).toBe(false);
+      expect(report.toolchains).toEqual([
+        {
+          version: '0.25.0',
+          artifactsDir: 'artifacts/.matrix/0.25.0',
+          toolchainVersion: '0.25.0',
+        },
+        {
+          version: '0.26.0',
+          artifactsDir: 'artifacts/.matrix/0.26.0',
+          toolchainVersion: '0.26.0',
+        },
+      ]);
+      expect(report.files).toEqual([
+        {
+          file: 'A.compact',
+          results: {
+            '0.25.0': { status: 'passed' },
+            '0.26.0': {
+              status: 'failed',
+              error: expect.stringContaining('A.compact'),
+              diagnostic: expect.objectContaining({
+                line: 3,
+                column: 5,
+                message: 'unbound identifier foo',
+              }),
+            },
+          },
+        },
+        {
+          file: 'Token.compact',
+          results: {
+            '0.25.0': { status: 'passed' },
+            '0.26.0': { status: 'passed' },
+          },
+        },
+      ]);
+    });
+
+    it('should record toolchains that are missing or cannot compile some pragmas', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        requiredVersion: '>=0.25.0',
+      });
+
+      const report = await compiler.runMatrix(['0.24.0', '0.99.0', '0.25.0']);
+
+      expect(report.toolchains.map(({ error }) => error)).toEqual([
+        'Language version 0.16.0 of the toolchain does not satisfy the language_version pragma of Token.compact',
+        'Command failed: compact compile +0.99.0 --version',
+        undefined,
+      ]);
+      expect(report.files).toEqual([
+        {
+          file: 'Token.compact',
+          results: {
+            '0.24.0': {
+              status: 'failed',
+              error:
+                'Requires language_version >= 0.17.0, toolchain 0.24.0 provides 0.16.0',
+            },
+            '0.99.0': {
+              status: 'failed',
+              error: 'Command failed: compact compile +0.99.0 --version',
+            },
+            '0.25.0': { status: 'passed' },
+          },
+        },
+        {
+          file: 'A.compact',
+          results: {
+            '0.24.0': { status: 'skipped' },
+            '0.99.0': {
+              status: 'failed',
+              error: 'Command failed: compact compile +0.99.0 --version',
+            },
+            '0.25.0': { status: 'passed' },
+          },
+        },
+      ]);
+    });
+
+    it('should stop when the Compact CLI is missing', async () => {
+      mockExec.mockRejectedValue(new Error('command not found'));
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await expect(compiler.runMatrix(['0.25.0'])).rejects.toThrow(
+        CompactCliNotFoundError,
+      );
+    });
+
+    it('should print the table instead of throwing failures', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        matrix: ['0.25.0', '0.26.0'],
+      });
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await compiler.compile();
+
+      // Compilation output of the toolchains precedes the table
+      expect(consoleSpy.mock.calls.map(([line]) => line).slice(-4)).toEqual([
+        '    File           0.25.0   0.26.0',
+        '    A.compact      passed   failed',
+        '    Token.compact  passed   passed',
+        '    A.compact with 0.26.0: error: unbound identifier foo (src/A.compact:3:5)',
+      ]);
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] 0.25.0: 2/2 file(s), 0.26.0: 1/2 file(s)',
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should write the matrix as JSON with the json reporter', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        matrix: ['0.25.0'],
+        reporter: 'json',
+      });
+      const printReport = vi.spyOn(UIService, 'printReport');
+
+      await compiler.compile();
+
+      const report = JSON.parse(printReport.mock.calls[0][0]);
+      expect(report).toMatchObject({
+        success: true,
+        toolchains: [{ version: '0.25.0' }],
+        files: [
+          { file: 'A.compact', results: { '0.25.0': { status: 'passed' } } },
+          {
+            file: 'Token.compact',
+            results: { '0.25.0': { status: 'passed' } },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('compile with an artifact check', () => {
+    const upToDate = { missing: [], stale: [], changed: [] };
+
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue([
+        { name: 'A.compact', isFile: () => true, isDirectory: () => false },
+        { name: 'B.compact', isFile: () => true, isDirectory: () => false },
+      ] as any);
+      mockReadFile.mockResolvedValue('' as any);
+      mockMkdtemp.mockResolvedValue('test/.artifacts-check-abc' as any);
+      mockCompareArtifacts.mockResolvedValue(upToDate);
+    });
+
+    it('should compile into a temporary sibling of the artifacts directory and compare', async () => {
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+        { artifactsDir: 'test/artifacts' },
+      );
+
+      const report = await compiler.runCheck();
+
+      expect(mockMkdtemp).toHaveBeenCalledWith('test/.artifacts-check-');
+      expect(mockExec).toHaveBeenCalledWith(
+        'compact compile --skip-zk src/A.compact test/.artifacts-check-abc/A',
+      );
+      expect(mockCompareArtifacts).toHaveBeenCalledWith(
+        'test/.artifacts-check-abc/A',
+        'test/artifacts/A',
+        ['contract', 'compiler'],
+      );
+      expect(mockCompareArtifacts).toHaveBeenCalledWith(
+        'test/.artifacts-check-abc/B',
+        'test/artifacts/B',
+        ['contract', 'compiler'],
+      );
+      expect(mockRm).toHaveBeenCalledWith('test/.artifacts-check-abc', {
+        recursive: true,
+        force: true,
+      });
+      expect(report).toEqual({
+        artifactsDir: 'test/artifacts',
+        dirs: ['contract', 'compiler'],
+        files: ['A.compact', 'B.compact'],
+        success: true,
+        drift: [],
+      });
+    });
+
+    it('should also compare circuits and keys with includeKeys', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        check: true,
+        includeKeys: true,
+      });
+
+      await compiler.compile();
+
+      expect(mockCompareArtifacts).toHaveBeenCalledWith(
+        'test/.artifacts-check-abc/A',
+        'artifacts/A',
+        ['contract', 'compiler', 'zkir', 'keys'],
+      );
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        '[COMPILE] Artifacts of 2 file(s) in artifacts are up to date',
+      );
+    });
+
+    it('should print the differences and throw ArtifactDriftError when artifacts drifted', async () => {
+      mockCompareArtifacts
+        .mockResolvedValueOnce({
+          missing: ['compiler/contract-info.json'],
+          stale: ['contract/old.cjs'],
+          changed: ['contract/index.cjs'],
+        })
+        .mockResolvedValueOnce(upToDate);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        check: true,
+      });
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const error = await compiler.compile().catch((error) => error);
+
+      expect(error).toBeInstanceOf(ArtifactDriftError);
+      expect(error.message).toBe('Artifacts of 1 source(s) are out of date');
+      expect(error.drift).toEqual([
+        {
+          file: 'A.compact',
+          artifactDir: 'artifacts/A',
+          missing: ['compiler/contract-info.json'],
+          stale: ['contract/old.cjs'],
+          changed: ['contract/index.cjs'],
+        },
+      ]);
+      expect(consoleSpy.mock.calls.map(([line]) => line).slice(-4)).toEqual([
+        '    A.compact (artifacts/A):',
+        '      changed contract/index.cjs',
+        '      missing compiler/contract-info.json',
+        '      stale   contract/old.cjs',
+      ]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should remove the temporary directory when a file fails to compile', async () => {
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.includes('src/A.compact')) {
+          throw Object.assign(new Error('Command failed'), {
+            stdout: '',
+            stderr: 'error: unbound identifier foo',
+          });
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        check: true,
+      });
+
+      await expect(compiler.compile()).rejects.toThrow(CompilationError);
+
+      expect(mockCompareArtifacts).not.toHaveBeenCalled();
+      expect(mockRm).toHaveBeenCalledWith('test/.artifacts-check-abc', {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should write the check as JSON with the json reporter', async () => {
+      mockCompareArtifacts.mockResolvedValueOnce({
+        ...upToDate,
+        changed: ['contract/index.cjs'],
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        check: true,
+        reporter: 'json',
+      });
+      const printReport = vi.spyOn(UIService, 'printReport');
+
+      await expect(compiler.compile()).rejects.toThrow(ArtifactDriftError);
+
+      expect(JSON.parse(printReport.mock.calls[0][0])).toMatchObject({
+        success: false,
+        files: ['A.compact', 'B.compact'],
+        drift: [{ file: 'A.compact', changed: ['contract/index.cjs'] }],
+      });
+    });
+  });
+
+  describe('compile with a project configuration', () => {
+    beforeEach(() => {
+      const dirents = (names: string[], dirs: string[] = []) => [
+        ...names.map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })),
+        ...dirs.map((name) => ({
+          name,
+          isFile: () => false,
+          isDirectory: () => true,
+        })),
+      ];
+      const tree: Record<string, unknown[]> = {
+        contracts: dirents([], ['archive', 'token']),
+        'contracts/archive': dirents(['ShieldedToken.compact']),
+        'contracts/token': dirents(['FungibleToken.compact'], ['test']),
+        'contracts/token/test': dirents(['MockFungibleToken.compact']),
+      };
+      mockReaddir.mockImplementation((async (dir: string) => tree[dir]) as any);
+      mockReadFile.mockResolvedValue('');
+    });
+
+    const compileCommands = (exec: MockedFunction<ExecFunction>) =>
+      exec.mock.calls
+        .map(([command]) => command)
+        .filter((command) => command.includes('.compact'));
+
+    it('should compile from srcDir into artifactsDir, skipping excluded files', async () => {
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+        {
+          srcDir: 'contracts',
+          artifactsDir: 'build',
+          exclude: ['archive'],
+        },
+      );
+
+      await compiler.compile();
+
+      expect(compileCommands(mockExec)).toEqual([
+        'compact compile --skip-zk contracts/token/FungibleToken.compact build/FungibleToken',
+        'compact compile --skip-zk contracts/token/test/MockFungibleToken.compact build/MockFungibleToken',
+      ]);
+    });
+
+    it('should only compile included files', async () => {
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        srcDir: 'contracts',
+        include: ['**/Mock*.compact'],
+      });
+
+      await compiler.compile();
+
+      expect(compileCommands(mockExec)).toEqual([
+        'compact compile contracts/token/test/MockFungibleToken.compact artifacts/MockFungibleToken',
+      ]);
+    });
+
+    it('should append override flags for matching directories', async () => {
+      compiler = new CompactCompiler(
+        '--verbose',
+        undefined,
+        undefined,
+        mockExec,
+        {
+          srcDir: 'contracts',
+          exclude: ['archive'],
+          overrides: {
+            token: ['--trace-passes'],
+            'token/test': ['--skip-zk', '--verbose'],
+          },
+        },
+      );
+
+      await compiler.compile();
+
+      expect(compileCommands(mockExec)).toEqual([
+        'compact compile --verbose --trace-passes contracts/token/FungibleToken.compact artifacts/FungibleToken',
+        'compact compile --verbose --trace-passes --skip-zk contracts/token/test/MockFungibleToken.compact artifacts/MockFungibleToken',
+      ]);
+    });
+
+    it('should refuse to compile sources sharing an artifact directory', async () => {
+      const foo = {
+        name: 'Foo.compact',
+        isFile: () => true,
+        isDirectory: () => false,
+      };
+      mockReaddir.mockImplementation((async (dir: string) =>
+        dir === 'contracts'
+          ? ['access', 'token'].map((name) => ({
+              name,
+              isFile: () => false,
+              isDirectory: () => true,
+            }))
+          : [foo]) as any);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        srcDir: 'contracts',
+      });
+
+      const error = await compiler.compile().catch((err) => err);
+
+      expect(error).toBeInstanceOf(ArtifactCollisionError);
+      expect(error.message).toBe(
+        "Sources would overwrite each other's artifacts in artifacts/Foo",
+      );
+      expect(error.collisions).toEqual([
+        {
+          outputDir: 'artifacts/Foo',
+          files: ['access/Foo.compact', 'token/Foo.compact'],
+        },
+      ]);
+      expect(compileCommands(mockExec)).toEqual([]);
+    });
+
+    it('should write mirrored artifacts with the mirror layout', async () => {
+      compiler = new CompactCompiler('', 'token', undefined, mockExec, {
+        srcDir: 'contracts',
+        layout: 'mirror',
+      });
+
+      await compiler.compile();
+
+      expect(compileCommands(mockExec)).toEqual([
+        'compact compile contracts/token/FungibleToken.compact artifacts/token/FungibleToken',
+        'compact compile contracts/token/test/MockFungibleToken.compact artifacts/token/test/MockFungibleToken',
+      ]);
+    });
+
+    it('should list the selected files instead of compiling with --list', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        srcDir: 'contracts',
+        exclude: ['archive'],
+        list: true,
+      });
+
+      await compiler.compile();
+
+      expect(mockExec).not.toHaveBeenCalled();
+      expect(consoleSpy.mock.calls.map(([line]) => line)).toEqual([
+        '    - archive/ShieldedToken.compact (matches exclude pattern "archive")',
+        '    + token/FungibleToken.compact (no include patterns)',
+        '    + token/test/MockFungibleToken.compact (no include patterns)',
+      ]);
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] 2 of 3 .compact file(s) would be compiled',
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should explain affected files with --list', async () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      mockReadFile.mockImplementation((async (path: string) =>
+        path.endsWith('MockFungibleToken.compact')
+          ? 'import "../FungibleToken";'
+          : '') as any);
+      compiler = new CompactCompiler('', 'token', undefined, mockExec, {
+        srcDir: 'contracts',
+        affected: ['contracts/token/FungibleToken.compact'],
+        list: true,
+      });
+
+      await compiler.compile();
+
+      expect(consoleSpy.mock.calls.map(([line]) => line)).toEqual([
+        '    + token/FungibleToken.compact (no include patterns, changed)',
+        '    + token/test/MockFungibleToken.compact (no include patterns, imports a changed file)',
+      ]);
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] 2 of 2 .compact file(s) would be compiled in token/',
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('withAffected', () => {
+    it('should keep the configuration and replace the selection', () => {
+      compiler = new CompactCompiler('--skip-zk', 'token', '0.25.0', mockExec, {
+        jobs: 2,
+        changedSince: 'main',
+        watch: true,
+      });
+
+      const rebuild = compiler.withAffected(['src/utils/Utils.compact']);
+
+      expect(rebuild).not.toBe(compiler);
+      expect(rebuild.testFlags).toBe('--skip-zk');
+      expect(rebuild.testTargetDir).toBe('token');
+      expect(rebuild.testVersion).toBe('0.25.0');
+      expect(rebuild.testJobs).toBe(2);
+      expect(rebuild.testAffected).toEqual(['utils/Utils.compact']);
+      expect(rebuild.testChangedSince).toBeUndefined();
+    });
+  });
+
+  describe('compile with reporter', () => {
+    beforeEach(() => {
+      mockReaddir.mockResolvedValue(
+        ['A.compact', 'Broken.compact', 'C.compact'].map((name) => ({
+          name,
+          isFile: () => true,
+          isDirectory: () => false,
+        })) as any,
+      );
+      mockExec.mockImplementation(async (command: string) => {
+        if (command.includes('src/Broken.compact')) {
+          throw Object.assign(new Error('Command failed'), {
+            stdout: '',
+            stderr: 'Exception: src/Broken.compact line 2 char 4:\n  boom',
+          });
+        }
+        if (/compile +--version/.test(command)) {
+          return { stdout: 'Compactc version: 0.25.0', stderr: '' };
+        }
+        return { stdout: 'compact 0.1.0', stderr: '' };
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const printedReport = () =>
+      JSON.parse(
+        vi
+          .mocked(console.log)
+          .mock.calls.map(([text]) => String(text))
+          .find((text) => text.startsWith('{')) as string,
+      );
+
+    it('should print a JSON report to stdout and silence pretty output', async () => {
+      let silentDuringRun: boolean | undefined;
+      vi.spyOn(UIService, 'showCompilationStart').mockImplementation(() => {
+        silentDuringRun = UIService.silent;
+      });
+      compiler = new CompactCompiler(
+        '--skip-zk',
+        undefined,
+        undefined,
+        mockExec,
+        {
+          reporter: 'json',
+        },
+      );
+
+      await expect(compiler.compile()).rejects.toThrow(CompilationError);
+
+      const report = printedReport();
+      expect(silentDuringRun).toBe(true);
+      expect(UIService.silent).toBe(false);
+      expect(report).toMatchObject({
+        toolchain: {
+          devToolsVersion: 'compact 0.1.0',
+          toolchainVersion: 'Compactc version: 0.25.0',
+        },
+        flags: '--skip-zk',
+        success: false,
+        summary: { passed: 1, failed: 1, cached: 0, skipped: 1 },
+      });
+      expect(report.files).toEqual([
+        expect.objectContaining({
+          file: 'A.compact',
+          source: 'src/A.compact',
+          status: 'passed',
+          diagnostics: [],
+        }),
+        expect.objectContaining({
+          file: 'Broken.compact',
+          status: 'failed',
+          error: 'Failed to compile Broken.compact: Command failed',
+          diagnostics: [
+            {
+              file: 'src/Broken.compact',
+              line: 2,
+              column: 4,
+              severity: 'error',
+              message: 'boom',
+            },
+          ],
+        }),
+        expect.objectContaining({ file: 'C.compact', status: 'skipped' }),
+      ]);
+    });
+
+    it('should write the report to a file and keep pretty output', async () => {
+      mockExec.mockImplementation(async () => ({
+        stdout: 'compact 0.1.0',
+        stderr: '',
+      }));
+      let silentDuringRun: boolean | undefined;
+      vi.spyOn(UIService, 'showCompilationStart').mockImplementation(() => {
+        silentDuringRun = UIService.silent;
+      });
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        reporter: 'junit',
+        reportFile: 'reports/junit.xml',
+      });
+
+      await compiler.compile();
+
+      expect(silentDuringRun).toBe(false);
+      expect(mkdir).toHaveBeenCalledWith('reports', { recursive: true });
+      expect(writeFile).toHaveBeenCalledWith(
+        'reports/junit.xml',
+        expect.stringContaining(
+          '<testsuites name="compact-compiler" tests="3" failures="0"',
+        ),
+      );
+      expect(mockSpinner.info).toHaveBeenCalledWith(
+        '[COMPILE] Wrote junit report to reports/junit.xml',
+      );
+    });
+
+    it('should write an empty report when no files are found', async () => {
+      mockReaddir.mockResolvedValue([]);
+      compiler = new CompactCompiler('', undefined, undefined, mockExec, {
+        reporter: 'json',
+      });
+
+      await compiler.compile();
+
+      expect(printedReport()).toMatchObject({
+        success: true,
+        files: [],
+      });
+    });
+
+    it('should not print a report with the pretty reporter', async () => {
+      mockExec.mockImplementation(async () => ({
+        stdout: 'compact 0.1.0',
+        stderr: '',
+      }));
+      const printReport = vi.spyOn(UIService, 'printReport');
+      compiler = new CompactCompiler('', undefined, undefined, mockExec);
+
+      await compiler.compile();
+
+      expect(printReport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compile with multiple jobs', () => {
+    const makeDirents = (names: string[]) =>
+      names.map((name) => ({
+        name,
+        isFile: () => true,
+        isDirectory: () => false,
+      }));
+
+    /** Resolves version checks immediately and compiles after `delays[file]` ms */
+    const makeDelayedExec = (delays: Record<string, number>, fail?: string) =>
+      vi.fn(async (command: string) => {
+        const file = Object.keys(delays).find((name) =>
+          command.includes(`src/${name}`),
+        );
+        if (!file) return { stdout: 'compact 0.1.0', stderr: '' };
+
+        await new Promise((resolve) => setTimeout(resolve, delays[file]));
+        if (file === fail) throw new Error(`Syntax error in ${file}`);
+        return { stdout: `Compactc 0.25.0\nbuilt ${file}`, stderr: '' };
+      });
+
+    it('should compile every file and report progress in file order', async () => {
+      mockReaddir.mockResolvedValue(
+        makeDirents(['A.compact', 'B.compact', 'C.compact']) as any,
+      );
+      const exec = makeDelayedExec({
+        'A.compact': 15,
+        'B.compact': 1,
+        'C.compact': 5,
+      });
+      compiler = new CompactCompiler('', undefined, undefined, exec, {
+        jobs: 3,
+      });
+      const printSpy = vi
+        .spyOn(UIService, 'printOutput')
+        .mockImplementation(() => {});
+
+      await compiler.compile();
+
+      const succeeded = mockSpinner.succeed.mock.calls.map(([msg]) => msg);
+      expect(succeeded).toEqual([
+        '[COMPILE] [1/3] Compiled A.compact',
+        '[COMPILE] [2/3] Compiled B.compact',
+        '[COMPILE] [3/3] Compiled C.compact',
+      ]);
+      const stdout = printSpy.mock.calls
+        .map(([output]) => output)
+        .filter((output) => output.startsWith('built'));
+      expect(stdout).toEqual([
+        'built A.compact',
+        'built B.compact',
+        'built C.compact',
+      ]);
+
+      printSpy.mockRestore();
+    });
+
+    it('should emit file progress events in file order', async () => {
+      mockReaddir.mockResolvedValue(
+        makeDirents(['A.compact', 'B.compact']) as any,
+      );
+      const exec = makeDelayedExec({ 'A.compact': 10, 'B.compact': 1 });
+      compiler = new CompactCompiler('', undefined, undefined, exec, {
+        jobs: 2,
+      });
+      vi.spyOn(UIService, 'printOutput').mockImplementation(() => {});
+      const files: string[] = [];
+      compiler.events.on('progress', (event) => {
+        if (event.type === 'file') {
+          files.push(`${event.index}:${event.file.file}:${event.file.stdout}`);
+        }
+      });
+
+      await compiler.compile();
+
+      expect(files).toEqual([
+        '0:A.compact:Compactc 0.25.0\nbuilt A.compact',
+        '1:B.compact:Compactc 0.25.0\nbuilt B.compact',
+      ]);
+    });
+
+    it('should stop scheduling files after the first failure', async () => {
+      mockReaddir.mockResolvedValue(
+        makeDirents([
+          'A.compact',
+          'Broken.compact',
+          'C.compact',
+          'D.compact',
+        ]) as any,
+      );
+      const exec = makeDelayedExec(
+        {
+          'A.compact': 10,
+          'Broken.compact': 1,
+          'C.compact': 1,
+          'D.compact': 1,
+        },
+        'Broken.compact',
+      );
+      compiler = new CompactCompiler('', undefined, undefined, exec, {
+        jobs: 2,
+      });
+      vi.spyOn(UIService, 'printOutput').mockImplementation(() => {});
+
+      await expect(compiler.compile()).rejects.toThrow(
+        'Failed to compile Broken.compact: Syntax error in Broken.compact',
+      );
+
+      const compiled = exec.mock.calls
+        .map(([command]) => command)
+        .filter((command) => command.includes('src/'));
+      expect(compiled).toHaveLength(2);
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        '[COMPILE] [1/4] Compiled A.compact',
+      );
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] [2/4] Failed Broken.compact',
+      );
+    });
+  });
+
+  describe('Real-world scenarios', () => {
+    beforeEach(() => {
+      const mockDirents = [
+        {
+          name: 'AccessControl.compact',
+          isFile: () => true,
+          isDirectory: () => false,
+        },
+      ];
+      mockReaddir.mockResolvedValue(mockDirents as any);
+    });
+
+    it('should handle turbo compact command', () => {
+      compiler = CompactCompiler.fromArgs([]);
+
+      expect(compiler.testFlags).toBe('');
+      expect(compiler.testTargetDir).toBeUndefined();
+    });
+
+    it('should handle SKIP_ZK=true turbo compact command', () => {
+      compiler = CompactCompiler.fromArgs([], { SKIP_ZK: 'true' });
+
+      expect(compiler.testFlags).toBe('--skip-zk');
+    });
+
+    it('should handle turbo compact:access command', () => {
       compiler = CompactCompiler.fromArgs(['--dir', 'access']);
 
       expect(compiler.testFlags).toBe('');
@@ -840,8 +3568,9 @@ describe('CompactCompiler', () => {
         args: [
           '--dir',
           'security',
-          '--no-communications-commitment',
           '+0.25.0',
+          '--',
+          '--no-communications-commitment',
         ],
         env: { SKIP_ZK: 'true' },
       },
@@ -851,8 +3580,9 @@ describe('CompactCompiler', () => {
           '--dir',
           'security',
           '--skip-zk',
-          '--no-communications-commitment',
           '+0.25.0',
+          '--',
+          '--no-communications-commitment',
         ],
         env: { SKIP_ZK: 'false' },
       },
@@ -862,8 +3592,9 @@ describe('CompactCompiler', () => {
           '--dir',
           'security',
           '--skip-zk',
-          '--no-communications-commitment',
           '+0.25.0',
+          '--',
+          '--no-communications-commitment',
         ],
         env: { SKIP_ZK: 'true' },
       },
@@ -0,0 +1,292 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  applyProfile,
+  defineConfig,
+  findConfigFile,
+  loadConfig,
+  resolveConfig,
+  selectProfile,
+  validateConfig,
+} from '../src/Config.js';
+import { COMPILER_COMMAND } from '../src/commands.js';
+import { ConfigError } from '../src/types/errors.js';
+import { parseArgs } from '../src/utils/args.js';
+
+describe('Config', () => {
+  let root: string;
+
+  const writeConfig = async (file: string, contents: unknown) => {
+    await mkdir(join(file, '..'), { recursive: true });
+    await writeFile(
+      file,
+      typeof contents === 'string' ? contents : JSON.stringify(contents),
+    );
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should find a configuration file in a parent directory', async () => {
+      const file = join(root, 'compact.config.json');
+      await writeConfig(file, {});
+      await mkdir(join(root, 'packages', 'token'), { recursive: true });
+
+      expect(findConfigFile(join(root, 'packages', 'token'))).toBe(file);
+    });
+
+    it('should prefer the nearest configuration file', async () => {
+      await writeConfig(join(root, 'compact.config.json'), {});
+      const nested = join(root, 'contracts', 'compact.config.mjs');
+      await writeConfig(nested, 'export default {};');
+
+      expect(findConfigFile(join(root, 'contracts'))).toBe(nested);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should accept a complete configuration', () => {
+      const config = defineConfig({
+        srcDir: 'src',
+        artifactsDir: 'artifacts',
+        flags: ['--skip-zk'],
+        version: '0.25.0',
+        requiredVersion: '>=0.25.0 <0.27.0',
+        include: ['**/*.compact'],
+        exclude: ['archive'],
+        overrides: { 'token/test': ['--skip-zk'] },
+        jobs: 'auto',
+      });
+
+      expect(validateConfig(config, 'compact.config.json')).toEqual(config);
+    });
+
+    it('should reject unknown options', () => {
+      expect(() =>
+        validateConfig({ srcdir: 'src' }, '/project/compact.config.json'),
+      ).toThrow('compact.config.json: unknown option "srcdir"');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() =>
+        validateConfig({ flags: '--skip-zk' }, 'compact.config.json'),
+      ).toThrow('"flags" must be an array of strings');
+      expect(() =>
+        validateConfig({ version: 25 }, 'compact.config.json'),
+      ).toThrow('"version" must be a string');
+      expect(() =>
+        validateConfig({ overrides: { token: '--skip-zk' } }, 'c.json'),
+      ).toThrow('"overrides" must map directories to arrays of flags');
+      for (const jobs of [0, 1.5, '4', 'many']) {
+        expect(() => validateConfig({ jobs }, 'compact.config.json')).toThrow(
+          '"jobs" must be a positive integer or "auto"',
+        );
+      }
+    });
+
+    it('should reject malformed version ranges', () => {
+      expect(() =>
+        validateConfig({ requiredVersion: 'latest' }, 'compact.config.json'),
+      ).toThrow('"requiredVersion" must be a version range');
+    });
+
+    it('should reject versions that are not toolchain versions', () => {
+      expect(() =>
+        validateConfig({ version: '0.25.0 $(id)' }, 'compact.config.json'),
+      ).toThrow('"version" must be a toolchain version, e.g. "0.25.0"');
+      expect(() =>
+        validateConfig(
+          { profiles: { release: { version: 'latest' } } },
+          'compact.config.json',
+        ),
+      ).toThrow('profile "release": "version" must be a toolchain version');
+    });
+
+    it('should reject unknown artifact layouts', () => {
+      expect(() =>
+        validateConfig({ layout: 'nested' }, 'compact.config.json'),
+      ).toThrow('"layout" must be one of flat, mirror');
+    });
+
+    it('should reject invalid profiles', () => {
+      expect(() =>
+        validateConfig({ profiles: ['test'] }, 'compact.config.json'),
+      ).toThrow('"profiles" must map profile names to options');
+      expect(() =>
+        validateConfig(
+          { profiles: { release: { srcDir: 'lib' } } },
+          'compact.config.json',
+        ),
+      ).toThrow(
+        'compact.config.json: profile "release": unknown option "srcDir"',
+      );
+      expect(() =>
+        validateConfig(
+          { profiles: { test: { flags: '--skip-zk' } } },
+          'compact.config.json',
+        ),
+      ).toThrow('profile "test": "flags" must be an array of strings');
+    });
+
+    it('should reject configurations that are not objects', () => {
+      expect(() => validateConfig([], 'compact.config.json')).toThrow(
+        ConfigError,
+      );
+    });
+  });
+
+  describe('resolveConfig', () => {
+    it('should apply defaults without a configuration file', () => {
+      expect(resolveConfig({}, undefined, root)).toEqual({
+        srcDir: 'src',
+        artifactsDir: 'artifacts',
+        flags: [],
+        include: [],
+        exclude: [],
+        overrides: {},
+      });
+    });
+
+    it('should resolve directories relative to the configuration file', () => {
+      const config = resolveConfig(
+        { srcDir: 'src', artifactsDir: '../build' },
+        join(root, 'contracts', 'compact.config.json'),
+        root,
+      );
+
+      expect(config.srcDir).toBe(join('contracts', 'src'));
+      expect(config.artifactsDir).toBe('build');
+    });
+  });
+
+  describe('applyProfile', () => {
+    const config = resolveConfig(
+      { flags: ['--skip-zk'], exclude: ['archive'] },
+      undefined,
+      '/project',
+    );
+
+    it('should apply a built-in profile and write to its own directory', () => {
+      expect(applyProfile(config, 'release')).toMatchObject({
+        artifactsDir: join('artifacts', 'release'),
+        flags: ['--skip-zk'],
+        exclude: ['archive', '**/test', '**/Mock*.compact'],
+        profile: 'release',
+      });
+      expect(applyProfile(config, 'test')).toMatchObject({
+        artifactsDir: join('artifacts', 'test'),
+        flags: ['--skip-zk'],
+        exclude: ['archive'],
+      });
+    });
+
+    it('should prefer configured profiles over the built-in ones', () => {
+      const resolved = resolveConfig(
+        {
+          profiles: {
+            release: { artifactsDir: 'dist/artifacts', version: '0.26.0' },
+          },
+        },
+        join(root, 'contracts', 'compact.config.json'),
+        root,
+      );
+
+      expect(applyProfile(resolved, 'release')).toMatchObject({
+        artifactsDir: join('contracts', 'dist', 'artifacts'),
+        exclude: [],
+        version: '0.26.0',
+      });
+    });
+
+    it('should reject unknown profiles', () => {
+      expect(() => applyProfile(config, 'staging')).toThrow(
+        '--profile flag requires a known profile (test, release)',
+      );
+    });
+  });
+
+  describe('selectProfile', () => {
+    const parse = (args: string[]) => parseArgs(COMPILER_COMMAND, args);
+
+    it('should apply the profile named by --profile', () => {
+      expect(
+        selectProfile(parse(['--skip-zk', '--profile', 'test']))?.profile,
+      ).toBe('test');
+      expect(selectProfile(parse(['--profile=release']))?.profile).toBe(
+        'release',
+      );
+    });
+
+    it('should leave the configuration unchanged without --profile', () => {
+      const config = resolveConfig({}, undefined, root);
+
+      expect(selectProfile(parse(['--skip-zk']), config)).toBe(config);
+      expect(selectProfile(parse([]))).toBeUndefined();
+    });
+
+    it('should ignore --profile passed through to compactc', () => {
+      expect(
+        selectProfile(parse(['--', '--profile', 'release'])),
+      ).toBeUndefined();
+    });
+
+    it('should reject unknown profiles', () => {
+      expect(() => selectProfile(parse(['--profile', 'staging']))).toThrow(
+        '--profile flag requires a known profile (test, release)',
+      );
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should fall back to the defaults without a configuration file', async () => {
+      const config = await loadConfig(root);
+
+      expect(config.file).toBeUndefined();
+      expect(config.srcDir).toBe('src');
+      expect(config.artifactsDir).toBe('artifacts');
+    });
+
+    it('should load a JSON configuration', async () => {
+      const file = join(root, 'compact.config.json');
+      await writeConfig(file, { flags: ['--skip-zk'], version: '0.25.0' });
+
+      const config = await loadConfig(root);
+
+      expect(config).toMatchObject({
+        file,
+        flags: ['--skip-zk'],
+        version: '0.25.0',
+      });
+    });
+
+    it('should load the default export of a module configuration', async () => {
+      await writeConfig(
+        join(root, 'compact.config.mjs'),
+        "export default { exclude: ['archive'] };",
+      );
+
+      const config = await loadConfig(root);
+
+      expect(config.exclude).toEqual(['archive']);
+    });
+
+    it('should report malformed JSON', async () => {
+      const file = join(root, 'compact.config.json');
+      await writeConfig(file, '{ "flags": [');
+
+      const error = await loadConfig(root).catch((err) => err);
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error.message).toMatch(/^Failed to read compact\.config\.json: /);
+      expect(error.configPath).toBe(file);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { FileDiscovery } from '../src/Compiler.js';
+import { DependencyGraph } from '../src/DependencyGraph.js';
+
+/**
+ * Mirrors the layout of the contracts package:
+ * mocks import their module, modules import shared utilities.
+ */
+const contractImports = new Map<string, string[]>([
+  [
+    'token/test/mocks/MockFungibleToken.compact',
+    ['token/FungibleToken.compact'],
+  ],
+  [
+    'token/FungibleToken.compact',
+    ['security/Initializable.compact', 'utils/Utils.compact'],
+  ],
+  ['access/test/mocks/MockOwnable.compact', ['access/Ownable.compact']],
+  [
+    'access/Ownable.compact',
+    ['security/Initializable.compact', 'utils/Utils.compact'],
+  ],
+  ['security/Initializable.compact', []],
+  ['utils/Utils.compact', []],
+  ['security/Pausable.compact', []],
+]);
+
+describe('DependencyGraph', () => {
+  describe('constructor', () => {
+    it('should add imported files as nodes', () => {
+      const graph = new DependencyGraph(
+        new Map([['Main.compact', ['Lib.compact']]]),
+      );
+
+      expect(graph.files).toEqual(['Main.compact', 'Lib.compact']);
+      expect(graph.getImports('Lib.compact')).toEqual([]);
+    });
+  });
+
+  describe('build', () => {
+    it('should follow imports outside the starting files', async () => {
+      const discovery = {
+        getImports: vi.fn(async (file: string) => {
+          if (file === 'Missing.compact') throw new Error('ENOENT');
+          return contractImports.get(file) ?? [];
+        }),
+      } as unknown as FileDiscovery;
+
+      const graph = await DependencyGraph.build(
+        ['token/test/mocks/MockFungibleToken.compact', 'Missing.compact'],
+        discovery,
+      );
+
+      expect(graph.files).toEqual([
+        'token/test/mocks/MockFungibleToken.compact',
+        'token/FungibleToken.compact',
+        'Missing.compact',
+        'security/Initializable.compact',
+        'utils/Utils.compact',
+      ]);
+      expect(discovery.getImports).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('getDependents', () => {
+    it('should return direct importers', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(graph.getDependents('utils/Utils.compact')).toEqual([
+        'token/FungibleToken.compact',
+        'access/Ownable.compact',
+      ]);
+    });
+
+    it('should return an empty array for unknown files', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(graph.getDependents('Unknown.compact')).toEqual([]);
+    });
+  });
+
+  describe('getAffected', () => {
+    it('should include the changed file and all transitive dependents', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(graph.getAffected(['utils/Utils.compact'])).toEqual([
+        'token/test/mocks/MockFungibleToken.compact',
+        'token/FungibleToken.compact',
+        'utils/Utils.compact',
+        'access/test/mocks/MockOwnable.compact',
+        'access/Ownable.compact',
+      ]);
+    });
+
+    it('should only include the file itself when nothing imports it', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(graph.getAffected(['security/Pausable.compact'])).toEqual([
+        'security/Pausable.compact',
+      ]);
+    });
+
+    it('should ignore files outside the graph', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(graph.getAffected(['Unknown.compact'])).toEqual([]);
+    });
+  });
+
+  describe('topologicalSort', () => {
+    it('should place imports before their importers', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      const ordered = graph.topologicalSort();
+
+      for (const file of ordered) {
+        for (const imported of graph.getImports(file)) {
+          expect(ordered.indexOf(imported)).toBeLessThan(ordered.indexOf(file));
+        }
+      }
+      expect(ordered).toHaveLength(contractImports.size);
+    });
+
+    it('should only return the requested files', () => {
+      const graph = new DependencyGraph(contractImports);
+
+      expect(
+        graph.topologicalSort([
+          'token/test/mocks/MockFungibleToken.compact',
+          'utils/Utils.compact',
+        ]),
+      ).toEqual([
+        'utils/Utils.compact',
+        'token/test/mocks/MockFungibleToken.compact',
+      ]);
+    });
+
+    it('should terminate on import cycles', () => {
+      const graph = new DependencyGraph(
+        new Map([
+          ['A.compact', ['B.compact']],
+          ['B.compact', ['A.compact']],
+        ]),
+      );
+
+      expect(graph.topologicalSort()).toEqual(['B.compact', 'A.compact']);
+    });
+  });
+
+  describe('format', () => {
+    const graph = new DependencyGraph(
+      new Map([
+        ['Main.compact', ['Lib.compact']],
+        ['Lib.compact', []],
+      ]),
+    );
+
+    it('should render JSON', () => {
+      expect(JSON.parse(graph.format('json'))).toEqual({
+        'Main.compact': ['Lib.compact'],
+        'Lib.compact': [],
+      });
+    });
+
+    it('should render DOT', () => {
+      expect(graph.format('dot')).toBe(
+        [
+          'digraph compact {',
+          '  "Main.compact" -> "Lib.compact";',
+          '  "Lib.compact";',
+          '}',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { formatDiagnostic, parseDiagnostics } from '../src/Diagnostics.js';
+
+describe('parseDiagnostics', () => {
+  it('should parse compactc exceptions with the message on the next line', () => {
+    const output = [
+      'Compactc version: 0.25.0',
+      'Exception: src/token/FungibleToken.compact line 42 char 7:',
+      '  unbound identifier balances',
+      '',
+    ].join('\n');
+
+    expect(parseDiagnostics(output)).toEqual([
+      {
+        file: 'src/token/FungibleToken.compact',
+        line: 42,
+        column: 7,
+        severity: 'error',
+        message: 'unbound identifier balances',
+      },
+    ]);
+  });
+
+  it('should keep multi-line messages together', () => {
+    const output = [
+      'Exception: src/Token.compact line 3 char 1:',
+      '  expected a type but received',
+      '    Uint<64>',
+      'Done',
+    ].join('\n');
+
+    expect(parseDiagnostics(output)[0].message).toBe(
+      'expected a type but received\nUint<64>',
+    );
+  });
+
+  it('should parse inline messages and warnings', () => {
+    const output =
+      'Warning: src/Token.compact line 8 char 12: unused variable x';
+
+    expect(parseDiagnostics(output)).toEqual([
+      {
+        file: 'src/Token.compact',
+        line: 8,
+        column: 12,
+        severity: 'warning',
+        message: 'unused variable x',
+      },
+    ]);
+  });
+
+  it('should parse the conventional file:line:column form with codes', () => {
+    const output = [
+      'src/Token.compact:5:2: error[E0042]: type mismatch',
+      'src/Token.compact:9:4: note: declared here',
+    ].join('\n');
+
+    expect(parseDiagnostics(output)).toEqual([
+      {
+        file: 'src/Token.compact',
+        line: 5,
+        column: 2,
+        severity: 'error',
+        message: 'type mismatch',
+        code: 'E0042',
+      },
+      {
+        file: 'src/Token.compact',
+        line: 9,
+        column: 4,
+        severity: 'info',
+        message: 'declared here',
+      },
+    ]);
+  });
+
+  it('should report duplicated diagnostics once', () => {
+    const diagnostic = 'Exception: src/A.compact line 1 char 1: boom';
+
+    expect(parseDiagnostics(`${diagnostic}\n${diagnostic}`)).toHaveLength(1);
+  });
+
+  it('should return an empty array for output without diagnostics', () => {
+    expect(parseDiagnostics('Error: something went wrong\n')).toEqual([]);
+  });
+});
+
+describe('formatDiagnostic', () => {
+  const diagnostic = {
+    file: 'src/Token.compact',
+    line: 3,
+    column: 10,
+    severity: 'error' as const,
+    message: 'unbound identifier foo',
+  };
+
+  it('should render a source excerpt with a caret', () => {
+    const source = 'circuit f(): Field {\n  const x = 1;\n  return foo;\n}';
+
+    expect(formatDiagnostic(diagnostic, source)).toBe(
+      [
+        'error: unbound identifier foo',
+        ' --> src/Token.compact:3:10',
+        '  |',
+        '3 |   return foo;',
+        '  |          ^',
+      ].join('\n'),
+    );
+  });
+
+  it('should render only the location without source', () => {
+    expect(formatDiagnostic({ ...diagnostic, code: 'E1' })).toBe(
+      ['error[E1]: unbound identifier foo', ' --> src/Token.compact:3:10'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should omit the excerpt when the line is out of range', () => {
+    expect(formatDiagnostic({ ...diagnostic, line: 99 }, 'one line')).toBe(
+      ['error: unbound identifier foo', '  --> src/Token.compact:99:10'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should indent continuation lines of the message', () => {
+    expect(formatDiagnostic({ ...diagnostic, message: 'first\nsecond' })).toBe(
+      ['error: first', '  second', ' --> src/Token.compact:3:10'].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,424 @@
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExecFunction } from '../src/Compiler.js';
+import {
+  Doctor,
+  type DoctorCheck,
+  type DoctorOptions,
+  formatDoctorReport,
+} from '../src/Doctor.js';
+
+/** Generated contract code expecting a runtime version */
+const contractCode = (runtimeVersion: string) =>
+  `'use strict';\nconst __compactRuntime = require('@midnight-ntwrk/compact-runtime');\nconst expectedRuntimeVersionString = '${runtimeVersion}';\n`;
+
+describe('Doctor', () => {
+  let root: string;
+  let binDir: string;
+  let mockExec: ReturnType<typeof vi.fn>;
+  /** Output of the compact CLI by command; commands missing here fail */
+  let commands: Record<string, string>;
+
+  const write = async (path: string, contents: string) => {
+    await mkdir(join(root, path, '..'), { recursive: true });
+    await writeFile(join(root, path), contents);
+  };
+
+  const installRuntime = (version: string) =>
+    write(
+      'node_modules/@midnight-ntwrk/compact-runtime/package.json',
+      JSON.stringify({ name: '@midnight-ntwrk/compact-runtime', version }),
+    );
+
+  const createDoctor = (options: DoctorOptions = {}) =>
+    new Doctor({
+      srcDir: join(root, 'src'),
+      artifactsDir: join(root, 'artifacts'),
+      env: { PATH: binDir },
+      cwd: root,
+      nodeVersion: '22.11.0',
+      execFn: mockExec as ExecFunction,
+      ...options,
+    });
+
+  const runCheck = async (
+    name: string,
+    options?: DoctorOptions,
+  ): Promise<DoctorCheck | undefined> => {
+    const report = await createDoctor(options).run();
+    return report.checks.find((check) => check.name === name);
+  };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-doctor-'));
+    binDir = join(root, 'bin');
+    await write('bin/compact', '');
+
+    commands = {
+      'compact --version': 'compact 0.2.0\n',
+      'compact list --installed': 'installed versions\n\n→ 0.25.0\n  0.24.0\n',
+      'compact compile  --version': 'Compactc version: 0.25.0\n',
+      'compact compile +0.24.0 --version': 'Compactc version: 0.24.0\n',
+      'compact compile  --language-version':
+        'Compact language version: 0.17.0\n',
+      'compact compile +0.24.0 --language-version':
+        'Compact language version: 0.16.0\n',
+      'compact compile +0.25.0 --language-version':
+        'Compact language version: 0.17.0\n',
+    };
+    mockExec = vi.fn(async (command: string) => {
+      if (command in commands) {
+        return { stdout: commands[command], stderr: '' };
+      }
+      throw new Error(`Command failed: ${command}\nerror: unknown toolchain`);
+    });
+
+    await write('src/Token.compact', 'pragma language_version >= 0.17.0;');
+    await write('src/Utils.compact', 'pragma language_version >= 0.16.0;');
+    await write('artifacts/Token/contract/index.cjs', contractCode('0.8.1'));
+    await installRuntime('0.8.1');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should pass every check in a healthy environment', async () => {
+    const report = await createDoctor().run();
+
+    expect(report.success).toBe(true);
+    expect(report.checks).toEqual([
+      { name: 'Node.js', status: 'pass', message: '22.11.0' },
+      {
+        name: 'compact CLI',
+        status: 'pass',
+        message: `compact 0.2.0 (${join(binDir, 'compact')})`,
+      },
+      {
+        name: 'COMPACT_HOME',
+        status: 'pass',
+        message: 'Not set, toolchains are managed by the compact CLI',
+      },
+      {
+        name: 'Toolchain',
+        status: 'pass',
+        message: '0.25.0, installed: 0.25.0, 0.24.0',
+      },
+      {
+        name: 'Language version',
+        status: 'pass',
+        message: '0.17.0 satisfies the pragmas of 2 source(s)',
+      },
+      {
+        name: 'Artifacts directory',
+        status: 'pass',
+        message: `${join(root, 'artifacts')} is writable`,
+      },
+      {
+        name: 'Compact runtime',
+        status: 'pass',
+        message: '0.8.1 is compatible with 1 compiled contract(s)',
+      },
+    ]);
+  });
+
+  it('should fail on a Node.js version outside the engines range', async () => {
+    const check = await runCheck('Node.js', { nodeVersion: '18.19.0' });
+
+    expect(check).toMatchObject({
+      status: 'fail',
+      message: '18.19.0 does not satisfy the required range >=20',
+    });
+  });
+
+  describe('compact CLI', () => {
+    it('should fail and skip the toolchain checks when the CLI is missing', async () => {
+      delete commands['compact --version'];
+
+      const report = await createDoctor({ env: { PATH: '' } }).run();
+
+      expect(report.success).toBe(false);
+      expect(report.checks[1]).toMatchObject({
+        name: 'compact CLI',
+        status: 'fail',
+        message: "'compact' not found in PATH",
+        hint: expect.stringContaining('compact-installer.sh'),
+      });
+      expect(report.checks.slice(3, 5)).toEqual([
+        {
+          name: 'Toolchain',
+          status: 'warn',
+          message: 'Skipped, the compact CLI is not available',
+        },
+        {
+          name: 'Language version',
+          status: 'warn',
+          message: 'Skipped, the compact CLI is not available',
+        },
+      ]);
+    });
+
+    it('should warn about shadowed installations in PATH', async () => {
+      await write('other/compact', '');
+      const otherDir = join(root, 'other');
+
+      const check = await runCheck('compact CLI', {
+        env: { PATH: [binDir, otherDir].join(':') },
+      });
+
+      expect(check).toMatchObject({
+        status: 'warn',
+        message: `compact 0.2.0 (${join(binDir, 'compact')}) shadows ${join(otherDir, 'compact')}`,
+      });
+    });
+  });
+
+  describe('COMPACT_HOME', () => {
+    it('should pass when it contains compactc', async () => {
+      await write('compactc/compactc', '');
+      const home = join(root, 'compactc');
+
+      const check = await runCheck('COMPACT_HOME', {
+        env: { PATH: binDir, COMPACT_HOME: home },
+      });
+
+      expect(check).toEqual({
+        name: 'COMPACT_HOME',
+        status: 'pass',
+        message: home,
+      });
+    });
+
+    it('should warn when it points to a missing directory', async () => {
+      const home = join(root, 'missing');
+
+      const check = await runCheck('COMPACT_HOME', {
+        env: { PATH: binDir, COMPACT_HOME: home },
+      });
+
+      expect(check).toMatchObject({
+        status: 'warn',
+        message: `${home} does not exist`,
+      });
+    });
+  });
+
+  describe('Toolchain', () => {
+    it('should fail when the selected toolchain is not installed', async () => {
+      const check = await runCheck('Toolchain', { version: '0.26.0' });
+
+      expect(check).toEqual({
+        name: 'Toolchain',
+        status: 'fail',
+        message:
+          '0.26.0 could not be run: Command failed: compact compile +0.26.0 --version, installed: 0.25.0, 0.24.0',
+        hint: 'Install it with: compact update 0.26.0',
+      });
+    });
+
+    it('should suggest an installed toolchain satisfying the required range', async () => {
+      const check = await runCheck('Toolchain', {
+        requiredVersion: '^0.24.0',
+      });
+
+      expect(check).toMatchObject({
+        status: 'fail',
+        message:
+          '0.25.0 does not satisfy the required version range ^0.24.0, installed: 0.25.0, 0.24.0',
+        hint: 'Select an installed toolchain with: compact-compiler +0.24.0',
+      });
+    });
+  });
+
+  describe('Language version', () => {
+    it('should list the pragmas the toolchain does not satisfy and a matching toolchain', async () => {
+      const check = await runCheck('Language version', { version: '0.24.0' });
+
+      expect(check).toEqual({
+        name: 'Language version',
+        status: 'fail',
+        message:
+          '0.16.0 does not satisfy the language_version pragma of Token.compact (>= 0.17.0)',
+        hint: 'Installed toolchain(s) 0.25.0 satisfy every pragma: compact-compiler +0.25.0',
+      });
+    });
+
+    it('should skip excluded sources', async () => {
+      const check = await runCheck('Language version', {
+        version: '0.24.0',
+        exclude: ['Token.compact'],
+      });
+
+      expect(check).toMatchObject({
+        status: 'pass',
+        message: '0.16.0 satisfies the pragmas of 1 source(s)',
+      });
+    });
+
+    it('should warn when the source directory does not exist', async () => {
+      const srcDir = join(root, 'contracts');
+
+      const check = await runCheck('Language version', { srcDir });
+
+      expect(check).toMatchObject({
+        status: 'warn',
+        message: `Source directory ${srcDir} not found`,
+      });
+    });
+  });
+
+  describe('Artifacts directory', () => {
+    it('should check the directory a missing artifacts directory is created in', async () => {
+      const artifactsDir = join(root, 'build', 'artifacts');
+
+      const check = await runCheck('Artifacts directory', { artifactsDir });
+
+      expect(check).toMatchObject({
+        status: 'pass',
+        message: `${artifactsDir} will be created in ${root}, which is writable`,
+      });
+    });
+
+    it.skipIf(process.getuid?.() === 0)(
+      'should fail when the directory is not writable',
+      async () => {
+        const artifactsDir = join(root, 'artifacts');
+        await chmod(artifactsDir, 0o555);
+
+        const check = await runCheck('Artifacts directory');
+        await chmod(artifactsDir, 0o755);
+
+        expect(check).toMatchObject({
+          status: 'fail',
+          message: `${artifactsDir} is not writable`,
+        });
+      },
+    );
+
+    it('should fail when the path is a file', async () => {
+      await write('artifacts.txt', '');
+      const artifactsDir = join(root, 'artifacts.txt');
+
+      const check = await runCheck('Artifacts directory', { artifactsDir });
+
+      expect(check).toMatchObject({
+        status: 'fail',
+        message: `${artifactsDir} is not a directory`,
+      });
+    });
+  });
+
+  describe('Compact runtime', () => {
+    it('should accept newer patch versions of the expected runtime', async () => {
+      await installRuntime('0.8.4');
+
+      const check = await runCheck('Compact runtime');
+
+      expect(check?.status).toBe('pass');
+    });
+
+    it('should fail on an incompatible runtime, in flat and mirror layouts', async () => {
+      await write(
+        'artifacts/token/Mock/contract/index.cjs',
+        contractCode('0.9.0'),
+      );
+
+      const check = await runCheck('Compact runtime');
+
+      expect(check).toEqual({
+        name: 'Compact runtime',
+        status: 'fail',
+        message: `0.8.1 is incompatible with ${join(root, 'artifacts', 'token', 'Mock')} (expects 0.9.0)`,
+        hint: 'Install @midnight-ntwrk/compact-runtime@"~0.9.0" or recompile the contracts with a toolchain targeting 0.8.1',
+      });
+    });
+
+    it('should fail when the runtime is missing but artifacts need it', async () => {
+      await rm(join(root, 'node_modules'), { recursive: true });
+
+      const check = await runCheck('Compact runtime');
+
+      expect(check).toMatchObject({
+        status: 'fail',
+        message: '@midnight-ntwrk/compact-runtime is not installed',
+        hint: 'Install it with: yarn add @midnight-ntwrk/compact-runtime@"~0.8.1"',
+      });
+    });
+
+    it('should only warn about a missing runtime without artifacts', async () => {
+      await rm(join(root, 'node_modules'), { recursive: true });
+      await rm(join(root, 'artifacts'), { recursive: true });
+
+      const check = await runCheck('Compact runtime');
+
+      expect(check?.status).toBe('warn');
+    });
+  });
+
+  describe('fromArgs', () => {
+    it('should read --json, the toolchain version and the configuration', async () => {
+      const doctor = Doctor.fromArgs(
+        ['--json', '+0.24.0'],
+        {},
+        {
+          srcDir: 'contracts',
+          artifactsDir: 'build',
+          flags: [],
+          include: [],
+          exclude: [],
+          overrides: {},
+          version: '0.25.0',
+        },
+      );
+
+      expect(doctor.json).toBe(true);
+      expect(doctor).toMatchObject({
+        srcDir: 'contracts',
+        artifactsDir: 'build',
+        version: '0.24.0',
+      });
+    });
+
+    it('should reject unknown arguments', () => {
+      expect(() => Doctor.fromArgs(['--skip-zk'])).toThrow(
+        'doctor does not accept --skip-zk',
+      );
+    });
+
+    it('should reject versions that are not toolchain versions', () => {
+      expect(() => Doctor.fromArgs(['+0.25.0;id'])).toThrow(
+        '+0.25.0;id is not a toolchain version (e.g. +0.25.0)',
+      );
+    });
+  });
+});
+
+describe('formatDoctorReport', () => {
+  it('should print a checklist with hints and a summary', () => {
+    const output = formatDoctorReport({
+      success: false,
+      checks: [
+        { name: 'Node.js', status: 'pass', message: '22.11.0' },
+        {
+          name: 'COMPACT_HOME',
+          status: 'warn',
+          message: '/opt/compact does not exist',
+          hint: 'Unset COMPACT_HOME',
+        },
+        { name: 'Toolchain', status: 'fail', message: 'not installed' },
+      ],
+    });
+
+    expect(stripVTControlCharacters(output).split('\n')).toEqual([
+      expect.stringMatching(/ Node\.js {7}22\.11\.0$/),
+      expect.stringMatching(/ COMPACT_HOME {2}\/opt\/compact does not exist$/),
+      '                Unset COMPACT_HOME',
+      expect.stringMatching(/ Toolchain {5}not installed$/),
+      '',
+      '1 passed, 1 warning(s), 1 failed',
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../src/Logger.js';
+
+// Mock ora
+const mockSpinner = {
+  text: '',
+  start: vi.fn(function (this: unknown) {
+    return this;
+  }),
+  info: vi.fn(),
+  succeed: vi.fn(),
+  warn: vi.fn(),
+  fail: vi.fn(),
+};
+vi.mock('ora', () => ({
+  default: vi.fn(() => mockSpinner),
+}));
+
+const mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('Logger', () => {
+  let logger: Logger;
+  let root: string;
+  const chalkLevel = chalk.level;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    logger = new Logger();
+    root = await mkdtemp(join(tmpdir(), 'compact-logger-'));
+  });
+
+  afterEach(async () => {
+    chalk.level = chalkLevel;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('parseArgs', () => {
+    it('should extract the logging flags and keep the compactc arguments', () => {
+      expect(
+        Logger.parseArgs([
+          '--verbose',
+          '--skip-zk',
+          '--log-file',
+          'logs/compact.log',
+          '+0.25.0',
+        ]),
+      ).toEqual({
+        options: { level: 'verbose', logFile: 'logs/compact.log' },
+        args: ['--skip-zk', '+0.25.0'],
+      });
+    });
+
+    it('should leave the arguments after -- to compactc', () => {
+      expect(
+        Logger.parseArgs(['--log-file=compact.log', '--', '--verbose']),
+      ).toEqual({
+        options: { logFile: 'compact.log' },
+        args: ['--', '--verbose'],
+      });
+    });
+
+    it.each([
+      [['--log-file'], '--log-file flag requires a file path'],
+      [['--log-file', '--quiet'], '--log-file flag requires a file path'],
+      [['--log-file='], '--log-file flag requires a file path'],
+      [
+        ['--quiet', '--verbose'],
+        '--quiet flag requires that --verbose is not set',
+      ],
+    ])('should reject %j', (args, message) => {
+      expect(() => Logger.parseArgs(args)).toThrow(message);
+    });
+  });
+
+  describe('configure', () => {
+    it.each([
+      [{ isTTY: true }, {}, true],
+      [{ isTTY: false }, {}, false],
+      [{ isTTY: true }, { CI: 'true' }, false],
+      [{ isTTY: true }, { TERM: 'dumb' }, false],
+    ])('should animate spinners on %j with %j: %s', (stdout, env, enabled) => {
+      logger.configure({}, env, stdout);
+      logger.spinner('text');
+
+      expect(ora).toHaveBeenCalledWith({
+        text: 'text',
+        isSilent: false,
+        isEnabled: enabled,
+      });
+    });
+
+    it('should disable colors with NO_COLOR', () => {
+      chalk.level = 2;
+      logger.configure({}, { NO_COLOR: '1' });
+
+      expect(chalk.level).toBe(0);
+    });
+
+    it('should let FORCE_COLOR take precedence over NO_COLOR', () => {
+      chalk.level = 2;
+      logger.configure({}, { NO_COLOR: '1', FORCE_COLOR: '2' });
+
+      expect(chalk.level).toBe(2);
+    });
+  });
+
+  describe('levels', () => {
+    it('should hide progress but not failures when quiet', () => {
+      logger.configure({ level: 'quiet' });
+
+      logger.spinner('[COMPILE] Compiling A.compact').start();
+      logger.spinner().succeed('[COMPILE] Compiled A.compact');
+      logger.spinner().info('[COMPILE] Cached B.compact');
+      logger.spinner().warn('[COMPILE] Stale C.compact');
+      logger.spinner().fail('[COMPILE] Failed D.compact');
+
+      expect(mockSpinner.start).not.toHaveBeenCalled();
+      expect(mockSpinner.succeed).not.toHaveBeenCalled();
+      expect(mockSpinner.info).not.toHaveBeenCalled();
+      expect(mockSpinner.warn).toHaveBeenCalledWith(
+        '[COMPILE] Stale C.compact',
+      );
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Failed D.compact',
+      );
+    });
+
+    it('should print debug messages only when verbose', () => {
+      logger.debug('hidden');
+      logger.configure({ level: 'verbose' });
+      logger.debug('shown');
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('shown'),
+      );
+    });
+
+    it('should forward spinner text updates', () => {
+      const spinner = logger.spinner('[COMPILE] Compiling A.compact').start();
+      spinner.text = '[COMPILE] Compiling A.compact circuit';
+
+      expect(mockSpinner.text).toBe('[COMPILE] Compiling A.compact circuit');
+    });
+  });
+
+  describe('log file', () => {
+    it('should capture every message and the full compactc output without colors', async () => {
+      const logFile = join(root, 'logs', 'compact.log');
+      logger.configure({ level: 'quiet', logFile });
+
+      logger.spinner().succeed(chalk.green('[COMPILE] Compiled A.compact'));
+      logger.output('A.compact', 'Compiling 1 circuits:', 'stdout');
+      logger.output('A.compact', 'warning: unused', 'stderr');
+      logger.debug('[COMPILE] Running: compact compile src/A.compact');
+      logger.log(chalk.cyan('    done'));
+
+      expect(await readFile(logFile, 'utf8')).toBe(
+        [
+          '✔ [COMPILE] Compiled A.compact',
+          '    [A.compact] stdout: Compiling 1 circuits:',
+          '    [A.compact] stderr: warning: unused',
+          '[COMPILE] Running: compact compile src/A.compact',
+          '    done',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should truncate an existing log file', async () => {
+      const logFile = join(root, 'compact.log');
+      logger.configure({ logFile });
+      logger.log('first run');
+      logger.configure({ logFile });
+
+      expect(await readFile(logFile, 'utf8')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import { formatReport, isReporterFormat } from '../src/Reporters.js';
+import type { CompilationReport } from '../src/types/report.js';
+
+const report: CompilationReport = {
+  toolchain: {
+    devToolsVersion: 'compact 0.1.0',
+    toolchainVersion: 'Compactc version: 0.25.0',
+  },
+  flags: '--skip-zk',
+  startedAt: '2025-01-01T00:00:00.000Z',
+  durationMs: 4500,
+  success: false,
+  summary: { passed: 1, failed: 2, cached: 1, skipped: 1 },
+  files: [
+    {
+      file: 'access/Ownable.compact',
+      source: 'src/access/Ownable.compact',
+      artifactDir: 'artifacts/Ownable',
+      status: 'passed',
+      durationMs: 1250,
+      stdout: '',
+      stderr: '',
+      diagnostics: [],
+    },
+    {
+      file: 'token/Token.compact',
+      source: 'src/token/Token.compact',
+      artifactDir: 'artifacts/Token',
+      status: 'failed',
+      durationMs: 300,
+      stdout: '',
+      stderr: '',
+      error: 'Failed to compile token/Token.compact: Command failed',
+      diagnostics: [
+        {
+          file: 'src/token/Token.compact',
+          line: 3,
+          column: 10,
+          severity: 'error',
+          message: 'expected "Field", got <Uint>',
+        },
+        {
+          file: 'src/token/Token.compact',
+          line: 8,
+          column: 1,
+          severity: 'warning',
+          message: 'unused: x, y\nconsider removing them',
+          code: 'W1',
+        },
+      ],
+    },
+    {
+      file: 'utils/Utils.compact',
+      source: 'src/utils/Utils.compact',
+      artifactDir: 'artifacts/Utils',
+      status: 'failed',
+      durationMs: 50,
+      stdout: '',
+      stderr: '',
+      error: 'Failed to compile utils/Utils.compact: spawn failed',
+      diagnostics: [],
+    },
+    {
+      file: 'security/Pausable.compact',
+      source: 'src/security/Pausable.compact',
+      artifactDir: 'artifacts/Pausable',
+      status: 'cached',
+      durationMs: 2,
+      stdout: '',
+      stderr: '',
+      diagnostics: [],
+    },
+    {
+      file: 'security/Initializable.compact',
+      source: 'src/security/Initializable.compact',
+      artifactDir: 'artifacts/Initializable',
+      status: 'skipped',
+      durationMs: 0,
+      stdout: '',
+      stderr: '',
+      diagnostics: [],
+    },
+  ],
+};
+
+describe('isReporterFormat', () => {
+  it.each(['pretty', 'json', 'junit', 'github', 'sarif'])(
+    'should accept %s',
+    (format) => {
+      expect(isReporterFormat(format)).toBe(true);
+    },
+  );
+
+  it('should reject unknown reporters', () => {
+    expect(isReporterFormat('xml')).toBe(false);
+  });
+});
+
+describe('formatReport', () => {
+  it('should render nothing for the pretty reporter', () => {
+    expect(formatReport(report, 'pretty')).toBe('');
+  });
+
+  it('should render the report as JSON', () => {
+    expect(JSON.parse(formatReport(report, 'json'))).toEqual(report);
+  });
+
+  describe('junit', () => {
+    const xml = formatReport(report, 'junit');
+
+    it('should count tests, failures and skipped files', () => {
+      expect(xml).toContain(
+        '<testsuites name="compact-compiler" tests="5" failures="2" errors="0" skipped="2" time="4.500">',
+      );
+      expect(xml).toContain(
+        '<property name="toolchainVersion" value="Compactc version: 0.25.0"/>',
+      );
+    });
+
+    it('should render passed files as empty test cases', () => {
+      expect(xml).toContain(
+        '<testcase classname="compact" name="access/Ownable.compact" file="src/access/Ownable.compact" time="1.250"/>',
+      );
+    });
+
+    it('should render the warnings of passed files', () => {
+      const warned = formatReport(
+        {
+          ...report,
+          files: [
+            {
+              ...report.files[0],
+              diagnostics: [
+                {
+                  file: 'src/access/Ownable.compact',
+                  line: 4,
+                  column: 2,
+                  severity: 'warning',
+                  message: 'unused <owner>',
+                },
+              ],
+            },
+          ],
+        },
+        'junit',
+      );
+
+      expect(warned).toContain(
+        '<system-err>warning: unused &lt;owner&gt;\n --&gt; src/access/Ownable.compact:4:2</system-err>',
+      );
+    });
+
+    it('should render escaped diagnostics of failed files', () => {
+      expect(xml).toContain(
+        '<failure message="expected &quot;Field&quot;, got &lt;Uint&gt;" type="CompilationError">',
+      );
+      expect(xml).toContain(' --&gt; src/token/Token.compact:3:10');
+    });
+
+    it('should fall back to the error message without diagnostics', () => {
+      expect(xml).toContain(
+        '<failure message="Failed to compile utils/Utils.compact: spawn failed"',
+      );
+    });
+
+    it('should mark cached and skipped files as skipped', () => {
+      expect(xml).toContain('<skipped message="cached"/>');
+      expect(xml).toContain('<skipped message="skipped"/>');
+    });
+  });
+
+  describe('github', () => {
+    it('should render one escaped annotation per diagnostic', () => {
+      expect(formatReport(report, 'github').split('\n')).toEqual([
+        '::error file=src/token/Token.compact,line=3,col=10,title=compactc::expected "Field", got <Uint>',
+        '::warning file=src/token/Token.compact,line=8,col=1,title=compactc W1::unused: x, y%0Aconsider removing them',
+        '::error file=src/utils/Utils.compact,line=1,col=1,title=compactc::Failed to compile utils/Utils.compact: spawn failed',
+      ]);
+    });
+
+    it('should render nothing when there are no diagnostics', () => {
+      expect(
+        formatReport({ ...report, files: [report.files[0]] }, 'github'),
+      ).toBe('');
+    });
+  });
+
+  describe('sarif', () => {
+    const sarif = JSON.parse(formatReport(report, 'sarif'));
+    const [run] = sarif.runs;
+
+    it('should describe the toolchain and the invocation', () => {
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver).toEqual({
+        name: 'compactc',
+        version: 'Compactc version: 0.25.0',
+      });
+      expect(run.invocations).toEqual([
+        {
+          executionSuccessful: false,
+          startTimeUtc: '2025-01-01T00:00:00.000Z',
+          properties: { flags: '--skip-zk' },
+        },
+      ]);
+    });
+
+    it('should render one result per diagnostic', () => {
+      expect(run.results).toHaveLength(3);
+      expect(run.results[1]).toEqual({
+        ruleId: 'W1',
+        level: 'warning',
+        message: { text: 'unused: x, y\nconsider removing them' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'src/token/Token.compact' },
+              region: { startLine: 8, startColumn: 1 },
+            },
+          },
+        ],
+      });
+      expect(run.results[2]).toMatchObject({
+        ruleId: 'compactc',
+        level: 'error',
+      });
+    });
+  });
+});
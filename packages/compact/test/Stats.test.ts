@@ -0,0 +1,259 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  type CircuitStats,
+  formatStatsReport,
+  Stats,
+  type StatsOptions,
+} from '../src/Stats.js';
+import { UsageError } from '../src/types/errors.js';
+
+/** ZKIR of a circuit with the given instructions */
+const zkir = (ops: string[], numInputs = 0) =>
+  JSON.stringify({
+    version: { major: 2, minor: 0 },
+    do_communications_commitment: true,
+    num_inputs: numInputs,
+    instructions: ops.map((op) => ({ op })),
+  });
+
+describe('Stats', () => {
+  let root: string;
+
+  const write = async (path: string, contents: string) => {
+    await mkdir(join(root, path, '..'), { recursive: true });
+    await writeFile(join(root, path), contents);
+  };
+
+  const createStats = (options: StatsOptions = {}) =>
+    new Stats({
+      artifactsDir: join(root, 'artifacts'),
+      baseline: join(root, 'circuit-stats.json'),
+      ...options,
+    });
+
+  const writeBaseline = (circuits: CircuitStats[], version = 1) =>
+    write('circuit-stats.json', JSON.stringify({ version, circuits }));
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-stats-'));
+
+    await write(
+      'artifacts/Simple/zkir/setVal.zkir',
+      zkir(
+        [
+          'private_input',
+          'constrain_bits',
+          'declare_pub_input',
+          'declare_pub_input',
+          'assert',
+        ],
+        1,
+      ),
+    );
+    await write('artifacts/Simple/zkir/setVal.bzkir', 'binary');
+    await write('artifacts/Simple/keys/setVal.prover', 'p'.repeat(2048));
+    await write('artifacts/Simple/keys/setVal.verifier', 'v'.repeat(512));
+    await write(
+      'artifacts/token/Token/zkir/transfer.zkir',
+      zkir(['load_imm', 'output']),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('fromArgs', () => {
+    it('should parse the baseline, threshold and output options', () => {
+      const stats = Stats.fromArgs([
+        '--baseline',
+        'stats.json',
+        '--threshold',
+        '2.5',
+        '--json',
+      ]);
+
+      expect(stats.json).toBe(true);
+    });
+
+    it.each([
+      [['--baseline'], '--baseline flag requires a file path'],
+      [
+        ['--threshold', 'ten'],
+        '--threshold flag requires a non-negative percentage',
+      ],
+      [
+        ['--threshold', '-1'],
+        '--threshold flag requires a non-negative percentage',
+      ],
+      [['--skip-zk'], 'stats does not accept --skip-zk'],
+    ])('should reject %j', (args, message) => {
+      expect(() => Stats.fromArgs(args)).toThrow(message);
+    });
+  });
+
+  describe('run', () => {
+    it('should measure every circuit of every artifact directory', async () => {
+      const report = await createStats().run();
+
+      expect(report.circuits).toEqual([
+        {
+          contract: 'Simple',
+          circuit: 'setVal',
+          instructions: 5,
+          constraints: 2,
+          inputs: 1,
+          publicInputs: 2,
+          proverKeyBytes: 2048,
+          verifierKeyBytes: 512,
+        },
+        {
+          contract: 'token/Token',
+          circuit: 'transfer',
+          instructions: 2,
+          constraints: 0,
+          inputs: 0,
+          publicInputs: 0,
+        },
+      ]);
+    });
+
+    it('should skip hidden directories such as matrix artifact roots', async () => {
+      await write(
+        'artifacts/.matrix/0.26.0/Simple/zkir/setVal.zkir',
+        zkir(['assert']),
+      );
+
+      const report = await createStats().run();
+
+      expect(report.circuits.map(({ contract }) => contract)).toEqual([
+        'Simple',
+        'token/Token',
+      ]);
+    });
+
+    it('should succeed and report every circuit as added without a baseline', async () => {
+      const report = await createStats().run();
+
+      expect(report).toMatchObject({
+        baselineFound: false,
+        success: true,
+        regressions: [],
+        added: ['Simple/setVal', 'token/Token/transfer'],
+      });
+    });
+
+    it('should write the baseline with updateBaseline', async () => {
+      const report = await createStats({ updateBaseline: true }).run();
+
+      expect(report.baselineUpdated).toBe(true);
+      const baseline = JSON.parse(
+        await readFile(join(root, 'circuit-stats.json'), 'utf8'),
+      );
+      expect(baseline).toEqual({ version: 1, circuits: report.circuits });
+    });
+
+    it('should fail when a metric grew past the threshold', async () => {
+      const { circuits } = await createStats().run();
+      await writeBaseline([
+        { ...circuits[0], instructions: 4, proverKeyBytes: 1900 },
+        circuits[1],
+        { ...circuits[1], circuit: 'burn' },
+      ]);
+
+      const report = await createStats().run();
+
+      expect(report.success).toBe(false);
+      expect(report.regressions).toEqual([
+        {
+          contract: 'Simple',
+          circuit: 'setVal',
+          metric: 'instructions',
+          baseline: 4,
+          current: 5,
+          growth: 25,
+        },
+      ]);
+      expect(report.removed).toEqual(['token/Token/burn']);
+    });
+
+    it('should honor the threshold', async () => {
+      const { circuits } = await createStats().run();
+      await writeBaseline([{ ...circuits[0], instructions: 4 }, circuits[1]]);
+
+      const report = await createStats({ threshold: 25 }).run();
+
+      expect(report.success).toBe(true);
+    });
+
+    it('should not compare key sizes missing on either side', async () => {
+      const { circuits } = await createStats().run();
+      await writeBaseline([
+        circuits[0],
+        { ...circuits[1], proverKeyBytes: 1, verifierKeyBytes: 1 },
+      ]);
+      await rm(join(root, 'artifacts/Simple/keys'), { recursive: true });
+
+      const report = await createStats().run();
+
+      expect(report.success).toBe(true);
+    });
+
+    it('should ignore a baseline with an outdated layout', async () => {
+      await writeBaseline([], 0);
+
+      const report = await createStats().run();
+
+      expect(report.baselineFound).toBe(false);
+    });
+
+    it('should reject a baseline that is not valid JSON', async () => {
+      await write('circuit-stats.json', '{"version": 1,');
+
+      await expect(createStats().run()).rejects.toThrow(UsageError);
+    });
+  });
+
+  describe('formatStatsReport', () => {
+    it('should print a table of circuits and the regressions', async () => {
+      const { circuits } = await createStats().run();
+      await writeBaseline([{ ...circuits[0], constraints: 1 }, circuits[1]]);
+
+      const output = stripVTControlCharacters(
+        formatStatsReport(await createStats().run()),
+      );
+
+      expect(output.split('\n')).toEqual([
+        'Circuit               Instructions  Constraints  Public inputs  Prover key  Verifier key',
+        'Simple/setVal                    5            2              2     2.0 KiB         512 B',
+        'token/Token/transfer             2            0              0           -             -',
+        '',
+        expect.stringMatching(
+          /Simple\/setVal: constraints grew 100% \(1 → 2\)$/,
+        ),
+        '',
+        `2 circuit(s), 1 regression(s) against ${join(root, 'circuit-stats.json')} (threshold 10%)`,
+      ]);
+    });
+
+    it('should explain how to create a missing baseline', async () => {
+      const output = formatStatsReport(await createStats().run());
+
+      expect(output).toContain('create one with --update-baseline');
+    });
+
+    it('should report when no circuits were found', async () => {
+      const report = await createStats({
+        artifactsDir: join(root, 'missing'),
+      }).run();
+
+      expect(formatStatsReport(report)).toBe(
+        `No circuits found in ${join(root, 'missing')}`,
+      );
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompactCompiler } from '../src/Compiler.js';
+import { CompilationError } from '../src/types/errors.js';
+import { CompactWatcher, type WatchFunction } from '../src/Watcher.js';
+
+vi.mock('chalk', () => ({
+  default: {
+    blue: (text: string) => text,
+    green: (text: string) => text,
+    red: (text: string) => text,
+    yellow: (text: string) => text,
+    cyan: (text: string) => text,
+    gray: (text: string) => text,
+  },
+}));
+
+const mockSpinner = {
+  start: () => mockSpinner,
+  info: vi.fn(),
+  warn: vi.fn(),
+  fail: vi.fn(),
+  succeed: vi.fn(),
+};
+
+vi.mock('ora', () => ({
+  default: () => mockSpinner,
+}));
+
+describe('CompactWatcher', () => {
+  let compile: ReturnType<typeof vi.fn>;
+  let rebuilds: string[][];
+  let compiler: CompactCompiler;
+  let onChange: (file: string) => void;
+  let close: ReturnType<typeof vi.fn>;
+  let watchFn: WatchFunction;
+
+  const makeCompiler = (affected?: string[]): CompactCompiler =>
+    ({
+      srcDir: 'src',
+      compile: () => compile(affected),
+      withAffected: (files: string[]) => {
+        rebuilds.push(files);
+        return makeCompiler(files);
+      },
+    }) as unknown as CompactCompiler;
+
+  /** Starts the watcher and waits for the initial build */
+  const startWatcher = async (watcher: CompactWatcher) => {
+    const started = watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    return { started };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    compile = vi.fn().mockResolvedValue(undefined);
+    rebuilds = [];
+    compiler = makeCompiler();
+    close = vi.fn();
+    onChange = undefined as unknown as (file: string) => void;
+    watchFn = vi.fn((_dir, listener) => {
+      onChange = listener;
+      return { close };
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should build once and watch the source directory', async () => {
+    const watcher = new CompactWatcher(compiler, { watchFn });
+
+    const { started } = await startWatcher(watcher);
+
+    expect(compile).toHaveBeenCalledWith(undefined);
+    expect(watchFn).toHaveBeenCalledWith('src', expect.any(Function));
+    expect(mockSpinner.info).toHaveBeenCalledWith(
+      '[COMPILE] Watching src/ for changes (press Ctrl+C to stop)',
+    );
+
+    watcher.close();
+    await expect(started).resolves.toBeUndefined();
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should debounce a burst of changes into one rebuild', async () => {
+    const watcher = new CompactWatcher(compiler, { watchFn, debounceMs: 50 });
+    await startWatcher(watcher);
+
+    onChange('token/Token.compact');
+    await vi.advanceTimersByTimeAsync(30);
+    onChange('utils/Utils.compact');
+    onChange('token/Token.compact');
+    await vi.advanceTimersByTimeAsync(30);
+    expect(rebuilds).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(30);
+
+    expect(rebuilds).toEqual([['token/Token.compact', 'utils/Utils.compact']]);
+    expect(compile).toHaveBeenLastCalledWith([
+      'token/Token.compact',
+      'utils/Utils.compact',
+    ]);
+    expect(mockSpinner.info).toHaveBeenCalledWith(
+      '[COMPILE] Change detected: token/Token.compact, utils/Utils.compact',
+    );
+    watcher.close();
+  });
+
+  it('should ignore changes to other files', async () => {
+    const watcher = new CompactWatcher(compiler, { watchFn, debounceMs: 50 });
+    await startWatcher(watcher);
+
+    onChange('token/README.md');
+    onChange('token/Token.compact~');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(rebuilds).toEqual([]);
+    watcher.close();
+  });
+
+  it('should rebuild changes made during a build once it finishes', async () => {
+    let finishBuild = () => {};
+    const watcher = new CompactWatcher(compiler, { watchFn, debounceMs: 10 });
+    await startWatcher(watcher);
+    compile.mockImplementationOnce(
+      () =>
+        new Promise<void>((resolve) => {
+          finishBuild = resolve;
+        }),
+    );
+
+    onChange('A.compact');
+    await vi.advanceTimersByTimeAsync(10);
+    onChange('B.compact');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(rebuilds).toEqual([['A.compact']]);
+
+    finishBuild();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(rebuilds).toEqual([['A.compact'], ['B.compact']]);
+    watcher.close();
+  });
+
+  it('should keep watching after a failed build', async () => {
+    compile.mockRejectedValueOnce(
+      new CompilationError('Failed to compile A.compact: boom', 'A.compact'),
+    );
+    const watcher = new CompactWatcher(compiler, { watchFn, debounceMs: 10 });
+    await startWatcher(watcher);
+
+    expect(mockSpinner.fail).toHaveBeenCalledWith(
+      '[COMPILE] Build failed: Failed to compile A.compact: boom. Waiting for changes...',
+    );
+
+    onChange('A.compact');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(compile).toHaveBeenCalledTimes(2);
+    watcher.close();
+  });
+
+  describe('signal', () => {
+    it('should close the watcher when the signal aborts', async () => {
+      const controller = new AbortController();
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        signal: controller.signal,
+      });
+      const { started } = await startWatcher(watcher);
+
+      controller.abort();
+
+      await expect(started).resolves.toBeUndefined();
+      expect(close).toHaveBeenCalled();
+    });
+
+    it('should not watch when aborted during the initial build', async () => {
+      const controller = new AbortController();
+      compile.mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Received SIGINT');
+      });
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        signal: controller.signal,
+      });
+
+      await expect(watcher.start()).resolves.toBeUndefined();
+      expect(watchFn).not.toHaveBeenCalled();
+      expect(mockSpinner.fail).not.toHaveBeenCalled();
+    });
+
+    it('should pass the signal to the command', async () => {
+      const controller = new AbortController();
+      const execFn = vi.fn().mockResolvedValue({ stdout: '', stderr: '' });
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        execFn,
+        exec: 'yarn test',
+        signal: controller.signal,
+      });
+      await startWatcher(watcher);
+
+      expect(execFn).toHaveBeenCalledWith('yarn test', {
+        signal: controller.signal,
+      });
+      watcher.close();
+    });
+  });
+
+  describe('exec', () => {
+    it('should run the command after each successful build', async () => {
+      const execFn = vi.fn().mockResolvedValue({ stdout: 'ok', stderr: '' });
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        execFn,
+        exec: 'yarn vitest related',
+        debounceMs: 10,
+      });
+      await startWatcher(watcher);
+
+      onChange('A.compact');
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(execFn).toHaveBeenCalledTimes(2);
+      expect(execFn).toHaveBeenCalledWith('yarn vitest related');
+      expect(mockSpinner.succeed).toHaveBeenCalledWith(
+        '[COMPILE] Ran yarn vitest related',
+      );
+      expect(console.log).toHaveBeenCalledWith('    ok');
+      watcher.close();
+    });
+
+    it('should not run the command after a failed build', async () => {
+      compile.mockRejectedValue(new Error('boom'));
+      const execFn = vi.fn();
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        execFn,
+        exec: 'yarn test',
+      });
+      await startWatcher(watcher);
+
+      expect(execFn).not.toHaveBeenCalled();
+      watcher.close();
+    });
+
+    it('should report a failing command and keep watching', async () => {
+      const execFn = vi.fn().mockRejectedValue(
+        Object.assign(new Error('Command failed'), {
+          stdout: '',
+          stderr: '1 test failed',
+        }),
+      );
+      const watcher = new CompactWatcher(compiler, {
+        watchFn,
+        execFn,
+        exec: 'yarn test',
+      });
+      await startWatcher(watcher);
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Command failed: yarn test',
+      );
+      expect(console.log).toHaveBeenCalledWith('    1 test failed');
+      expect(watchFn).toHaveBeenCalled();
+      watcher.close();
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { buildCli, createProject, runCli } from './fixtures/cli.js';
+
+/** Token.compact with a scripted compactc failure */
+const FAILING_TOKEN = `pragma language_version >= 0.17.0;
+
+module Token {
+  import CompactStandardLibrary;
+
+  // fake-compactc: fail expected type Uint<128> but received Boolean
+  export circuit mint(amount: Uint<128>): [] {
+  }
+}
+`;
+
+describe('CLI', () => {
+  let cwd: string;
+
+  beforeAll(async () => {
+    await buildCli();
+  }, 120_000);
+
+  beforeEach(async () => {
+    cwd = await createProject();
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  describe('compact-compiler', () => {
+    it('should compile every source and write the artifacts', async () => {
+      const { code, stderr } = await runCli('compiler', [], { cwd });
+
+      expect(code).toBe(0);
+      expect(stderr).toContain('[COMPILE] Compact toolchain: 0.25.0');
+      expect(stderr).toContain('[COMPILE] [3/3] Compiled utils/Utils.compact');
+      expect(
+        (await readdir(join(cwd, 'artifacts/Token'), { recursive: true }))
+          .map((path) => path.replaceAll('\\', '/'))
+          .sort(),
+      ).toEqual([
+        'compiler',
+        'compiler/contract-info.json',
+        'contract',
+        'contract/index.cjs',
+        'contract/index.cjs.map',
+        'contract/index.d.cts',
+        'keys',
+        'keys/mint.prover',
+        'keys/mint.verifier',
+        'keys/totalSupply.prover',
+        'keys/totalSupply.verifier',
+        'zkir',
+        'zkir/mint.bzkir',
+        'zkir/mint.zkir',
+        'zkir/totalSupply.bzkir',
+        'zkir/totalSupply.zkir',
+      ]);
+      const manifest = JSON.parse(
+        await readFile(join(cwd, 'artifacts/manifest.json'), 'utf8'),
+      );
+      expect(
+        manifest.contracts.map(
+          ({ artifactDir }: { artifactDir: string }) => artifactDir,
+        ),
+      ).toEqual(['MockToken', 'Token', 'Utils']);
+    });
+
+    it('should skip the keys with --skip-zk and use the requested toolchain', async () => {
+      const { code, stderr } = await runCli(
+        'compiler',
+        ['--skip-zk', '+0.26.0'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      expect(stderr).toContain('[COMPILE] Compact toolchain: 0.26.0');
+      expect(existsSync(join(cwd, 'artifacts/Token/zkir/mint.zkir'))).toBe(
+        true,
+      );
+      expect(existsSync(join(cwd, 'artifacts/Token/keys'))).toBe(false);
+    });
+
+    it('should report compactc failures with their diagnostic', async () => {
+      await writeFile(join(cwd, 'src/token/Token.compact'), FAILING_TOKEN);
+
+      const { code, stdout, stderr } = await runCli('compiler', ['--skip-zk'], {
+        cwd,
+      });
+
+      expect(code).toBe(1);
+      expect(stderr).toContain('Failed token/Token.compact');
+      expect(stdout).toContain(
+        'error: expected type Uint<128> but received Boolean',
+      );
+      expect(stdout).toContain('--> src/token/Token.compact:7:3');
+    });
+
+    it('should write a parseable JSON report', async () => {
+      const { code, stdout } = await runCli(
+        'compiler',
+        ['--reporter', 'json', '--skip-zk'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout)).toMatchObject({
+        toolchain: { devToolsVersion: 'compact 0.2.0' },
+        success: true,
+        summary: { passed: 3, failed: 0 },
+      });
+    });
+
+    it('should report the warnings of files that compiled', async () => {
+      const token = join(cwd, 'src/token/Token.compact');
+      await writeFile(
+        token,
+        (await readFile(token, 'utf8')).replace(
+          /^(\s*)(export circuit mint)/m,
+          '$1// fake-compactc: warn unused variable x\n$1$2',
+        ),
+      );
+
+      const { code, stdout } = await runCli(
+        'compiler',
+        ['--reporter', 'json', '--skip-zk'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      const { files } = JSON.parse(stdout);
+      expect(
+        files.find(
+          ({ file }: { file: string }) => file === 'token/Token.compact',
+        ).diagnostics,
+      ).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          message: 'unused variable x',
+        }),
+      ]);
+    });
+
+    it('should compile only the given files and directories', async () => {
+      const { code } = await runCli(
+        'compiler',
+        ['src/utils/Utils.compact', '--dir', 'token/test', '--skip-zk'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      expect(existsSync(join(cwd, 'artifacts/Utils'))).toBe(true);
+      expect(existsSync(join(cwd, 'artifacts/MockToken'))).toBe(true);
+      expect(existsSync(join(cwd, 'artifacts/Token'))).toBe(false);
+    });
+
+    it('should reject unknown options with a suggestion and the help', async () => {
+      const { code, stdout, stderr } = await runCli('compiler', ['--skipzk'], {
+        cwd,
+      });
+
+      expect(code).toBe(2);
+      expect(stderr).toContain(
+        'Unknown option --skipzk. Did you mean --skip-zk?',
+      );
+      expect(stdout).toContain('Usage: compact-compiler [options]');
+      expect(existsSync(join(cwd, 'artifacts'))).toBe(false);
+    });
+
+    it('should print the version of the package', async () => {
+      const { code, stdout } = await runCli('compiler', ['--version'], { cwd });
+      const { version } = JSON.parse(
+        await readFile(new URL('../package.json', import.meta.url), 'utf8'),
+      );
+
+      expect(code).toBe(0);
+      expect(stdout).toBe(`compact-compiler ${version}\n`);
+    });
+
+    it('should fail when the requested toolchain is not installed', async () => {
+      const { code, stderr } = await runCli('compiler', ['+0.30.0'], { cwd });
+
+      expect(code).toBe(3);
+      expect(stderr).toContain('toolchain version 0.30.0 is not installed');
+    });
+
+    it('should explain how to install a missing compact CLI', async () => {
+      const { code, stderr } = await runCli('compiler', [], {
+        cwd,
+        withCompact: false,
+      });
+
+      expect(code).toBe(3);
+      expect(stderr).toContain("'compact' CLI not found in PATH");
+      expect(stderr).toContain('Install with:');
+    });
+
+    it('should rebuild a cached file whose artifacts were deleted', async () => {
+      await runCli('compiler', ['--skip-zk'], { cwd });
+      await rm(join(cwd, 'artifacts/Token/contract'), { recursive: true });
+
+      const { code, stderr } = await runCli('compiler', ['--skip-zk'], { cwd });
+
+      expect(code).toBe(0);
+      expect(stderr).toContain('Compiled token/Token.compact');
+      expect(stderr).toContain('Cached utils/Utils.compact');
+      expect(existsSync(join(cwd, 'artifacts/Token/contract/index.cjs'))).toBe(
+        true,
+      );
+    });
+
+    it('should detect artifacts that are out of date with --check', async () => {
+      await runCli('compiler', ['--skip-zk'], { cwd });
+      await writeFile(
+        join(cwd, 'src/utils/Utils.compact'),
+        (await readFile(join(cwd, 'src/utils/Utils.compact'), 'utf8')).replace(
+          '}\n}',
+          '}\n\n  export circuit noop(): [] {\n  }\n}',
+        ),
+      );
+
+      const { code, stderr } = await runCli(
+        'compiler',
+        ['--check', '--skip-zk'],
+        { cwd },
+      );
+
+      expect(code).toBe(1);
+      expect(stderr).toContain('utils/Utils.compact');
+    });
+  });
+
+  describe('compact-compiler prune', () => {
+    beforeEach(async () => {
+      await runCli('compiler', ['--skip-zk'], { cwd });
+      await rm(join(cwd, 'src/utils/Utils.compact'));
+    });
+
+    it('should only report stale directories with --dry-run', async () => {
+      const { code, stdout, stderr } = await runCli(
+        'compiler',
+        ['prune', '--dry-run'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      expect(stdout + stderr).toContain(
+        'Would remove artifacts/Utils/ (no source)',
+      );
+      expect(existsSync(join(cwd, 'artifacts/Utils'))).toBe(true);
+    });
+
+    it('should remove stale directories and their manifest entries', async () => {
+      const { code } = await runCli('compiler', ['prune'], { cwd });
+
+      expect(code).toBe(0);
+      expect(existsSync(join(cwd, 'artifacts/Utils'))).toBe(false);
+      expect(existsSync(join(cwd, 'artifacts/Token'))).toBe(true);
+      const manifest = JSON.parse(
+        await readFile(join(cwd, 'artifacts/manifest.json'), 'utf8'),
+      );
+      expect(
+        manifest.contracts.map(
+          ({ artifactDir }: { artifactDir: string }) => artifactDir,
+        ),
+      ).toEqual(['MockToken', 'Token']);
+    });
+
+    it('should prune after a build with --prune', async () => {
+      const { code, stderr } = await runCli(
+        'compiler',
+        ['--skip-zk', '--prune'],
+        { cwd },
+      );
+
+      expect(code).toBe(0);
+      expect(stderr).toContain(
+        'Pruned 1 stale artifact directory(ies) from artifacts',
+      );
+      expect(existsSync(join(cwd, 'artifacts/Utils'))).toBe(false);
+    });
+  });
+
+  describe('compact-builder', () => {
+    it('should print its help without building', async () => {
+      const { code, stdout } = await runCli('builder', ['--help'], { cwd });
+
+      expect(code).toBe(0);
+      expect(stdout).toContain('Usage: compact-builder [options]');
+      expect(stdout).not.toContain('--watch');
+      expect(existsSync(join(cwd, 'dist'))).toBe(false);
+    });
+
+    it('should leave the mocks out of the release profile', async () => {
+      const { code, stderr } = await runCli(
+        'builder',
+        ['--profile', 'release', '--skip-zk'],
+        { cwd },
+      );
+
+      expect(code, stderr).toBe(0);
+      expect(existsSync(join(cwd, 'dist/index.js'))).toBe(true);
+      expect(existsSync(join(cwd, 'dist/Token.compact'))).toBe(true);
+      expect(existsSync(join(cwd, 'dist/MockToken.compact'))).toBe(false);
+      expect(existsSync(join(cwd, 'dist/artifacts/Token'))).toBe(true);
+    }, 30_000);
+
+    it('should pass arguments containing spaces to the compiler unchanged', async () => {
+      const mocks = join(cwd, 'src/token/test/mocks');
+      await rename(
+        join(mocks, 'MockToken.compact'),
+        join(mocks, 'Mock Token.compact'),
+      );
+
+      const { code, stderr } = await runCli(
+        'builder',
+        ['--skip-zk', '--exclude', 'token/test/mocks/Mock Token.compact'],
+        { cwd },
+      );
+
+      expect(code, stderr).toBe(0);
+      expect(existsSync(join(cwd, 'dist/artifacts/Token'))).toBe(true);
+      expect(existsSync(join(cwd, 'dist/artifacts/Mock Token'))).toBe(false);
+    }, 30_000);
+
+    it('should ship the artifacts and their manifest', async () => {
+      const { code, stderr } = await runCli('builder', ['--skip-zk'], { cwd });
+
+      expect(code, stderr).toBe(0);
+      expect(existsSync(join(cwd, 'dist/artifacts/Token/contract'))).toBe(true);
+      expect(existsSync(join(cwd, 'dist/artifacts/manifest.json'))).toBe(true);
+      expect(existsSync(join(cwd, 'dist/artifacts/.compact-cache.json'))).toBe(
+        false,
+      );
+    }, 30_000);
+
+    it('should exit with 4 when a build step fails', async () => {
+      await writeFile(
+        join(cwd, 'src/index.ts'),
+        'export const broken: number = "not a number";\n',
+      );
+
+      const { code, stderr } = await runCli('builder', ['--skip-zk'], { cwd });
+
+      expect(code).toBe(4);
+      expect(stderr).toContain('[BUILD] [1/3] Compiling TypeScript');
+      expect(existsSync(join(cwd, 'dist/Token.compact'))).toBe(false);
+    }, 30_000);
+  });
+});
@@ -0,0 +1,159 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UIService } from '../src/Compiler.js';
+import type { ResolvedConfig } from '../src/Config.js';
+import { compile } from '../src/compile.js';
+import type { CompileEvent } from '../src/types/report.js';
+
+describe('compile', () => {
+  let root: string;
+
+  const execError = (stdout: string, stderr: string) =>
+    Object.assign(new Error('Command failed'), { stdout, stderr });
+
+  const mockExec = vi.fn(async (command: string) => {
+    if (command === 'compact --version') {
+      return { stdout: 'compact 0.1.0', stderr: '' };
+    }
+    if (command.endsWith('--version')) {
+      return { stdout: 'Compactc version: 0.25.0', stderr: '' };
+    }
+    if (command.includes('Broken.compact')) {
+      throw execError(
+        'Compactc version: 0.25.0',
+        `Exception: ${join(root, 'src', 'token', 'Broken.compact')} line 3 char 5:\n  unbound identifier x`,
+      );
+    }
+    return { stdout: 'Compactc version: 0.25.0\nCompiled', stderr: 'warning' };
+  });
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'compact-api-'));
+    await mkdir(join(root, 'src', 'token'), { recursive: true });
+    await writeFile(join(root, 'src', 'token', 'Token.compact'), '');
+    await writeFile(join(root, 'src', 'token', 'Broken.compact'), '');
+    mockExec.mockClear();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const config = (): ResolvedConfig => ({
+    srcDir: join(root, 'src'),
+    artifactsDir: join(root, 'artifacts'),
+    flags: ['--skip-zk'],
+    include: [],
+    exclude: [],
+    overrides: {},
+  });
+
+  it('should return the result of every file instead of throwing', async () => {
+    const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await compile({
+      config: config(),
+      execFn: mockExec,
+      keepGoing: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.flags).toBe('--skip-zk');
+    expect(result.toolchain).toEqual({
+      devToolsVersion: 'compact 0.1.0',
+      toolchainVersion: 'Compactc version: 0.25.0',
+    });
+    expect(result.summary).toEqual({
+      passed: 1,
+      failed: 1,
+      cached: 0,
+      skipped: 0,
+    });
+
+    const [broken, token] = result.files;
+    expect(token).toMatchObject({
+      file: join('token', 'Token.compact'),
+      status: 'passed',
+      artifactDir: join(root, 'artifacts', 'Token'),
+      stdout: 'Compactc version: 0.25.0\nCompiled',
+      stderr: 'warning',
+      diagnostics: [],
+    });
+    expect(broken).toMatchObject({
+      file: join('token', 'Broken.compact'),
+      status: 'failed',
+      artifactDir: join(root, 'artifacts', 'Broken'),
+      stdout: 'Compactc version: 0.25.0',
+      diagnostics: [
+        expect.objectContaining({ line: 3, message: 'unbound identifier x' }),
+      ],
+    });
+    expect(broken.error).toMatch(/^Failed to compile token\/Broken\.compact/);
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(UIService.silent).toBe(false);
+  });
+
+  it('should emit progress events in order', async () => {
+    const events: CompileEvent[] = [];
+
+    await compile({
+      config: config(),
+      execFn: mockExec,
+      targetDir: 'token',
+      include: ['**/Token.compact'],
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(events.map((event) => event.type)).toEqual([
+      'start',
+      'compiling',
+      'output',
+      'output',
+      'output',
+      'file',
+      'end',
+    ]);
+    expect(events[0]).toEqual({
+      type: 'start',
+      files: [join('token', 'Token.compact')],
+    });
+    expect(events[2]).toEqual({
+      type: 'output',
+      file: join('token', 'Token.compact'),
+      stream: 'stdout',
+      line: 'Compactc version: 0.25.0',
+    });
+    expect(events[5]).toMatchObject({
+      type: 'file',
+      index: 0,
+      total: 1,
+      file: { status: 'passed' },
+    });
+  });
+
+  it('should add the given flags to the configured flags', async () => {
+    await compile({
+      config: config(),
+      execFn: mockExec,
+      flags: ['--skip-zk', '--verbose'],
+      version: '0.26.0',
+      exclude: ['**/Broken.compact'],
+    });
+
+    expect(mockExec).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^compact compile \+0\.26\.0 --skip-zk --verbose \S*Token\.compact /,
+      ),
+    );
+  });
+
+  it('should reject a version that is not a toolchain version', async () => {
+    await expect(
+      compile({ config: config(), execFn: mockExec, version: '0.26.0 $(id)' }),
+    ).rejects.toThrow('"0.26.0 $(id)" is not a toolchain version');
+    expect(mockExec).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { execFile } from 'node:child_process';
+import { copyFile, cp, mkdir, mkdtemp, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { delimiter, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/** Root of the compact package */
+const PACKAGE_DIR = fileURLToPath(new URL('../..', import.meta.url));
+/** Directory holding the fake `compact` executable */
+export const FAKE_BIN_DIR = fileURLToPath(new URL('./bin', import.meta.url));
+/** Fixture project copied by {@link createProject} */
+const PROJECT_DIR = fileURLToPath(new URL('./project', import.meta.url));
+/** Package the CLIs run by {@link runCli} are built into */
+const CLI_PACKAGE_DIR = join(
+  PACKAGE_DIR,
+  'node_modules',
+  '.cache',
+  'compact-cli',
+);
+/** Build output of the CLIs, next to the `package.json` they read their version from */
+const CLI_DIR = join(CLI_PACKAGE_DIR, 'dist');
+/** Directory of the `tsc` executable the builder runs */
+const TSC_DIR = dirname(
+  createRequire(import.meta.url).resolve('typescript/bin/tsc'),
+);
+
+/** Entrypoints of the CLIs */
+const CLIS = {
+  compiler: 'runCompiler.js',
+  builder: 'runBuilder.js',
+} as const;
+
+/**
+ * Outcome of a CLI run.
+ *
+ * @interface CliResult
+ * @prop {number} code Exit code of the process
+ * @prop {string} stdout Standard output
+ * @prop {string} stderr Standard error
+ */
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Options of {@link runCli}.
+ *
+ * @interface CliOptions
+ * @prop {string} cwd Project directory the CLI runs in
+ * @prop {NodeJS.ProcessEnv} [env] Extra environment variables
+ * @prop {boolean} [withCompact] Whether the fake `compact` is on the PATH (defaults to `true`)
+ */
+export interface CliOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  withCompact?: boolean;
+}
+
+/**
+ * Builds the CLIs from the sources, once per test file that runs them.
+ */
+export async function buildCli(): Promise<void> {
+  await execFileAsync(
+    process.execPath,
+    [
+      join(TSC_DIR, 'tsc'),
+      '-p',
+      join(PACKAGE_DIR, 'tsconfig.json'),
+      '--outDir',
+      CLI_DIR,
+      '--declaration',
+      'false',
+      '--sourceMap',
+      'false',
+    ],
+    { cwd: PACKAGE_DIR },
+  );
+  await copyFile(
+    join(PACKAGE_DIR, 'package.json'),
+    join(CLI_PACKAGE_DIR, 'package.json'),
+  );
+}
+
+/**
+ * Copies the fixture project to a temporary directory.
+ *
+ * @param files - Extra or replaced files, keyed by path from the project root
+ * @returns Path of the project
+ */
+export async function createProject(
+  files: Record<string, string> = {},
+): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'compact-cli-'));
+  await cp(PROJECT_DIR, root, { recursive: true });
+  for (const [path, contents] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), contents);
+  }
+  return root;
+}
+
+/**
+ * Runs a CLI as a subprocess against the fake `compact`, with a PATH holding
+ * only node, `tsc` and the system directories so no real toolchain is used.
+ *
+ * @param cli - CLI to run
+ * @param args - Command-line arguments
+ * @param options - Working directory and environment
+ * @returns Exit code and output of the CLI
+ */
+export async function runCli(
+  cli: keyof typeof CLIS,
+  args: string[],
+  { cwd, env = {}, withCompact = true }: CliOptions,
+): Promise<CliResult> {
+  const path = [
+    ...(withCompact ? [FAKE_BIN_DIR] : []),
+    dirname(process.execPath),
+    TSC_DIR,
+    '/usr/bin',
+    '/bin',
+  ].join(delimiter);
+
+  try {
+    const { stdout, stderr } = await execFileAsync(
+      process.execPath,
+      [join(CLI_DIR, CLIS[cli]), ...args],
+      {
+        cwd,
+        env: { PATH: path, HOME: cwd, NO_COLOR: '1', CI: '1', ...env },
+        timeout: 60_000,
+      },
+    );
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const { code, stdout, stderr } = error as CliResult & { code: unknown };
+    if (typeof code !== 'number') {
+      throw error;
+    }
+    return { code, stdout, stderr };
+  }
+}
@@ -0,0 +1 @@
+export const CONTRACTS = ['Token'] as const;
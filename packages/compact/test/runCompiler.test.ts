@@ -1,12 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { CompactCompiler } from '../src/Compiler.js';
+import { Doctor } from '../src/Doctor.js';
+import { Stats } from '../src/Stats.js';
 import {
+  AggregateCompilationError,
+  ArtifactCollisionError,
+  ArtifactDriftError,
   CompactCliNotFoundError,
   CompilationError,
+  CompilationTimeoutError,
+  ConfigError,
   DirectoryNotFoundError,
+  EnvironmentError,
   isPromisifiedChildProcessError,
   type PromisifiedChildProcessError,
+  SourceNotFoundError,
+  ToolchainVersionMismatchError,
+  UsageError,
 } from '../src/types/errors.js';
+import { CompactWatcher } from '../src/Watcher.js';
 
 // Mock CompactCompiler
 vi.mock('../src/Compiler.js', () => ({
@@ -15,6 +27,44 @@ vi.mock('../src/Compiler.js', () => ({
   },
 }));
 
+// Mock project configuration
+const mockConfig = {
+  srcDir: 'src',
+  artifactsDir: 'artifacts',
+  flags: [],
+  include: [],
+  exclude: [],
+  overrides: {},
+};
+const mockLoadConfig = vi.fn();
+vi.mock('../src/Config.js', () => ({
+  loadConfig: mockLoadConfig,
+}));
+
+// Mock Doctor
+const mockDoctorRun = vi.fn();
+vi.mock('../src/Doctor.js', () => ({
+  Doctor: { fromArgs: vi.fn() },
+  formatDoctorReport: vi.fn(() => 'checklist'),
+}));
+
+// Mock Stats
+const mockStatsRun = vi.fn();
+vi.mock('../src/Stats.js', () => ({
+  Stats: { fromArgs: vi.fn() },
+  formatStatsReport: vi.fn(() => 'circuit table'),
+}));
+
+// Mock CompactWatcher
+const mockWatcherStart = vi.fn();
+vi.mock('../src/Watcher.js', () => ({
+  CompactWatcher: vi.fn(
+    class {
+      start = mockWatcherStart;
+    },
+  ),
+}));
+
 // Mock error utilities
 vi.mock('../src/types/errors.js', async () => {
   const actual = await vi.importActual('../src/types/errors.js');
@@ -66,6 +116,7 @@ describe('runCompiler CLI', () => {
 
     mockCompile = vi.fn();
     mockFromArgs = vi.mocked(CompactCompiler.fromArgs);
+    mockLoadConfig.mockResolvedValue(mockConfig);
 
     // Mock CompactCompiler instance
     mockFromArgs.mockReturnValue({
@@ -92,7 +143,12 @@ describe('runCompiler CLI', () => {
       // Import and run the CLI
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        [],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
       expect(mockCompile).toHaveBeenCalled();
       expect(mockExit).not.toHaveBeenCalled();
     });
@@ -109,16 +165,285 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'security',
-        '--skip-zk',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security', '--skip-zk'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
       expect(mockCompile).toHaveBeenCalled();
       expect(mockExit).not.toHaveBeenCalled();
     });
   });
 
+  describe('logging flags', () => {
+    it('should configure the logger and not pass its flags to the compiler', async () => {
+      process.argv = ['node', 'runCompiler.js', '--quiet', '--skip-zk'];
+      mockCompile.mockResolvedValue(undefined);
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockCompile).toHaveBeenCalled());
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--skip-zk'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
+      // Progress is hidden at the quiet level
+      expect(mockSpinner.info).not.toHaveBeenCalled();
+    });
+
+    it('should show usage help for a log file without a path', async () => {
+      process.argv = ['node', 'runCompiler.js', '--log-file'];
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: --log-file flag requires a file path',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('\nUsage: compact-compiler [options]'),
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch mode', () => {
+    it('should start a watcher instead of compiling once', async () => {
+      const compiler = {
+        compile: mockCompile,
+        watchMode: true,
+        watchExec: 'yarn test',
+      };
+      mockFromArgs.mockReturnValue(compiler as any);
+      mockWatcherStart.mockResolvedValue(undefined);
+
+      await import('../src/runCompiler.js');
+
+      expect(CompactWatcher).toHaveBeenCalledWith(compiler, {
+        exec: 'yarn test',
+        signal: expect.any(AbortSignal),
+      });
+      expect(mockWatcherStart).toHaveBeenCalled();
+      expect(mockCompile).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('doctor', () => {
+    const report = {
+      success: true,
+      checks: [{ name: 'Node.js', status: 'pass', message: '22.11.0' }],
+    };
+
+    beforeEach(() => {
+      process.argv = ['node', 'runCompiler.js', 'doctor'];
+      mockDoctorRun.mockResolvedValue(report);
+      vi.mocked(Doctor.fromArgs).mockReturnValue({
+        json: false,
+        run: mockDoctorRun,
+      } as any);
+    });
+
+    it('should print the checklist instead of compiling', async () => {
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() =>
+        expect(mockConsoleLog).toHaveBeenCalledWith('checklist'),
+      );
+      expect(Doctor.fromArgs).toHaveBeenCalledWith(
+        [],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should print the report as JSON and exit 3 when a check failed', async () => {
+      process.argv.push('--json');
+      const failed = { ...report, success: false };
+      mockDoctorRun.mockResolvedValue(failed);
+      vi.mocked(Doctor.fromArgs).mockReturnValue({
+        json: true,
+        run: mockDoctorRun,
+      } as any);
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(3));
+      expect(Doctor.fromArgs).toHaveBeenCalledWith(
+        ['--json'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        JSON.stringify(failed, null, 2),
+      );
+    });
+
+    it('should show usage help for unknown doctor arguments', async () => {
+      vi.mocked(Doctor.fromArgs).mockImplementation(() => {
+        throw new UsageError('doctor does not accept --skip-zk');
+      });
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: doctor does not accept --skip-zk',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '       compact-compiler doctor [--json] [+<version>]  Diagnose the environment',
+        ),
+      );
+    });
+  });
+
+  describe('stats', () => {
+    const report = { success: true, circuits: [], regressions: [] };
+
+    beforeEach(() => {
+      process.argv = ['node', 'runCompiler.js', 'stats', '--threshold', '5'];
+      mockStatsRun.mockResolvedValue(report);
+      vi.mocked(Stats.fromArgs).mockReturnValue({
+        json: false,
+        run: mockStatsRun,
+      } as any);
+    });
+
+    it('should print the circuit table instead of compiling', async () => {
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() =>
+        expect(mockConsoleLog).toHaveBeenCalledWith('circuit table'),
+      );
+      expect(Stats.fromArgs).toHaveBeenCalledWith(
+        ['--threshold', '5'],
+        mockConfig,
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should print the report as JSON and exit 6 on regressions', async () => {
+      const failed = { ...report, success: false };
+      mockStatsRun.mockResolvedValue(failed);
+      vi.mocked(Stats.fromArgs).mockReturnValue({
+        json: true,
+        run: mockStatsRun,
+      } as any);
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(6));
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        JSON.stringify(failed, null, 2),
+      );
+    });
+
+    it('should show usage help for unknown stats arguments', async () => {
+      vi.mocked(Stats.fromArgs).mockImplementation(() => {
+        throw new UsageError('stats does not accept --skip-zk');
+      });
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: stats does not accept --skip-zk',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('compact-compiler stats [--baseline <file>]'),
+      );
+    });
+  });
+
+  describe('prune', () => {
+    const mockPruneArtifacts = vi.fn();
+
+    beforeEach(() => {
+      mockFromArgs.mockReturnValue({
+        pruneArtifacts: mockPruneArtifacts,
+      } as any);
+    });
+
+    it('should prune without compiling', async () => {
+      process.argv = ['node', 'runCompiler.js', 'prune', '--dry-run'];
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockPruneArtifacts).toHaveBeenCalled());
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--prune', '--dry-run'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
+      expect(mockCompile).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should print the help of the subcommand', async () => {
+      process.argv = ['node', 'runCompiler.js', 'prune', '--help'];
+
+      await import('../src/runCompiler.js');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('Usage: compact-compiler prune [options]'),
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+    });
+
+    it('should show usage help for compile-only options', async () => {
+      process.argv = ['node', 'runCompiler.js', 'prune', '--watch'];
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        expect.stringContaining('[COMPILE] Error: Unknown option --watch.'),
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+    });
+
+    it.each([['--skip-zk'], ['--dir'], ['--check']])(
+      'should reject the compile option %s',
+      async (option) => {
+        process.argv = ['node', 'runCompiler.js', 'prune', option];
+
+        await import('../src/runCompiler.js');
+
+        await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+        expect(mockSpinner.fail).toHaveBeenCalledWith(
+          expect.stringContaining(`[COMPILE] Error: Unknown option ${option}.`),
+        );
+        expect(mockFromArgs).not.toHaveBeenCalled();
+      },
+    );
+
+    it.each([
+      [['src/Token.compact'], 'src/Token.compact'],
+      [['+0.25.0'], '+0.25.0'],
+      [['--', '--vscode'], '--vscode'],
+    ])('should reject the compile arguments %j', async (rest, extra) => {
+      process.argv = ['node', 'runCompiler.js', 'prune', ...rest];
+
+      await import('../src/runCompiler.js');
+
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalledWith(2));
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        `[COMPILE] Error: prune does not accept ${extra}`,
+      );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle CompactCliNotFoundError with installation instructions', async () => {
       const error = new CompactCliNotFoundError('CLI not found');
@@ -132,7 +457,54 @@ describe('runCompiler CLI', () => {
       expect(mockSpinner.info).toHaveBeenCalledWith(
         "[COMPILE] Install with: curl --proto '=https' --tlsv1.2 -LsSf https://github.com/midnightntwrk/compact/releases/latest/download/compact-installer.sh | sh",
       );
-      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockExit).toHaveBeenCalledWith(3);
+    });
+
+    it('should handle SourceNotFoundError with a hint', async () => {
+      const error = new SourceNotFoundError(
+        'Source file src/token/Missing.compact does not exist',
+        'token/Missing.compact',
+      );
+      mockCompile.mockRejectedValue(error);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Source file src/token/Missing.compact does not exist',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nPass .compact files relative to the working directory or the source directory.',
+      );
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
+    it('should exit 2 when git rejects the --changed-since ref', async () => {
+      process.argv = ['node', 'runCompiler.js', '--changed-since', 'nope'];
+      mockCompile.mockRejectedValue(
+        new UsageError(
+          'Failed to list files changed since nope: unknown revision',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Failed to list files changed since nope: unknown revision',
+      );
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
+    it('should exit 3 when git is missing for --changed-since', async () => {
+      process.argv = ['node', 'runCompiler.js', '--changed-since', 'main'];
+      mockCompile.mockRejectedValue(
+        new EnvironmentError(
+          "'git' not found in PATH, --changed-since requires it",
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockExit).toHaveBeenCalledWith(3);
     });
 
     it('should handle DirectoryNotFoundError with helpful message', async () => {
@@ -163,7 +535,7 @@ describe('runCompiler CLI', () => {
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  --dir utils     # Compile utility contracts',
       );
-      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockExit).toHaveBeenCalledWith(2);
     });
 
     it('should handle CompilationError with file context and cause', async () => {
@@ -200,6 +572,94 @@ describe('runCompiler CLI', () => {
       expect(mockExit).toHaveBeenCalledWith(1);
     });
 
+    it('should handle AggregateCompilationError by listing each failing file', async () => {
+      const error = new AggregateCompilationError([
+        new CompilationError('Compilation failed', 'utils/Utils.compact'),
+        new CompilationError('Compilation failed', 'token/Token.compact'),
+      ]);
+      mockCompile.mockRejectedValue(error);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation failed for 2 file(s):',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith('    • utils/Utils.compact');
+      expect(mockConsoleLog).toHaveBeenCalledWith('    • token/Token.compact');
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should not repeat stderr when diagnostics were rendered', async () => {
+      const mockIsPromisifiedChildProcessError = vi.mocked(
+        isPromisifiedChildProcessError,
+      );
+      const childProcessError = {
+        message: 'Syntax error',
+        stdout: '',
+        stderr: 'Exception: src/MyToken.compact line 1 char 1: boom',
+      };
+      mockIsPromisifiedChildProcessError.mockImplementation(
+        (err) => err === childProcessError,
+      );
+      const error = new CompilationError(
+        'Compilation failed',
+        'MyToken.compact',
+        childProcessError,
+        [
+          {
+            file: 'src/MyToken.compact',
+            line: 1,
+            column: 1,
+            severity: 'error',
+            message: 'boom',
+          },
+        ],
+      );
+      mockCompile.mockRejectedValue(error);
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation failed for file: MyToken.compact',
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(
+        expect.stringContaining('Additional error details'),
+      );
+    });
+
+    it('should only exit when a failure was reported to stdout', async () => {
+      mockFromArgs.mockReturnValue({
+        compile: mockCompile,
+        reportsToStdout: true,
+      } as any);
+      mockCompile.mockRejectedValue(
+        new CompilationError('Compilation failed', 'MyToken.compact'),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).not.toHaveBeenCalled();
+      expect(mockConsoleLog).not.toHaveBeenCalled();
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should still report environment errors with a stdout report', async () => {
+      mockFromArgs.mockReturnValue({
+        compile: mockCompile,
+        reportsToStdout: true,
+      } as any);
+      mockCompile.mockRejectedValue(
+        new CompactCliNotFoundError('compact not found'),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: compact not found',
+      );
+      expect(mockExit).toHaveBeenCalledWith(3);
+    });
+
     it('should handle CompilationError with unknown file', async () => {
       const error = new CompilationError('Compilation failed');
       mockCompile.mockRejectedValue(error);
@@ -213,7 +673,7 @@ describe('runCompiler CLI', () => {
     });
 
     it('should handle argument parsing errors', async () => {
-      const error = new Error('--dir flag requires a directory name');
+      const error = new UsageError('--dir flag requires a directory name');
       mockFromArgs.mockImplementation(() => {
         throw error;
       });
@@ -224,11 +684,147 @@ describe('runCompiler CLI', () => {
         '[COMPILE] Error: --dir flag requires a directory name',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '\nUsage: compact-compiler [options]',
+        expect.stringContaining('\nUsage: compact-compiler [options]'),
+      );
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
+    it('should list the sources of artifact collisions', async () => {
+      mockCompile.mockRejectedValue(
+        new ArtifactCollisionError([
+          {
+            outputDir: 'artifacts/Foo',
+            files: [
+              'access/test/mocks/Foo.compact',
+              'token/test/mocks/Foo.compact',
+            ],
+          },
+        ]),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        "[COMPILE] Error: Sources would overwrite each other's artifacts in artifacts/Foo",
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith('    artifacts/Foo:');
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '      • access/test/mocks/Foo.compact',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '      • token/test/mocks/Foo.compact',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        expect.stringContaining('--layout mirror'),
+      );
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
+    it('should list the sources whose committed artifacts are out of date', async () => {
+      mockCompile.mockRejectedValue(
+        new ArtifactDriftError([
+          {
+            file: 'token/Token.compact',
+            artifactDir: 'artifacts/Token',
+            missing: [],
+            stale: [],
+            changed: ['contract/index.cjs'],
+          },
+        ]),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Artifacts of 1 source(s) are out of date:',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith('    • token/Token.compact');
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nRecompile without --check to update the committed artifacts.',
       );
       expect(mockExit).toHaveBeenCalledWith(1);
     });
 
+    it('should list the files a toolchain cannot compile with remediation steps', async () => {
+      mockCompile.mockRejectedValue(
+        new ToolchainVersionMismatchError(
+          'Language version 0.16.0 of the toolchain does not satisfy the language_version pragma of token/Token.compact',
+          '0.16.0',
+          [{ file: 'token/Token.compact', range: '>= 0.17.0' }],
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Language version 0.16.0 of the toolchain does not satisfy the language_version pragma of token/Token.compact',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '    • token/Token.compact requires language_version >= 0.17.0',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  • Install a matching toolchain with: compact update <version>',
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(
+        expect.stringContaining('requiredVersion'),
+      );
+      expect(mockExit).toHaveBeenCalledWith(3);
+    });
+
+    it('should point at the required version range of the configuration', async () => {
+      mockCompile.mockRejectedValue(
+        new ToolchainVersionMismatchError(
+          'Toolchain version 0.24.0 does not satisfy the required version range >=0.25.0',
+          '0.24.0',
+          [],
+          '>=0.25.0',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  • Or widen "requiredVersion" (>=0.25.0) in the project configuration',
+      );
+      expect(mockExit).toHaveBeenCalledWith(3);
+    });
+
+    it('should handle CompilationTimeoutError with a hint to raise the limit', async () => {
+      mockCompile.mockRejectedValue(
+        new CompilationTimeoutError('Slow.compact', 90_000),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation timed out after 90s for file: Slow.compact',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '\nRaise the limit with --timeout <seconds> if the file needs longer to compile.',
+      );
+      expect(mockExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should handle invalid configuration files', async () => {
+      mockLoadConfig.mockRejectedValue(
+        new ConfigError(
+          'compact.config.json: unknown option "srcdir"',
+          '/project/compact.config.json',
+        ),
+      );
+
+      await import('../src/runCompiler.js');
+
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Invalid configuration: compact.config.json: unknown option "srcdir"',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '    Config file: /project/compact.config.json',
+      );
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
     it('should handle unexpected errors', async () => {
       const msg = 'Something unexpected happened';
       const error = new Error(msg);
@@ -254,7 +850,7 @@ describe('runCompiler CLI', () => {
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  • File system permissions are correct',
       );
-      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockExit).toHaveBeenCalledWith(5);
     });
 
     it('should handle non-Error exceptions', async () => {
@@ -266,31 +862,56 @@ describe('runCompiler CLI', () => {
       expect(mockSpinner.fail).toHaveBeenCalledWith(
         `[COMPILE] Unexpected error: ${msg}`,
       );
-      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockExit).toHaveBeenCalledWith(5);
     });
   });
 
-  describe('environment validation errors', () => {
-    it('should handle promisified child process errors', async () => {
-      const mockIsPromisifiedChildProcessError = vi.mocked(
-        isPromisifiedChildProcessError,
+  describe('termination signals', () => {
+    it('should cancel the compilation and exit with 130 on SIGINT', async () => {
+      mockCompile.mockImplementation(async () => {
+        process.emit('SIGINT');
+        const [, , , signal] = mockFromArgs.mock.calls[0];
+        throw signal.reason;
+      });
+
+      await import('../src/runCompiler.js');
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalled());
+
+      const [, , , signal] = mockFromArgs.mock.calls[0];
+      expect(signal.aborted).toBe(true);
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Compilation cancelled (SIGINT), incomplete artifacts were removed',
       );
+      expect(mockExit).toHaveBeenCalledWith(130);
+      expect(process.listenerCount('SIGINT')).toBe(0);
+    });
 
-      const error = {
-        message: 'Command failed',
+    it('should exit with 143 when a watcher is closed by SIGTERM', async () => {
+      mockFromArgs.mockReturnValue({ compile: mockCompile, watchMode: true });
+      mockWatcherStart.mockImplementation(async () => {
+        process.emit('SIGTERM');
+      });
+
+      await import('../src/runCompiler.js');
+      await vi.waitFor(() => expect(mockExit).toHaveBeenCalled());
+
+      expect(mockExit).toHaveBeenCalledWith(143);
+      expect(mockSpinner.fail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('environment validation errors', () => {
+    it('should handle EnvironmentError with troubleshooting tips', async () => {
+      const cause = Object.assign(new Error('Command failed'), {
         stdout: 'some output',
         stderr: 'error details',
-      };
-
-      // Return true for this specific error
-      mockIsPromisifiedChildProcessError.mockImplementation(
-        (err) => err === error,
+      });
+      mockCompile.mockRejectedValue(
+        new EnvironmentError('Command failed', cause),
       );
-      mockCompile.mockRejectedValue(error);
 
       await import('../src/runCompiler.js');
 
-      expect(mockIsPromisifiedChildProcessError).toHaveBeenCalledWith(error);
       expect(mockSpinner.fail).toHaveBeenCalledWith(
         '[COMPILE] Environment validation failed: Command failed',
       );
@@ -304,58 +925,93 @@ describe('runCompiler CLI', () => {
       expect(mockConsoleLog).toHaveBeenCalledWith(
         '  • Ensure you have proper permissions',
       );
-      expect(mockExit).toHaveBeenCalledWith(1);
+      expect(mockExit).toHaveBeenCalledWith(3);
     });
   });
 
   describe('usage help', () => {
-    it('should show complete usage help for argument parsing errors', async () => {
-      const error = new Error('--dir flag requires a directory name');
-      mockFromArgs.mockImplementation(() => {
-        throw error;
-      });
+    it('should print the help for --help without compiling', async () => {
+      process.argv = ['node', 'runCompiler.js', '--dir', 'token', '--help'];
 
       await import('../src/runCompiler.js');
 
-      // Verify all sections of help are shown
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '\nUsage: compact-compiler [options]',
-      );
-      expect(mockConsoleLog).toHaveBeenCalledWith('\nOptions:');
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  --dir <directory> Compile specific directory (access, archive, security, token, utils)',
+        expect.stringContaining('Usage: compact-compiler [options]'),
       );
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockExit).not.toHaveBeenCalled();
+    });
+
+    it('should list the exit codes in the help', async () => {
+      process.argv = ['node', 'runCompiler.js', '--help'];
+
+      await import('../src/runCompiler.js');
+
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  --skip-zk         Skip zero-knowledge proof generation',
+        expect.stringMatching(
+          /Exit codes:[\s\S]*\n {2}6 +A circuit grew past the stats threshold\n/,
+        ),
       );
+    });
+
+    it('should print the version for --version without compiling', async () => {
+      process.argv = ['node', 'runCompiler.js', '--version'];
+
+      await import('../src/runCompiler.js');
+
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  +<version>        Use specific toolchain version (e.g., +0.25.0)',
+        expect.stringMatching(/^compact-compiler \d+\.\d+\.\d+/),
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith('\nExamples:');
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  compact-compiler                           # Compile all files',
+      expect(mockFromArgs).not.toHaveBeenCalled();
+    });
+
+    it('should show usage help for unknown options', async () => {
+      process.argv = ['node', 'runCompiler.js', '--skipzk'];
+
+      await import('../src/runCompiler.js');
+
+      expect(mockSpinner.fail).toHaveBeenCalledWith(
+        '[COMPILE] Error: Unknown option --skipzk. Did you mean --skip-zk?',
       );
       expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  compact-compiler --dir security             # Compile security directory',
+        expect.stringContaining('\nUsage: compact-compiler [options]'),
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  compact-compiler --dir access --skip-zk     # Compile access with flags',
+      expect(mockFromArgs).not.toHaveBeenCalled();
+      expect(mockExit).toHaveBeenCalledWith(2);
+    });
+
+    it('should show complete usage help for argument parsing errors', async () => {
+      const error = new UsageError('--dir flag requires a directory name');
+      mockFromArgs.mockImplementation(() => {
+        throw error;
+      });
+
+      await import('../src/runCompiler.js');
+
+      // Verify all sections of help are shown
+      const help = mockConsoleLog.mock.calls.flat().join('\n');
+      expect(help).toContain(
+        '\nUsage: compact-compiler [options] [file...] [+<version>] [-- <compactc flags...>]',
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  SKIP_ZK=true compact-compiler --dir token   # Use environment variable',
+      expect(help).toContain('\nArguments:\n');
+      expect(help).toContain(
+        '  +<version>     Use a specific toolchain version (e.g. +0.25.0)',
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  compact-compiler --skip-zk +0.25.0          # Use specific version',
+      expect(help).toContain('\nOptions:\n');
+      expect(help).toMatch(
+        /\n {6}--dir <directory> +Compile a directory of the source directory/,
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith('\nTurbo integration:');
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  turbo compact                               # Full build',
+      expect(help).toMatch(
+        /\n {6}--skip-zk +Skip zero-knowledge proof generation/,
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  turbo compact:security -- --skip-zk         # Directory with flags',
+      expect(help).toMatch(/\n {2}-j, --jobs <n\|auto> +Compile up to n files/);
+      expect(help).toContain('\nExamples:\n');
+      expect(help).toMatch(/\n {2}compact-compiler +# Compile all files/);
+      expect(help).toMatch(
+        /\n {2}compact-compiler --dir access --dir token +# Compile two directories/,
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
-        '  SKIP_ZK=true turbo compact                  # Environment variables',
+      expect(help).toMatch(
+        /\n {2}turbo compact:security -- --skip-zk +# Turbo task with flags/,
       );
     });
   });
@@ -399,7 +1055,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        [],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
 
     it('should handle turbo compact:security', async () => {
@@ -407,7 +1068,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(['--dir', 'security']);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
 
     it('should handle turbo compact:access -- --skip-zk', async () => {
@@ -415,11 +1081,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'access',
-        '--skip-zk',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'access', '--skip-zk'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
 
     it('should handle version specification', async () => {
@@ -427,7 +1094,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(['+0.25.0', '--skip-zk']);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['+0.25.0', '--skip-zk'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
 
     it('should handle complex command', async () => {
@@ -443,13 +1115,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([
-        '--dir',
-        'security',
-        '--skip-zk',
-        '--verbose',
-        '+0.25.0',
-      ]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        ['--dir', 'security', '--skip-zk', '+0.25.0'],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
   });
 
@@ -461,7 +1132,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith(args);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        args,
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
       expect(mockFromArgs).toHaveBeenCalledTimes(1);
       expect(mockCompile).toHaveBeenCalledTimes(1);
     });
@@ -472,7 +1148,12 @@ describe('runCompiler CLI', () => {
 
       await import('../src/runCompiler.js');
 
-      expect(mockFromArgs).toHaveBeenCalledWith([]);
+      expect(mockFromArgs).toHaveBeenCalledWith(
+        [],
+        process.env,
+        mockConfig,
+        expect.any(AbortSignal),
+      );
     });
   });
 });
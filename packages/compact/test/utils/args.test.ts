@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UsageError } from '../../src/types/errors.js';
+import {
+  type CommandSpec,
+  formatHelp,
+  parseArgs,
+  printHelpOrVersion,
+} from '../../src/utils/args.js';
+
+const command: CommandSpec = {
+  name: 'tool',
+  version: () => '1.2.3',
+  usage: ['[options] [file...]', 'init  Create a config'],
+  description: 'Does things.',
+  options: [
+    {
+      name: '--dir',
+      value: '<dir>',
+      requires: 'a directory name',
+      description: 'Directory',
+    },
+    { name: '--jobs', alias: '-j', value: '<n>', description: 'Parallel jobs' },
+    {
+      name: '--include',
+      value: '<glob...>',
+      variadic: true,
+      description: 'Globs',
+    },
+    {
+      name: '--format',
+      value: '<json|dot>',
+      choices: ['json', 'dot'],
+      requires: 'a format (json or dot)',
+      description: 'Format',
+    },
+    { name: '--skip-zk', compactc: true, description: 'Skip proofs' },
+    { name: '--help', alias: '-h', description: 'Print this help' },
+    { name: '--version', description: 'Print the version' },
+  ],
+  args: [['file...', 'Files']],
+  examples: [
+    ['tool', 'Everything'],
+    ['tool --dir token', 'One directory'],
+  ],
+  exitCodes: [
+    ['1', 'Failure'],
+    ['130/143', 'Cancelled'],
+  ],
+};
+
+describe('parseArgs', () => {
+  it('should parse flags, values, positionals and the version', () => {
+    const parsed = parseArgs(command, [
+      'a.compact',
+      '--skip-zk',
+      '-j',
+      '4',
+      '+0.25.0',
+      'b.compact',
+    ]);
+
+    expect(parsed.flags).toEqual(new Set(['--skip-zk']));
+    expect(parsed.values).toEqual(new Map([['--jobs', ['4']]]));
+    expect(parsed.positionals).toEqual(['a.compact', 'b.compact']);
+    expect(parsed.version).toBe('0.25.0');
+    expect(parsed.passthrough).toEqual([]);
+  });
+
+  it('should collect every value of a repeated option', () => {
+    const { values } = parseArgs(command, ['--dir', 'a', '--dir', 'b']);
+
+    expect(values.get('--dir')).toEqual(['a', 'b']);
+  });
+
+  it('should stop variadic options at the next option or version', () => {
+    const parsed = parseArgs(command, [
+      '--include',
+      'token/**',
+      'utils/*',
+      '+0.26.0',
+      'x.compact',
+    ]);
+
+    expect(parsed.values.get('--include')).toEqual(['token/**', 'utils/*']);
+    expect(parsed.version).toBe('0.26.0');
+    expect(parsed.positionals).toEqual(['x.compact']);
+  });
+
+  it('should pass every argument after -- through', () => {
+    const parsed = parseArgs(command, ['--skip-zk', '--', '--vscode', '--dir']);
+
+    expect(parsed.flags).toEqual(new Set(['--skip-zk']));
+    expect(parsed.passthrough).toEqual(['--vscode', '--dir']);
+  });
+
+  it('should accept values given with =', () => {
+    const { values } = parseArgs(command, [
+      '--dir=token',
+      '--include=token/**',
+      'utils/*',
+      '-j',
+      '2',
+    ]);
+
+    expect(values.get('--dir')).toEqual(['token']);
+    expect(values.get('--include')).toEqual(['token/**', 'utils/*']);
+    expect(values.get('--jobs')).toEqual(['2']);
+  });
+
+  it.each([
+    [['--dir'], '--dir flag requires a directory name'],
+    [['--dir='], '--dir flag requires a directory name'],
+    [['--skip-zk=true'], '--skip-zk flag does not take a value'],
+    [['--dir', '--skip-zk'], '--dir flag requires a directory name'],
+    [['--jobs'], '--jobs flag requires a value'],
+    [['--format', 'xml'], '--format flag requires a format (json or dot)'],
+  ])('should reject %j', (args, message) => {
+    expect(() => parseArgs(command, args)).toThrow(message);
+  });
+
+  it('should suggest the closest option for a typo', () => {
+    expect(() => parseArgs(command, ['--skipzk'])).toThrow(
+      'Unknown option --skipzk. Did you mean --skip-zk?',
+    );
+    expect(() => parseArgs(command, ['--dirs', 'a'])).toThrow(
+      'Unknown option --dirs. Did you mean --dir?',
+    );
+  });
+
+  it('should explain how to pass other options to compactc', () => {
+    expect(() => parseArgs(command, ['--vscode'])).toThrow(
+      'Unknown option --vscode. Pass compactc flags after "--", e.g. tool -- --vscode',
+    );
+  });
+
+  it('should throw usage errors', () => {
+    for (const args of [['--dir'], ['--vscode'], ['--skipzk']]) {
+      expect(() => parseArgs(command, args)).toThrow(UsageError);
+    }
+  });
+});
+
+describe('formatHelp', () => {
+  it('should render every section with aligned columns', () => {
+    expect(formatHelp(command)).toBe(
+      [
+        'Usage: tool [options] [file...]',
+        '       tool init  Create a config',
+        '',
+        'Does things.',
+        '',
+        'Arguments:',
+        '  file...  Files',
+        '',
+        'Options:',
+        '      --dir <dir>          Directory',
+        '  -j, --jobs <n>           Parallel jobs',
+        '      --include <glob...>  Globs',
+        '      --format <json|dot>  Format',
+        '      --skip-zk            Skip proofs',
+        '  -h, --help               Print this help',
+        '      --version            Print the version',
+        '',
+        'Examples:',
+        '  tool              # Everything',
+        '  tool --dir token  # One directory',
+        '',
+        'Exit codes:',
+        '  1        Failure',
+        '  130/143  Cancelled',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('printHelpOrVersion', () => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  afterEach(() => {
+    log.mockClear();
+  });
+
+  it('should print the help', () => {
+    expect(printHelpOrVersion(command, ['--dir', 'a', '-h'])).toBe(true);
+    expect(log).toHaveBeenCalledWith(formatHelp(command));
+  });
+
+  it('should print the version', () => {
+    expect(printHelpOrVersion(command, ['--version'])).toBe(true);
+    expect(log).toHaveBeenCalledWith('tool 1.2.3');
+  });
+
+  it('should print nothing otherwise', () => {
+    expect(printHelpOrVersion(command, ['--skip-zk'])).toBe(false);
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('should not mistake compactc flags for its own', () => {
+    expect(printHelpOrVersion(command, ['--', '--version'])).toBe(false);
+  });
+});
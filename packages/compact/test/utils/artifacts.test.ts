@@ -0,0 +1,103 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  findArtifactCollisions,
+  findArtifactDirs,
+  getArtifactDir,
+  isArtifactLayout,
+} from '../../src/utils/artifacts.js';
+
+describe('getArtifactDir', () => {
+  it('should flatten artifacts by default', () => {
+    expect(
+      getArtifactDir('token/test/mocks/MockToken.compact', 'artifacts'),
+    ).toBe('artifacts/MockToken');
+  });
+
+  it('should mirror the source directory structure', () => {
+    expect(
+      getArtifactDir(
+        'token/test/mocks/MockToken.compact',
+        'artifacts',
+        'mirror',
+      ),
+    ).toBe('artifacts/token/test/mocks/MockToken');
+    expect(getArtifactDir('Token.compact', 'artifacts', 'mirror')).toBe(
+      'artifacts/Token',
+    );
+  });
+});
+
+describe('findArtifactCollisions', () => {
+  const files = [
+    'token/test/mocks/Foo.compact',
+    'access/test/mocks/Foo.compact',
+    'token/Token.compact',
+  ];
+
+  it('should report sources sharing an artifact directory', () => {
+    expect(findArtifactCollisions(files, 'artifacts')).toEqual([
+      {
+        outputDir: 'artifacts/Foo',
+        files: [
+          'access/test/mocks/Foo.compact',
+          'token/test/mocks/Foo.compact',
+        ],
+      },
+    ]);
+  });
+
+  it('should not report collisions with the mirror layout', () => {
+    expect(findArtifactCollisions(files, 'artifacts', 'mirror')).toEqual([]);
+  });
+});
+
+describe('isArtifactLayout', () => {
+  it('should accept the supported layouts only', () => {
+    expect(isArtifactLayout('flat')).toBe(true);
+    expect(isArtifactLayout('mirror')).toBe(true);
+    expect(isArtifactLayout('nested')).toBe(false);
+  });
+});
+
+describe('findArtifactDirs', () => {
+  let artifactsDir: string;
+
+  const writeArtifact = async (dir: string) => {
+    await mkdir(join(artifactsDir, dir, 'contract'), { recursive: true });
+    await writeFile(join(artifactsDir, dir, 'contract', 'index.cjs'), '');
+  };
+
+  beforeEach(async () => {
+    artifactsDir = await mkdtemp(join(tmpdir(), 'compact-artifacts-'));
+    await writeArtifact('Token');
+    await writeArtifact('token/Ownable');
+    await writeArtifact('.matrix/0.25.0/Token');
+    await writeArtifact('release/Token');
+    await writeFile(join(artifactsDir, 'release', 'manifest.json'), '{}');
+    await writeFile(join(artifactsDir, 'manifest.json'), '{}');
+  });
+
+  afterEach(async () => {
+    await rm(artifactsDir, { recursive: true, force: true });
+  });
+
+  it('should find the direct children holding artifacts in the flat layout', async () => {
+    expect(await findArtifactDirs(artifactsDir)).toEqual([
+      join(artifactsDir, 'Token'),
+    ]);
+  });
+
+  it('should search the tree in the mirror layout, skipping other artifact roots', async () => {
+    expect(await findArtifactDirs(artifactsDir, 'mirror')).toEqual([
+      join(artifactsDir, 'Token'),
+      join(artifactsDir, 'token', 'Ownable'),
+    ]);
+  });
+
+  it('should find nothing in a missing directory', async () => {
+    expect(await findArtifactDirs(join(artifactsDir, 'missing'))).toEqual([]);
+  });
+});
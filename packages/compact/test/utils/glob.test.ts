@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findMatchingGlob,
+  globToRegExp,
+  matchesGlob,
+} from '../../src/utils/glob.js';
+
+describe('globToRegExp', () => {
+  it('should match single segments with *', () => {
+    const regExp = globToRegExp('token/*.compact');
+
+    expect(regExp.test('token/FungibleToken.compact')).toBe(true);
+    expect(regExp.test('token/test/MockToken.compact')).toBe(false);
+  });
+
+  it('should match any number of segments with **', () => {
+    const regExp = globToRegExp('**/Mock*.compact');
+
+    expect(regExp.test('MockToken.compact')).toBe(true);
+    expect(regExp.test('token/test/mocks/MockToken.compact')).toBe(true);
+    expect(regExp.test('token/Token.compact')).toBe(false);
+  });
+
+  it('should support ? and {a,b} alternatives', () => {
+    const regExp = globToRegExp('{access,security}/?wnable.compact');
+
+    expect(regExp.test('access/Ownable.compact')).toBe(true);
+    expect(regExp.test('security/Ownable.compact')).toBe(true);
+    expect(regExp.test('token/Ownable.compact')).toBe(false);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('a.compact').test('abcompact')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match files below a matching directory', () => {
+    expect(matchesGlob('archive/ShieldedToken.compact', ['archive'])).toBe(
+      true,
+    );
+    expect(matchesGlob('archive/ShieldedToken.compact', ['archive/'])).toBe(
+      true,
+    );
+    expect(matchesGlob('token/archive.compact', ['archive'])).toBe(false);
+  });
+
+  it('should match if any pattern matches', () => {
+    expect(matchesGlob('token/Token.compact', ['archive', 'token/**'])).toBe(
+      true,
+    );
+    expect(matchesGlob('token/Token.compact', [])).toBe(false);
+  });
+});
+
+describe('findMatchingGlob', () => {
+  it('should return the first matching pattern', () => {
+    expect(
+      findMatchingGlob('token/test/MockToken.compact', [
+        'access',
+        '**/Mock*.compact',
+        'token',
+      ]),
+    ).toBe('**/Mock*.compact');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findMatchingGlob('token/Token.compact', ['access'])).toBeUndefined();
+  });
+});
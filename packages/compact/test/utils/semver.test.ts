@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isToolchainVersion,
+  isVersionRange,
+  parseVersion,
+  satisfies,
+} from '../../src/utils/semver.js';
+
+describe('parseVersion', () => {
+  it('should extract the version from version output', () => {
+    expect(parseVersion('Compactc version: 0.25.0')).toBe('0.25.0');
+    expect(parseVersion('compact 0.2.0\n')).toBe('0.2.0');
+  });
+
+  it('should return undefined without a version', () => {
+    expect(parseVersion('unknown')).toBeUndefined();
+  });
+});
+
+describe('satisfies', () => {
+  it('should check comparators', () => {
+    expect(satisfies('0.25.0', '>= 0.17.0')).toBe(true);
+    expect(satisfies('0.16.1', '>=0.17.0')).toBe(false);
+    expect(satisfies('0.25.0', '>0.25.0')).toBe(false);
+    expect(satisfies('0.25.0', '0.25.0')).toBe(true);
+    expect(satisfies('0.25.1', '=0.25.0')).toBe(false);
+  });
+
+  it('should require every comparator of an alternative', () => {
+    expect(satisfies('0.26.0', '>=0.25.0 <0.27.0')).toBe(true);
+    expect(satisfies('0.27.0', '>=0.25.0 <0.27.0')).toBe(false);
+    expect(satisfies('0.16.0', '>= 0.14.0 && <= 0.16.0')).toBe(true);
+  });
+
+  it('should accept any alternative', () => {
+    expect(satisfies('0.24.0', '0.24.0 || >=0.26.0')).toBe(true);
+    expect(satisfies('0.25.0', '0.24.0 || >=0.26.0')).toBe(false);
+  });
+
+  it('should expand caret and tilde ranges', () => {
+    expect(satisfies('0.25.3', '^0.25.0')).toBe(true);
+    expect(satisfies('0.26.0', '^0.25.0')).toBe(false);
+    expect(satisfies('1.4.0', '^1.2')).toBe(true);
+    expect(satisfies('1.2.9', '~1.2.0')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.0')).toBe(false);
+  });
+
+  it('should reject malformed versions and ranges', () => {
+    expect(() => satisfies('latest', '>=0.25.0')).toThrow(
+      'Invalid version "latest"',
+    );
+    expect(() => satisfies('0.25.0', '>= latest')).toThrow(
+      'Invalid version range ">= latest"',
+    );
+  });
+});
+
+describe('isToolchainVersion', () => {
+  it('should accept only major.minor.patch versions', () => {
+    expect(isToolchainVersion('0.25.0')).toBe(true);
+    expect(isToolchainVersion('0.25')).toBe(false);
+    expect(isToolchainVersion('0.25.0 --help')).toBe(false);
+  });
+});
+
+describe('isVersionRange', () => {
+  it('should validate ranges', () => {
+    expect(isVersionRange('>=0.25.0 <0.27.0')).toBe(true);
+    expect(isVersionRange('')).toBe(false);
+    expect(isVersionRange('0.25.0 ||')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  listenForTermination,
+  type Termination,
+} from '../../src/utils/signals.js';
+
+describe('listenForTermination', () => {
+  let termination: Termination | undefined;
+
+  afterEach(() => {
+    termination?.dispose();
+  });
+
+  it('should not abort before a signal is received', () => {
+    termination = listenForTermination();
+
+    expect(termination.signal.aborted).toBe(false);
+    expect(termination.received).toBeUndefined();
+    expect(termination.exitCode).toBeUndefined();
+  });
+
+  it.each([
+    ['SIGINT', 130],
+    ['SIGTERM', 143],
+  ] as const)('should abort on %s and exit with %i', (name, exitCode) => {
+    termination = listenForTermination();
+
+    process.emit(name);
+
+    expect(termination.signal.aborted).toBe(true);
+    expect(termination.signal.reason).toMatchObject({
+      name: 'AbortError',
+      message: `Received ${name}`,
+    });
+    expect(termination.received).toBe(name);
+    expect(termination.exitCode).toBe(exitCode);
+  });
+
+  it('should keep the first signal received', () => {
+    termination = listenForTermination();
+
+    process.emit('SIGTERM');
+    process.emit('SIGINT');
+
+    expect(termination.received).toBe('SIGTERM');
+    expect(termination.exitCode).toBe(143);
+  });
+
+  it('should stop listening once disposed', () => {
+    const before = process.listenerCount('SIGINT');
+    termination = listenForTermination();
+    expect(process.listenerCount('SIGINT')).toBe(before + 1);
+
+    termination.dispose();
+
+    expect(process.listenerCount('SIGINT')).toBe(before);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatCommand, quoteArg, spawnAsync } from '../../src/utils/spawn.js';
+
+/** Runs a Node.js script as a child process */
+const node = (script: string, ...args: string[]) =>
+  [process.execPath, ['-e', script, ...args]] as const;
+
+describe('quoteArg', () => {
+  it('should leave safe arguments unquoted', () => {
+    expect(quoteArg('src/token/Token.compact')).toBe('src/token/Token.compact');
+    expect(quoteArg('+0.25.0')).toBe('+0.25.0');
+    expect(quoteArg('--skip-zk')).toBe('--skip-zk');
+  });
+
+  it('should single-quote arguments with shell metacharacters', () => {
+    expect(quoteArg('My Token.compact')).toBe(`'My Token.compact'`);
+    expect(quoteArg(`it's "$HOME"`)).toBe(`'it'\\''s "$HOME"'`);
+    expect(quoteArg('')).toBe(`''`);
+  });
+});
+
+describe('formatCommand', () => {
+  it('should join the command and its quoted arguments', () => {
+    expect(formatCommand('compact', ['compile', 'src/A B.compact'])).toBe(
+      `compact compile 'src/A B.compact'`,
+    );
+  });
+});
+
+describe('spawnAsync', () => {
+  it('should pass arguments verbatim, without a shell', async () => {
+    const arg = `src/it's "$HOME" $(id).compact`;
+
+    const { stdout } = await spawnAsync(
+      ...node('process.stdout.write(process.argv[1])', arg),
+    );
+
+    expect(stdout).toBe(arg);
+  });
+
+  it('should stream every line of stdout and stderr', async () => {
+    const onLine = vi.fn();
+
+    const output = await spawnAsync(
+      ...node(
+        `process.stdout.write('one\\ntw'); setTimeout(() => { process.stdout.write('o\\r\\nthree'); process.stderr.write('warning\\n'); }, 10);`,
+      ),
+      { onLine },
+    );
+
+    expect(output).toEqual({
+      stdout: 'one\ntwo\r\nthree',
+      stderr: 'warning\n',
+    });
+    expect(onLine.mock.calls).toEqual([
+      ['one', 'stdout'],
+      ['two', 'stdout'],
+      ['warning', 'stderr'],
+      ['three', 'stdout'],
+    ]);
+  });
+
+  it('should not limit the size of the output', async () => {
+    const { stdout } = await spawnAsync(
+      ...node(`process.stdout.write('x'.repeat(4 * 1024 * 1024))`),
+    );
+
+    expect(stdout).toHaveLength(4 * 1024 * 1024);
+  });
+
+  it('should reject with the output and exit code when the process fails', async () => {
+    const error = await spawnAsync(
+      ...node(
+        `process.stdout.write('out'); process.stderr.write('bad'); process.exit(2)`,
+      ),
+    ).catch((err) => err);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toMatch(/^Command failed \(exit code 2\): .+\nbad$/);
+    expect(error).toMatchObject({ code: 2, stdout: 'out', stderr: 'bad' });
+  });
+
+  it('should reject when the command does not exist', async () => {
+    const error = await spawnAsync('compact-command-that-does-not-exist', [
+      '--version',
+    ]).catch((err) => err);
+
+    expect(error).toMatchObject({ code: 'ENOENT', stdout: '', stderr: '' });
+  });
+
+  it('should kill the process when the signal aborts', async () => {
+    const controller = new AbortController();
+    const spawned = spawnAsync(
+      ...node(`console.log('started'); setTimeout(() => {}, 60_000)`),
+      {
+        signal: controller.signal,
+        onLine: () => controller.abort(),
+      },
+    );
+
+    const error = await spawned.catch((err) => err);
+
+    expect(error.name).toBe('AbortError');
+    expect(error.stdout).toBe('started\n');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { runWithConcurrency } from '../../src/utils/workerPool.js';
+
+/** Resolves after the given number of milliseconds */
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('runWithConcurrency', () => {
+  it('should process every item with its index', async () => {
+    const seen: [string, number][] = [];
+
+    await runWithConcurrency(['a', 'b', 'c'], 2, async (item, index) => {
+      seen.push([item, index]);
+    });
+
+    expect(seen.sort()).toEqual([
+      ['a', 0],
+      ['b', 1],
+      ['c', 2],
+    ]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6], 3, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active--;
+    });
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should run sequentially in order with a concurrency of 1', async () => {
+    const order: number[] = [];
+
+    await runWithConcurrency([3, 1, 2], 1, async (item) => {
+      await delay(item);
+      order.push(item);
+    });
+
+    expect(order).toEqual([3, 1, 2]);
+  });
+
+  it('should treat a concurrency below 1 as 1', async () => {
+    const order: number[] = [];
+
+    await runWithConcurrency([1, 2], 0, async (item) => {
+      order.push(item);
+    });
+
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('should stop scheduling new items once shouldStop returns true', async () => {
+    const started: number[] = [];
+    let stop = false;
+
+    await runWithConcurrency(
+      [0, 1, 2, 3, 4],
+      2,
+      async (item) => {
+        started.push(item);
+        await delay(5);
+        if (item === 1) stop = true;
+      },
+      () => stop,
+    );
+
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('should let in-flight workers settle before rejecting', async () => {
+    let slowFinished = false;
+
+    await expect(
+      runWithConcurrency(['fail', 'slow'], 2, async (item) => {
+        if (item === 'fail') throw new Error('boom');
+        await delay(10);
+        slowFinished = true;
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(slowFinished).toBe(true);
+  });
+
+  it('should resolve immediately for an empty list', async () => {
+    await expect(
+      runWithConcurrency([], 4, async () => {}),
+    ).resolves.toBeUndefined();
+  });
+});